@@ -0,0 +1,432 @@
+/**
+ * Battle Machine Tests
+ *
+ * Tests the battle child actor through a minimal parent machine:
+ * - Squad deployment and battle start
+ * - Ticks drive the simulation and mirror state to the parent
+ * - Victory / defeat end the actor with a BattleResult
+ * - Retreat countdown (RETREAT_COUNTDOWN_SECONDS)
+ * - Resuming a battle already in progress
+ * - Recording seeded fights as replays
+ *
+ * Per DOMAIN-COMBAT.md Battle Flow and Retreat, TODO-COMBAT.md 3.2.
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { setup, assign, createActor, type Actor } from 'xstate';
+import type { GameEvent } from '../../../types/events';
+import type { CombatState } from '../../../types/combat';
+import { BattlePhase } from '../../../types/combat';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockEnemy,
+  createMockLocation,
+  createMockZombie,
+} from '../test-utils/combatTestHelpers';
+import { getReplayStateAt } from '../services/battleReplay';
+import { battleMachine, type BattleMachineEvent, type BattleMachineInput } from '../battleMachine';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parent that invokes the battle machine and records what it sends back
+ */
+const parentMachine = setup({
+  types: {
+    context: {} as { input: BattleMachineInput; received: GameEvent[] },
+    events: {} as GameEvent,
+    input: {} as BattleMachineInput,
+  },
+  actors: { battleMachine },
+}).createMachine({
+  context: ({ input }) => ({ input, received: [] }),
+  invoke: {
+    id: 'battle',
+    src: 'battleMachine',
+    input: ({ context }) => context.input,
+  },
+  on: {
+    '*': {
+      actions: assign({
+        received: ({ context, event }) => [...context.received, event],
+      }),
+    },
+  },
+});
+
+let parent: Actor<typeof parentMachine>;
+
+function startParent(input: BattleMachineInput): Actor<typeof parentMachine> {
+  parent = createActor(parentMachine, { input });
+  parent.start();
+  return parent;
+}
+
+function getBattle() {
+  const battle = parent.getSnapshot().children.battle;
+  if (!battle) {
+    throw new Error('battle actor not running');
+  }
+  return battle;
+}
+
+function send(event: BattleMachineEvent): void {
+  getBattle().send(event);
+}
+
+function tick(battleId: string, seconds: number): void {
+  for (let i = 0; i < seconds * 10; i++) {
+    send({ type: 'battle.tick', payload: { battleId, deltaMs: 100 } });
+  }
+}
+
+function received(type: GameEvent['type']): GameEvent[] {
+  return parent.getSnapshot().context.received.filter((event) => event.type === type);
+}
+
+function lastMirroredState(): CombatState | undefined {
+  const updates = received('battle.updated');
+  const last = updates[updates.length - 1];
+  return last?.type === 'battle.updated' ? last.payload.state : undefined;
+}
+
+function endedResult() {
+  const [ended] = received('battle.ended');
+  return ended?.type === 'battle.ended' ? ended.payload.result : undefined;
+}
+
+/** One strong zombie next to one weak enemy */
+function createWinnableBattle(overrides?: Partial<CombatState>): CombatState {
+  return createMockBattle({
+    battleId: 'battle-1',
+    phase: BattlePhase.PREPARATION,
+    playerSquad: [
+      createMockCombatUnit({
+        id: 'z1',
+        position: { x: 100, y: 500 },
+        stats: { ...createMockCombatUnit().stats, attack: 100 },
+      }),
+    ],
+    enemies: [
+      createMockEnemy({
+        id: 'e1',
+        position: { x: 110, y: 500 },
+        stats: { ...createMockEnemy().stats, hp: 10, maxHp: 10 },
+      }),
+    ],
+    ...overrides,
+  });
+}
+
+/** Both sides stand still out of range so nothing dies */
+function createStandoffBattle(): CombatState {
+  return createMockBattle({
+    battleId: 'battle-1',
+    phase: BattlePhase.ACTIVE,
+    playerSquad: [
+      createMockCombatUnit({
+        id: 'z1',
+        position: { x: 100, y: 500 },
+        stats: { ...createMockCombatUnit().stats, speed: 0 },
+      }),
+    ],
+    enemies: [
+      createMockEnemy({
+        id: 'e1',
+        position: { x: 1800, y: 500 },
+        stats: { ...createMockEnemy().stats, speed: 0 },
+      }),
+    ],
+  });
+}
+
+afterEach(() => {
+  parent.stop();
+});
+
+// ============================================================================
+// PREPARATION
+// ============================================================================
+
+describe('battleMachine preparation', () => {
+  it('starts in preparation for a new battle', () => {
+    startParent({ combat: createWinnableBattle() });
+
+    expect(getBattle().getSnapshot().value).toBe('preparation');
+  });
+
+  it('deploys the selected zombies from the roster', () => {
+    const location = createMockLocation();
+    const roster = [createMockZombie({ id: 'z1' }), createMockZombie({ id: 'z2' })];
+    startParent({
+      combat: createMockBattle({
+        battleId: 'battle-1',
+        phase: BattlePhase.PREPARATION,
+        playerSquad: [],
+        enemies: [],
+      }),
+      location,
+      roster,
+    });
+
+    send({ type: 'battle.squadSelected', payload: { battleId: 'battle-1', zombieIds: ['z2'] } });
+
+    const state = lastMirroredState();
+    expect(state?.battleId).toBe('battle-1');
+    expect(state?.playerSquad.map((unit) => unit.id)).toEqual(['z2']);
+    expect(state?.enemies.length).toBeGreaterThan(0);
+  });
+
+  it('deploys in slot order with slot 1 leading the chosen formation', () => {
+    const roster = ['z1', 'z2', 'z3'].map((id) => createMockZombie({ id }));
+    startParent({
+      combat: createMockBattle({
+        battleId: 'battle-1',
+        phase: BattlePhase.PREPARATION,
+        playerSquad: [],
+        enemies: [],
+      }),
+      location: createMockLocation(),
+      roster,
+    });
+
+    send({
+      type: 'battle.squadSelected',
+      payload: { battleId: 'battle-1', zombieIds: ['z3', 'z1', 'z2'], formation: 'wedge' },
+    });
+
+    const squad = lastMirroredState()?.playerSquad ?? [];
+    expect(squad.map((unit) => unit.id)).toEqual(['z3', 'z1', 'z2']);
+    expect(squad.slice(1).every((unit) => unit.position.x < (squad[0]?.position.x ?? 0))).toBe(
+      true
+    );
+  });
+
+  it('rejects a formation with too few slots for the squad', () => {
+    startParent({
+      combat: createMockBattle({
+        battleId: 'battle-1',
+        phase: BattlePhase.PREPARATION,
+        playerSquad: [],
+        enemies: [],
+      }),
+      location: createMockLocation(),
+      roster: [createMockZombie({ id: 'z1' }), createMockZombie({ id: 'z2' })],
+    });
+
+    send({
+      type: 'battle.squadSelected',
+      payload: {
+        battleId: 'battle-1',
+        zombieIds: ['z1', 'z2'],
+        formation: { id: 'solo', name: 'Solo', slots: [{ lane: 0, row: 0 }] },
+      },
+    });
+
+    expect(lastMirroredState()).toBeUndefined();
+  });
+
+  it('does not start without combatants', () => {
+    startParent({ combat: createWinnableBattle({ playerSquad: [] }) });
+
+    send({ type: 'battle.started', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    expect(getBattle().getSnapshot().value).toBe('preparation');
+  });
+
+  it('resumes a battle already in progress', () => {
+    startParent({ combat: createStandoffBattle() });
+
+    expect(getBattle().getSnapshot().value).toEqual({ active: 'fighting' });
+  });
+});
+
+// ============================================================================
+// ACTIVE
+// ============================================================================
+
+describe('battleMachine active', () => {
+  it('activates the battle on battle.started', () => {
+    startParent({ combat: createWinnableBattle() });
+
+    send({ type: 'battle.started', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    expect(getBattle().getSnapshot().value).toEqual({ active: 'fighting' });
+    expect(lastMirroredState()?.phase).toBe(BattlePhase.ACTIVE);
+  });
+
+  it('advances the simulation on each tick', () => {
+    startParent({ combat: createStandoffBattle() });
+
+    tick('battle-1', 1);
+
+    expect(lastMirroredState()?.battleDuration).toBeCloseTo(1);
+  });
+
+  it('ignores ticks for other battles', () => {
+    startParent({ combat: createStandoffBattle() });
+
+    send({ type: 'battle.tick', payload: { battleId: 'other', deltaMs: 100 } });
+
+    expect(received('battle.updated')).toHaveLength(0);
+  });
+
+  it('sends a victory BattleResult to the parent and stops', () => {
+    startParent({ combat: createWinnableBattle(), random: () => 0.5 });
+    send({ type: 'battle.started', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    tick('battle-1', 1);
+
+    expect(endedResult()?.victory).toBe(true);
+    expect(endedResult()?.survivors).toEqual(['z1']);
+    expect(getBattle().getSnapshot().status).toBe('done');
+  });
+
+  it('sends a defeat BattleResult when the squad is wiped out', () => {
+    const battle = createWinnableBattle({
+      playerSquad: [
+        createMockCombatUnit({
+          id: 'z1',
+          position: { x: 100, y: 500 },
+          stats: { ...createMockCombatUnit().stats, hp: 1, attack: 1 },
+        }),
+      ],
+      enemies: [
+        createMockEnemy({
+          id: 'e1',
+          position: { x: 110, y: 500 },
+          stats: { ...createMockEnemy().stats, attack: 100 },
+        }),
+      ],
+    });
+    startParent({ combat: battle, random: () => 0.5 });
+    send({ type: 'battle.started', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    tick('battle-1', 2);
+
+    expect(endedResult()?.victory).toBe(false);
+    expect(endedResult()?.casualties).toEqual(['z1']);
+  });
+});
+
+// ============================================================================
+// RETREAT
+// ============================================================================
+
+describe('battleMachine retreat', () => {
+  it('starts the retreat countdown', () => {
+    startParent({ combat: createStandoffBattle() });
+
+    send({ type: 'battle.retreatStarted', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    expect(getBattle().getSnapshot().value).toEqual({ active: 'retreating' });
+    expect(lastMirroredState()?.isRetreating).toBe(true);
+    expect(lastMirroredState()?.retreatCountdown).toBe(gameConfig.COMBAT.RETREAT_COUNTDOWN_SECONDS);
+  });
+
+  it('ends the battle as a retreat after the countdown', () => {
+    startParent({ combat: createStandoffBattle() });
+    send({ type: 'battle.retreatStarted', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    tick('battle-1', gameConfig.COMBAT.RETREAT_COUNTDOWN_SECONDS - 1);
+    expect(endedResult()).toBeUndefined();
+
+    tick('battle-1', 1);
+    expect(endedResult()?.victory).toBe(false);
+    expect(endedResult()?.survivors).toEqual(['z1']);
+  });
+
+  it('cannot retreat with no living zombies', () => {
+    const battle = createStandoffBattle();
+    startParent({
+      combat: {
+        ...battle,
+        playerSquad: battle.playerSquad.map((unit) => ({ ...unit, isDead: true })),
+      },
+    });
+
+    send({ type: 'battle.retreatStarted', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    expect(getBattle().getSnapshot().value).toEqual({ active: 'fighting' });
+  });
+});
+
+// ============================================================================
+// REPLAYS
+// ============================================================================
+
+describe('battleMachine replays', () => {
+  function endedReplay() {
+    const [ended] = received('battle.ended');
+    return ended?.type === 'battle.ended' ? ended.payload.replay : undefined;
+  }
+
+  it('records a seeded fight that replays to the same end state', () => {
+    startParent({
+      combat: createMockBattle({
+        battleId: 'battle-1',
+        phase: BattlePhase.PREPARATION,
+        playerSquad: [],
+        enemies: [],
+        rngSeed: 99,
+      }),
+      location: createMockLocation(),
+      roster: [createMockZombie({ id: 'z1' }), createMockZombie({ id: 'z2' })],
+    });
+    send({
+      type: 'battle.squadSelected',
+      payload: { battleId: 'battle-1', zombieIds: ['z1', 'z2'] },
+    });
+    send({ type: 'battle.started', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    tick('battle-1', 2);
+    send({ type: 'battle.retreatStarted', payload: { battleId: 'battle-1', timestamp: 0 } });
+    tick('battle-1', gameConfig.COMBAT.RETREAT_COUNTDOWN_SECONDS + 1);
+
+    const replay = endedReplay();
+    if (!replay) throw new Error('missing replay');
+    expect(replay.rngSeed).toBe(99);
+    expect(replay.events).toContainEqual({ type: 'retreat' });
+    const { replay: recording, ...endState } = lastMirroredState() ?? {};
+    expect(recording?.events).toEqual(replay.events);
+    expect(getReplayStateAt(replay, replay.duration)).toEqual(endState);
+  });
+
+  it('resumes the seeded rolls of a paused fight where they stopped', () => {
+    const tough = { ...createMockCombatUnit().stats, hp: 10_000, maxHp: 10_000 };
+    const combat = createMockBattle({
+      battleId: 'battle-1',
+      phase: BattlePhase.ACTIVE,
+      playerSquad: [createMockCombatUnit({ id: 'z1', position: { x: 100, y: 500 }, stats: tough })],
+      enemies: [createMockEnemy({ id: 'e1', position: { x: 110, y: 500 }, stats: tough })],
+      rngSeed: 7,
+    });
+    startParent({ combat });
+    tick('battle-1', 2);
+    const paused = lastMirroredState();
+    tick('battle-1', 2);
+    const uninterrupted = lastMirroredState();
+    parent.stop();
+
+    if (!paused) throw new Error('missing battle state');
+    startParent({ combat: paused });
+    tick('battle-1', 2);
+
+    expect(paused.rngState).toBeDefined();
+    expect(lastMirroredState()).toEqual(uninterrupted);
+  });
+
+  it('does not record battles without a seed', () => {
+    startParent({ combat: createWinnableBattle(), random: () => 0.5 });
+    send({ type: 'battle.started', payload: { battleId: 'battle-1', timestamp: 0 } });
+
+    tick('battle-1', 1);
+
+    expect(endedResult()?.victory).toBe(true);
+    expect(endedReplay()).toBeUndefined();
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Battle State Machine
+ *
+ * Child actor invoked by gameMachine's `combat` state. Owns the per-tick
+ * CombatState and drives it through the battle simulation.
+ *
+ * States: preparation, active (fighting | retreating), victory, defeat, retreat
+ * Context: CombatState, raided location, zombie roster for squad selection
+ * Events: battle.squadSelected, battle.started, battle.tick, battle.retreatStarted
+ *
+ * Every state change is mirrored to the parent with `battle.updated`, and the
+ * final BattleResult is sent with `battle.ended` when the fight is over.
+ *
+ * Seeded fights are recorded as they run (see services/battleReplay.ts) and
+ * the replay is sent along with the result. The recording travels on the
+ * battle state, so a paused battle keeps recording once resumed. Squad setup draws from its own
+ * stream so the fight's rolls start at the seed the replay rebuilds from.
+ * Each tick stores the position of the fight's sequence on the battle, so a
+ * paused battle resumes its rolls where they stopped.
+ *
+ * Per DOMAIN-COMBAT.md Battle Flow and Retreat, TODO-COMBAT.md 3.2.
+ */
+
+import { setup, assign, sendParent, and } from 'xstate';
+import type { GameEvent } from '../../types/events';
+import type { CombatState } from '../../types/combat';
+import { BattlePhase } from '../../types/combat';
+import type { Zombie } from '../../types/farm';
+import type { Location } from '../../types/world';
+import { createSeededRandom, resumeSeededRandom } from '../game/lib/gameRandom';
+import { initializeBattle } from './services/battleInitialization';
+import { validateFormation } from './services/formations';
+import { startBattle, startRetreat, stepBattle } from './services/battleSimulation';
+import { createBattleResult } from './services/battleResult';
+import {
+  finishReplay,
+  recordReplayRetreat,
+  recordReplayTick,
+  startReplay,
+} from './services/battleReplay';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Input provided by the parent when the battle actor is spawned
+ */
+export interface BattleMachineInput {
+  /** Battle to drive (a preparation shell or a resumed battle) */
+  combat: CombatState;
+
+  /** Location being raided (required for squad setup and waves) */
+  location?: Location;
+
+  /** Zombies the player may select for the squad */
+  roster?: ReadonlyArray<Zombie>;
+
+  /**
+   * Random source in [0, 1) for combat rolls (default: seeded from
+   * combat.rngSeed, resumed at combat.rngState, else Math.random)
+   */
+  random?: () => number;
+}
+
+/**
+ * Battle machine context
+ */
+export interface BattleMachineContext {
+  combat: CombatState;
+  location?: Location;
+  roster: ReadonlyArray<Zombie>;
+  random?: () => number;
+
+  /** Position of the seeded random source (stored on the battle each tick) */
+  getRngState?: () => number;
+}
+
+/**
+ * Events handled by the battle machine (forwarded from the game machine)
+ */
+export type BattleMachineEvent = Extract<
+  GameEvent,
+  { type: 'battle.squadSelected' | 'battle.started' | 'battle.tick' | 'battle.retreatStarted' }
+>;
+
+// ============================================================================
+// MACHINE DEFINITION
+// ============================================================================
+
+export const battleMachine = setup({
+  types: {
+    context: {} as BattleMachineContext,
+    events: {} as BattleMachineEvent,
+    input: {} as BattleMachineInput,
+  },
+  actions: {
+    /**
+     * Build the battlefield from the selected zombies
+     */
+    deploySquad: assign({
+      combat: ({ context, event }) => {
+        if (event.type !== 'battle.squadSelected' || !context.location) return context.combat;
+
+        const squad = getSelectedSquad(context.roster, event.payload.zombieIds);
+        const { rngSeed } = context.combat;
+        const battle = initializeBattle(
+          squad,
+          context.location,
+          event.payload.formation ?? 'line',
+          rngSeed !== undefined ? createSeededRandom(rngSeed) : context.random,
+          context.combat.startedAt
+        );
+
+        return {
+          ...battle,
+          battleId: context.combat.battleId,
+          rngSeed,
+        };
+      },
+    }),
+
+    /**
+     * Move from preparation to active combat
+     */
+    beginBattle: assign({
+      combat: ({ context }) => {
+        const combat = startBattle(context.combat);
+        return combat.rngSeed !== undefined
+          ? { ...combat, replay: startReplay(combat, combat.rngSeed, context.location) }
+          : combat;
+      },
+    }),
+
+    /**
+     * Advance the simulation by the tick's elapsed time
+     */
+    advanceBattle: assign({
+      combat: ({ context, event }) => {
+        if (event.type !== 'battle.tick') return context.combat;
+
+        const { deltaMs } = event.payload;
+        const combat = stepBattle(context.combat, deltaMs, {
+          location: context.location,
+          random: context.random,
+        });
+        return {
+          ...combat,
+          ...(context.getRngState ? { rngState: context.getRngState() } : {}),
+          ...(combat.replay ? { replay: recordReplayTick(combat.replay, deltaMs) } : {}),
+        };
+      },
+    }),
+
+    /**
+     * Start the retreat countdown; the battle ends when it reaches zero
+     */
+    beginRetreat: assign({
+      combat: ({ context }) => {
+        const combat = startRetreat(context.combat);
+        return combat.replay ? { ...combat, replay: recordReplayRetreat(combat.replay) } : combat;
+      },
+    }),
+
+    /**
+     * Mirror the current battle state to the game machine
+     */
+    syncParent: sendParent(
+      ({ context }): GameEvent => ({
+        type: 'battle.updated',
+        payload: { battleId: context.combat.battleId, state: context.combat },
+      })
+    ),
+
+    /**
+     * Report the final result to the game machine
+     */
+    reportResult: sendParent(
+      ({ context }): GameEvent => ({
+        type: 'battle.ended',
+        payload: {
+          battleId: context.combat.battleId,
+          result: createBattleResult(context.combat, context.location),
+          timestamp: context.combat.startedAt + Math.round(context.combat.battleDuration * 1000),
+          ...(context.combat.replay
+            ? { replay: finishReplay(context.combat.replay, context.combat) }
+            : {}),
+        },
+      })
+    ),
+  },
+  guards: {
+    /**
+     * Event targets this battle
+     */
+    isCurrentBattle: ({ context, event }) => {
+      return event.payload.battleId === context.combat.battleId;
+    },
+
+    /**
+     * Squad can be deployed for this battle
+     */
+    canDeploySquad: ({ context, event }) => {
+      if (
+        event.type !== 'battle.squadSelected' ||
+        context.location === undefined ||
+        event.payload.zombieIds.length === 0
+      ) {
+        return false;
+      }
+
+      const { formation } = event.payload;
+      return (
+        typeof formation !== 'object' ||
+        validateFormation(formation, event.payload.zombieIds.length).isValid
+      );
+    },
+
+    /**
+     * Battle has units on both sides
+     */
+    hasCombatants: ({ context }) => {
+      return context.combat.playerSquad.length > 0 && context.combat.enemies.length > 0;
+    },
+
+    /**
+     * Resumed battle already in progress
+     */
+    isInProgress: ({ context }) => {
+      return context.combat.phase === BattlePhase.ACTIVE;
+    },
+
+    /**
+     * Resumed battle already retreating
+     */
+    isRetreatInProgress: ({ context }) => {
+      return context.combat.phase === BattlePhase.ACTIVE && context.combat.isRetreating;
+    },
+
+    /**
+     * Retreat requires at least one living zombie (DOMAIN-COMBAT.md Retreat)
+     */
+    canRetreat: ({ context }) => {
+      return !context.combat.isRetreating && context.combat.playerSquad.some((z) => !z.isDead);
+    },
+
+    /**
+     * Terminal battle phases reached by the simulation
+     */
+    isVictory: ({ context }) => context.combat.phase === BattlePhase.VICTORY,
+    isDefeat: ({ context }) => context.combat.phase === BattlePhase.DEFEAT,
+    isRetreated: ({ context }) => context.combat.phase === BattlePhase.RETREAT,
+  },
+}).createMachine({
+  id: 'battle',
+  initial: 'preparation',
+  context: ({ input }) => {
+    const { rngSeed, rngState } = input.combat;
+    const seeded =
+      input.random === undefined && rngSeed !== undefined
+        ? resumeSeededRandom(rngSeed, rngState)
+        : undefined;
+
+    return {
+      combat: input.combat,
+      location: input.location,
+      roster: input.roster ?? [],
+      random: input.random ?? seeded?.random,
+      getRngState: seeded?.getState,
+    };
+  },
+  states: {
+    preparation: {
+      always: [
+        { target: 'active.retreating', guard: 'isRetreatInProgress' },
+        { target: 'active', guard: 'isInProgress' },
+      ],
+      on: {
+        'battle.squadSelected': {
+          guard: and(['isCurrentBattle', 'canDeploySquad']),
+          actions: ['deploySquad', 'syncParent'],
+        },
+        'battle.started': {
+          target: 'active',
+          guard: and(['isCurrentBattle', 'hasCombatants']),
+          actions: ['beginBattle', 'syncParent'],
+        },
+      },
+    },
+
+    active: {
+      initial: 'fighting',
+      always: [
+        { target: 'victory', guard: 'isVictory' },
+        { target: 'defeat', guard: 'isDefeat' },
+        { target: 'retreat', guard: 'isRetreated' },
+      ],
+      on: {
+        'battle.tick': {
+          guard: 'isCurrentBattle',
+          actions: ['advanceBattle', 'syncParent'],
+        },
+      },
+      states: {
+        fighting: {
+          on: {
+            'battle.retreatStarted': {
+              target: 'retreating',
+              guard: and(['isCurrentBattle', 'canRetreat']),
+              actions: ['beginRetreat', 'syncParent'],
+            },
+          },
+        },
+        retreating: {},
+      },
+    },
+
+    victory: {
+      type: 'final',
+      entry: 'reportResult',
+    },
+
+    defeat: {
+      type: 'final',
+      entry: 'reportResult',
+    },
+
+    retreat: {
+      type: 'final',
+      entry: 'reportResult',
+    },
+  },
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Roster zombies in the order they were selected (deployment slot order)
+ */
+function getSelectedSquad(
+  roster: ReadonlyArray<Zombie>,
+  zombieIds: ReadonlyArray<string>
+): Zombie[] {
+  return zombieIds.flatMap((id) => roster.filter((zombie) => zombie.id === id));
+}
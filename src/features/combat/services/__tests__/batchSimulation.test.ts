@@ -0,0 +1,135 @@
+/**
+ * Batch Simulation Tests
+ *
+ * Tests for the headless balance simulator:
+ * - Squads built from config stats, quality and level
+ * - Reproducible batch reports from a seed
+ * - Win rate, duration, casualties, damage and killers
+ * - Difficulty sweeps
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics and Battle Outcome.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ZombieQuality, ZombieType } from '../../../../types/farm';
+import { EnemyType } from '../../../../types/combat';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createMockLocation } from '../../test-utils/combatTestHelpers';
+import { createEnemy } from '../battleInitialization';
+import {
+  createSimulationSquad,
+  simulateBattleBatch,
+  sweepDifficulty,
+  type SquadMemberSpec,
+} from '../batchSimulation';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SQUAD: SquadMemberSpec[] = [
+  { type: ZombieType.SHAMBLER, count: 3 },
+  { type: ZombieType.RUNNER, quality: ZombieQuality.SILVER, level: 3, count: 2 },
+];
+
+const LOCATION = createMockLocation({
+  id: 'village-1',
+  difficulty: 1,
+  waves: 1,
+  fortifications: [],
+  enemies: [{ type: EnemyType.PEASANT, count: 3, wave: 1 }],
+});
+
+const OPTIONS = { battles: 4, seed: 42, maxDurationSeconds: 60 };
+
+// ============================================================================
+// SQUAD
+// ============================================================================
+
+describe('createSimulationSquad', () => {
+  it('builds each zombie from its type, quality and level', () => {
+    const squad = createSimulationSquad(SQUAD);
+    const shambler = gameConfig.ZOMBIES[ZombieType.SHAMBLER].baseStats;
+    const runner = squad[3];
+
+    expect(squad).toHaveLength(5);
+    expect(new Set(squad.map((z) => z.id)).size).toBe(5);
+    expect(squad[0]?.stats.maxHp).toBe(shambler.maxHp);
+    expect(runner?.level).toBe(3);
+    expect(runner?.quality).toBe(ZombieQuality.SILVER);
+    expect(runner?.stats.maxHp).toBeGreaterThan(
+      gameConfig.ZOMBIES[ZombieType.RUNNER].baseStats.maxHp
+    );
+  });
+});
+
+// ============================================================================
+// BATCHES
+// ============================================================================
+
+describe('simulateBattleBatch', () => {
+  const report = simulateBattleBatch(SQUAD, LOCATION, OPTIONS);
+
+  it('gives the same report for the same seed', () => {
+    expect(simulateBattleBatch(SQUAD, LOCATION, OPTIONS)).toEqual(report);
+  });
+
+  it('summarizes outcomes and durations', () => {
+    expect(report.battles).toBe(4);
+    expect(report.winRate).toBe(report.victories / report.battles);
+    expect(report.averageDuration).toBeGreaterThan(0);
+    expect(report.averageDuration).toBeLessThanOrEqual(60.1);
+  });
+
+  it('reports damage and kills by unit type', () => {
+    expect(report.damageDealtByType[ZombieType.SHAMBLER]).toBeGreaterThan(0);
+    expect(report.topKillers.length).toBeGreaterThan(0);
+
+    const kills = report.topKillers.map((killer) => killer.kills);
+    expect(kills).toEqual([...kills].sort((a, b) => b - a));
+  });
+
+  it('counts battles still running at the time limit as timeouts', () => {
+    const short = simulateBattleBatch(SQUAD, LOCATION, { ...OPTIONS, maxDurationSeconds: 0.5 });
+
+    expect(short.timeouts).toBe(4);
+    expect(short.victories).toBe(0);
+  });
+
+  it.each([
+    { tickMs: 0 },
+    { tickMs: -100 },
+    { tickMs: NaN },
+    { maxDurationSeconds: 0 },
+    { maxDurationSeconds: Infinity },
+    { battles: -1 },
+    { battles: 1.5 },
+  ])('rejects options that would never finish: %o', (invalid) => {
+    expect(() => simulateBattleBatch(SQUAD, LOCATION, { ...OPTIONS, ...invalid })).toThrow(
+      /Invalid/
+    );
+  });
+});
+
+// ============================================================================
+// DIFFICULTY
+// ============================================================================
+
+describe('sweepDifficulty', () => {
+  it('makes wave enemies stronger at higher difficulty', () => {
+    const spec = { type: EnemyType.PEASANT, count: 1, wave: 1 };
+
+    const easy = createEnemy(spec, 0, () => 0.5, 1);
+    const hard = createEnemy(spec, 0, () => 0.5, 5);
+
+    expect(hard.stats.maxHp).toBeGreaterThan(easy.stats.maxHp);
+    expect(hard.stats.attack).toBeGreaterThan(easy.stats.attack);
+  });
+
+  it('reports each difficulty in order without the win rate rising', () => {
+    const sweep = sweepDifficulty(SQUAD, LOCATION, [1, 10], OPTIONS);
+
+    expect(sweep.map((point) => point.difficulty)).toEqual([1, 10]);
+    expect(sweep[1]?.report.winRate).toBeLessThanOrEqual(sweep[0]?.report.winRate ?? 0);
+  });
+});
@@ -15,10 +15,15 @@ import { describe, it, expect } from '@jest/globals';
 import type { Zombie } from '../../../../types/farm';
 import type { Location, LocationEnemy } from '../../../../types/world';
 import type { CombatState, Enemy, Obstacle } from '../../../../types/combat';
+import type { Position } from '../../../../types/global';
 import { BattlePhase, EnemyType, UnitAIState } from '../../../../types/combat';
 import { ZombieType } from '../../../../types/farm';
 import { LocationType } from '../../../../types/world';
+import { ItemQuality } from '../../../../types/resources';
 import { createMockZombie, createMockLocation } from '../../test-utils/combatTestHelpers';
+import { createItem } from '../../../farm/services/equipment';
+import { findPath, getNavigationGrid, isWalkable } from '../pathfinding';
+import { BATTLEFIELD_TILE_SIZE } from '../targeting';
 
 // Import functions to test (these will be implemented after tests)
 import {
@@ -527,6 +532,19 @@ describe('initializeBattle', () => {
     expect(battleState.playerSquad[0].aiState).toBe(UnitAIState.IDLE);
   });
 
+  it('adds equipment bonuses to combat stats', () => {
+    const armor = createItem('boneMail', ItemQuality.COMMON, 'mail');
+    const squad = [
+      createMockZombie({
+        equipment: { weapon: null, armor: 'mail', accessory: null, items: armor ? [armor] : [] },
+      }),
+    ];
+
+    const battleState = initializeBattle(squad, createMockLocation());
+
+    expect(battleState.playerSquad[0]?.stats).toMatchObject({ hp: 120, maxHp: 120, defense: 16 });
+  });
+
   it('initializes battle log as empty', () => {
     const squad = [createMockZombie()];
     const location = createMockLocation();
@@ -546,6 +564,37 @@ describe('initializeBattle', () => {
 
     expect(battleState.obstacles.length).toBeGreaterThan(0);
   });
+
+  it('spreads fortifications along the defensive line', () => {
+    const location = createMockLocation({ fortifications: ['gate', 'wall', 'barricade'] });
+
+    const { obstacles } = initializeBattle([createMockZombie()], location);
+
+    expect(obstacles.map((obstacle) => obstacle.position)).toEqual([
+      { x: 960, y: 270 },
+      { x: 960, y: 540 },
+      { x: 960, y: 810 },
+    ]);
+  });
+
+  it('lets the squad path around the fortifications', () => {
+    const location = createMockLocation({ fortifications: ['gate', 'wall', 'barricade'] });
+    const battleState = initializeBattle([createMockZombie()], location);
+    const [zombie] = battleState.playerSquad;
+    const [enemy] = battleState.enemies;
+    if (!zombie || !enemy) throw new Error('missing combatants');
+    const grid = getNavigationGrid(battleState.obstacles);
+    const toTile = (position: Position) => ({
+      x: Math.floor(position.x / BATTLEFIELD_TILE_SIZE),
+      y: Math.floor(position.y / BATTLEFIELD_TILE_SIZE),
+    });
+
+    const path = findPath(grid, zombie.position, enemy.position);
+
+    expect(grid.blockers.size).toBe(3);
+    expect(path.every((waypoint) => isWalkable(grid, toTile(waypoint)))).toBe(true);
+    expect(toTile(path[path.length - 1] ?? zombie.position)).toEqual(toTile(enemy.position));
+  });
 });
 
 // ============================================================================
@@ -628,6 +677,16 @@ describe('checkBattleRequirements', () => {
       expect(result.canStart).toBe(false);
       expect(result.errors.some((e) => e.includes('cooldown'))).toBe(true);
     });
+
+    it('fails if a story location has been cleared', () => {
+      const squad = [createMockZombie()];
+      const location = createMockLocation({ isStory: true, isConquered: true });
+
+      const result = checkBattleRequirements(squad, location, 5);
+
+      expect(result.canStart).toBe(false);
+      expect(result.errors).toContain('Location has been cleared');
+    });
   });
 
   describe('zombie state requirements', () => {
@@ -0,0 +1,200 @@
+/**
+ * Battle Replay Tests
+ *
+ * Tests for recording and watching fights:
+ * - Compact tick stream and retreat recording
+ * - Rebuilding the battle at any time from the initial state and seed
+ * - Seek, pause and playback speed
+ * - Capped per-location replay history
+ *
+ * Per DOMAIN-COMBAT.md Battle Flow and Retreat.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { BattleReplay, CombatState } from '../../../../types/combat';
+import type { WorldState } from '../../../../types/world';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createSeededRandom, resumeSeededRandom } from '../../../game/lib/gameRandom';
+import { createMockLocation, createMockZombie } from '../../test-utils/combatTestHelpers';
+import { initializeBattle } from '../battleInitialization';
+import { startBattle, startRetreat, stepBattle } from '../battleSimulation';
+import {
+  MAX_PLAYBACK_SPEED,
+  advanceReplay,
+  createReplayPlayback,
+  finishReplay,
+  getLocationReplays,
+  getReplayStateAt,
+  pauseReplay,
+  playReplay,
+  recordReplayRetreat,
+  recordReplayTick,
+  saveReplay,
+  seekReplay,
+  setReplaySpeed,
+  startReplay,
+} from '../battleReplay';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SEED = 1234;
+const LOCATION = createMockLocation({ id: 'castle-1', waves: 2 });
+
+/** Recorded fight and the live state after each input */
+interface Recording {
+  replay: BattleReplay;
+  states: Map<number, CombatState>;
+}
+
+/** Runs a seeded fight the way the battle machine does, recording as it goes */
+function recordFight(inputs: Array<number | 'retreat'>): Recording {
+  const squad = [createMockZombie({ id: 'z1' }), createMockZombie({ id: 'z2' })];
+  const { random, getState } = resumeSeededRandom(SEED);
+  let state = startBattle(
+    initializeBattle(squad, LOCATION, 'line', createSeededRandom(SEED), 1_000)
+  );
+  let replay = startReplay(state, SEED, LOCATION);
+  const states = new Map<number, CombatState>([[0, state]]);
+
+  for (const input of inputs) {
+    if (input === 'retreat') {
+      state = startRetreat(state);
+      replay = recordReplayRetreat(replay);
+    } else {
+      state = { ...stepBattle(state, input, { location: LOCATION, random }), rngState: getState() };
+      replay = recordReplayTick(replay, input);
+    }
+    states.set(replay.duration, state);
+  }
+
+  return { replay: finishReplay(replay, state), states };
+}
+
+function createWorld(): WorldState {
+  return {
+    locations: [],
+    unlockedLocations: [],
+    conqueredLocations: [],
+    currentRegion: 'test-region',
+    unlockedRegions: [],
+  };
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+describe('recording', () => {
+  it('stores repeated ticks of the same length once', () => {
+    const { replay } = recordFight([100, 100, 100, 50, 'retreat', 100]);
+
+    expect(replay.events).toEqual([
+      { type: 'tick', deltaMs: 100, count: 3 },
+      { type: 'tick', deltaMs: 50, count: 1 },
+      { type: 'retreat' },
+      { type: 'tick', deltaMs: 100, count: 1 },
+    ]);
+    expect(replay.duration).toBe(450);
+  });
+
+  it('keeps the starting state, seed and location', () => {
+    const { replay, states } = recordFight([100]);
+
+    expect(replay).toMatchObject({ rngSeed: SEED, locationId: 'castle-1', recordedAt: 1_000 });
+    expect(replay.initialState).toBe(states.get(0));
+    expect(replay.location).toBe(LOCATION);
+  });
+});
+
+// ============================================================================
+// REBUILDING
+// ============================================================================
+
+describe('getReplayStateAt', () => {
+  const inputs = [
+    ...Array<number>(40).fill(100),
+    'retreat' as const,
+    ...Array<number>(120).fill(100),
+  ];
+  const { replay, states } = recordFight(inputs);
+
+  it('rebuilds the battle exactly as it was fought', () => {
+    expect(getReplayStateAt(replay, 2_000)).toEqual(states.get(2_000));
+    expect(getReplayStateAt(replay, replay.duration)).toEqual(states.get(replay.duration));
+    expect(replay.outcome).toBe(states.get(replay.duration)?.phase);
+  });
+
+  it('lands on the last tick at or before the requested time', () => {
+    expect(getReplayStateAt(replay, 2_050)).toEqual(states.get(2_000));
+  });
+});
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+describe('replay playback', () => {
+  const { replay, states } = recordFight(Array<number>(50).fill(100));
+
+  it('opens paused at the start', () => {
+    const playback = createReplayPlayback(replay);
+
+    expect(playback.isPaused).toBe(true);
+    expect(playback.frame.state).toBe(replay.initialState);
+    expect(advanceReplay(playback, 1_000)).toBe(playback);
+  });
+
+  it('plays at the chosen speed', () => {
+    const playback = setReplaySpeed(playReplay(createReplayPlayback(replay)), 2);
+
+    const played = advanceReplay(playback, 1_000);
+
+    expect(played.time).toBe(2_000);
+    expect(played.frame.state).toEqual(states.get(2_000));
+  });
+
+  it('seeks back and forth to the same states', () => {
+    const forward = seekReplay(createReplayPlayback(replay), 4_000);
+    const back = seekReplay(forward, 1_500);
+
+    expect(back.frame.state).toEqual(states.get(1_500));
+    expect(seekReplay(back, 4_000).frame.state).toEqual(forward.frame.state);
+  });
+
+  it('pauses at the end and restarts when played again', () => {
+    const ended = advanceReplay(playReplay(createReplayPlayback(replay)), 60_000);
+
+    expect(ended.time).toBe(replay.duration);
+    expect(ended.isPaused).toBe(true);
+    expect(playReplay(ended).time).toBe(0);
+    expect(pauseReplay(playReplay(ended)).isPaused).toBe(true);
+  });
+
+  it('clamps the playback speed', () => {
+    expect(setReplaySpeed(createReplayPlayback(replay), 100).speed).toBe(MAX_PLAYBACK_SPEED);
+  });
+});
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+describe('saveReplay', () => {
+  it('keeps only the most recent replays of each location', () => {
+    const { replay } = recordFight([100]);
+    const limit = gameConfig.COMBAT.REPLAY_HISTORY_SIZE;
+
+    let world = createWorld();
+    for (let i = 0; i <= limit; i++) {
+      world = saveReplay(world, { ...replay, battleId: `battle-${i}` });
+    }
+
+    const history = getLocationReplays(world, 'castle-1');
+    expect(history).toHaveLength(limit);
+    expect(history[history.length - 1]?.battleId).toBe(`battle-${limit}`);
+    expect(history[0]?.battleId).toBe('battle-1');
+    expect(getLocationReplays(world, 'other')).toEqual([]);
+  });
+});
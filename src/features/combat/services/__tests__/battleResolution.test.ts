@@ -0,0 +1,267 @@
+/**
+ * Battle Resolution Tests
+ *
+ * Tests for applying a BattleResult back onto game state:
+ * - Permadeath for casualties
+ * - Survivors keep their end-of-battle HP
+ * - XP and level-ups (ZOMBIE_XP_CURVE, STATS_PER_LEVEL)
+ * - Location conquest, raid cooldown and retreat penalty
+ * - Rewards added to inventory
+ *
+ * Per DOMAIN-COMBAT.md Battle Outcome, Casualties and Experience Gain.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { BattleResult } from '../../../../types/combat';
+import { BattlePhase } from '../../../../types/combat';
+import type { FarmState } from '../../../../types/farm';
+import type { WorldState } from '../../../../types/world';
+import { Currency, ItemQuality } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createEmptyInventory } from '../../../game/lib/resources';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockLocation,
+  createMockZombie,
+} from '../../test-utils/combatTestHelpers';
+import { createItem } from '../../../farm/services/equipment';
+import { resolveBattle, applyZombieXp, type BattleResolutionInput } from '../battleResolution';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TIMESTAMP = 1_000_000;
+
+function createFarm(): FarmState {
+  return {
+    plots: [],
+    activeZombies: [createMockZombie({ id: 'z1' }), createMockZombie({ id: 'z2' })],
+    cryptZombies: [],
+    buildings: [],
+    resourceNodes: [],
+    activeZombieCapacity: 10,
+    expansionLevel: 0,
+    gridSize: { width: 20, height: 20 },
+  };
+}
+
+function createWorld(): WorldState {
+  return {
+    locations: [createMockLocation({ id: 'village-1', raidCooldown: 24 })],
+    unlockedLocations: ['village-1'],
+    conqueredLocations: [],
+    currentRegion: 'starting_area',
+    unlockedRegions: ['starting_area'],
+  };
+}
+
+function createResult(overrides?: Partial<BattleResult>): BattleResult {
+  return {
+    victory: true,
+    survivors: ['z1'],
+    casualties: ['z2'],
+    xpGained: { z1: 50 },
+    rewards: { currencies: { [Currency.DARK_COINS]: 100 } },
+    unlocks: [],
+    stats: {
+      totalDamageDealt: 0,
+      totalDamageTaken: 0,
+      enemiesKilled: 0,
+      obstaclesDestroyed: 0,
+      duration: 0,
+      flawless: false,
+    },
+    ...overrides,
+  };
+}
+
+function createInput(overrides?: Partial<BattleResolutionInput>): BattleResolutionInput {
+  return {
+    farm: createFarm(),
+    world: createWorld(),
+    inventory: createEmptyInventory(),
+    result: createResult(),
+    locationId: 'village-1',
+    timestamp: TIMESTAMP,
+    ...overrides,
+  };
+}
+
+function resolve(overrides?: Partial<BattleResolutionInput>) {
+  const resolution = resolveBattle(createInput(overrides));
+  if (!resolution.success) {
+    throw new Error(resolution.error);
+  }
+  return resolution.data;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+describe('resolveBattle', () => {
+  it('removes casualties from the farm permanently', () => {
+    const { farm, events } = resolve();
+
+    expect(farm.activeZombies.map((zombie) => zombie.id)).toEqual(['z1']);
+    expect(events).toContainEqual({
+      type: 'zombie.died',
+      payload: { zombieId: 'z2', reason: 'combat', timestamp: TIMESTAMP },
+    });
+  });
+
+  it('returns the equipment of casualties to the inventory', () => {
+    const cleaver = createItem('rustyCleaver', ItemQuality.COMMON, 'cleaver');
+    const fallen = createMockZombie({
+      id: 'z2',
+      equipment: {
+        weapon: 'cleaver',
+        armor: null,
+        accessory: null,
+        items: cleaver ? [cleaver] : [],
+      },
+    });
+
+    const farm = { ...createFarm(), activeZombies: [createMockZombie({ id: 'z1' }), fallen] };
+
+    const { inventory } = resolve({ farm });
+
+    expect(inventory.items).toEqual([cleaver]);
+  });
+
+  it('returns survivors with their end-of-battle HP', () => {
+    const combat = createMockBattle({
+      playerSquad: [
+        createMockCombatUnit({ id: 'z1', stats: { ...createMockCombatUnit().stats, hp: 40 } }),
+      ],
+    });
+
+    const { farm } = resolve({ combat });
+
+    expect(farm.activeZombies[0]?.stats.hp).toBe(40);
+  });
+
+  it('takes the equipment HP bonus off survivors', () => {
+    const mail = createItem('boneMail', ItemQuality.COMMON, 'mail');
+    const survivor = createMockZombie({
+      id: 'z1',
+      equipment: { weapon: null, armor: 'mail', accessory: null, items: mail ? [mail] : [] },
+    });
+    const combat = createMockBattle({
+      playerSquad: [
+        createMockCombatUnit({ id: 'z1', stats: { ...createMockCombatUnit().stats, hp: 40 } }),
+      ],
+    });
+
+    const { farm } = resolve({ farm: { ...createFarm(), activeZombies: [survivor] }, combat });
+
+    expect(farm.activeZombies[0]?.stats.hp).toBe(20);
+  });
+
+  it('awards survivor XP', () => {
+    const { farm } = resolve();
+
+    expect(farm.activeZombies[0]?.xp).toBe(50);
+  });
+
+  it('adds rewards to the inventory', () => {
+    const { inventory } = resolve();
+
+    expect(inventory.currencies[Currency.DARK_COINS]).toBe(100);
+  });
+
+  it('conquers the location and starts the raid cooldown on victory', () => {
+    const { world } = resolve();
+
+    expect(world.conqueredLocations).toEqual(['village-1']);
+    expect(world.locations[0]?.isConquered).toBe(true);
+    expect(world.locations[0]?.nextRaidAvailable).toBe(TIMESTAMP + 24 * 60 * 60 * 1000);
+  });
+
+  it('reports the first conquest of a location only', () => {
+    const conquered = { ...createWorld(), conqueredLocations: ['village-1'] };
+
+    expect(resolve().events).toContainEqual({
+      type: 'location.conquered',
+      payload: { locationId: 'village-1', timestamp: TIMESTAMP },
+    });
+    expect(resolve({ world: conquered }).events.some((e) => e.type === 'location.conquered')).toBe(
+      false
+    );
+  });
+
+  it('leaves the location untouched on defeat', () => {
+    const world = createWorld();
+
+    const resolution = resolve({ world, result: createResult({ victory: false }) });
+
+    expect(resolution.world).toBe(world);
+  });
+
+  it('puts only the raided location on cooldown after a retreat', () => {
+    const world = {
+      ...createWorld(),
+      locations: [...createWorld().locations, createMockLocation({ id: 'village-2' })],
+    };
+
+    const resolution = resolve({
+      world,
+      result: createResult({ victory: false }),
+      combat: createMockBattle({ phase: BattlePhase.RETREAT }),
+    });
+
+    expect(resolution.world.locations[0]?.nextRaidAvailable).toBe(
+      TIMESTAMP + gameConfig.COMBAT.RETREAT_COOLDOWN_HOURS * 60 * 60 * 1000
+    );
+    expect(resolution.world.locations[1]?.nextRaidAvailable).toBeNull();
+    expect(resolution.world.conqueredLocations).toEqual([]);
+  });
+
+  it('fails when rewards exceed inventory capacity', () => {
+    const result = createResult({ rewards: { seeds: { shamblerSeed: 5 } } });
+
+    const resolution = resolveBattle(createInput({ result, inventory: createEmptyInventory(1) }));
+
+    expect(resolution.success).toBe(false);
+  });
+});
+
+// ============================================================================
+// LEVELING
+// ============================================================================
+
+describe('applyZombieXp', () => {
+  const { ZOMBIE_XP_CURVE, STATS_PER_LEVEL, MAX_ZOMBIE_LEVEL } = gameConfig.PROGRESSION;
+
+  it('levels up and applies STATS_PER_LEVEL', () => {
+    const zombie = createMockZombie({ xpToNextLevel: 100 });
+
+    const { zombie: leveled, levelsGained } = applyZombieXp(zombie, 120);
+
+    expect(levelsGained).toEqual([2]);
+    expect(leveled.xp).toBe(20);
+    expect(leveled.xpToNextLevel).toBe(ZOMBIE_XP_CURVE(2));
+    expect(leveled.stats.maxHp).toBe(zombie.stats.maxHp + STATS_PER_LEVEL.hp);
+    expect(leveled.stats.attack).toBe(zombie.stats.attack + STATS_PER_LEVEL.attack);
+  });
+
+  it('applies several level-ups at once', () => {
+    const zombie = createMockZombie({ xpToNextLevel: 100 });
+
+    const { levelsGained } = applyZombieXp(zombie, 100 + ZOMBIE_XP_CURVE(2));
+
+    expect(levelsGained).toEqual([2, 3]);
+  });
+
+  it('stops at MAX_ZOMBIE_LEVEL', () => {
+    const zombie = createMockZombie({ level: MAX_ZOMBIE_LEVEL, xpToNextLevel: 100 });
+
+    const { zombie: capped, levelsGained } = applyZombieXp(zombie, 1000);
+
+    expect(levelsGained).toEqual([]);
+    expect(capped.level).toBe(MAX_ZOMBIE_LEVEL);
+    expect(capped.xp).toBe(0);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Battle Result Tests
+ *
+ * Tests for summarizing finished battles:
+ * - Survivors and casualties
+ * - Damage, kill and duration stats from the battle log
+ * - Per-zombie XP (participation, kills, damage, flawless bonus)
+ * - First-time vs repeat rewards
+ *
+ * Per DOMAIN-COMBAT.md Battle Outcome and Experience Gain.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { BattleLogEntry, CombatState } from '../../../../types/combat';
+import { BattleLogEventType, BattlePhase } from '../../../../types/combat';
+import { Currency } from '../../../../types/resources';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockEnemy,
+  createMockLocation,
+} from '../../test-utils/combatTestHelpers';
+import { createBattleResult, calculateBattleStats } from '../battleResult';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function attackEntry(attackerId: string, targetId: string, finalDamage: number): BattleLogEntry {
+  return {
+    timestamp: 0,
+    type: BattleLogEventType.UNIT_ATTACKED,
+    message: `${attackerId} hit ${targetId}`,
+    unitIds: [attackerId, targetId],
+    data: { finalDamage },
+  };
+}
+
+function deathEntry(unitId: string, killerId?: string): BattleLogEntry {
+  return {
+    timestamp: 0,
+    type: BattleLogEventType.UNIT_DIED,
+    message: `${unitId} died`,
+    unitIds: killerId ? [unitId, killerId] : [unitId],
+  };
+}
+
+function createFinishedBattle(overrides?: Partial<CombatState>): CombatState {
+  return createMockBattle({
+    phase: BattlePhase.VICTORY,
+    battleDuration: 42,
+    playerSquad: [
+      createMockCombatUnit({ id: 'z1' }),
+      createMockCombatUnit({ id: 'z2', isDead: true }),
+    ],
+    enemies: [
+      createMockEnemy({ id: 'e1', isDead: true }),
+      createMockEnemy({ id: 'e2', isDead: true }),
+    ],
+    battleLog: [
+      attackEntry('z1', 'e1', 150),
+      attackEntry('e2', 'z2', 30),
+      deathEntry('e1', 'z1'),
+      deathEntry('z2', 'e2'),
+      attackEntry('z1', 'e2', 60),
+      deathEntry('e2', 'z1'),
+    ],
+    ...overrides,
+  });
+}
+
+// ============================================================================
+// RESULT
+// ============================================================================
+
+describe('createBattleResult', () => {
+  it('splits the squad into survivors and casualties', () => {
+    const result = createBattleResult(createFinishedBattle());
+
+    expect(result.victory).toBe(true);
+    expect(result.survivors).toEqual(['z1']);
+    expect(result.casualties).toEqual(['z2']);
+  });
+
+  it('awards participation, kill and damage XP to survivors only', () => {
+    const result = createBattleResult(createFinishedBattle());
+
+    // 50 participation + 2 kills * 10 + floor(210 * 0.01)
+    expect(result.xpGained).toEqual({ z1: 72 });
+  });
+
+  it('adds the flawless bonus when no zombie died', () => {
+    const battle = createFinishedBattle({
+      playerSquad: [createMockCombatUnit({ id: 'z1' })],
+      battleLog: [],
+    });
+
+    const result = createBattleResult(battle);
+
+    expect(result.stats.flawless).toBe(true);
+    expect(result.xpGained).toEqual({ z1: 150 });
+  });
+
+  it('grants first-time rewards and unlocks for unconquered locations', () => {
+    const location = createMockLocation({
+      firstTimeRewards: { currencies: { [Currency.DARK_COINS]: 100 } },
+      repeatRewards: { currencies: { [Currency.DARK_COINS]: 20 } },
+      unlocks: ['blueprint-1'],
+    });
+
+    const result = createBattleResult(createFinishedBattle(), location);
+
+    expect(result.rewards).toEqual(location.firstTimeRewards);
+    expect(result.unlocks).toEqual(['blueprint-1']);
+  });
+
+  it('grants repeat rewards for conquered locations', () => {
+    const location = createMockLocation({
+      isConquered: true,
+      repeatRewards: { currencies: { [Currency.DARK_COINS]: 20 } },
+      unlocks: ['blueprint-1'],
+    });
+
+    const result = createBattleResult(createFinishedBattle(), location);
+
+    expect(result.rewards).toEqual(location.repeatRewards);
+    expect(result.unlocks).toEqual([]);
+  });
+
+  it('diminishes repeat rewards for recently raided locations', () => {
+    const battle = createFinishedBattle();
+    const location = createMockLocation({
+      isConquered: true,
+      repeatRewards: { currencies: { [Currency.DARK_COINS]: 20 } },
+      recentRaids: [battle.startedAt],
+    });
+
+    const result = createBattleResult(battle, location);
+
+    expect(result.rewards).toEqual({ currencies: { [Currency.DARK_COINS]: 15 } });
+  });
+
+  it('grants no rewards on retreat but keeps survivor XP', () => {
+    const battle = createFinishedBattle({ phase: BattlePhase.RETREAT });
+
+    const result = createBattleResult(battle, createMockLocation());
+
+    expect(result.victory).toBe(false);
+    expect(result.rewards).toEqual({});
+    expect(result.xpGained.z1).toBe(72);
+  });
+});
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+describe('calculateBattleStats', () => {
+  it('totals damage dealt and taken by the squad', () => {
+    const stats = calculateBattleStats(createFinishedBattle());
+
+    expect(stats.totalDamageDealt).toBe(210);
+    expect(stats.totalDamageTaken).toBe(30);
+    expect(stats.enemiesKilled).toBe(2);
+    expect(stats.duration).toBe(42);
+    expect(stats.flawless).toBe(false);
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * Battle Simulation Tests
+ *
+ * Tests for the real-time battle tick engine:
+ * - Battle start
+ * - Movement toward targets
+ * - Attack cooldowns and damage
+ * - Unit death
+ * - Enemy abilities
+ * - Zombie signature abilities
+ * - Routing around and breaking through fortifications
+ * - Victory / defeat / retreat detection
+ * - Wave progression
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics specifications.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  BattlePhase,
+  BattleLogEventType,
+  DamageType,
+  EnemyType,
+  ObstacleType,
+  StatusEffect,
+  UnitAIState,
+} from '../../../../types/combat';
+import { ZombieType } from '../../../../types/farm';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockEnemy,
+  createMockLocation,
+} from '../../test-utils/combatTestHelpers';
+import {
+  startBattle,
+  stepBattle,
+  isBattleFinished,
+  MAX_SIMULATION_STEP_MS,
+} from '../battleSimulation';
+import { BATTLEFIELD_TILE_SIZE } from '../targeting';
+import { applyStatusEffect } from '../statusEffects';
+import { createFortification } from '../fortifications';
+import { NAVIGATION_GRID_HEIGHT } from '../pathfinding';
+import { getEnemyAbilities } from '../enemyComposition';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Rolls that always hit and never crit against the mock units */
+const NO_CRIT_HIT = { random: () => 0.5 };
+
+function createZombie(x: number, overrides = {}) {
+  return createMockCombatUnit({
+    id: 'zombie-1',
+    position: { x, y: 500 },
+    ...overrides,
+  });
+}
+
+function createEnemy(x: number, overrides = {}) {
+  return createMockEnemy({
+    id: 'enemy-1',
+    position: { x, y: 500 },
+    ...overrides,
+  });
+}
+
+// ============================================================================
+// START BATTLE
+// ============================================================================
+
+describe('startBattle', () => {
+  it('moves a prepared battle to ACTIVE', () => {
+    const battle = createMockBattle({ phase: BattlePhase.PREPARATION });
+
+    const started = startBattle(battle);
+
+    expect(started.phase).toBe(BattlePhase.ACTIVE);
+    expect(started.battleLog[0]?.type).toBe(BattleLogEventType.BATTLE_START);
+  });
+
+  it('ignores battles that are not in preparation', () => {
+    const battle = createMockBattle({ phase: BattlePhase.VICTORY });
+
+    expect(startBattle(battle)).toBe(battle);
+  });
+});
+
+// ============================================================================
+// STEP BATTLE
+// ============================================================================
+
+describe('stepBattle', () => {
+  describe('phase handling', () => {
+    it('does nothing when battle is not active', () => {
+      const battle = createMockBattle({ phase: BattlePhase.PREPARATION });
+
+      expect(stepBattle(battle, 1000)).toBe(battle);
+    });
+
+    it('does nothing for non-positive delta', () => {
+      const battle = createMockBattle();
+
+      expect(stepBattle(battle, 0)).toBe(battle);
+    });
+
+    it('advances battle duration in seconds', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(1800)],
+      });
+
+      const next = stepBattle(battle, 250);
+
+      expect(next.battleDuration).toBeCloseTo(0.25);
+    });
+
+    it('does not mutate the input state', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(1800)],
+      });
+      const snapshot = JSON.stringify(battle);
+
+      stepBattle(battle, 1000);
+
+      expect(JSON.stringify(battle)).toBe(snapshot);
+    });
+  });
+
+  describe('movement', () => {
+    it('moves zombies right and enemies left toward each other', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(1800)],
+      });
+
+      const next = stepBattle(battle, 1000);
+
+      expect(next.playerSquad[0]?.position.x).toBeCloseTo(100 + BATTLEFIELD_TILE_SIZE);
+      expect(next.enemies[0]?.position.x).toBeCloseTo(1800 - BATTLEFIELD_TILE_SIZE);
+      expect(next.playerSquad[0]?.aiState).toBe(UnitAIState.ADVANCING);
+      expect(next.playerSquad[0]?.targetId).toBe('enemy-1');
+    });
+
+    it('stops advancing once in range', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100, { stats: { ...createZombie(0).stats, speed: 10 } })],
+        enemies: [createEnemy(150, { stats: { ...createEnemy(0).stats, speed: 0 } })],
+      });
+
+      const next = stepBattle(battle, 1000);
+      const gap = (next.enemies[0]?.position.x ?? 0) - (next.playerSquad[0]?.position.x ?? 0);
+
+      expect(gap).toBeGreaterThanOrEqual(BATTLEFIELD_TILE_SIZE - 0.001);
+      expect(next.playerSquad[0]?.aiState).toBe(UnitAIState.ENGAGING);
+    });
+  });
+
+  describe('attacks', () => {
+    it('deals attack minus defense damage when in range', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120)],
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+
+      // Physical: zombie 15 - 5 * 0.7 = 11; enemy 10 - 10 * 0.7 = 3
+      expect(next.enemies[0]?.stats.hp).toBe(39);
+      expect(next.playerSquad[0]?.stats.hp).toBe(97);
+    });
+
+    it('respects attack cooldown', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120, { stats: { ...createEnemy(0).stats, hp: 1000, maxHp: 1000 } })],
+      });
+
+      const afterOne = stepBattle(battle, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+      const afterCooldown = stepBattle(afterOne, 1000, NO_CRIT_HIT);
+      const afterReady = stepBattle(afterCooldown, 500, NO_CRIT_HIT);
+
+      expect(afterOne.enemies[0]?.stats.hp).toBe(989);
+      expect(afterCooldown.enemies[0]?.stats.hp).toBe(989);
+      expect(afterReady.enemies[0]?.stats.hp).toBe(978);
+    });
+
+    it('logs attacks', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120)],
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+      const entry = next.battleLog.find((e) => e.type === BattleLogEventType.UNIT_ATTACKED);
+
+      expect(entry?.data).toMatchObject({ isHit: true, damageType: DamageType.PHYSICAL });
+    });
+
+    it('deals no damage when the attack misses', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120)],
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, { random: () => 0.99 });
+
+      expect(next.enemies[0]?.stats.hp).toBe(50);
+      expect(next.playerSquad[0]?.stats.hp).toBe(100);
+    });
+  });
+
+  describe('death and outcome', () => {
+    it('marks units dead at 0 HP and declares victory', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120, { stats: { ...createEnemy(0).stats, hp: 5 } })],
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+
+      expect(next.enemies[0]?.isDead).toBe(true);
+      expect(next.enemies[0]?.stats.hp).toBe(0);
+      expect(next.enemies[0]?.aiState).toBe(UnitAIState.DEAD);
+      expect(next.phase).toBe(BattlePhase.VICTORY);
+      expect(isBattleFinished(next)).toBe(true);
+      expect(next.battleLog[next.battleLog.length - 1]?.type).toBe(BattleLogEventType.BATTLE_END);
+    });
+
+    it('declares defeat when all zombies die', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100, { stats: { ...createZombie(0).stats, hp: 1 } })],
+        enemies: [createEnemy(120, { stats: { ...createEnemy(0).stats, attack: 50 } })],
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+
+      expect(next.playerSquad[0]?.isDead).toBe(true);
+      expect(next.phase).toBe(BattlePhase.DEFEAT);
+    });
+
+    it('resolves a full battle to completion', () => {
+      const battle = createMockBattle();
+
+      const next = stepBattle(battle, 5 * 60 * 1000);
+
+      expect(isBattleFinished(next)).toBe(true);
+    });
+
+    it('stops simulating once the battle ends', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120, { stats: { ...createEnemy(0).stats, hp: 5 } })],
+      });
+
+      const next = stepBattle(battle, 10000, NO_CRIT_HIT);
+
+      expect(next.battleDuration).toBeCloseTo(MAX_SIMULATION_STEP_MS / 1000);
+    });
+  });
+
+  describe('status effects', () => {
+    it('stunned units do not act', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120)],
+      });
+      const stunned = applyStatusEffect(battle, 'zombie-1', StatusEffect.STUNNED).state;
+
+      const next = stepBattle(stunned, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+
+      expect(next.playerSquad[0]?.aiState).toBe(UnitAIState.STUNNED);
+      expect(next.enemies[0]?.stats.hp).toBe(50);
+    });
+
+    it('applies on-hit effects and emits events', () => {
+      const events: string[] = [];
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100, { type: ZombieType.SPITTER })],
+        enemies: [createEnemy(120, { stats: { ...createEnemy(0).stats, hp: 500, maxHp: 500 } })],
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, {
+        ...NO_CRIT_HIT,
+        onEvent: (event) => events.push(event.type),
+      });
+
+      expect(next.enemies[0]?.statusEffects).toContain(StatusEffect.POISONED);
+      expect(events).toContain('status.applied');
+    });
+
+    it('feared units flee instead of attacking', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120)],
+      });
+      const feared = applyStatusEffect(battle, 'enemy-1', StatusEffect.FEAR).state;
+
+      const next = stepBattle(feared, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+
+      expect(next.enemies[0]?.aiState).toBe(UnitAIState.FLEEING);
+      expect(next.enemies[0]?.position.x).toBeGreaterThan(120);
+      expect(next.playerSquad[0]?.stats.hp).toBe(100);
+    });
+  });
+
+  describe('enemy abilities', () => {
+    it('lets enemies cast ready abilities and reports them', () => {
+      const base = createEnemy(0);
+      const mage = createEnemy(300, {
+        type: EnemyType.MAGE,
+        stats: { ...base.stats, range: 6, speed: 0 },
+        aiProfile: { ...base.aiProfile, useAbilities: true },
+        abilities: getEnemyAbilities(EnemyType.MAGE),
+      });
+      const battle = createMockBattle({ playerSquad: [createZombie(200)], enemies: [mage] });
+      const events: string[] = [];
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, {
+        ...NO_CRIT_HIT,
+        onEvent: (event) => events.push(event.type),
+      });
+
+      expect(events).toContain('ability.used');
+      expect(next.enemies[0]?.abilities[0]?.lastUsedAt).toBeCloseTo(0.1);
+      expect(next.battleLog.some((e) => e.type === BattleLogEventType.ABILITY_USED)).toBe(true);
+    });
+  });
+
+  describe('zombie abilities', () => {
+    it('splashes brute hits onto enemies next to the target', () => {
+      const brute = createZombie(200, { type: ZombieType.BRUTE });
+      const battle = createMockBattle({
+        playerSquad: [brute],
+        enemies: [createEnemy(230, { id: 'enemy-1' }), createEnemy(250, { id: 'enemy-2' })],
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+
+      expect(next.enemies[0]?.stats.hp).toBeLessThan(50);
+      expect(next.enemies[1]?.stats.hp).toBeLessThan(50);
+    });
+
+    it('sets off an explosive zombie when it dies', () => {
+      const bomber = createZombie(200, {
+        type: ZombieType.EXPLOSIVE_ZOMBIE,
+        stats: { ...createMockCombatUnit().stats, hp: 1 },
+      });
+      const battle = createMockBattle({ playerSquad: [bomber], enemies: [createEnemy(230)] });
+      const events: string[] = [];
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, {
+        ...NO_CRIT_HIT,
+        onEvent: (event) => events.push(event.type),
+      });
+
+      expect(next.playerSquad[0]?.isDead).toBe(true);
+      expect(events).toContain('ability.used');
+      expect(next.enemies[0]?.isDead).toBe(true);
+    });
+  });
+
+  describe('fortifications', () => {
+    /** Gate line across the full battlefield height at tile column x */
+    function gateLine(x: number, hp?: number) {
+      return Array.from({ length: NAVIGATION_GRID_HEIGHT }, (_, row) => {
+        const gate = createFortification(ObstacleType.GATE, {
+          x: (x + 0.5) * BATTLEFIELD_TILE_SIZE,
+          y: (row + 0.5) * BATTLEFIELD_TILE_SIZE,
+        });
+        return { ...gate, id: `gate-${row}`, hp: hp ?? gate.hp };
+      });
+    }
+
+    it('walks zombies around a short wall', () => {
+      const walls = [14, 15, 16].map((row) =>
+        createFortification(ObstacleType.WALL, {
+          x: 5.5 * BATTLEFIELD_TILE_SIZE,
+          y: (row + 0.5) * BATTLEFIELD_TILE_SIZE,
+        })
+      );
+      const battle = createMockBattle({
+        playerSquad: [createZombie(3.5 * BATTLEFIELD_TILE_SIZE)],
+        enemies: [createEnemy(1800, { stats: { ...createEnemy(0).stats, speed: 0 } })],
+        obstacles: walls,
+      });
+
+      const next = stepBattle(battle, 3000);
+      const zombie = next.playerSquad[0];
+
+      expect(zombie?.position.y).not.toBe(500);
+      expect(zombie?.position.x).toBeGreaterThan(3.5 * BATTLEFIELD_TILE_SIZE);
+      expect(next.obstacles.every((wall) => wall.hp === wall.maxHp)).toBe(true);
+    });
+
+    it('makes zombies break through a gate line that blocks the way', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(4.5 * BATTLEFIELD_TILE_SIZE)],
+        enemies: [createEnemy(1800, { stats: { ...createEnemy(0).stats, speed: 0 } })],
+        obstacles: gateLine(5, 1),
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, NO_CRIT_HIT);
+
+      expect(next.obstacles.filter((gate) => gate.isDestroyed)).toHaveLength(1);
+      expect(next.battleLog.some((e) => e.type === BattleLogEventType.OBSTACLE_DESTROYED)).toBe(
+        true
+      );
+      expect(next.playerSquad[0]?.aiState).toBe(UnitAIState.ENGAGING);
+    });
+
+    it('holds enemies in place when fortifications wall them off', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100, { stats: { ...createZombie(0).stats, speed: 0 } })],
+        enemies: [createEnemy(1800)],
+        obstacles: gateLine(30),
+      });
+
+      const next = stepBattle(battle, 1000);
+
+      expect(next.enemies[0]?.position.x).toBe(1800);
+      expect(next.enemies[0]?.aiState).toBe(UnitAIState.IDLE);
+    });
+  });
+
+  describe('retreat', () => {
+    it('moves zombies back and ends in RETREAT after the countdown', () => {
+      const battle = createMockBattle({
+        playerSquad: [createZombie(500)],
+        enemies: [createEnemy(1800)],
+        isRetreating: true,
+        retreatCountdown: 1,
+      });
+
+      const midway = stepBattle(battle, 500);
+      expect(midway.playerSquad[0]?.position.x).toBeLessThan(500);
+      expect(midway.playerSquad[0]?.aiState).toBe(UnitAIState.RETREATING);
+      expect(midway.phase).toBe(BattlePhase.ACTIVE);
+
+      const done = stepBattle(midway, 500);
+      expect(done.phase).toBe(BattlePhase.RETREAT);
+    });
+  });
+
+  describe('waves', () => {
+    it('spawns the next wave when the current wave is cleared', () => {
+      const location = createMockLocation({
+        waves: 2,
+        enemies: [
+          { type: EnemyType.PEASANT, count: 1, wave: 1 },
+          { type: EnemyType.MILITIA, count: 2, wave: 2 },
+        ],
+      });
+      const battle = createMockBattle({
+        playerSquad: [createZombie(100)],
+        enemies: [createEnemy(120, { stats: { ...createEnemy(0).stats, hp: 5 } })],
+        totalWaves: 2,
+      });
+
+      const next = stepBattle(battle, MAX_SIMULATION_STEP_MS, { ...NO_CRIT_HIT, location });
+
+      expect(next.phase).toBe(BattlePhase.ACTIVE);
+      expect(next.currentWave).toBe(2);
+      expect(next.enemies.filter((e) => !e.isDead)).toHaveLength(2);
+      expect(next.battleLog.some((e) => e.type === BattleLogEventType.WAVE_SPAWNED)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Combat Result Helper Tests
+ *
+ * Tests for the helpers shared by the combat services:
+ * - Merging results in order
+ * - Battle log entries stamped with the battle clock
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { BattleLogEventType } from '../../../../types/combat';
+import { createMockBattle } from '../../test-utils/combatTestHelpers';
+import { createLogEntry, mergeResult } from '../combatResults';
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+describe('mergeResult', () => {
+  it('keeps the later state and the events of both in order', () => {
+    const first = { state: createMockBattle({ battleDuration: 1 }), events: ['a', 'b'] };
+    const second = { state: createMockBattle({ battleDuration: 2 }), events: ['c'] };
+
+    const merged = mergeResult(first, second);
+
+    expect(merged.state).toBe(second.state);
+    expect(merged.events).toEqual(['a', 'b', 'c']);
+  });
+});
+
+// ============================================================================
+// LOG ENTRIES
+// ============================================================================
+
+describe('createLogEntry', () => {
+  it('stamps the entry with the battle clock', () => {
+    const state = createMockBattle({ startedAt: 10_000, battleDuration: 2.5 });
+
+    const entry = createLogEntry(state, BattleLogEventType.UNIT_DIED, 'Ghoul died', ['z1']);
+
+    expect(entry).toEqual({
+      timestamp: 12_500,
+      type: BattleLogEventType.UNIT_DIED,
+      message: 'Ghoul died',
+      unitIds: ['z1'],
+    });
+  });
+
+  it('includes data only when given', () => {
+    const state = createMockBattle();
+
+    const entry = createLogEntry(state, BattleLogEventType.UNIT_ATTACKED, 'Hit', ['z1', 'e1'], {
+      finalDamage: 7,
+    });
+
+    expect(entry.data).toEqual({ finalDamage: 7 });
+  });
+});
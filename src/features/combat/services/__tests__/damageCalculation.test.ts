@@ -0,0 +1,290 @@
+/**
+ * Damage Calculation Tests
+ *
+ * Tests for attack resolution:
+ * - Armor mitigation per damage type
+ * - Type effectiveness (holy vs undead, dark vs peasants, explosive vs structures)
+ * - Resistances
+ * - Accuracy/evasion and critical hits
+ * - Minimum damage
+ *
+ * Per DOMAIN-COMBAT.md Attack and Damage specifications.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { CombatStats } from '../../../../types/combat';
+import { DamageType, EnemyType, ObstacleType } from '../../../../types/combat';
+import { ZombieType } from '../../../../types/farm';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createMockCombatUnit, createMockEnemy } from '../../test-utils/combatTestHelpers';
+import { createFortification } from '../fortifications';
+import {
+  calculateDamage,
+  calculateStructureDamage,
+  getAttackDamageType,
+  getAoERadius,
+  getHitChance,
+  getHitProfile,
+} from '../damageCalculation';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Roll that hits any target with no evasion */
+const HIT = { random: () => 0.99 };
+
+function stats(overrides: Partial<CombatStats>): CombatStats {
+  return {
+    hp: 100,
+    maxHp: 100,
+    attack: 50,
+    defense: 20,
+    speed: 1,
+    range: 1,
+    attackCooldown: 1.5,
+    resistances: {},
+    ...overrides,
+  };
+}
+
+/** Zombies always hit, so they make deterministic attackers */
+const zombie = createMockCombatUnit({ stats: stats({}) });
+
+// ============================================================================
+// ARMOR
+// ============================================================================
+
+describe('calculateDamage', () => {
+  describe('armor mitigation', () => {
+    const defender = createMockCombatUnit({ stats: stats({ defense: 20 }) });
+
+    it('reduces physical damage by 70% of armor', () => {
+      const calc = calculateDamage(zombie, defender, DamageType.PHYSICAL, HIT);
+
+      expect(calc.modifiers.armorReduction).toBe(14);
+      expect(calc.finalDamage).toBe(36);
+    });
+
+    it('lets toxic damage bypass half of armor', () => {
+      const calc = calculateDamage(zombie, defender, DamageType.TOXIC, HIT);
+
+      expect(calc.modifiers.armorReduction).toBe(10);
+      expect(calc.finalDamage).toBe(40);
+    });
+
+    it('lets dark damage ignore armor', () => {
+      const calc = calculateDamage(zombie, defender, DamageType.DARK, HIT);
+
+      expect(calc.modifiers.armorReduction).toBe(0);
+      expect(calc.finalDamage).toBe(50);
+    });
+
+    it('applies full armor to types without armor rules', () => {
+      const calc = calculateDamage(zombie, defender, DamageType.EXPLOSIVE, HIT);
+
+      expect(calc.modifiers.armorReduction).toBe(20);
+      expect(calc.finalDamage).toBe(30);
+    });
+  });
+
+  // ==========================================================================
+  // TYPE EFFECTIVENESS
+  // ==========================================================================
+
+  describe('type effectiveness', () => {
+    it('doubles holy damage against zombies', () => {
+      const priest = createMockEnemy({ type: EnemyType.PRIEST, stats: stats({ attack: 30 }) });
+      const target = createMockCombatUnit({ stats: stats({ defense: 10 }) });
+
+      const calc = calculateDamage(priest, target, DamageType.HOLY, { random: () => 0 });
+
+      expect(calc.modifiers.typeMultiplier).toBe(2);
+    });
+
+    it('does not apply holy bonus against enemies', () => {
+      const calc = calculateDamage(zombie, createMockEnemy(), DamageType.HOLY, HIT);
+
+      expect(calc.modifiers.typeMultiplier).toBe(1);
+    });
+
+    it('boosts dark damage against peasants', () => {
+      const peasant = createMockEnemy({ type: EnemyType.PEASANT, stats: stats({}) });
+
+      const calc = calculateDamage(zombie, peasant, DamageType.DARK, { random: () => 0.5 });
+
+      expect(calc.modifiers.typeMultiplier).toBe(1.5);
+      expect(calc.finalDamage).toBe(75);
+    });
+
+    it('doubles explosive damage against structures', () => {
+      const calc = calculateDamage(zombie, createMockCombatUnit(), DamageType.EXPLOSIVE, {
+        ...HIT,
+        targetIsStructure: true,
+      });
+
+      expect(calc.modifiers.typeMultiplier).toBe(2);
+    });
+  });
+
+  // ==========================================================================
+  // RESISTANCES
+  // ==========================================================================
+
+  describe('resistances', () => {
+    it('reduces damage by resistance fraction', () => {
+      const defender = createMockCombatUnit({
+        stats: stats({ defense: 0, resistances: { [DamageType.FIRE]: 0.5 } }),
+      });
+
+      const calc = calculateDamage(zombie, defender, DamageType.FIRE, HIT);
+
+      expect(calc.modifiers.resistanceMultiplier).toBe(0.5);
+      expect(calc.finalDamage).toBe(25);
+    });
+
+    it('increases damage for negative resistance', () => {
+      const defender = createMockCombatUnit({
+        stats: stats({ defense: 0, resistances: { [DamageType.DARK]: -0.5 } }),
+      });
+
+      const calc = calculateDamage(zombie, defender, DamageType.DARK, HIT);
+
+      expect(calc.finalDamage).toBe(75);
+    });
+
+    it('deals no damage to immune defenders', () => {
+      const defender = createMockCombatUnit({
+        stats: stats({ resistances: { [DamageType.HOLY]: 1 } }),
+      });
+
+      const calc = calculateDamage(zombie, defender, DamageType.HOLY, HIT);
+
+      expect(calc.finalDamage).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // HIT AND CRIT
+  // ==========================================================================
+
+  describe('accuracy, evasion and crits', () => {
+    it('misses when the roll exceeds hit chance', () => {
+      const calc = calculateDamage(zombie, createMockEnemy(), DamageType.PHYSICAL, HIT);
+
+      // Peasant evasion 0.1 -> 90% hit chance
+      expect(calc.isHit).toBe(false);
+      expect(calc.finalDamage).toBe(0);
+    });
+
+    it('applies crit multiplier from enemy base stats', () => {
+      const archer = createMockEnemy({ type: EnemyType.ARCHER, stats: stats({}) });
+      const target = createMockCombatUnit({ stats: stats({ defense: 0 }) });
+
+      const calc = calculateDamage(archer, target, DamageType.PHYSICAL, { random: () => 0 });
+
+      expect(calc.isCritical).toBe(true);
+      expect(calc.modifiers.criticalMultiplier).toBe(2);
+      expect(calc.finalDamage).toBe(100);
+    });
+
+    it('never crits for zombies', () => {
+      const calc = calculateDamage(zombie, createMockCombatUnit(), DamageType.PHYSICAL, {
+        random: () => 0,
+      });
+
+      expect(calc.isCritical).toBe(false);
+    });
+
+    it('combines accuracy and evasion', () => {
+      const chance = getHitChance(
+        getHitProfile(createMockEnemy({ type: EnemyType.ARCHER })),
+        getHitProfile(createMockEnemy({ type: EnemyType.MAGE }))
+      );
+
+      expect(chance).toBeCloseTo(0.9 * 0.8);
+    });
+  });
+
+  // ==========================================================================
+  // MINIMUM AND MODIFIERS
+  // ==========================================================================
+
+  describe('minimum damage and modifiers', () => {
+    it('never deals less than MINIMUM_DAMAGE on a hit', () => {
+      const weak = createMockCombatUnit({ stats: stats({ attack: 1 }) });
+      const tank = createMockCombatUnit({ stats: stats({ defense: 100 }) });
+
+      const calc = calculateDamage(weak, tank, DamageType.PHYSICAL, HIT);
+
+      expect(calc.finalDamage).toBe(gameConfig.COMBAT.MINIMUM_DAMAGE);
+    });
+
+    it('applies extra modifier', () => {
+      const target = createMockCombatUnit({ stats: stats({ defense: 0 }) });
+
+      const calc = calculateDamage(zombie, target, DamageType.PHYSICAL, { ...HIT, modifier: 0.5 });
+
+      expect(calc.modifiers.other).toBe(0.5);
+      expect(calc.finalDamage).toBe(25);
+    });
+  });
+});
+
+// ============================================================================
+// DAMAGE TYPES
+// ============================================================================
+
+describe('calculateStructureDamage', () => {
+  const gate = createFortification(ObstacleType.GATE, { x: 0, y: 0 });
+
+  it('applies structure armor and the vsStructures multiplier', () => {
+    // (50 - 20 armor) * 2 explosive vs structures
+    expect(calculateStructureDamage(zombie, gate, DamageType.EXPLOSIVE, HIT).finalDamage).toBe(60);
+    // 50 - 20 * 0.7 physical armor effectiveness
+    expect(calculateStructureDamage(zombie, gate, DamageType.PHYSICAL, HIT).finalDamage).toBe(36);
+  });
+
+  it('lets inaccurate attackers miss', () => {
+    const archer = createMockEnemy({ type: EnemyType.ARCHER, stats: stats({}) });
+
+    const result = calculateStructureDamage(archer, gate, DamageType.PHYSICAL, {
+      random: () => 0.999,
+    });
+
+    expect(result.isHit).toBe(false);
+    expect(result.finalDamage).toBe(0);
+  });
+});
+
+describe('getAttackDamageType', () => {
+  it('uses zombie config damage type', () => {
+    const spitter = createMockCombatUnit({ type: ZombieType.SPITTER });
+
+    expect(getAttackDamageType(spitter)).toBe(DamageType.TOXIC);
+  });
+
+  it('uses holy damage for priests', () => {
+    expect(getAttackDamageType(createMockEnemy({ type: EnemyType.PRIEST }))).toBe(DamageType.HOLY);
+  });
+
+  it('defaults enemies to physical', () => {
+    expect(getAttackDamageType(createMockEnemy({ type: EnemyType.SOLDIER }))).toBe(
+      DamageType.PHYSICAL
+    );
+  });
+});
+
+describe('getAoERadius', () => {
+  it('returns configured radius for explosive damage', () => {
+    expect(getAoERadius(DamageType.EXPLOSIVE)).toBe(2);
+  });
+
+  it('returns default radius for fire', () => {
+    expect(getAoERadius(DamageType.FIRE)).toBe(1);
+  });
+
+  it('returns 0 for single-target damage', () => {
+    expect(getAoERadius(DamageType.PHYSICAL)).toBe(0);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Enemy Ability Tests
+ *
+ * Tests for the enemy ability executor:
+ * - Cooldowns and the useAbilities AI flag
+ * - Target resolution per AbilityTargetType
+ * - Damage, heal, buff, summon and resurrect effects
+ * - ability.used events and battle log entries
+ *
+ * Per DOMAIN-COMBAT.md Enemy Types and AI Behavior.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { CombatState, Enemy, EnemyAbility } from '../../../../types/combat';
+import {
+  AbilityEffectType,
+  AbilityTargetType,
+  BattleLogEventType,
+  EnemyType,
+  StatusEffect,
+} from '../../../../types/combat';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockEnemy,
+} from '../../test-utils/combatTestHelpers';
+import { getEnemyAbilities } from '../enemyComposition';
+import { applyStatusEffect } from '../statusEffects';
+import { BATTLEFIELD_TILE_SIZE } from '../targeting';
+import {
+  resolveEnemyAbilities,
+  castAbility,
+  isAbilityReady,
+  resolveAbilityTargets,
+} from '../enemyAbilities';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Rolls that always hit and never crit */
+const NO_CRIT_HIT = () => 0.5;
+
+/** Enemy of the given type carrying its catalog abilities */
+function createCaster(type: EnemyType, overrides: Partial<Enemy> = {}): Enemy {
+  const base = createMockEnemy();
+  return createMockEnemy({
+    id: 'caster',
+    type,
+    name: type,
+    position: { x: 400, y: 500 },
+    stats: { ...base.stats, range: 6 },
+    aiProfile: { ...base.aiProfile, useAbilities: true },
+    abilities: getEnemyAbilities(type),
+    ...overrides,
+  });
+}
+
+/** Zombie the given number of tiles left of the caster */
+function createZombieAt(id: string, tilesAway: number, y = 500) {
+  return createMockCombatUnit({
+    id,
+    name: id,
+    position: { x: 400 - tilesAway * BATTLEFIELD_TILE_SIZE, y },
+  });
+}
+
+function createBattle(enemies: Enemy[], zombieTiles: number[] = [3]): CombatState {
+  return createMockBattle({
+    battleId: 'battle-1',
+    battleDuration: 5,
+    playerSquad: zombieTiles.map((tiles, i) => createZombieAt(`z${i + 1}`, tiles)),
+    enemies,
+  });
+}
+
+function findAbility(enemy: Enemy, name: string): EnemyAbility {
+  const ability = enemy.abilities.find((a) => a.name === name);
+  if (!ability) throw new Error(`${enemy.type} has no ${name}`);
+  return ability;
+}
+
+// ============================================================================
+// COOLDOWNS
+// ============================================================================
+
+describe('isAbilityReady', () => {
+  const ability: EnemyAbility = {
+    id: 'a1',
+    name: 'Test',
+    cooldown: 10,
+    lastUsedAt: null,
+    effect: { type: AbilityEffectType.BUFF, targetType: AbilityTargetType.SELF },
+  };
+
+  it('is ready when never used or once the cooldown has elapsed', () => {
+    expect(isAbilityReady(ability, 0)).toBe(true);
+    expect(isAbilityReady({ ...ability, lastUsedAt: 5 }, 14.9)).toBe(false);
+    expect(isAbilityReady({ ...ability, lastUsedAt: 5 }, 15)).toBe(true);
+  });
+});
+
+// ============================================================================
+// TARGETING
+// ============================================================================
+
+describe('resolveAbilityTargets', () => {
+  it('hits every zombie within the AoE radius of the primary target', () => {
+    const mage = createCaster(EnemyType.MAGE);
+    // Fireball radius is 2 tiles around the closest zombie (3 tiles away)
+    const battle = createBattle([mage], [3, 4, 9]);
+
+    expect(resolveAbilityTargets(battle, mage, findAbility(mage, 'Fireball').effect)).toEqual([
+      'z1',
+      'z2',
+    ]);
+  });
+
+  it('has no targets when no zombie is in range', () => {
+    const mage = createCaster(EnemyType.MAGE);
+
+    expect(
+      resolveAbilityTargets(createBattle([mage], [20]), mage, findAbility(mage, 'Fireball').effect)
+    ).toBeNull();
+  });
+
+  it('only heals allies below half health', () => {
+    const priest = createCaster(EnemyType.PRIEST);
+    const healthy = createMockEnemy({ id: 'ally-1', position: { x: 420, y: 500 } });
+    const injured = createMockEnemy({
+      id: 'ally-2',
+      position: { x: 440, y: 500 },
+      stats: { ...healthy.stats, hp: 10 },
+    });
+    const mend = findAbility(priest, 'Mend').effect;
+
+    expect(resolveAbilityTargets(createBattle([priest, healthy]), priest, mend)).toBeNull();
+    expect(resolveAbilityTargets(createBattle([priest, healthy, injured]), priest, mend)).toEqual([
+      'ally-2',
+    ]);
+  });
+});
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+describe('resolveEnemyAbilities', () => {
+  it('casts a damage ability, starts its cooldown and logs it', () => {
+    const battle = createBattle([createCaster(EnemyType.MAGE)], [3, 9]);
+
+    const { state, events } = resolveEnemyAbilities(battle, NO_CRIT_HIT);
+
+    expect(state.playerSquad[0]?.stats.hp).toBeLessThan(100);
+    expect(state.playerSquad[1]?.stats.hp).toBe(100);
+    expect(state.enemies[0]?.abilities[0]?.lastUsedAt).toBe(5);
+    expect(events[0]).toEqual({
+      type: 'ability.used',
+      payload: {
+        battleId: 'battle-1',
+        unitId: 'caster',
+        abilityId: state.enemies[0]?.abilities[0]?.id,
+        targetIds: ['z1'],
+      },
+    });
+    expect(state.battleLog.some((e) => e.type === BattleLogEventType.ABILITY_USED)).toBe(true);
+  });
+
+  it('waits for the cooldown before casting again', () => {
+    const first = resolveEnemyAbilities(createBattle([createCaster(EnemyType.MAGE)]), NO_CRIT_HIT);
+
+    const second = resolveEnemyAbilities(
+      { ...first.state, battleDuration: first.state.battleDuration + 1 },
+      NO_CRIT_HIT
+    );
+
+    expect(second.events).toHaveLength(0);
+  });
+
+  it('ignores enemies that do not use abilities or cannot act', () => {
+    const passive = createCaster(EnemyType.MAGE, {
+      aiProfile: { ...createMockEnemy().aiProfile, useAbilities: false },
+    });
+    const stunned = applyStatusEffect(
+      createBattle([createCaster(EnemyType.MAGE)]),
+      'caster',
+      StatusEffect.STUNNED
+    ).state;
+
+    expect(resolveEnemyAbilities(createBattle([passive])).events).toHaveLength(0);
+    expect(resolveEnemyAbilities(stunned).events).toHaveLength(0);
+  });
+
+  it('makes a badly hurt paladin heal itself before fighting', () => {
+    const paladin = createCaster(EnemyType.PALADIN);
+    const hurt = createCaster(EnemyType.PALADIN, {
+      stats: { ...paladin.stats, hp: 20, maxHp: 100 },
+    });
+
+    const { state, events } = resolveEnemyAbilities(createBattle([hurt]), NO_CRIT_HIT);
+
+    expect(state.enemies[0]?.stats.hp).toBe(70);
+    expect(events).toContainEqual({
+      type: 'unit.healed',
+      payload: { battleId: 'battle-1', unitId: 'caster', amount: 50, newHp: 70 },
+    });
+  });
+
+  it('buffs every ally with a rally', () => {
+    const general = createCaster(EnemyType.GENERAL);
+    const ally = createMockEnemy({ id: 'ally-1', position: { x: 600, y: 500 } });
+    const rally = findAbility(general, 'Rally');
+
+    const { state } = castAbility(createBattle([general, ally]), 'caster', rally.id);
+
+    expect(state.enemies.every((e) => e.statusEffects.includes(StatusEffect.BUFFED))).toBe(true);
+  });
+
+  it('summons reinforcements next to the caster', () => {
+    const general = createCaster(EnemyType.GENERAL);
+    const reinforcements = findAbility(general, 'Call Reinforcements');
+
+    const { state, events } = castAbility(createBattle([general]), 'caster', reinforcements.id);
+
+    const summoned = state.enemies.slice(1);
+    expect(summoned).toHaveLength(2);
+    expect(summoned.every((e) => e.type === EnemyType.MILITIA)).toBe(true);
+    expect(summoned[0]?.position.x).toBe(400 + BATTLEFIELD_TILE_SIZE);
+    expect(events.filter((e) => e.type === 'unit.spawned')).toHaveLength(2);
+  });
+
+  it('raises a fallen ally', () => {
+    const necromancer = createCaster(EnemyType.NECROMANCER);
+    const fallen = createMockEnemy({ id: 'ally-1', isDead: true });
+    const battle = createBattle([necromancer, { ...fallen, stats: { ...fallen.stats, hp: 0 } }]);
+
+    const { state } = resolveEnemyAbilities(battle, NO_CRIT_HIT);
+
+    expect(state.enemies[1]).toMatchObject({ isDead: false, stats: { hp: 30 } });
+  });
+});
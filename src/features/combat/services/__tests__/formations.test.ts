@@ -0,0 +1,207 @@
+/**
+ * Formations Tests
+ *
+ * Tests for deployment formations:
+ * - Preset layouts (slot 1 on the front row)
+ * - Role ordering for ranged behind tanks
+ * - Validation against bounds, deployment zone and fortifications
+ * - User-defined formations stored per squad
+ *
+ * Per DOMAIN-COMBAT.md Battle Preparation.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Formation } from '../../../../types/combat';
+import { ObstacleType } from '../../../../types/combat';
+import { ZombieType } from '../../../../types/farm';
+import type { WorldState } from '../../../../types/world';
+import { createMockLocation, createMockZombie } from '../../test-utils/combatTestHelpers';
+import { createFortification } from '../fortifications';
+import { initializeBattle } from '../battleInitialization';
+import {
+  FORMATION_PRESET_IDS,
+  arrangeSquad,
+  getFormationPositions,
+  getFormationPreset,
+  getSquadFormation,
+  saveSquadFormation,
+  validateFormation,
+} from '../formations';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createWorld(): WorldState {
+  return {
+    locations: [],
+    unlockedLocations: [],
+    conqueredLocations: [],
+    currentRegion: 'test-region',
+    unlockedRegions: [],
+  };
+}
+
+const CUSTOM: Formation = {
+  id: 'spearhead',
+  name: 'Spearhead',
+  slots: [
+    { lane: 0, row: 0 },
+    { lane: 0, row: 1 },
+    { lane: -1, row: 2 },
+    { lane: 1, row: 2 },
+  ],
+};
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+describe('getFormationPreset', () => {
+  it.each(FORMATION_PRESET_IDS)('lays out a valid %s formation for a full squad', (id) => {
+    const formation = getFormationPreset(id, 10);
+
+    expect(formation.slots).toHaveLength(10);
+    expect(validateFormation(formation, 10)).toMatchObject({ isValid: true, errors: [] });
+  });
+
+  it('puts slot 1 of a deep formation on the front row', () => {
+    const positions = getFormationPositions(getFormationPreset('wedge', 5), 5, 'left');
+    const front = positions[0]?.x ?? 0;
+
+    expect(positions.slice(1).every((p) => p.x < front)).toBe(true);
+  });
+
+  it('leaves the centre open in a pincer', () => {
+    const lanes = getFormationPreset('pincer', 6).slots.map((slot) => Math.abs(slot.lane));
+
+    expect(Math.min(...lanes)).toBeGreaterThanOrEqual(3);
+  });
+
+  it('mirrors formations on the enemy side', () => {
+    const formation = getFormationPreset('column', 4);
+    const left = getFormationPositions(formation, 4, 'left');
+    const right = getFormationPositions(formation, 4, 'right');
+
+    expect(right.map((p) => 1920 - p.x)).toEqual(left.map((p) => p.x));
+    expect(right.map((p) => p.y)).toEqual(left.map((p) => p.y));
+  });
+});
+
+// ============================================================================
+// ROLE ORDERING
+// ============================================================================
+
+describe('arrangeSquad', () => {
+  const spitter = createMockZombie({ id: 'spitter', type: ZombieType.SPITTER });
+  const shambler = createMockZombie({ id: 'shambler', type: ZombieType.SHAMBLER });
+  const brute = createMockZombie({ id: 'brute', type: ZombieType.BRUTE });
+
+  it('keeps deployment order for slot formations', () => {
+    const squad = arrangeSquad([spitter, shambler, brute], getFormationPreset('box', 3));
+
+    expect(squad.map((z) => z.id)).toEqual(['spitter', 'shambler', 'brute']);
+  });
+
+  it('puts tanks in front and ranged units behind', () => {
+    const formation = getFormationPreset('rangedBehindTanks', 3);
+
+    expect(arrangeSquad([spitter, shambler, brute], formation).map((z) => z.id)).toEqual([
+      'brute',
+      'shambler',
+      'spitter',
+    ]);
+  });
+
+  it('deploys the ranged units behind the tanks', () => {
+    const location = createMockLocation({ fortifications: [] });
+    const squad = [
+      spitter,
+      brute,
+      shambler,
+      createMockZombie({ id: 'knight', type: ZombieType.BONE_KNIGHT }),
+    ];
+
+    const battle = initializeBattle(squad, location, 'rangedBehindTanks', () => 0.5, 0);
+    const x = (id: string) => battle.playerSquad.find((unit) => unit.id === id)?.position.x ?? 0;
+
+    expect(x('spitter')).toBeLessThan(x('brute'));
+    expect(x('spitter')).toBeLessThan(x('knight'));
+  });
+});
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('validateFormation', () => {
+  it('accepts a formation that fits', () => {
+    expect(validateFormation(CUSTOM, 4).isValid).toBe(true);
+  });
+
+  it('rejects too few slots and warns about empty ones', () => {
+    expect(validateFormation(CUSTOM, 5).errors).toContain('Formation has 4 slots for 5 units');
+    expect(validateFormation(CUSTOM, 3).warnings).toContain('1 formation slot(s) left empty');
+  });
+
+  it('rejects shared slots', () => {
+    const formation = {
+      ...CUSTOM,
+      slots: [
+        { lane: 0, row: 0 },
+        { lane: 0, row: 0 },
+      ],
+    };
+
+    expect(validateFormation(formation, 2).isValid).toBe(false);
+  });
+
+  it('rejects lanes past the battlefield edge and rows past the deployment zone', () => {
+    const wide = { ...CUSTOM, slots: [{ lane: 7, row: 0 }] };
+    const deep = {
+      ...CUSTOM,
+      slots: [
+        { lane: 0, row: 0 },
+        { lane: 0, row: 7 },
+      ],
+    };
+
+    expect(validateFormation(wide, 1).errors).toContain(
+      'Formation lanes extend past the battlefield edge'
+    );
+    expect(validateFormation(deep, 2).errors).toContain(
+      'Formation is too deep for the deployment zone'
+    );
+  });
+
+  it('rejects slots on standing fortifications', () => {
+    const [slot] = getFormationPositions(CUSTOM, 4, 'left');
+    const wall = createFortification(ObstacleType.WALL, slot ?? { x: 0, y: 0 });
+
+    expect(validateFormation(CUSTOM, 4, [wall]).errors).toContain(
+      '1 formation slot(s) are blocked by fortifications'
+    );
+    expect(validateFormation(CUSTOM, 4, [{ ...wall, isDestroyed: true }]).isValid).toBe(true);
+  });
+});
+
+// ============================================================================
+// SQUAD FORMATIONS
+// ============================================================================
+
+describe('saveSquadFormation', () => {
+  it('stores a formation per squad', () => {
+    const result = saveSquadFormation(createWorld(), 'squad-a', CUSTOM);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(getSquadFormation(result.data, 'squad-a')).toBe(CUSTOM);
+    expect(getSquadFormation(result.data, 'squad-b')).toBeUndefined();
+  });
+
+  it('refuses an invalid formation', () => {
+    const result = saveSquadFormation(createWorld(), 'squad-a', { ...CUSTOM, slots: [] });
+
+    expect(result).toEqual({ success: false, error: 'Formation has no slots' });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Mutation Effect Tests
+ *
+ * Tests for the combat side of zombie mutations:
+ * - Stat modifiers applied when a zombie enters battle
+ * - On-hit status effects and lifesteal
+ * - Auras buffing nearby zombies
+ *
+ * Per PRD Natural Mutations and DOMAIN-COMBAT.md Status Effects.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { StatusEffect } from '../../../../types/combat';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockEnemy,
+  createMockLocation,
+  createMockZombie,
+} from '../../test-utils/combatTestHelpers';
+import { BATTLEFIELD_TILE_SIZE } from '../targeting';
+import { initializeBattle } from '../battleInitialization';
+import { applyLifeSteal } from '../zombieAbilities';
+import {
+  applyMutationAuras,
+  applyMutationOnHitEffects,
+  getMutationLifeSteal,
+} from '../mutationEffects';
+
+// ============================================================================
+// STAT MODIFIERS
+// ============================================================================
+
+describe('mutation stat modifiers', () => {
+  it('applies mutation stats when a zombie enters battle', () => {
+    const zombie = createMockZombie({ id: 'clawed', mutations: ['razorClaws', 'Thick Skin'] });
+
+    const battle = initializeBattle([zombie], createMockLocation(), 'line', () => 0.5, 0);
+    const [unit] = battle.playerSquad;
+
+    expect(unit?.stats.attack).toBe(Math.round(15 * 1.3));
+    expect(unit?.stats.defense).toBe(Math.round(10 * 1.25));
+    expect(unit?.mutations).toEqual(['razorClaws', 'Thick Skin']);
+  });
+});
+
+// ============================================================================
+// ON-HIT EFFECTS
+// ============================================================================
+
+describe('applyMutationOnHitEffects', () => {
+  const enemy = createMockEnemy({ id: 'enemy' });
+
+  it('applies an on-hit status effect when the roll succeeds', () => {
+    const zombie = createMockCombatUnit({ id: 'venom', mutations: ['venomous'] });
+    const state = createMockBattle({ playerSquad: [zombie], enemies: [enemy] });
+
+    const result = applyMutationOnHitEffects(
+      state,
+      [{ attackerId: 'venom', targetId: 'enemy' }],
+      () => 0
+    );
+
+    expect(result.state.activeEffects).toEqual([
+      expect.objectContaining({ unitId: 'enemy', effect: StatusEffect.POISONED }),
+    ]);
+    expect(result.events).toHaveLength(1);
+  });
+
+  it('skips the effect when the roll fails and never rolls without mutations', () => {
+    const venom = createMockCombatUnit({ id: 'venom', mutations: ['venomous'] });
+    const plain = createMockCombatUnit({ id: 'plain' });
+    const state = createMockBattle({ playerSquad: [venom, plain], enemies: [enemy] });
+    let rolls = 0;
+
+    const result = applyMutationOnHitEffects(
+      state,
+      [
+        { attackerId: 'venom', targetId: 'enemy' },
+        { attackerId: 'plain', targetId: 'enemy' },
+      ],
+      () => {
+        rolls++;
+        return 0.99;
+      }
+    );
+
+    expect(result.state).toBe(state);
+    expect(rolls).toBe(1);
+  });
+
+  it('adds mutation lifesteal to healing from hits', () => {
+    const zombie = createMockCombatUnit({
+      id: 'bloodlust',
+      mutations: ['bloodlust'],
+      stats: { ...createMockCombatUnit().stats, hp: 50 },
+    });
+    const state = createMockBattle({ playerSquad: [zombie], enemies: [enemy] });
+
+    expect(getMutationLifeSteal(zombie)).toBeCloseTo(0.2);
+    const result = applyLifeSteal(state, [
+      { attackerId: 'bloodlust', targetId: 'enemy', damage: 50 },
+    ]);
+
+    expect(result.state.playerSquad[0]?.stats.hp).toBe(60);
+  });
+});
+
+// ============================================================================
+// AURAS
+// ============================================================================
+
+describe('applyMutationAuras', () => {
+  const leader = createMockCombatUnit({
+    id: 'leader',
+    mutations: ['packLeader'],
+    position: { x: 400, y: 500 },
+  });
+
+  it('buffs other zombies within the aura radius', () => {
+    const near = createMockCombatUnit({
+      id: 'near',
+      position: { x: 400 + 2 * BATTLEFIELD_TILE_SIZE, y: 500 },
+    });
+    const far = createMockCombatUnit({
+      id: 'far',
+      position: { x: 400 + 6 * BATTLEFIELD_TILE_SIZE, y: 500 },
+    });
+    const state = createMockBattle({ playerSquad: [leader, near, far] });
+
+    expect(applyMutationAuras(state, near, near.stats).attack).toBe(Math.floor(15 * 1.1));
+    expect(applyMutationAuras(state, far, far.stats)).toBe(far.stats);
+    expect(applyMutationAuras(state, leader, leader.stats)).toBe(leader.stats);
+  });
+
+  it('ignores dead leaders and enemies', () => {
+    const near = createMockCombatUnit({ id: 'near', position: { x: 400, y: 500 } });
+    const enemy = createMockEnemy({ id: 'enemy', position: { x: 400, y: 500 } });
+    const state = createMockBattle({
+      playerSquad: [{ ...leader, isDead: true }, near],
+      enemies: [enemy],
+    });
+    const living = createMockBattle({ playerSquad: [leader, near], enemies: [enemy] });
+
+    expect(applyMutationAuras(state, near, near.stats)).toBe(near.stats);
+    expect(applyMutationAuras(living, enemy, enemy.stats)).toBe(enemy.stats);
+  });
+});
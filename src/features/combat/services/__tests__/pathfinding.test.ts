@@ -0,0 +1,186 @@
+/**
+ * Pathfinding Tests
+ *
+ * Tests for battlefield navigation:
+ * - Walkability grid from movement-blocking obstacles
+ * - Flow-field routing around fortifications
+ * - Breaking through when no detour is short enough
+ * - Repathing after a fortification is destroyed
+ * - Obstacle attack rule for blocked units
+ *
+ * Per DOMAIN-COMBAT.md obstacles and fortifications.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Obstacle } from '../../../../types/combat';
+import { ObstacleType } from '../../../../types/combat';
+import type { Position } from '../../../../types/global';
+import { createMockCombatUnit } from '../../test-utils/combatTestHelpers';
+import { createFortification, destroyFortification } from '../fortifications';
+import { BATTLEFIELD_TILE_SIZE } from '../targeting';
+import {
+  createNavigationGrid,
+  getNavigationGrid,
+  isWalkable,
+  isLineWalkable,
+  findPath,
+  shouldAttackObstacle,
+  NAVIGATION_GRID_HEIGHT,
+} from '../pathfinding';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Pixel position of a tile center */
+function tile(x: number, y: number): Position {
+  return { x: (x + 0.5) * BATTLEFIELD_TILE_SIZE, y: (y + 0.5) * BATTLEFIELD_TILE_SIZE };
+}
+
+/** Tile coordinates of a pixel position */
+function toTile(position: Position): Position {
+  return {
+    x: Math.floor(position.x / BATTLEFIELD_TILE_SIZE),
+    y: Math.floor(position.y / BATTLEFIELD_TILE_SIZE),
+  };
+}
+
+/** Tile coordinates of the final waypoint */
+function lastTile(path: Position[]): Position | undefined {
+  const last = path[path.length - 1];
+  return last && toTile(last);
+}
+
+/** Vertical line of fortifications at column x covering rows from..to */
+function wallColumn(x: number, from: number, to: number, type = ObstacleType.WALL): Obstacle[] {
+  return Array.from({ length: to - from + 1 }, (_, i) =>
+    createFortification(type, tile(x, from + i))
+  );
+}
+
+// ============================================================================
+// GRID
+// ============================================================================
+
+describe('createNavigationGrid', () => {
+  it('blocks tiles holding walls, gates and barricades only', () => {
+    const grid = createNavigationGrid([
+      createFortification(ObstacleType.WALL, tile(1, 1)),
+      createFortification(ObstacleType.GATE, tile(2, 1)),
+      createFortification(ObstacleType.TOWER, tile(3, 1)),
+      createFortification(ObstacleType.SPIKE_PIT, tile(4, 1)),
+    ]);
+
+    expect(isWalkable(grid, { x: 1, y: 1 })).toBe(false);
+    expect(isWalkable(grid, { x: 2, y: 1 })).toBe(false);
+    expect(isWalkable(grid, { x: 3, y: 1 })).toBe(true);
+    expect(isWalkable(grid, { x: 4, y: 1 })).toBe(true);
+    expect(isWalkable(grid, { x: -1, y: 0 })).toBe(false);
+  });
+
+  it('ignores destroyed fortifications', () => {
+    const wall = destroyFortification({
+      ...createFortification(ObstacleType.WALL, tile(1, 1)),
+      hp: 0,
+    });
+
+    expect(isWalkable(createNavigationGrid([wall]), { x: 1, y: 1 })).toBe(true);
+  });
+});
+
+describe('isLineWalkable', () => {
+  it('detects a fortification on the straight line', () => {
+    const grid = createNavigationGrid(wallColumn(5, 4, 6));
+
+    expect(isLineWalkable(grid, tile(0, 5), tile(10, 5))).toBe(false);
+    expect(isLineWalkable(grid, tile(0, 10), tile(10, 10))).toBe(true);
+  });
+});
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+describe('findPath', () => {
+  it('routes around a short wall without crossing it', () => {
+    const grid = createNavigationGrid(wallColumn(5, 3, 7));
+
+    const path = findPath(grid, tile(2, 5), tile(8, 5), true);
+
+    expect(lastTile(path)).toEqual({ x: 8, y: 5 });
+    expect(path.every((waypoint) => isWalkable(grid, toTile(waypoint)))).toBe(true);
+  });
+
+  it('returns no path when fully walled off and breaching is not allowed', () => {
+    const grid = createNavigationGrid(wallColumn(5, 0, NAVIGATION_GRID_HEIGHT - 1));
+
+    expect(findPath(grid, tile(2, 5), tile(8, 5), false)).toEqual([]);
+  });
+
+  it('breaks through the wall when no detour exists', () => {
+    const grid = createNavigationGrid(wallColumn(5, 0, NAVIGATION_GRID_HEIGHT - 1));
+
+    const path = findPath(grid, tile(2, 5), tile(8, 5), true);
+
+    // Path stops at the fortification to break through
+    expect(lastTile(path)?.x).toBe(5);
+  });
+
+  it('prefers breaking a gate over a long detour', () => {
+    // Wall spanning all but the bottom row: the detour is far longer than BREACH_COST
+    const grid = createNavigationGrid([
+      ...wallColumn(5, 0, 4),
+      createFortification(ObstacleType.GATE, tile(5, 5)),
+      ...wallColumn(5, 6, NAVIGATION_GRID_HEIGHT - 2),
+    ]);
+
+    const path = findPath(grid, tile(2, 5), tile(8, 5), true);
+
+    expect(lastTile(path)).toEqual({ x: 5, y: 5 });
+  });
+
+  it('repaths through a fortification once it is destroyed', () => {
+    const walls = wallColumn(5, 0, NAVIGATION_GRID_HEIGHT - 1);
+    const before = getNavigationGrid(walls);
+
+    const breached = walls.map((wall, i) =>
+      i === 5 ? destroyFortification({ ...wall, hp: 0 }) : wall
+    );
+    const after = getNavigationGrid(breached);
+
+    expect(after).not.toBe(before);
+    expect(getNavigationGrid(breached)).toBe(after);
+    const path = findPath(after, tile(2, 5), tile(8, 5), false);
+    expect(lastTile(path)).toEqual({ x: 8, y: 5 });
+  });
+});
+
+// ============================================================================
+// BREACHING
+// ============================================================================
+
+describe('shouldAttackObstacle', () => {
+  const wall = createFortification(ObstacleType.WALL, tile(5, 5));
+  const step = { waypoint: tile(5, 5), obstacle: wall };
+
+  it('attacks an adjacent fortification on the route', () => {
+    const melee = createMockCombatUnit({ position: tile(4, 5) });
+
+    expect(shouldAttackObstacle(melee, step)).toBe(true);
+  });
+
+  it('keeps walking while the fortification is out of reach', () => {
+    const melee = createMockCombatUnit({ position: tile(2, 5) });
+
+    expect(shouldAttackObstacle(melee, step)).toBe(false);
+  });
+
+  it('does not attack when the route is clear or the obstacle is indestructible', () => {
+    const melee = createMockCombatUnit({ position: tile(4, 5) });
+
+    expect(shouldAttackObstacle(melee, { waypoint: tile(5, 5), obstacle: null })).toBe(false);
+    expect(
+      shouldAttackObstacle(melee, { ...step, obstacle: { ...wall, isDestructible: false } })
+    ).toBe(false);
+  });
+});
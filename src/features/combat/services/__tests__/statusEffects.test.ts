@@ -0,0 +1,325 @@
+/**
+ * Status Effect Tests
+ *
+ * Tests for the status effect engine:
+ * - Application, stacking and refresh rules
+ * - Damage-type and ability triggered effects
+ * - DoT ticks, expiry and burning spread
+ * - Stun / fear / stat modifiers
+ * - status.applied / status.removed events
+ *
+ * Per DOMAIN-COMBAT.md Status Effects specifications.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { CombatState } from '../../../../types/combat';
+import {
+  AbilityEffectType,
+  AbilityTargetType,
+  DamageType,
+  StatusEffect,
+} from '../../../../types/combat';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockEnemy,
+} from '../../test-utils/combatTestHelpers';
+import {
+  applyStatusEffect,
+  applyDamageTypeEffects,
+  applyAbilityStatusEffect,
+  removeStatusEffect,
+  getDamageTypeEffects,
+  tickStatusEffects,
+  canUnitAct,
+  isUnitFleeing,
+  getEffectiveStats,
+  getUnitEffects,
+} from '../statusEffects';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createBattle(): CombatState {
+  return createMockBattle({
+    battleId: 'battle-1',
+    playerSquad: [
+      createMockCombatUnit({ id: 'z1', position: { x: 100, y: 500 } }),
+      createMockCombatUnit({ id: 'z2', position: { x: 120, y: 500 } }),
+    ],
+    enemies: [createMockEnemy({ id: 'e1', position: { x: 1000, y: 500 } })],
+  });
+}
+
+/** Advances the battle clock then ticks effects, like the simulation does */
+function advance(state: CombatState, seconds: number, random = () => 0.99): CombatState {
+  let current = state;
+  for (let i = 0; i < Math.round(seconds * 10); i++) {
+    current = tickStatusEffects(
+      { ...current, battleDuration: current.battleDuration + 0.1 },
+      0.1,
+      random
+    ).state;
+  }
+  return current;
+}
+
+// ============================================================================
+// APPLICATION
+// ============================================================================
+
+describe('applyStatusEffect', () => {
+  it('adds an active effect with config duration', () => {
+    const { state, events } = applyStatusEffect(createBattle(), 'z1', StatusEffect.POISONED);
+
+    expect(getUnitEffects(state, 'z1')).toHaveLength(1);
+    expect(state.activeEffects[0]?.duration).toBe(
+      gameConfig.COMBAT.STATUS_EFFECTS[StatusEffect.POISONED].duration
+    );
+    expect(state.playerSquad[0]?.statusEffects).toEqual([StatusEffect.POISONED]);
+    expect(events).toEqual([
+      {
+        type: 'status.applied',
+        payload: {
+          battleId: 'battle-1',
+          unitId: 'z1',
+          effect: StatusEffect.POISONED,
+          duration: 10,
+        },
+      },
+    ]);
+  });
+
+  it('stacks stackable effects up to maxStacks', () => {
+    let state = createBattle();
+    for (let i = 0; i < 5; i++) {
+      state = applyStatusEffect(state, 'z1', StatusEffect.POISONED).state;
+    }
+
+    expect(getUnitEffects(state, 'z1')).toHaveLength(
+      gameConfig.COMBAT.STATUS_EFFECTS[StatusEffect.POISONED].maxStacks
+    );
+  });
+
+  it('refreshes non-stackable effects instead of stacking', () => {
+    let state = applyStatusEffect(createBattle(), 'z1', StatusEffect.STUNNED).state;
+    state = advance(state, 1);
+    state = applyStatusEffect(state, 'z1', StatusEffect.STUNNED).state;
+
+    const stuns = getUnitEffects(state, 'z1');
+    expect(stuns).toHaveLength(1);
+    expect(stuns[0]?.duration).toBe(
+      gameConfig.COMBAT.STATUS_EFFECTS[StatusEffect.STUNNED].duration
+    );
+  });
+
+  it('ignores dead units', () => {
+    const battle = createMockBattle({
+      playerSquad: [createMockCombatUnit({ id: 'z1', isDead: true })],
+    });
+
+    const { state, events } = applyStatusEffect(battle, 'z1', StatusEffect.BURNING);
+
+    expect(state).toBe(battle);
+    expect(events).toHaveLength(0);
+  });
+});
+
+describe('getDamageTypeEffects', () => {
+  it('maps damage types to on-hit effects', () => {
+    expect(getDamageTypeEffects(DamageType.TOXIC)).toEqual([StatusEffect.POISONED]);
+    expect(getDamageTypeEffects(DamageType.FIRE)).toEqual([StatusEffect.BURNING]);
+    expect(getDamageTypeEffects(DamageType.DARK)).toEqual([StatusEffect.FEAR]);
+    expect(getDamageTypeEffects(DamageType.PHYSICAL)).toEqual([]);
+  });
+
+  it('rolls holy stun chance', () => {
+    expect(getDamageTypeEffects(DamageType.HOLY, () => 0.1)).toEqual([
+      StatusEffect.WEAKENED,
+      StatusEffect.STUNNED,
+    ]);
+    expect(getDamageTypeEffects(DamageType.HOLY, () => 0.9)).toEqual([StatusEffect.WEAKENED]);
+  });
+});
+
+describe('applyDamageTypeEffects', () => {
+  it('poisons units hit by toxic damage', () => {
+    const { state } = applyDamageTypeEffects(createBattle(), 'e1', DamageType.TOXIC);
+
+    expect(state.enemies[0]?.statusEffects).toContain(StatusEffect.POISONED);
+  });
+});
+
+describe('applyAbilityStatusEffect', () => {
+  it('applies the ability status effect to every target', () => {
+    const { state, events } = applyAbilityStatusEffect(
+      createBattle(),
+      {
+        type: AbilityEffectType.DEBUFF,
+        statusEffect: StatusEffect.SLOWED,
+        targetType: AbilityTargetType.AOE,
+      },
+      ['z1', 'z2']
+    );
+
+    expect(events).toHaveLength(2);
+    expect(state.playerSquad.every((z) => z.statusEffects.includes(StatusEffect.SLOWED))).toBe(
+      true
+    );
+  });
+});
+
+describe('removeStatusEffect', () => {
+  it('removes all stacks and emits status.removed', () => {
+    let state = applyStatusEffect(createBattle(), 'z1', StatusEffect.BLEEDING).state;
+    state = applyStatusEffect(state, 'z1', StatusEffect.BLEEDING).state;
+
+    const result = removeStatusEffect(state, 'z1', StatusEffect.BLEEDING);
+
+    expect(getUnitEffects(result.state, 'z1')).toHaveLength(0);
+    expect(result.state.playerSquad[0]?.statusEffects).toEqual([]);
+    expect(result.events[0]?.type).toBe('status.removed');
+  });
+});
+
+// ============================================================================
+// TICK
+// ============================================================================
+
+describe('tickStatusEffects', () => {
+  it('deals poison damage once per second as % of max HP', () => {
+    const state = applyStatusEffect(createBattle(), 'z1', StatusEffect.POISONED).state;
+
+    const after = advance(state, 3);
+
+    // 2% of 100 max HP per second
+    expect(after.playerSquad[0]?.stats.hp).toBe(94);
+  });
+
+  it('multiplies DoT by stacks', () => {
+    let state = applyStatusEffect(createBattle(), 'z1', StatusEffect.POISONED).state;
+    state = applyStatusEffect(state, 'z1', StatusEffect.POISONED).state;
+
+    const after = advance(state, 1);
+
+    expect(after.playerSquad[0]?.stats.hp).toBe(96);
+  });
+
+  it('expires effects and emits status.removed', () => {
+    const state = applyStatusEffect(createBattle(), 'z1', StatusEffect.STUNNED).state;
+
+    let current = state;
+    const events = [];
+    for (let i = 0; i < 20; i++) {
+      const result = tickStatusEffects(
+        { ...current, battleDuration: current.battleDuration + 0.1 },
+        0.1
+      );
+      current = result.state;
+      events.push(...result.events);
+    }
+
+    expect(current.activeEffects).toHaveLength(0);
+    expect(current.playerSquad[0]?.statusEffects).toEqual([]);
+    expect(events).toEqual([
+      {
+        type: 'status.removed',
+        payload: { battleId: 'battle-1', unitId: 'z1', effect: StatusEffect.STUNNED },
+      },
+    ]);
+  });
+
+  it('kills units reduced to 0 HP by DoT', () => {
+    const battle = createMockBattle({
+      playerSquad: [
+        createMockCombatUnit({
+          id: 'z1',
+          stats: { ...createMockCombatUnit().stats, hp: 3 },
+        }),
+      ],
+    });
+    const state = applyStatusEffect(battle, 'z1', StatusEffect.BURNING).state;
+
+    const after = advance(state, 1);
+
+    expect(after.playerSquad[0]?.isDead).toBe(true);
+    expect(after.activeEffects).toHaveLength(0);
+  });
+
+  it('removes the effects of dead units and emits status.removed', () => {
+    const state = applyStatusEffect(createBattle(), 'z1', StatusEffect.STUNNED).state;
+    const killed: CombatState = {
+      ...state,
+      playerSquad: state.playerSquad.map((u) => (u.id === 'z1' ? { ...u, isDead: true } : u)),
+      battleDuration: state.battleDuration + 0.1,
+    };
+
+    const result = tickStatusEffects(killed, 0.1);
+
+    expect(result.state.activeEffects).toHaveLength(0);
+    expect(result.state.playerSquad[0]?.statusEffects).toEqual([]);
+    expect(result.events).toEqual([
+      {
+        type: 'status.removed',
+        payload: { battleId: 'battle-1', unitId: 'z1', effect: StatusEffect.STUNNED },
+      },
+    ]);
+  });
+
+  it('spreads burning to nearby units on a successful roll', () => {
+    const state = applyStatusEffect(createBattle(), 'z1', StatusEffect.BURNING).state;
+
+    const after = advance(state, 1, () => 0);
+
+    expect(after.playerSquad[1]?.statusEffects).toContain(StatusEffect.BURNING);
+    expect(after.enemies[0]?.statusEffects).not.toContain(StatusEffect.BURNING);
+  });
+
+  it('does not spread burning on a failed roll', () => {
+    const state = applyStatusEffect(createBattle(), 'z1', StatusEffect.BURNING).state;
+
+    const after = advance(state, 1, () => 0.99);
+
+    expect(after.playerSquad[1]?.statusEffects).not.toContain(StatusEffect.BURNING);
+  });
+});
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+describe('status queries', () => {
+  it('blocks actions while stunned', () => {
+    const state = applyStatusEffect(createBattle(), 'z1', StatusEffect.STUNNED).state;
+
+    expect(canUnitAct(state, 'z1')).toBe(false);
+    expect(canUnitAct(state, 'z2')).toBe(true);
+  });
+
+  it('forces feared units to flee', () => {
+    const state = applyStatusEffect(createBattle(), 'e1', StatusEffect.FEAR).state;
+
+    expect(isUnitFleeing(state, 'e1')).toBe(true);
+  });
+
+  it('applies weakened, slowed and buffed modifiers', () => {
+    let state = applyStatusEffect(createBattle(), 'z1', StatusEffect.WEAKENED).state;
+    state = applyStatusEffect(state, 'z1', StatusEffect.SLOWED).state;
+    const unit = state.playerSquad[0] ?? createMockCombatUnit();
+
+    const stats = getEffectiveStats(state, unit);
+
+    expect(stats.attack).toBe(Math.floor(15 * 0.7));
+    expect(stats.speed).toBeCloseTo(0.5);
+  });
+
+  it('adds buff stacks together', () => {
+    let state = applyStatusEffect(createBattle(), 'z1', StatusEffect.BUFFED).state;
+    state = applyStatusEffect(state, 'z1', StatusEffect.BUFFED).state;
+    const unit = state.playerSquad[0] ?? createMockCombatUnit();
+
+    expect(getEffectiveStats(state, unit).attack).toBe(Math.floor(15 * 1.4));
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Zombie Ability Tests
+ *
+ * Tests for zombie signature abilities:
+ * - Ability catalog lookup and castable abilities
+ * - Brute splash and structure damage
+ * - Ghoul lifesteal
+ * - Explosive zombie death explosions with friendly fire
+ * - Priest heals and once-per-battle necromancer resurrection
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { CombatState, CombatUnit } from '../../../../types/combat';
+import { AbilityEffectType } from '../../../../types/combat';
+import { ZombieType } from '../../../../types/farm';
+import {
+  createMockBattle,
+  createMockCombatUnit,
+  createMockEnemy,
+} from '../../test-utils/combatTestHelpers';
+import { BATTLEFIELD_TILE_SIZE } from '../targeting';
+import {
+  applyLifeSteal,
+  createZombieAbilities,
+  getStructureDamageMultiplier,
+  getZombieAbilityConfig,
+  resolveDeathExplosions,
+  resolveSplashDamage,
+  resolveZombieAbilities,
+} from '../zombieAbilities';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Rolls that always hit and never crit */
+const NO_CRIT_HIT = () => 0.5;
+
+/** Zombie of the given type carrying its castable abilities */
+function createZombie(type: ZombieType, overrides: Partial<CombatUnit> = {}): CombatUnit {
+  const base = createMockCombatUnit();
+  return createMockCombatUnit({
+    id: type,
+    type,
+    name: type,
+    position: { x: 400, y: 500 },
+    stats: { ...base.stats, range: 4 },
+    abilities: createZombieAbilities(type),
+    ...overrides,
+  });
+}
+
+/** Enemy the given number of tiles right of x = 400 */
+function createEnemyAt(id: string, tilesAway: number) {
+  return createMockEnemy({
+    id,
+    name: id,
+    position: { x: 400 + tilesAway * BATTLEFIELD_TILE_SIZE, y: 500 },
+  });
+}
+
+function createBattle(playerSquad: CombatUnit[], enemyTiles: number[] = []): CombatState {
+  return createMockBattle({
+    battleId: 'battle-1',
+    battleDuration: 5,
+    playerSquad,
+    enemies: enemyTiles.map((tiles, i) => createEnemyAt(`e${i + 1}`, tiles)),
+  });
+}
+
+function killed(unit: CombatUnit): CombatUnit {
+  return { ...unit, isDead: true, stats: { ...unit.stats, hp: 0 } };
+}
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+describe('getZombieAbilityConfig', () => {
+  it('returns the configured abilities and nothing for basic zombies', () => {
+    expect(getZombieAbilityConfig(ZombieType.GHOUL).lifeSteal).toBe(0.3);
+    expect(getZombieAbilityConfig(ZombieType.SHAMBLER)).toEqual({});
+  });
+});
+
+describe('createZombieAbilities', () => {
+  it('gives the necromancer a single resurrect charge', () => {
+    const [resurrect, ...rest] = createZombieAbilities(ZombieType.NECROMANCER_ZOMBIE);
+
+    expect(rest).toHaveLength(0);
+    expect(resurrect).toMatchObject({
+      charges: 1,
+      lastUsedAt: null,
+      effect: { type: AbilityEffectType.RESURRECT },
+    });
+    expect(createZombieAbilities(ZombieType.RUNNER)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// ON-HIT
+// ============================================================================
+
+describe('resolveSplashDamage', () => {
+  it('splashes half the damage onto enemies next to the target', () => {
+    const brute = createZombie(ZombieType.BRUTE);
+    const { enemies } = createBattle([brute], [1, 2, 4]);
+    const [target, ...others] = enemies;
+    if (!target) throw new Error('missing target');
+
+    expect(resolveSplashDamage(brute, target, 40, others)).toEqual([
+      { attackerId: brute.id, targetId: 'e2', damage: 20 },
+    ]);
+  });
+
+  it('does not splash for other zombie types', () => {
+    const runner = createZombie(ZombieType.RUNNER);
+    const { enemies } = createBattle([runner], [1, 2]);
+    const [target, ...others] = enemies;
+    if (!target) throw new Error('missing target');
+
+    expect(resolveSplashDamage(runner, target, 40, others)).toEqual([]);
+  });
+});
+
+describe('getStructureDamageMultiplier', () => {
+  it('doubles brute damage against fortifications', () => {
+    expect(getStructureDamageMultiplier(createZombie(ZombieType.BRUTE))).toBe(2);
+    expect(getStructureDamageMultiplier(createZombie(ZombieType.SHAMBLER))).toBe(1);
+  });
+});
+
+describe('applyLifeSteal', () => {
+  it('heals a ghoul for a share of the damage it dealt', () => {
+    const ghoul = createZombie(ZombieType.GHOUL, {
+      stats: { ...createMockCombatUnit().stats, hp: 50 },
+    });
+
+    const { state, events } = applyLifeSteal(createBattle([ghoul], [1]), [
+      { attackerId: ghoul.id, targetId: 'e1', damage: 20 },
+      { attackerId: ghoul.id, targetId: 'wall-1', damage: 20 },
+    ]);
+
+    expect(state.playerSquad[0]?.stats.hp).toBe(56);
+    expect(events).toEqual([
+      {
+        type: 'unit.healed',
+        payload: { battleId: 'battle-1', unitId: ghoul.id, amount: 6, newHp: 56 },
+      },
+    ]);
+  });
+
+  it('does not heal a ghoul that died this step', () => {
+    const ghoul = killed(createZombie(ZombieType.GHOUL));
+
+    const { events } = applyLifeSteal(createBattle([ghoul], [1]), [
+      { attackerId: ghoul.id, targetId: 'e1', damage: 20 },
+    ]);
+
+    expect(events).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// DEATH EXPLOSIONS
+// ============================================================================
+
+describe('resolveDeathExplosions', () => {
+  const bomber = createZombie(ZombieType.EXPLOSIVE_ZOMBIE);
+  const neighbour = createZombie(ZombieType.SHAMBLER, { position: { x: 368, y: 500 } });
+  const before = createBattle([bomber, neighbour], [1, 5]);
+
+  it('damages enemies and nearby zombies when an explosive zombie dies', () => {
+    const after = { ...before, playerSquad: [killed(bomber), neighbour] };
+
+    const { state, events } = resolveDeathExplosions(before, after, NO_CRIT_HIT);
+
+    expect(state.enemies[0]?.isDead).toBe(true);
+    expect(state.enemies[1]?.stats.hp).toBe(50);
+    expect(state.playerSquad[1]?.stats.hp).toBeLessThan(100);
+    expect(events[0]).toMatchObject({
+      type: 'ability.used',
+      payload: { unitId: bomber.id, targetIds: ['e1', neighbour.id] },
+    });
+  });
+
+  it('only explodes once', () => {
+    const dead = { ...before, playerSquad: [killed(bomber), neighbour] };
+
+    expect(resolveDeathExplosions(dead, dead, NO_CRIT_HIT).events).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// CASTS
+// ============================================================================
+
+describe('resolveZombieAbilities', () => {
+  it('heals the most injured undead ally', () => {
+    const priest = createZombie(ZombieType.PRIEST_ZOMBIE);
+    const injured = createZombie(ZombieType.SHAMBLER, {
+      position: { x: 432, y: 500 },
+      stats: { ...createMockCombatUnit().stats, hp: 20 },
+    });
+
+    const { state } = resolveZombieAbilities(createBattle([priest, injured]), NO_CRIT_HIT);
+
+    expect(state.playerSquad[1]?.stats.hp).toBe(45);
+  });
+
+  it('resurrects a fallen zombie once per battle', () => {
+    const necromancer = createZombie(ZombieType.NECROMANCER_ZOMBIE);
+    const fallen = killed(createZombie(ZombieType.SHAMBLER, { id: 'fallen-1' }));
+    const other = killed(createZombie(ZombieType.RUNNER, { id: 'fallen-2' }));
+
+    const first = resolveZombieAbilities(createBattle([necromancer, fallen, other]), NO_CRIT_HIT);
+    const second = resolveZombieAbilities(
+      { ...first.state, battleDuration: first.state.battleDuration + 10 },
+      NO_CRIT_HIT
+    );
+
+    expect(first.state.playerSquad.filter((z) => !z.isDead)).toHaveLength(2);
+    expect(first.state.playerSquad[0]?.abilities?.[0]?.charges).toBe(0);
+    expect(second.events).toHaveLength(0);
+  });
+
+  it('does not cast while the squad is retreating', () => {
+    const priest = createZombie(ZombieType.PRIEST_ZOMBIE);
+    const injured = createZombie(ZombieType.SHAMBLER, {
+      stats: { ...createMockCombatUnit().stats, hp: 20 },
+    });
+    const battle = { ...createBattle([priest, injured]), isRetreating: true };
+
+    expect(resolveZombieAbilities(battle).events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Batch Simulation Service
+ *
+ * Headless balance tool: runs many seeded battles of a squad against a
+ * location through the real battle simulation and reports how they went.
+ * Designers use it (in Jest or Node, no Phaser) to see what a change to the
+ * enemy stats, difficulty scaling or zombie baseStats does to a raid.
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics and Battle Outcome.
+ *
+ * - Battle i runs on a seed drawn from the batch seed, so the same batch seed
+ *   and config always give the same report
+ * - Battles still running after maxDurationSeconds count as losses
+ *   (timeouts)
+ * - Damage and kills are read from the battle log (logged attacks)
+ * - Battle counts must be whole numbers and tick lengths and time limits
+ *   positive; anything else throws, since a zero tick never ends a battle
+ *
+ * All functions are pure.
+ */
+
+import type { CombatState, CombatUnit } from '../../../types/combat';
+import { BattleLogEventType, BattlePhase } from '../../../types/combat';
+import type { Zombie, ZombieType } from '../../../types/farm';
+import { ZombieAIState, ZombieQuality } from '../../../types/farm';
+import type { Location } from '../../../types/world';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { createSeededRandom, forkSeed } from '../../game/lib/gameRandom';
+import { generateZombieStats } from '../../farm/services/harvesting';
+import type { FormationType } from './battleInitialization';
+import { initializeBattle } from './battleInitialization';
+import { getLoggedDamage } from './battleResult';
+import {
+  MAX_SIMULATION_STEP_MS,
+  isBattleFinished,
+  startBattle,
+  stepBattle,
+} from './battleSimulation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Zombies of one kind in the simulated squad
+ */
+export interface SquadMemberSpec {
+  readonly type: ZombieType;
+
+  /** Quality tier (default bronze) */
+  readonly quality?: ZombieQuality;
+
+  /** Zombie level (default 1) */
+  readonly level?: number;
+
+  /** Number of these zombies (default 1) */
+  readonly count?: number;
+}
+
+/**
+ * Options for a batch of battles
+ */
+export interface BatchSimulationOptions {
+  /** Battles to run (default 100) */
+  readonly battles?: number;
+
+  /** Batch seed (default 1) */
+  readonly seed?: number;
+
+  /** Simulated tick length in milliseconds (default MAX_SIMULATION_STEP_MS) */
+  readonly tickMs?: number;
+
+  /** Battle length after which a fight counts as a timeout (default 300) */
+  readonly maxDurationSeconds?: number;
+
+  /** Squad formation (default 'line') */
+  readonly formation?: FormationType;
+}
+
+/**
+ * Kills credited to one unit type
+ */
+export interface KillerSummary {
+  /** Zombie or enemy type */
+  readonly type: string;
+
+  /** Average kills per battle */
+  readonly kills: number;
+}
+
+/**
+ * Outcome of a batch of battles
+ */
+export interface BatchSimulationReport {
+  readonly battles: number;
+  readonly victories: number;
+
+  /** Share of battles won (0-1) */
+  readonly winRate: number;
+
+  /** Battles stopped at maxDurationSeconds */
+  readonly timeouts: number;
+
+  /** Average battle length in seconds */
+  readonly averageDuration: number;
+
+  /** Average zombies lost per battle */
+  readonly averageCasualties: number;
+
+  /** Average zombies of each type lost per battle */
+  readonly casualtiesByType: Readonly<Partial<Record<ZombieType, number>>>;
+
+  /** Average damage dealt per battle by each zombie and enemy type */
+  readonly damageDealtByType: Readonly<Partial<Record<string, number>>>;
+
+  /** Unit types with the most kills, most first */
+  readonly topKillers: ReadonlyArray<KillerSummary>;
+}
+
+/**
+ * Batch result at one difficulty
+ */
+export interface DifficultySweepPoint {
+  readonly difficulty: number;
+  readonly report: BatchSimulationReport;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Killer types listed in a report */
+const TOP_KILLER_COUNT = 5;
+
+/** Fixed creation time for simulated zombies and battles */
+const SIMULATION_EPOCH = 0;
+
+/** Batch options with every default filled in */
+type ResolvedBatchOptions = Required<Omit<BatchSimulationOptions, 'seed'>>;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Builds the zombies of a simulated squad
+ *
+ * Stats come from gameConfig.ZOMBIES baseStats and the quality multiplier,
+ * plus STATS_PER_LEVEL for each level above 1.
+ *
+ * @param squad - Squad composition
+ * @returns Zombies ready to deploy
+ */
+export function createSimulationSquad(squad: ReadonlyArray<SquadMemberSpec>): Zombie[] {
+  const { STATS_PER_LEVEL, ZOMBIE_XP_CURVE } = gameConfig.PROGRESSION;
+
+  return squad.flatMap((spec, specIndex) =>
+    Array.from({ length: spec.count ?? 1 }, (_, i): Zombie => {
+      const quality = spec.quality ?? ZombieQuality.BRONZE;
+      const level = spec.level ?? 1;
+      const base = generateZombieStats(spec.type, quality);
+      const gained = level - 1;
+
+      return {
+        id: `sim-${specIndex}-${i}`,
+        type: spec.type,
+        name: `${spec.type} ${specIndex + 1}.${i + 1}`,
+        quality,
+        level,
+        xp: 0,
+        xpToNextLevel: ZOMBIE_XP_CURVE(level),
+        stats: {
+          ...base,
+          hp: base.hp + gained * STATS_PER_LEVEL.hp,
+          maxHp: base.maxHp + gained * STATS_PER_LEVEL.hp,
+          attack: base.attack + gained * STATS_PER_LEVEL.attack,
+          defense: base.defense + gained * STATS_PER_LEVEL.defense,
+          speed: base.speed + gained * STATS_PER_LEVEL.speed,
+        },
+        happiness: 50,
+        daysSinceLastFed: 0,
+        lastFedAt: null,
+        lastPetAt: null,
+        mutations: [],
+        equipment: { weapon: null, armor: null, accessory: null },
+        position: null,
+        aiState: ZombieAIState.IDLE,
+        createdAt: SIMULATION_EPOCH,
+      };
+    })
+  );
+}
+
+/**
+ * Runs a batch of seeded battles and summarizes them
+ *
+ * @param squad - Squad composition
+ * @param location - Location to raid
+ * @param options - Battle count, seed, tick length, timeout and formation
+ * @returns Batch report
+ * @throws Error if the battle count, tick length or time limit is invalid
+ */
+export function simulateBattleBatch(
+  squad: ReadonlyArray<SquadMemberSpec>,
+  location: Location,
+  options: BatchSimulationOptions = {}
+): BatchSimulationReport {
+  const resolved = resolveOptions(options);
+  const seeds = createSeededRandom(options.seed ?? 1);
+  const zombies = createSimulationSquad(squad);
+
+  const results = Array.from({ length: resolved.battles }, () =>
+    runBattle(zombies, location, forkSeed(seeds), resolved)
+  );
+
+  return summarizeBattles(results, resolved.maxDurationSeconds);
+}
+
+/**
+ * Runs the same batch at each difficulty
+ *
+ * @param squad - Squad composition
+ * @param location - Location to raid (its difficulty is replaced)
+ * @param difficulties - Difficulties to try
+ * @param options - Batch options (the same seed is used at every difficulty)
+ * @returns One report per difficulty, in order
+ * @throws Error if the battle count, tick length or time limit is invalid
+ */
+export function sweepDifficulty(
+  squad: ReadonlyArray<SquadMemberSpec>,
+  location: Location,
+  difficulties: ReadonlyArray<number>,
+  options: BatchSimulationOptions = {}
+): DifficultySweepPoint[] {
+  return difficulties.map((difficulty) => ({
+    difficulty,
+    report: simulateBattleBatch(squad, { ...location, difficulty }, options),
+  }));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Fills in option defaults and rejects values that would never finish a batch
+ */
+function resolveOptions(options: BatchSimulationOptions): ResolvedBatchOptions {
+  const resolved = {
+    battles: options.battles ?? 100,
+    tickMs: options.tickMs ?? MAX_SIMULATION_STEP_MS,
+    maxDurationSeconds: options.maxDurationSeconds ?? 300,
+    formation: options.formation ?? 'line',
+  };
+
+  if (!Number.isInteger(resolved.battles) || resolved.battles < 0) {
+    throw new Error(`Invalid battle count: ${resolved.battles}`);
+  }
+  if (!isPositive(resolved.tickMs)) {
+    throw new Error(`Invalid tick length: ${resolved.tickMs}`);
+  }
+  if (!isPositive(resolved.maxDurationSeconds)) {
+    throw new Error(`Invalid time limit: ${resolved.maxDurationSeconds}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Checks for a positive finite number
+ */
+function isPositive(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Fights one battle to the end or the timeout
+ */
+function runBattle(
+  zombies: Zombie[],
+  location: Location,
+  seed: number,
+  options: ResolvedBatchOptions
+): CombatState {
+  const random = createSeededRandom(seed);
+  let state = startBattle(
+    initializeBattle(
+      zombies,
+      location,
+      options.formation,
+      createSeededRandom(seed),
+      SIMULATION_EPOCH
+    )
+  );
+
+  while (!isBattleFinished(state) && state.battleDuration < options.maxDurationSeconds) {
+    state = stepBattle(state, options.tickMs, { location, random });
+  }
+
+  return state;
+}
+
+/**
+ * Averages outcomes, casualties, damage and kills over the batch
+ */
+function summarizeBattles(
+  results: ReadonlyArray<CombatState>,
+  maxDuration: number
+): BatchSimulationReport {
+  const battles = results.length;
+  const perBattle = (total: number) => (battles > 0 ? total / battles : 0);
+  const casualtiesByType: Partial<Record<ZombieType, number>> = {};
+  const damageDealtByType: Record<string, number> = {};
+  const killsByType: Record<string, number> = {};
+  let victories = 0;
+  let timeouts = 0;
+  let totalDuration = 0;
+  let totalCasualties = 0;
+
+  for (const state of results) {
+    if (state.phase === BattlePhase.VICTORY) victories += 1;
+    if (!isBattleFinished(state) && state.battleDuration >= maxDuration) timeouts += 1;
+    totalDuration += state.battleDuration;
+
+    for (const zombie of state.playerSquad.filter((z) => z.isDead)) {
+      const type = zombie.type as ZombieType;
+      casualtiesByType[type] = (casualtiesByType[type] ?? 0) + 1;
+      totalCasualties += 1;
+    }
+
+    const typeOf = getUnitTypes(state);
+    for (const entry of state.battleLog) {
+      if (entry.type === BattleLogEventType.UNIT_ATTACKED) {
+        const type = typeOf.get(entry.unitIds[0] ?? '');
+        if (type) {
+          damageDealtByType[type] = (damageDealtByType[type] ?? 0) + getLoggedDamage(entry.data);
+        }
+      } else if (entry.type === BattleLogEventType.UNIT_DIED) {
+        const type = typeOf.get(entry.unitIds[1] ?? '');
+        if (type) killsByType[type] = (killsByType[type] ?? 0) + 1;
+      }
+    }
+  }
+
+  return {
+    battles,
+    victories,
+    winRate: perBattle(victories),
+    timeouts,
+    averageDuration: perBattle(totalDuration),
+    averageCasualties: perBattle(totalCasualties),
+    casualtiesByType: mapValues(casualtiesByType, perBattle),
+    damageDealtByType: mapValues(damageDealtByType, perBattle),
+    topKillers: Object.entries(killsByType)
+      .map(([type, kills]) => ({ type, kills: perBattle(kills) }))
+      .sort((a, b) => b.kills - a.kills || a.type.localeCompare(b.type))
+      .slice(0, TOP_KILLER_COUNT),
+  };
+}
+
+/**
+ * Unit ID to unit type for every zombie and enemy in the battle
+ */
+function getUnitTypes(state: CombatState): Map<string, string> {
+  const units: CombatUnit[] = [...state.playerSquad, ...state.enemies];
+  return new Map(units.map((unit) => [unit.id, unit.type]));
+}
+
+/**
+ * Applies a function to every value of a record
+ */
+function mapValues<K extends string>(
+  record: Partial<Record<K, number>>,
+  fn: (value: number) => number
+): Partial<Record<K, number>> {
+  const mapped: Partial<Record<K, number>> = {};
+  for (const key of Object.keys(record) as K[]) {
+    mapped[key] = fn(record[key] ?? 0);
+  }
+  return mapped;
+}
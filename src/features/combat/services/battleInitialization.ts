@@ -9,19 +9,33 @@
 
 import type { Zombie } from '../../../types/farm';
 import type { Location, LocationEnemy } from '../../../types/world';
-import type { CombatState, CombatUnit, Enemy, Obstacle } from '../../../types/combat';
+import type {
+  CombatState,
+  CombatUnit,
+  Enemy,
+  Formation,
+  FormationPresetId,
+  Obstacle,
+} from '../../../types/combat';
 import { BattlePhase, UnitAIState, EnemyType } from '../../../types/combat';
 import type { BattleId, LocationId, Position } from '../../../types/global';
 import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { getDifficultyScale, getEnemyAbilities } from './enemyComposition';
+import { createZombieAbilities } from './zombieAbilities';
+import { arrangeSquad, getFormationPositions, resolveFormation } from './formations';
+import { getRaidBlockReason } from '../../world/services/raidScheduling';
+import { applyMutationStats } from '../../farm/services/mutations';
+import { getEffectiveStats } from '../../farm/services/equipment';
+import { BATTLEFIELD_HEIGHT, BATTLEFIELD_WIDTH } from './targeting';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 /**
- * Formation types for positioning units
+ * Formation for positioning units: a preset ID or a formation (see formations.ts)
  */
-export type FormationType = 'line' | 'staggered' | 'wedge';
+export type FormationType = FormationPresetId | Formation;
 
 /**
  * Squad validation result
@@ -44,9 +58,16 @@ export interface BattleRequirementsResult {
 /**
  * Unit with position assigned
  */
-export interface PositionedUnit<T> extends Omit<T, 'position'> {
+export type PositionedUnit<T> = Omit<T, 'position'> & {
   position: Position;
-}
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fortifications stand on a defensive line across the middle of the battlefield */
+const DEFENSIVE_LINE_X = BATTLEFIELD_WIDTH / 2;
 
 // ============================================================================
 // SQUAD VALIDATION
@@ -98,11 +119,18 @@ export function validateSquad(zombies: Zombie[], maxSquadSize: number): SquadVal
 /**
  * Generates enemy wave from location data
  *
+ * Enemy HP, attack and defense scale with the location's difficulty.
+ *
  * @param location - Location being raided
  * @param waveNumber - Which wave to generate (1-based)
+ * @param random - Random source in [0, 1) for enemy IDs (default Math.random)
  * @returns Array of enemy units for this wave
  */
-export function generateEnemyWave(location: Location, waveNumber: number): Enemy[] {
+export function generateEnemyWave(
+  location: Location,
+  waveNumber: number,
+  random: () => number = Math.random
+): Enemy[] {
   // Filter enemies for this specific wave
   const waveEnemies = location.enemies.filter((e) => e.wave === waveNumber);
 
@@ -111,7 +139,7 @@ export function generateEnemyWave(location: Location, waveNumber: number): Enemy
   // Generate each enemy type
   for (const enemySpec of waveEnemies) {
     for (let i = 0; i < enemySpec.count; i++) {
-      const enemy = createEnemy(enemySpec, i);
+      const enemy = createEnemy(enemySpec, i, random, location.difficulty);
       enemies.push(enemy);
     }
   }
@@ -121,12 +149,25 @@ export function generateEnemyWave(location: Location, waveNumber: number): Enemy
 
 /**
  * Creates a single enemy from specification
+ *
+ * Also used to bring summoned units onto the battlefield.
+ *
+ * @param spec - Enemy type, level modifier and boss flag
+ * @param index - Index of this enemy within its spec
+ * @param random - Random source in [0, 1) for the ID (default Math.random)
+ * @param difficulty - Location difficulty (default 1, unscaled)
+ * @returns Enemy at the origin; callers assign its position
  */
-function createEnemy(spec: LocationEnemy, index: number): Enemy {
+export function createEnemy(
+  spec: LocationEnemy,
+  index: number,
+  random: () => number = Math.random,
+  difficulty: number = 1
+): Enemy {
   const baseStats = getEnemyBaseStats(spec.type);
-  const levelMod = spec.levelModifier ?? 1.0;
+  const levelMod = (spec.levelModifier ?? 1.0) * getDifficultyScale(difficulty);
 
-  // Apply level modifier to stats
+  // Apply level modifier and difficulty to stats
   const stats = {
     hp: Math.floor(baseStats.hp * levelMod),
     maxHp: Math.floor(baseStats.maxHp * levelMod),
@@ -139,7 +180,7 @@ function createEnemy(spec: LocationEnemy, index: number): Enemy {
   };
 
   const enemy: Enemy = {
-    id: `enemy-${spec.type}-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`,
+    id: `enemy-${spec.type}-${index}-${random().toString(36).substr(2, 5)}`,
     type: spec.type,
     name: getEnemyName(spec.type, spec.isBoss),
     position: { x: 0, y: 0 }, // Will be assigned later
@@ -163,8 +204,11 @@ function createEnemy(spec: LocationEnemy, index: number): Enemy {
 /**
  * Assigns battlefield positions to units
  *
+ * Units take the formation's slots in the order given: the first unit stands
+ * in slot 1, on the front row for formations with depth.
+ *
  * @param units - Units to position (zombies or enemies)
- * @param formation - Formation type to use
+ * @param formation - Preset ID or formation to use
  * @param side - Which side of battlefield ('left' for zombies, 'right' for enemies)
  * @returns Units with positions assigned
  */
@@ -173,67 +217,19 @@ export function assignPositions<T extends { position?: Position }>(
   formation: FormationType,
   side: 'left' | 'right'
 ): PositionedUnit<T>[] {
-  const BATTLEFIELD_WIDTH = 1920;
-  const BATTLEFIELD_HEIGHT = 1080;
-  const UNIT_SPACING = 80;
-
-  // Base X position for each side
-  const baseX = side === 'left' ? 100 : BATTLEFIELD_WIDTH - 100;
-
-  // Center Y for formation
-  const centerY = BATTLEFIELD_HEIGHT / 2;
-
-  const positioned = units.map((unit, index) => {
-    let position: Position;
-
-    switch (formation) {
-      case 'line': {
-        // Vertical line formation
-        const offsetY = (index - units.length / 2 + 0.5) * UNIT_SPACING;
-        position = {
-          x: baseX,
-          y: centerY + offsetY,
-        };
-        break;
-      }
-
-      case 'staggered': {
-        // Alternating X positions, vertical spread
-        const offsetY = (index - units.length / 2 + 0.5) * UNIT_SPACING;
-        const offsetX = (index % 2) * 50 * (side === 'left' ? 1 : -1);
-        position = {
-          x: baseX + offsetX,
-          y: centerY + offsetY,
-        };
-        break;
-      }
-
-      case 'wedge': {
-        // First unit at point, others spread back
-        const row = index;
-        const offsetX = row * 40 * (side === 'left' ? -1 : 1);
-        const offsetY = (row - units.length / 2 + 0.5) * UNIT_SPACING * 0.5;
-        position = {
-          x: baseX + offsetX,
-          y: centerY + offsetY,
-        };
-        break;
-      }
-
-      default:
-        position = { x: baseX, y: centerY };
-    }
-
-    // Clamp to battlefield bounds
-    position.y = Math.max(50, Math.min(BATTLEFIELD_HEIGHT - 50, position.y));
-
-    return {
-      ...unit,
-      position,
-    } as PositionedUnit<T>;
-  });
-
-  return positioned;
+  const positions = getFormationPositions(
+    resolveFormation(formation, units.length),
+    units.length,
+    side
+  );
+
+  return units.map(
+    (unit, index) =>
+      ({
+        ...unit,
+        position: positions[index] ?? { x: 0, y: 0 },
+      }) as PositionedUnit<T>
+  );
 }
 
 // ============================================================================
@@ -245,30 +241,37 @@ export function assignPositions<T extends { position?: Position }>(
  *
  * @param squad - Player's zombie squad
  * @param location - Location being raided
- * @param formation - Formation type (default: 'line')
+ * @param formation - Preset ID or formation (default: 'line'); squad[0] takes slot 1
+ * @param random - Random source in [0, 1) for IDs (default Math.random)
+ * @param now - Battle start time (default Date.now())
  * @returns Complete initialized battle state
  */
 export function initializeBattle(
   squad: Zombie[],
   location: Location,
-  formation: FormationType = 'line'
+  formation: FormationType = 'line',
+  random: () => number = Math.random,
+  now: number = Date.now()
 ): CombatState {
-  // Convert zombies to combat units
-  const combatZombies = squad.map(zombieToCombatUnit);
+  // Convert zombies to combat units, in the order they fill the formation
+  const squadFormation = resolveFormation(formation, squad.length);
+  const combatZombies = arrangeSquad(squad.map(zombieToCombatUnit), squadFormation);
 
   // Position zombies on left side
-  const positionedZombies = assignPositions(combatZombies, formation, 'left');
+  const positionedZombies = assignPositions(combatZombies, squadFormation, 'left');
 
   // Generate and position first wave enemies
-  const firstWaveEnemies = generateEnemyWave(location, 1);
+  const firstWaveEnemies = generateEnemyWave(location, 1, random);
   const positionedEnemies = assignPositions(firstWaveEnemies, 'line', 'right');
 
   // Create obstacles from fortifications
-  const obstacles = location.fortifications.map(createObstacle);
+  const obstacles = location.fortifications.map((fortificationId, index, all) =>
+    createObstacle(fortificationId, index, all.length)
+  );
 
   // Initialize battle state
   const battleState: CombatState = {
-    battleId: `battle-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    battleId: `battle-${now}-${random().toString(36).substr(2, 9)}`,
     locationId: location.id,
     phase: BattlePhase.PREPARATION,
     playerSquad: positionedZombies,
@@ -279,7 +282,7 @@ export function initializeBattle(
     battleDuration: 0,
     activeEffects: [],
     battleLog: [],
-    startedAt: Date.now(),
+    startedAt: now,
     isRetreating: false,
     retreatCountdown: 0,
   };
@@ -296,18 +299,20 @@ export function initializeBattle(
  *
  * Validates:
  * - Squad requirements
- * - Location availability
+ * - Location availability (unlocked, off cooldown, not a cleared story location)
  * - Prerequisites met
  *
  * @param squad - Player's zombie squad
  * @param location - Target location
  * @param maxSquadSize - Maximum squad size
+ * @param now - Current time (ms) for raid cooldowns
  * @returns Battle requirements check result
  */
 export function checkBattleRequirements(
   squad: Zombie[],
   location: Location,
-  maxSquadSize: number
+  maxSquadSize: number,
+  now: number = Date.now()
 ): BattleRequirementsResult {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -330,10 +335,10 @@ export function checkBattleRequirements(
     errors.push('Location is not unlocked');
   }
 
-  // Check cooldown
-  if (location.nextRaidAvailable !== null && location.nextRaidAvailable > Date.now()) {
-    const hoursRemaining = Math.ceil((location.nextRaidAvailable - Date.now()) / (1000 * 60 * 60));
-    errors.push(`Location is on cooldown (${hoursRemaining}h remaining)`);
+  // Check raid cooldown and cleared story locations
+  const raidBlock = getRaidBlockReason(location, now);
+  if (raidBlock !== null) {
+    errors.push(raidBlock);
   }
 
   // Warn about difficulty
@@ -369,41 +374,63 @@ export function checkBattleRequirements(
 
 /**
  * Converts a Zombie to a CombatUnit
+ *
+ * Range and attack cooldown come from the zombie type config, and the unit
+ * carries its type's castable abilities (see zombieAbilities.ts). Stats
+ * include equipment bonuses (see equipment.ts), then mutation stat
+ * modifiers; the mutations travel with the unit for their on-hit effects
+ * and auras (see mutationEffects.ts).
  */
 function zombieToCombatUnit(zombie: Zombie): CombatUnit {
+  const baseStats = gameConfig.ZOMBIES[zombie.type]?.baseStats as
+    | { range: number; attackCooldown: number }
+    | undefined;
+  const stats = getEffectiveStats(zombie);
+
   return {
     id: zombie.id,
     type: zombie.type,
     name: zombie.name,
     position: zombie.position,
-    stats: {
-      hp: zombie.stats.hp,
-      maxHp: zombie.stats.maxHp,
-      attack: zombie.stats.attack,
-      defense: zombie.stats.defense,
-      speed: zombie.stats.speed,
-      range: 1, // Default melee range
-      attackCooldown: 1.5, // Default cooldown
-      resistances: {},
-    },
+    stats: applyMutationStats(
+      {
+        hp: stats.hp,
+        maxHp: stats.maxHp,
+        attack: stats.attack,
+        defense: stats.defense,
+        speed: stats.speed,
+        range: baseStats?.range ?? 1, // Default melee range
+        attackCooldown: baseStats?.attackCooldown ?? 1.5, // Default cooldown
+        resistances: {},
+      },
+      zombie.mutations
+    ),
     statusEffects: [],
     aiState: UnitAIState.IDLE,
     targetId: null,
     lastAttackAt: 0,
+    abilities: createZombieAbilities(zombie.type),
+    ...(zombie.mutations?.length ? { mutations: zombie.mutations } : {}),
     isDead: false,
   };
 }
 
 /**
  * Creates obstacle from fortification ID
+ *
+ * Fortifications are spread evenly along the defensive line, leaving gaps
+ * between them for the horde to funnel through.
  */
-function createObstacle(fortificationId: string): Obstacle {
+function createObstacle(fortificationId: string, index: number, count: number): Obstacle {
   // Basic obstacle creation - detailed implementation in Phase 10
   return {
-    id: `obstacle-${fortificationId}-${Date.now()}`,
+    id: `obstacle-${fortificationId}-${index}`,
     type: fortificationId,
     name: fortificationId.charAt(0).toUpperCase() + fortificationId.slice(1),
-    position: { x: 960, y: 540 }, // Center of battlefield
+    position: {
+      x: DEFENSIVE_LINE_X,
+      y: Math.round((BATTLEFIELD_HEIGHT * (index + 1)) / (count + 1)),
+    },
     hp: 200,
     maxHp: 200,
     defense: 50,
@@ -694,36 +721,3 @@ function getEnemyAIProfile(type: EnemyType) {
 
   return profiles[type];
 }
-
-/**
- * Gets abilities for enemy type
- */
-function getEnemyAbilities(type: EnemyType) {
-  // Most enemies don't have special abilities in MVP
-  // Only mages, priests, paladins, and bosses have abilities
-  const hasAbilities = [
-    EnemyType.MAGE,
-    EnemyType.PRIEST,
-    EnemyType.PALADIN,
-    EnemyType.BOSS,
-    EnemyType.NECROMANCER,
-    EnemyType.GENERAL,
-  ];
-
-  // Return placeholder ability for units that should have them
-  if (hasAbilities.includes(type)) {
-    return [
-      {
-        id: `${type}-ability-1`,
-        name: `${type} Special`,
-        cooldown: 10,
-        range: 5,
-        damageType: 'physical' as any,
-        targetType: 'single' as any,
-      } as any,
-    ];
-  }
-
-  return [];
-  // TODO: Implement actual abilities in Phase 6
-}
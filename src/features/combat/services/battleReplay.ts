@@ -0,0 +1,352 @@
+/**
+ * Battle Replay Service
+ *
+ * Records fights and plays them back. A replay holds the battle state when
+ * the fight started, the seed of its random source and the inputs it
+ * received; the simulation is deterministic, so stepping the same inputs
+ * from the same state with the same seed rebuilds the battle at any point.
+ *
+ * Per DOMAIN-COMBAT.md Battle Flow and Retreat.
+ *
+ * - Recording: startReplay when the fight begins, recordReplayTick and
+ *   recordReplayRetreat for each input, finishReplay when the battle ends
+ * - Playback: a ReplayPlayback holds the playhead; seek, pause and speed move
+ *   it, and its frame is the battle rebuilt at the playhead
+ * - History: the last REPLAY_HISTORY_SIZE replays are kept per location so
+ *   players can study failed raids
+ *
+ * Frames only land on recorded tick boundaries: a tick is never split, since
+ * a shorter step would roll differently than the recorded one.
+ *
+ * All functions are pure.
+ */
+
+import type { BattleReplay, CombatState } from '../../../types/combat';
+import type { LocationId } from '../../../types/global';
+import type { Location, WorldState } from '../../../types/world';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { SeededRandom } from '../../../lib/utils/math';
+import { startRetreat, stepBattle } from './battleSimulation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Battle rebuilt from a replay up to some point
+ */
+export interface ReplayFrame {
+  /** Rebuilt battle state */
+  readonly state: CombatState;
+
+  /** Recorded time applied so far (ms) */
+  readonly time: number;
+
+  /** Next replay event to apply */
+  readonly eventIndex: number;
+
+  /** Ticks of the current event already applied */
+  readonly ticksApplied: number;
+
+  /** Position of the battle's random sequence */
+  readonly rngState: number;
+}
+
+/**
+ * Replay being watched
+ */
+export interface ReplayPlayback {
+  readonly replay: BattleReplay;
+
+  /** Playhead (ms since the fight started) */
+  readonly time: number;
+
+  /** Playback speed multiplier */
+  readonly speed: number;
+
+  readonly isPaused: boolean;
+
+  /** Battle at the playhead (the last tick boundary at or before it) */
+  readonly frame: ReplayFrame;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Current replay format version */
+export const REPLAY_VERSION = 1;
+
+/** Slowest playback speed */
+export const MIN_PLAYBACK_SPEED = 0.25;
+
+/** Fastest playback speed */
+export const MAX_PLAYBACK_SPEED = 8;
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Starts recording a fight
+ *
+ * @param initialState - Battle as the fight starts (ACTIVE phase)
+ * @param rngSeed - Seed of the random source the fight rolls with
+ * @param location - Raided location (spawns the later waves)
+ * @returns Empty replay
+ */
+export function startReplay(
+  initialState: CombatState,
+  rngSeed: number,
+  location?: Location
+): BattleReplay {
+  return {
+    version: REPLAY_VERSION,
+    battleId: initialState.battleId,
+    locationId: initialState.locationId,
+    ...(location ? { location } : {}),
+    rngSeed,
+    initialState,
+    events: [],
+    duration: 0,
+    recordedAt: initialState.startedAt,
+  };
+}
+
+/**
+ * Records a simulation tick
+ *
+ * A tick as long as the previous one extends its repeat count.
+ *
+ * @param replay - Replay being recorded
+ * @param deltaMs - Tick length (ms)
+ * @returns Replay with the tick appended
+ */
+export function recordReplayTick(replay: BattleReplay, deltaMs: number): BattleReplay {
+  if (deltaMs <= 0) {
+    return replay;
+  }
+
+  const last = replay.events[replay.events.length - 1];
+  const events =
+    last?.type === 'tick' && last.deltaMs === deltaMs
+      ? [...replay.events.slice(0, -1), { ...last, count: last.count + 1 }]
+      : [...replay.events, { type: 'tick' as const, deltaMs, count: 1 }];
+
+  return { ...replay, events, duration: replay.duration + deltaMs };
+}
+
+/**
+ * Records the order to retreat
+ *
+ * @param replay - Replay being recorded
+ * @returns Replay with the retreat appended
+ */
+export function recordReplayRetreat(replay: BattleReplay): BattleReplay {
+  return { ...replay, events: [...replay.events, { type: 'retreat' }] };
+}
+
+/**
+ * Finishes a recording
+ *
+ * @param replay - Replay being recorded
+ * @param finalState - Battle as it ended
+ * @returns Replay with its outcome
+ */
+export function finishReplay(replay: BattleReplay, finalState: CombatState): BattleReplay {
+  return { ...replay, outcome: finalState.phase };
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+/**
+ * Rebuilds a recorded battle at a point in time
+ *
+ * @param replay - Replay
+ * @param time - Time since the fight started (ms)
+ * @returns Battle at the last tick boundary at or before time
+ */
+export function getReplayStateAt(replay: BattleReplay, time: number): CombatState {
+  return advanceFrame(replay, createInitialFrame(replay), time).state;
+}
+
+/**
+ * Opens a replay for watching, paused at the start
+ *
+ * @param replay - Replay
+ * @returns Playback at time 0
+ */
+export function createReplayPlayback(replay: BattleReplay): ReplayPlayback {
+  return {
+    replay,
+    time: 0,
+    speed: 1,
+    isPaused: true,
+    frame: createInitialFrame(replay),
+  };
+}
+
+/**
+ * Moves the playhead
+ *
+ * Seeking forward continues from the current frame; seeking back rebuilds
+ * from the start.
+ *
+ * @param playback - Playback
+ * @param time - Target time (clamped to the replay)
+ * @returns Playback at the new time
+ */
+export function seekReplay(playback: ReplayPlayback, time: number): ReplayPlayback {
+  const { replay } = playback;
+  const target = Math.min(Math.max(time, 0), replay.duration);
+  const from = target < playback.frame.time ? createInitialFrame(replay) : playback.frame;
+
+  return { ...playback, time: target, frame: advanceFrame(replay, from, target) };
+}
+
+/**
+ * Advances a playing replay by real elapsed time
+ *
+ * Playback pauses itself at the end of the replay.
+ *
+ * @param playback - Playback
+ * @param elapsedMs - Real time since the last update (ms)
+ * @returns Updated playback
+ */
+export function advanceReplay(playback: ReplayPlayback, elapsedMs: number): ReplayPlayback {
+  if (playback.isPaused || elapsedMs <= 0) {
+    return playback;
+  }
+
+  const seeked = seekReplay(playback, playback.time + elapsedMs * playback.speed);
+  return seeked.time >= playback.replay.duration ? { ...seeked, isPaused: true } : seeked;
+}
+
+/**
+ * Resumes playback (from the start if the replay has finished)
+ *
+ * @param playback - Playback
+ * @returns Playing playback
+ */
+export function playReplay(playback: ReplayPlayback): ReplayPlayback {
+  const from = playback.time >= playback.replay.duration ? seekReplay(playback, 0) : playback;
+  return { ...from, isPaused: false };
+}
+
+/**
+ * Pauses playback
+ *
+ * @param playback - Playback
+ * @returns Paused playback
+ */
+export function pauseReplay(playback: ReplayPlayback): ReplayPlayback {
+  return { ...playback, isPaused: true };
+}
+
+/**
+ * Sets the playback speed
+ *
+ * @param playback - Playback
+ * @param speed - Speed multiplier (clamped to MIN/MAX_PLAYBACK_SPEED)
+ * @returns Playback at the new speed
+ */
+export function setReplaySpeed(playback: ReplayPlayback, speed: number): ReplayPlayback {
+  return {
+    ...playback,
+    speed: Math.min(Math.max(speed, MIN_PLAYBACK_SPEED), MAX_PLAYBACK_SPEED),
+  };
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/**
+ * Stores a replay in its location's history
+ *
+ * @param world - Current world
+ * @param replay - Finished replay
+ * @returns World keeping the last REPLAY_HISTORY_SIZE replays of the location
+ */
+export function saveReplay(world: WorldState, replay: BattleReplay): WorldState {
+  const history = [...getLocationReplays(world, replay.locationId), replay];
+
+  return {
+    ...world,
+    replays: {
+      ...world.replays,
+      [replay.locationId]: history.slice(-gameConfig.COMBAT.REPLAY_HISTORY_SIZE),
+    },
+  };
+}
+
+/**
+ * Gets the recent replays of a location
+ *
+ * @param world - Current world
+ * @param locationId - Location ID
+ * @returns Replays, oldest first
+ */
+export function getLocationReplays(
+  world: WorldState,
+  locationId: LocationId
+): ReadonlyArray<BattleReplay> {
+  return world.replays?.[locationId] ?? [];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Frame at the start of the fight
+ */
+function createInitialFrame(replay: BattleReplay): ReplayFrame {
+  return {
+    state: replay.initialState,
+    time: 0,
+    eventIndex: 0,
+    ticksApplied: 0,
+    rngState: replay.rngSeed,
+  };
+}
+
+/**
+ * Applies recorded events until the next tick would pass the target time
+ */
+function advanceFrame(replay: BattleReplay, frame: ReplayFrame, target: number): ReplayFrame {
+  let { state, time, eventIndex, ticksApplied, rngState } = frame;
+
+  while (eventIndex < replay.events.length) {
+    const event = replay.events[eventIndex];
+    if (event === undefined) break;
+
+    if (event.type === 'retreat') {
+      state = startRetreat(state);
+      eventIndex += 1;
+      continue;
+    }
+
+    if (ticksApplied >= event.count) {
+      eventIndex += 1;
+      ticksApplied = 0;
+      continue;
+    }
+
+    if (time + event.deltaMs > target) break;
+
+    const rng = new SeededRandom(rngState);
+    const stepped = stepBattle(state, event.deltaMs, {
+      location: replay.location,
+      random: () => rng.next(),
+    });
+    rngState = rng.getState();
+    state = { ...stepped, rngState };
+    time += event.deltaMs;
+    ticksApplied += 1;
+  }
+
+  return { state, time, eventIndex, ticksApplied, rngState };
+}
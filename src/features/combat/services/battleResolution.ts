@@ -0,0 +1,262 @@
+/**
+ * Battle Resolution Service
+ *
+ * Applies a BattleResult back onto the persistent game state:
+ * - Permadeath: casualties are removed from the farm and their equipment
+ *   returns to the inventory
+ * - Survivors return with their end-of-battle HP
+ * - Survivor XP and level-ups (ZOMBIE_XP_CURVE, STATS_PER_LEVEL)
+ * - Location conquest, raid cooldown and retreat penalty
+ *   (world/services/raidScheduling.ts)
+ * - Rewards added to inventory
+ *
+ * Per DOMAIN-COMBAT.md Battle Outcome, Casualties and Experience Gain.
+ *
+ * Emits zombie.died, zombie.levelUp and location.conquered (first victory
+ * only) events for the caller to dispatch.
+ */
+
+import type { BattleResult, CombatState } from '../../../types/combat';
+import { BattlePhase } from '../../../types/combat';
+import type { GameEvent } from '../../../types/events';
+import type { FarmState, Zombie } from '../../../types/farm';
+import type { LocationId } from '../../../types/global';
+import type { Inventory } from '../../../types/resources';
+import type { WorldState } from '../../../types/world';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { addReward } from '../../game/lib/resources';
+import { recordRaid, type RaidOutcome } from '../../world/services/raidScheduling';
+import { getSurvivorHp, returnEquipment } from '../../farm/services/equipment';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result type for service operations
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * Events raised while resolving a battle
+ */
+export type BattleResolutionEvent = Extract<
+  GameEvent,
+  { type: 'zombie.died' | 'zombie.levelUp' | 'location.conquered' }
+>;
+
+/**
+ * State touched by battle resolution
+ */
+export interface BattleResolutionInput {
+  farm: FarmState;
+  world: WorldState;
+  inventory: Inventory;
+
+  /** Result reported by the battle */
+  result: BattleResult;
+
+  /** Location that was raided */
+  locationId: LocationId;
+
+  /**
+   * Final battle state (survivor HP, retreats); survivors keep their farm HP
+   * and defeats count as plain losses when omitted
+   */
+  combat?: CombatState | null;
+
+  /** Resolution time (ms) */
+  timestamp: number;
+}
+
+/**
+ * Updated state after battle resolution
+ */
+export interface BattleResolution {
+  farm: FarmState;
+  world: WorldState;
+  inventory: Inventory;
+  events: BattleResolutionEvent[];
+}
+
+/**
+ * Zombie after gaining XP
+ */
+export interface ZombieXpResult {
+  zombie: Zombie;
+
+  /** Each level reached, in order */
+  levelsGained: number[];
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Resolves a finished battle into farm, world and inventory state
+ *
+ * @param input - Current state, battle result and raided location
+ * @returns Updated state and events, or error if rewards cannot be added
+ */
+export function resolveBattle(input: BattleResolutionInput): Result<BattleResolution> {
+  const { result, timestamp } = input;
+
+  const rewardResult = addReward(input.inventory, result.rewards);
+  if (!rewardResult.success) {
+    return { success: false, error: rewardResult.error.message };
+  }
+
+  const events: BattleResolutionEvent[] = [];
+  const casualties = new Set(result.casualties);
+  const combatHp = new Map(
+    (input.combat?.playerSquad ?? []).map((unit) => [unit.id, unit.stats.hp])
+  );
+
+  const activeZombies: Zombie[] = [];
+  const fallen: Zombie[] = [];
+  for (const zombie of input.farm.activeZombies) {
+    if (casualties.has(zombie.id)) {
+      fallen.push(zombie);
+      events.push({
+        type: 'zombie.died',
+        payload: { zombieId: zombie.id, reason: 'combat', timestamp },
+      });
+      continue;
+    }
+
+    const xp = result.xpGained[zombie.id];
+    if (xp === undefined) {
+      activeZombies.push(zombie);
+      continue;
+    }
+
+    const returned = applyBattleHp(zombie, combatHp.get(zombie.id));
+    const { zombie: leveled, levelsGained } = applyZombieXp(returned, xp);
+    for (const newLevel of levelsGained) {
+      events.push({
+        type: 'zombie.levelUp',
+        payload: { zombieId: zombie.id, newLevel, timestamp },
+      });
+    }
+    activeZombies.push(leveled);
+  }
+
+  const firstConquest =
+    result.victory && !input.world.conqueredLocations.includes(input.locationId);
+  if (firstConquest) {
+    events.push({
+      type: 'location.conquered',
+      payload: { locationId: input.locationId, timestamp },
+    });
+  }
+
+  return {
+    success: true,
+    data: {
+      farm: { ...input.farm, activeZombies },
+      world: recordLocationRaid(
+        input.world,
+        input.locationId,
+        getRaidOutcome(result, input.combat),
+        timestamp
+      ),
+      inventory: returnEquipment(rewardResult.inventory, fallen),
+      events,
+    },
+  };
+}
+
+/**
+ * Adds XP to a zombie and applies any level-ups
+ *
+ * Each level adds STATS_PER_LEVEL (max HP gains also heal) and sets
+ * xpToNextLevel from ZOMBIE_XP_CURVE. XP stops accruing at MAX_ZOMBIE_LEVEL.
+ *
+ * @param zombie - Zombie gaining XP
+ * @param amount - XP gained
+ * @returns Updated zombie and the levels reached
+ */
+export function applyZombieXp(zombie: Zombie, amount: number): ZombieXpResult {
+  const { MAX_ZOMBIE_LEVEL, ZOMBIE_XP_CURVE, STATS_PER_LEVEL } = gameConfig.PROGRESSION;
+  const levelsGained: number[] = [];
+  let { level, xp, xpToNextLevel, stats } = zombie;
+  xp += amount;
+
+  while (level < MAX_ZOMBIE_LEVEL && xp >= xpToNextLevel) {
+    xp -= xpToNextLevel;
+    level += 1;
+    xpToNextLevel = ZOMBIE_XP_CURVE(level);
+    stats = {
+      ...stats,
+      hp: stats.hp + STATS_PER_LEVEL.hp,
+      maxHp: stats.maxHp + STATS_PER_LEVEL.hp,
+      attack: stats.attack + STATS_PER_LEVEL.attack,
+      defense: stats.defense + STATS_PER_LEVEL.defense,
+      speed: stats.speed + STATS_PER_LEVEL.speed,
+    };
+    levelsGained.push(level);
+  }
+
+  if (level >= MAX_ZOMBIE_LEVEL) {
+    xp = 0;
+  }
+
+  return {
+    zombie: { ...zombie, level, xp, xpToNextLevel, stats },
+    levelsGained,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Survivors keep the HP they ended the battle with, less their equipment bonus
+ */
+function applyBattleHp(zombie: Zombie, hp: number | undefined): Zombie {
+  if (hp === undefined) {
+    return zombie;
+  }
+
+  return {
+    ...zombie,
+    stats: { ...zombie.stats, hp: getSurvivorHp(zombie, hp) },
+  };
+}
+
+/**
+ * How the raid ended (a defeat in the RETREAT phase is a retreat)
+ */
+function getRaidOutcome(result: BattleResult, combat: CombatState | null | undefined): RaidOutcome {
+  if (result.victory) {
+    return 'victory';
+  }
+  return combat?.phase === BattlePhase.RETREAT ? 'retreat' : 'defeat';
+}
+
+/**
+ * Records the raid on its location, marking it conquered after a victory
+ */
+function recordLocationRaid(
+  world: WorldState,
+  locationId: LocationId,
+  outcome: RaidOutcome,
+  timestamp: number
+): WorldState {
+  if (outcome === 'defeat') {
+    return world;
+  }
+
+  const conquered = outcome === 'victory' && !world.conqueredLocations.includes(locationId);
+  return {
+    ...world,
+    locations: world.locations.map((location) =>
+      location.id === locationId ? recordRaid(location, outcome, timestamp) : location
+    ),
+    conqueredLocations: conquered
+      ? [...world.conqueredLocations, locationId]
+      : world.conqueredLocations,
+  };
+}
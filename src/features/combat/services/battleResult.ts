@@ -0,0 +1,170 @@
+/**
+ * Battle Result Service
+ *
+ * Summarizes a finished CombatState into the BattleResult handed back
+ * to the game machine: survivors, casualties, per-zombie XP, rewards,
+ * unlocks and battle statistics.
+ *
+ * Per DOMAIN-COMBAT.md Battle Outcome and Experience Gain.
+ *
+ * XP per surviving zombie:
+ *   XP_PER_PARTICIPATION + kills * XP_PER_KILL + floor(damage * XP_PER_DAMAGE)
+ *   + FLAWLESS_VICTORY_BONUS (victory with no casualties)
+ *
+ * Retreats count as defeats: survivors keep their XP but no rewards are granted.
+ * Repeat victories earn diminishing rewards (world/services/raidScheduling.ts).
+ */
+
+import type { BattleResult, BattleStats, CombatState } from '../../../types/combat';
+import { BattleLogEventType, BattlePhase } from '../../../types/combat';
+import type { ZombieId } from '../../../types/global';
+import type { Location } from '../../../types/world';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { getRaidRewards } from '../../world/services/raidScheduling';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Damage and kills attributed to each zombie from the battle log
+ */
+interface ZombieContribution {
+  damageDealt: number;
+  kills: number;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Creates the result of a finished battle
+ *
+ * @param state - Battle in a terminal phase (victory, defeat or retreat)
+ * @param location - Raided location (rewards and unlocks are only granted when provided)
+ * @returns Battle result
+ */
+export function createBattleResult(state: CombatState, location?: Location): BattleResult {
+  const victory = state.phase === BattlePhase.VICTORY;
+  const survivors = state.playerSquad.filter((z) => !z.isDead).map((z) => z.id);
+  const casualties = state.playerSquad.filter((z) => z.isDead).map((z) => z.id);
+  const stats = calculateBattleStats(state);
+  const contributions = getZombieContributions(state);
+
+  const xpGained: Record<ZombieId, number> = {};
+  for (const zombieId of survivors) {
+    xpGained[zombieId] = calculateZombieXp(
+      contributions.get(zombieId) ?? { damageDealt: 0, kills: 0 },
+      stats.flawless
+    );
+  }
+
+  return {
+    victory,
+    survivors,
+    casualties,
+    xpGained,
+    rewards:
+      victory && location
+        ? getRaidRewards(location, state.startedAt + Math.round(state.battleDuration * 1000))
+        : {},
+    unlocks: victory && location && !location.isConquered ? location.unlocks : [],
+    stats,
+  };
+}
+
+/**
+ * Calculates battle statistics from the battle log
+ *
+ * @param state - Battle state
+ * @returns Damage, kill and duration totals
+ */
+export function calculateBattleStats(state: CombatState): BattleStats {
+  const zombieIds = new Set(state.playerSquad.map((z) => z.id));
+  let totalDamageDealt = 0;
+  let totalDamageTaken = 0;
+
+  for (const entry of state.battleLog) {
+    if (entry.type !== BattleLogEventType.UNIT_ATTACKED) {
+      continue;
+    }
+    const [attackerId, targetId] = entry.unitIds;
+    const damage = getLoggedDamage(entry.data);
+    if (attackerId && zombieIds.has(attackerId)) {
+      totalDamageDealt += damage;
+    }
+    if (targetId && zombieIds.has(targetId)) {
+      totalDamageTaken += damage;
+    }
+  }
+
+  const casualties = state.playerSquad.filter((z) => z.isDead).length;
+
+  return {
+    totalDamageDealt,
+    totalDamageTaken,
+    enemiesKilled: state.enemies.filter((e) => e.isDead).length,
+    obstaclesDestroyed: state.obstacles.filter((o) => o.isDestroyed).length,
+    duration: state.battleDuration,
+    flawless: state.phase === BattlePhase.VICTORY && casualties === 0,
+  };
+}
+
+/**
+ * Reads finalDamage from an UNIT_ATTACKED log entry's DamageCalculation data
+ *
+ * @param data - Log entry data
+ * @returns Damage dealt (0 if the entry carries none)
+ */
+export function getLoggedDamage(data: Record<string, unknown> | undefined): number {
+  const damage = data?.finalDamage;
+  return typeof damage === 'number' ? damage : 0;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * XP earned by one surviving zombie
+ */
+function calculateZombieXp(contribution: ZombieContribution, flawless: boolean): number {
+  const { XP_PER_PARTICIPATION, XP_PER_KILL, XP_PER_DAMAGE, FLAWLESS_VICTORY_BONUS } =
+    gameConfig.COMBAT;
+
+  return (
+    XP_PER_PARTICIPATION +
+    contribution.kills * XP_PER_KILL +
+    Math.floor(contribution.damageDealt * XP_PER_DAMAGE) +
+    (flawless ? FLAWLESS_VICTORY_BONUS : 0)
+  );
+}
+
+/**
+ * Attributes attack damage and killing blows to zombies
+ *
+ * UNIT_ATTACKED entries list [attacker, target]; UNIT_DIED entries list
+ * [victim, killer] when the death came from an attack.
+ */
+function getZombieContributions(state: CombatState): Map<string, ZombieContribution> {
+  const contributions = new Map<string, ZombieContribution>(
+    state.playerSquad.map((z) => [z.id, { damageDealt: 0, kills: 0 }])
+  );
+
+  for (const entry of state.battleLog) {
+    if (entry.type === BattleLogEventType.UNIT_ATTACKED) {
+      const contribution = contributions.get(entry.unitIds[0] ?? '');
+      if (contribution) {
+        contribution.damageDealt += getLoggedDamage(entry.data);
+      }
+    } else if (entry.type === BattleLogEventType.UNIT_DIED) {
+      const contribution = contributions.get(entry.unitIds[1] ?? '');
+      if (contribution) {
+        contribution.kills += 1;
+      }
+    }
+  }
+
+  return contributions;
+}
@@ -0,0 +1,847 @@
+/**
+ * Battle Simulation Service
+ *
+ * Pure, deterministic tick engine that advances a CombatState through time.
+ * Handles movement, target acquisition, attack cooldowns, unit death,
+ * status effects, enemy and zombie abilities, wave progression, retreat
+ * countdown and victory/defeat detection. Units route around fortifications (see
+ * pathfinding.ts), and zombies break through the ones in their way.
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics specifications.
+ *
+ * Coordinate system:
+ * - Battlefield positions are in pixels (see battleInitialization.ts)
+ * - Unit speed and range are in tiles (see CombatStats)
+ * - BATTLEFIELD_TILE_SIZE converts between the two
+ */
+
+import type { Location } from '../../../types/world';
+import type {
+  CombatState,
+  CombatUnit,
+  Enemy,
+  BattleLogEntry,
+  DamageCalculation,
+  Obstacle,
+} from '../../../types/combat';
+import {
+  BattlePhase,
+  BattleLogEventType,
+  TargetPriority,
+  UnitAIState,
+} from '../../../types/combat';
+import { ZombieType } from '../../../types/farm';
+import type { Position } from '../../../types/global';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { selectTarget, isInRange, BATTLEFIELD_TILE_SIZE, BATTLEFIELD_WIDTH } from './targeting';
+import { generateEnemyWave, assignPositions } from './battleInitialization';
+import {
+  calculateDamage,
+  calculateStructureDamage,
+  getAttackDamageType,
+} from './damageCalculation';
+import { destroyFortification } from './fortifications';
+import {
+  getNavigationGrid,
+  getFlowField,
+  getNavigationStep,
+  isLineWalkable,
+  shouldAttackObstacle,
+  type NavigationGrid,
+} from './pathfinding';
+import {
+  applyDamageTypeEffects,
+  canUnitAct,
+  getEffectiveStats,
+  isUnitFleeing,
+  tickStatusEffects,
+  type StatusEffectEvent,
+} from './statusEffects';
+import { resolveEnemyAbilities, type AbilityEvent } from './enemyAbilities';
+import { applyMutationAuras, applyMutationOnHitEffects } from './mutationEffects';
+import {
+  applyLifeSteal,
+  getStructureDamageMultiplier,
+  resolveDeathExplosions,
+  resolveSplashDamage,
+  resolveZombieAbilities,
+  type AbilityHit,
+} from './zombieAbilities';
+import { createLogEntry } from './combatResults';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Maximum simulated step (ms); larger deltas are split into sub-steps */
+export const MAX_SIMULATION_STEP_MS = 100;
+
+/** Tolerance for floating point drift when summing sub-steps */
+const TIME_EPSILON = 1e-6;
+
+/**
+ * Default target priority per zombie type
+ *
+ * Per DOMAIN-COMBAT.md Target Priority (Zombies). Types not listed
+ * attack the nearest enemy.
+ */
+const ZOMBIE_TARGET_PRIORITIES: Partial<Record<string, TargetPriority>> = {
+  [ZombieType.RUNNER]: TargetPriority.RANGED,
+  [ZombieType.SPITTER]: TargetPriority.WEAKEST,
+  [ZombieType.LICH]: TargetPriority.HIGHEST_THREAT,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for advancing a battle
+ */
+export interface BattleStepOptions {
+  /** Location being raided (required to spawn waves after the first) */
+  location?: Location;
+
+  /** Random source in [0, 1) for hit, crit and status rolls (default Math.random) */
+  random?: () => number;
+
+  /** Receives status and ability events raised during the step */
+  onEvent?: (event: StatusEffectEvent | AbilityEvent) => void;
+}
+
+/**
+ * A single attack resolved during a simulation step
+ */
+interface AttackRecord {
+  attackerId: string;
+  targetId: string;
+  calculation: DamageCalculation;
+
+  /** Target is a fortification rather than a unit */
+  isStructure: boolean;
+}
+
+/**
+ * How a side moves across the battlefield
+ */
+interface Navigation {
+  grid: NavigationGrid;
+
+  /** Whether units break through fortifications on their route */
+  canBreach: boolean;
+}
+
+/**
+ * Where a unit moves next, or the fortification it must break through
+ */
+interface Route {
+  destination: Position;
+
+  /** Distance to stop short of the destination (tiles) */
+  stopRange: number;
+
+  obstacle: Obstacle | null;
+}
+
+/**
+ * Result of moving and acting for one unit during a step
+ */
+interface UnitStepResult<T extends CombatUnit> {
+  unit: T;
+  attack: AttackRecord | null;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Starts a prepared battle
+ *
+ * Moves the battle from PREPARATION to ACTIVE and logs the start.
+ * Battles in any other phase are returned unchanged.
+ *
+ * @param state - Battle in preparation phase
+ * @returns Active battle state
+ */
+export function startBattle(state: CombatState): CombatState {
+  if (state.phase !== BattlePhase.PREPARATION) {
+    return state;
+  }
+
+  return {
+    ...state,
+    phase: BattlePhase.ACTIVE,
+    battleLog: [
+      ...state.battleLog,
+      createLogEntry(state, BattleLogEventType.BATTLE_START, 'Battle started', []),
+    ],
+  };
+}
+
+/**
+ * Starts the retreat countdown
+ *
+ * The battle ends in the RETREAT phase when the countdown reaches zero.
+ *
+ * @param state - Active battle state
+ * @returns Retreating battle state
+ */
+export function startRetreat(state: CombatState): CombatState {
+  return {
+    ...state,
+    isRetreating: true,
+    retreatCountdown: gameConfig.COMBAT.RETREAT_COUNTDOWN_SECONDS,
+  };
+}
+
+/**
+ * Advances an active battle by deltaMs
+ *
+ * Large deltas are split into sub-steps of at most MAX_SIMULATION_STEP_MS
+ * so results do not depend on frame rate. Battles that are not ACTIVE are
+ * returned unchanged.
+ *
+ * @param state - Current battle state
+ * @param deltaMs - Elapsed real time in milliseconds
+ * @param options - Location for wave spawning, random source and event callback
+ * @returns Updated battle state
+ */
+export function stepBattle(
+  state: CombatState,
+  deltaMs: number,
+  options: BattleStepOptions = {}
+): CombatState {
+  if (deltaMs <= 0) {
+    return state;
+  }
+
+  let current = state;
+  let remaining = deltaMs;
+
+  while (remaining > 0 && current.phase === BattlePhase.ACTIVE) {
+    const step = Math.min(remaining, MAX_SIMULATION_STEP_MS);
+    current = simulateStep(current, step / 1000, options);
+    remaining -= step;
+  }
+
+  return current;
+}
+
+/**
+ * Checks whether a battle has reached a terminal phase
+ *
+ * @param state - Battle state
+ * @returns True if the battle ended in victory, defeat or retreat
+ */
+export function isBattleFinished(state: CombatState): boolean {
+  return (
+    state.phase === BattlePhase.VICTORY ||
+    state.phase === BattlePhase.DEFEAT ||
+    state.phase === BattlePhase.RETREAT
+  );
+}
+
+// ============================================================================
+// SIMULATION STEP
+// ============================================================================
+
+/**
+ * Simulates a single fixed step
+ *
+ * Movement and target acquisition are computed from the state at the start
+ * of the step, and all attacks are resolved simultaneously afterwards so
+ * neither side gets a first-strike advantage from iteration order. Status
+ * effects then tick, on-hit effects from this step's attacks (damage types,
+ * then mutations; see mutationEffects.ts) are applied,
+ * units use any ready abilities (see enemyAbilities.ts), and zombies that
+ * died this step set off their death explosions (see zombieAbilities.ts).
+ */
+function simulateStep(
+  state: CombatState,
+  dt: number,
+  { location, random = Math.random, onEvent }: BattleStepOptions
+): CombatState {
+  const now = state.battleDuration + dt;
+  const withEffects = <T extends CombatUnit>(unit: T): T => ({
+    ...unit,
+    stats: applyMutationAuras(state, unit, getEffectiveStats(state, unit)),
+  });
+  const aliveZombies = state.playerSquad.filter((z) => !z.isDead).map(withEffects);
+  const aliveEnemies = state.enemies.filter((e) => !e.isDead).map(withEffects);
+  const grid = getNavigationGrid(state.obstacles);
+
+  // 1. Movement, targeting and attack decisions
+  const zombieResults = state.playerSquad.map((zombie) =>
+    state.isRetreating
+      ? moveAway(zombie, -1, dt, UnitAIState.RETREATING)
+      : controlUnit(
+          state,
+          zombie,
+          aliveEnemies,
+          getZombieTargetPriority(zombie),
+          -1,
+          { grid, canBreach: true },
+          dt,
+          now,
+          random
+        )
+  );
+  const enemyResults = state.enemies.map((enemy) =>
+    controlUnit(
+      state,
+      enemy,
+      aliveZombies,
+      enemy.aiProfile?.targetPriority ?? TargetPriority.CLOSEST,
+      1,
+      { grid, canBreach: false },
+      dt,
+      now,
+      random
+    )
+  );
+
+  const attacks = [...zombieResults, ...enemyResults]
+    .map((r) => r.attack)
+    .filter((a): a is AttackRecord => a !== null);
+  const hits = attacks.filter((a) => a.calculation.isHit);
+
+  // 2. Resolve damage simultaneously, including zombie splash
+  const dealt: AbilityHit[] = hits.flatMap((hit) => {
+    const direct = {
+      attackerId: hit.attackerId,
+      targetId: hit.targetId,
+      damage: hit.calculation.finalDamage,
+    };
+    const attacker = aliveZombies.find((z) => z.id === hit.attackerId);
+    const target = aliveEnemies.find((e) => e.id === hit.targetId);
+    return attacker && target
+      ? [direct, ...resolveSplashDamage(attacker, target, direct.damage, aliveEnemies)]
+      : [direct];
+  });
+  const damageTaken = new Map<string, number>();
+  const killers = new Map<string, string>();
+  for (const hit of dealt) {
+    damageTaken.set(hit.targetId, (damageTaken.get(hit.targetId) ?? 0) + hit.damage);
+    killers.set(hit.targetId, hit.attackerId);
+  }
+
+  const log: BattleLogEntry[] = [];
+  const logState = { ...state, battleDuration: now };
+
+  for (const attack of attacks) {
+    log.push(
+      createLogEntry(
+        logState,
+        BattleLogEventType.UNIT_ATTACKED,
+        describeAttack(attack),
+        [attack.attackerId, attack.targetId],
+        { ...attack.calculation }
+      )
+    );
+  }
+
+  const playerSquad = zombieResults.map((r) =>
+    applyDamage(r.unit, damageTaken, killers, logState, log)
+  );
+  const enemiesAfterCombat = enemyResults.map((r) =>
+    applyDamage(r.unit, damageTaken, killers, logState, log)
+  );
+  // Keep the obstacles array unchanged unless a fortification was hit, so
+  // the cached navigation grid is reused
+  const obstacles = hits.some((hit) => hit.isStructure)
+    ? state.obstacles.map((obstacle) => damageObstacle(obstacle, damageTaken, logState, log))
+    : state.obstacles;
+
+  // Lifesteal heals from this step's hits
+  const drained = applyLifeSteal(
+    {
+      ...logState,
+      playerSquad,
+      enemies: enemiesAfterCombat,
+      obstacles,
+      battleLog: [...state.battleLog, ...log],
+    },
+    dealt
+  );
+  drained.events.forEach((event) => onEvent?.(event));
+
+  // 3. Status effects: tick existing effects, then apply on-hit effects
+  let status = tickStatusEffects(drained.state, dt, random);
+  for (const hit of hits) {
+    if (hit.isStructure) continue;
+    const applied = applyDamageTypeEffects(
+      status.state,
+      hit.targetId,
+      hit.calculation.damageType,
+      random
+    );
+    status = { state: applied.state, events: [...status.events, ...applied.events] };
+  }
+  const mutated = applyMutationOnHitEffects(
+    status.state,
+    hits.filter((hit) => !hit.isStructure),
+    random
+  );
+  status = { state: mutated.state, events: [...status.events, ...mutated.events] };
+  status.events.forEach((event) => onEvent?.(event));
+
+  // 4. Enemy abilities, then zombie casts
+  const enemyAbilities = resolveEnemyAbilities(status.state, random);
+  enemyAbilities.events.forEach((event) => onEvent?.(event));
+  const zombieAbilities = resolveZombieAbilities(enemyAbilities.state, random);
+  zombieAbilities.events.forEach((event) => onEvent?.(event));
+
+  // 5. Death explosions of zombies that fell this step
+  const explosions = resolveDeathExplosions(state, zombieAbilities.state, random);
+  explosions.events.forEach((event) => onEvent?.(event));
+
+  let current = explosions.state;
+
+  // 6. Wave progression
+  let currentWave = current.currentWave;
+  if (!current.enemies.some((e) => !e.isDead) && currentWave < current.totalWaves && location) {
+    currentWave += 1;
+    const spawned = assignPositions(
+      generateEnemyWave(location, currentWave, random),
+      'line',
+      'right'
+    );
+    current = {
+      ...current,
+      currentWave,
+      enemies: [...current.enemies, ...spawned],
+      battleLog: [
+        ...current.battleLog,
+        createLogEntry(
+          current,
+          BattleLogEventType.WAVE_SPAWNED,
+          `Wave ${currentWave} arrived`,
+          spawned.map((e) => e.id),
+          { wave: currentWave }
+        ),
+      ],
+    };
+  }
+
+  // 7. Retreat countdown
+  const retreatCountdown = current.isRetreating
+    ? Math.max(0, current.retreatCountdown - dt)
+    : current.retreatCountdown;
+
+  // 8. Victory / defeat
+  const phase = determinePhase(
+    current.playerSquad,
+    current.enemies,
+    currentWave,
+    current.totalWaves,
+    current.isRetreating,
+    retreatCountdown
+  );
+
+  const next: CombatState = { ...current, retreatCountdown, phase };
+
+  if (phase !== BattlePhase.ACTIVE) {
+    return {
+      ...next,
+      battleLog: [
+        ...next.battleLog,
+        createLogEntry(next, BattleLogEventType.BATTLE_END, `Battle ended: ${phase}`, [], {
+          phase,
+        }),
+      ],
+    };
+  }
+
+  return next;
+}
+
+/**
+ * Determines the battle phase after a step
+ */
+function determinePhase(
+  zombies: ReadonlyArray<CombatUnit>,
+  enemies: ReadonlyArray<Enemy>,
+  currentWave: number,
+  totalWaves: number,
+  isRetreating: boolean,
+  retreatCountdown: number
+): BattlePhase {
+  if (zombies.every((z) => z.isDead)) {
+    return BattlePhase.DEFEAT;
+  }
+
+  if (isRetreating && retreatCountdown <= TIME_EPSILON) {
+    return BattlePhase.RETREAT;
+  }
+
+  if (enemies.every((e) => e.isDead) && currentWave >= totalWaves) {
+    return BattlePhase.VICTORY;
+  }
+
+  return BattlePhase.ACTIVE;
+}
+
+// ============================================================================
+// UNIT BEHAVIOUR
+// ============================================================================
+
+/**
+ * Runs one unit for a step, honoring status effects
+ *
+ * Stunned units do nothing, feared units flee toward their own edge, and
+ * everyone else acts with weakened/slowed/buffed stats applied. The stored
+ * unit keeps its base stats.
+ *
+ * @param fleeDirection - Edge the unit runs to when feared
+ * @param navigation - Navigation grid and breach rule for the unit's side
+ */
+function controlUnit<T extends CombatUnit>(
+  state: CombatState,
+  unit: T,
+  opponents: CombatUnit[],
+  priority: TargetPriority,
+  fleeDirection: 1 | -1,
+  navigation: Navigation,
+  dt: number,
+  now: number,
+  random: () => number
+): UnitStepResult<T> {
+  if (unit.isDead) {
+    return { unit, attack: null };
+  }
+
+  if (!canUnitAct(state, unit.id)) {
+    return { unit: { ...unit, aiState: UnitAIState.STUNNED }, attack: null };
+  }
+
+  const effective = { ...unit, stats: getEffectiveStats(state, unit) };
+  const result = isUnitFleeing(state, unit.id)
+    ? moveAway(effective, fleeDirection, dt, UnitAIState.FLEEING)
+    : actUnit(effective, opponents, priority, navigation, dt, now, random);
+
+  return { ...result, unit: { ...result.unit, stats: unit.stats } };
+}
+
+/**
+ * Moves a unit toward its target or attacks it when in range
+ *
+ * Blocked units follow their route around fortifications, attacking the
+ * fortification when the route breaks through it.
+ *
+ * @param unit - Acting unit
+ * @param opponents - Living opposing units
+ * @param priority - Target priority for this unit
+ * @param navigation - Navigation grid and breach rule
+ * @param dt - Step length in seconds
+ * @param now - Battle time at the end of this step (seconds)
+ * @param random - Random source for hit and crit rolls
+ */
+function actUnit<T extends CombatUnit>(
+  unit: T,
+  opponents: CombatUnit[],
+  priority: TargetPriority,
+  navigation: Navigation,
+  dt: number,
+  now: number,
+  random: () => number
+): UnitStepResult<T> {
+  if (unit.isDead) {
+    return { unit, attack: null };
+  }
+
+  const target = acquireTarget(unit, opponents, priority);
+
+  if (!target) {
+    // Nothing left to fight: hold position
+    return { unit: { ...unit, targetId: null, aiState: UnitAIState.IDLE }, attack: null };
+  }
+
+  if (isInRange(toTileSpace(unit), toTileSpace(target))) {
+    if (!isAttackReady(unit, now)) {
+      return {
+        unit: { ...unit, targetId: target.id, aiState: UnitAIState.ENGAGING },
+        attack: null,
+      };
+    }
+
+    return {
+      unit: {
+        ...unit,
+        targetId: target.id,
+        aiState: UnitAIState.ENGAGING,
+        lastAttackAt: now,
+      },
+      attack: {
+        attackerId: unit.id,
+        targetId: target.id,
+        calculation: calculateDamage(unit, target, getAttackDamageType(unit), { random }),
+        isStructure: false,
+      },
+    };
+  }
+
+  const route = planRoute(unit, target, navigation);
+
+  if (!route) {
+    // No way through: hold position until the path opens
+    return { unit: { ...unit, targetId: target.id, aiState: UnitAIState.IDLE }, attack: null };
+  }
+
+  if (route.obstacle) {
+    const engaging = { ...unit, targetId: target.id, aiState: UnitAIState.ENGAGING };
+    if (!isAttackReady(unit, now)) {
+      return { unit: engaging, attack: null };
+    }
+
+    return {
+      unit: { ...engaging, lastAttackAt: now },
+      attack: {
+        attackerId: unit.id,
+        targetId: route.obstacle.id,
+        calculation: calculateStructureDamage(unit, route.obstacle, getAttackDamageType(unit), {
+          random,
+          modifier: getStructureDamageMultiplier(unit),
+        }),
+        isStructure: true,
+      },
+    };
+  }
+
+  return {
+    unit: {
+      ...unit,
+      position: moveToward(unit.position, route.destination, unit.stats.speed, dt, route.stopRange),
+      targetId: target.id,
+      aiState: UnitAIState.ADVANCING,
+    },
+    attack: null,
+  };
+}
+
+/**
+ * Plans a unit's movement toward its target
+ *
+ * Units walk straight at the target while nothing blocks the line, and
+ * otherwise follow the flow field one tile at a time. Returns null when
+ * the target cannot be reached.
+ */
+function planRoute(unit: CombatUnit, target: CombatUnit, navigation: Navigation): Route | null {
+  const { grid, canBreach } = navigation;
+
+  if (isLineWalkable(grid, unit.position, target.position)) {
+    return { destination: target.position, stopRange: unit.stats.range, obstacle: null };
+  }
+
+  const step = getNavigationStep(
+    grid,
+    getFlowField(grid, target.position, canBreach),
+    unit.position
+  );
+  if (!step) {
+    return null;
+  }
+
+  if (shouldAttackObstacle(unit, step)) {
+    return { destination: step.waypoint, stopRange: 0, obstacle: step.obstacle };
+  }
+
+  // Walk up to a fortification on the route, never onto it
+  return { destination: step.waypoint, stopRange: step.obstacle ? 1 : 0, obstacle: null };
+}
+
+/**
+ * Checks whether a unit's attack cooldown has elapsed
+ */
+function isAttackReady(unit: CombatUnit, now: number): boolean {
+  // lastAttackAt of 0 means the unit has not attacked yet this battle
+  return (
+    unit.lastAttackAt === 0 || now - unit.lastAttackAt >= unit.stats.attackCooldown - TIME_EPSILON
+  );
+}
+
+/**
+ * Moves a unit straight toward one edge of the battlefield
+ *
+ * Used for retreating zombies and feared units.
+ *
+ * @param direction - -1 toward the zombie side (left), 1 toward the enemy side (right)
+ */
+function moveAway<T extends CombatUnit>(
+  unit: T,
+  direction: 1 | -1,
+  dt: number,
+  aiState: UnitAIState
+): UnitStepResult<T> {
+  if (unit.isDead) {
+    return { unit, attack: null };
+  }
+
+  const distance = unit.stats.speed * BATTLEFIELD_TILE_SIZE * dt * direction;
+  const x = Math.max(0, Math.min(BATTLEFIELD_WIDTH, unit.position.x + distance));
+  return {
+    unit: { ...unit, position: { x, y: unit.position.y }, targetId: null, aiState },
+    attack: null,
+  };
+}
+
+/**
+ * Keeps the current target while it is alive, otherwise selects a new one
+ */
+function acquireTarget(
+  unit: CombatUnit,
+  opponents: CombatUnit[],
+  priority: TargetPriority
+): CombatUnit | null {
+  if (unit.targetId) {
+    const current = opponents.find((o) => o.id === unit.targetId);
+    if (current) {
+      return current;
+    }
+  }
+
+  return selectTarget(unit, opponents, priority);
+}
+
+/**
+ * Gets the default target priority for a zombie
+ */
+function getZombieTargetPriority(zombie: CombatUnit): TargetPriority {
+  return ZOMBIE_TARGET_PRIORITIES[zombie.type] ?? TargetPriority.CLOSEST;
+}
+
+/**
+ * Applies accumulated damage to a unit and marks it dead at 0 HP
+ */
+function applyDamage<T extends CombatUnit>(
+  unit: T,
+  damageTaken: Map<string, number>,
+  killers: Map<string, string>,
+  state: CombatState,
+  log: BattleLogEntry[]
+): T {
+  const damage = damageTaken.get(unit.id);
+  if (damage === undefined || unit.isDead) {
+    return unit;
+  }
+
+  const hp = Math.max(0, unit.stats.hp - damage);
+
+  if (hp > 0) {
+    return { ...unit, stats: { ...unit.stats, hp } };
+  }
+
+  const killerId = killers.get(unit.id);
+  log.push(
+    createLogEntry(
+      state,
+      BattleLogEventType.UNIT_DIED,
+      `${unit.name} was destroyed`,
+      killerId ? [unit.id, killerId] : [unit.id]
+    )
+  );
+
+  return {
+    ...unit,
+    stats: { ...unit.stats, hp: 0 },
+    isDead: true,
+    aiState: UnitAIState.DEAD,
+    targetId: null,
+  };
+}
+
+/**
+ * Applies accumulated damage to a fortification and destroys it at 0 HP
+ */
+function damageObstacle(
+  obstacle: Obstacle,
+  damageTaken: Map<string, number>,
+  state: CombatState,
+  log: BattleLogEntry[]
+): Obstacle {
+  const damage = damageTaken.get(obstacle.id);
+  if (damage === undefined || obstacle.isDestroyed) {
+    return obstacle;
+  }
+
+  const damaged = destroyFortification({ ...obstacle, hp: Math.max(0, obstacle.hp - damage) });
+  if (damaged.isDestroyed) {
+    log.push(
+      createLogEntry(
+        state,
+        BattleLogEventType.OBSTACLE_DESTROYED,
+        `${obstacle.type} ${obstacle.id} was destroyed`,
+        [obstacle.id]
+      )
+    );
+  }
+
+  return damaged;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Builds the log message for an attack
+ */
+function describeAttack(attack: AttackRecord): string {
+  const { calculation } = attack;
+
+  if (!calculation.isHit) {
+    return `${attack.attackerId} missed ${attack.targetId}`;
+  }
+
+  const crit = calculation.isCritical ? ' (critical)' : '';
+  return `${attack.attackerId} hit ${attack.targetId} for ${calculation.finalDamage} ${calculation.damageType}${crit}`;
+}
+
+/**
+ * Moves a position toward a destination, stopping at the given range
+ *
+ * @param from - Current position (pixels)
+ * @param to - Destination (pixels)
+ * @param speed - Speed in tiles per second
+ * @param dt - Step length in seconds
+ * @param stopRange - Distance to stop at (tiles)
+ * @returns New position (pixels)
+ */
+function moveToward(
+  from: Position,
+  to: Position,
+  speed: number,
+  dt: number,
+  stopRange: number
+): Position {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  const stopDistance = stopRange * BATTLEFIELD_TILE_SIZE;
+
+  if (distance <= stopDistance || distance === 0) {
+    return from;
+  }
+
+  const travel = Math.min(speed * BATTLEFIELD_TILE_SIZE * dt, distance - stopDistance);
+  const x = from.x + (dx / distance) * travel;
+
+  return {
+    x: Math.max(0, Math.min(BATTLEFIELD_WIDTH, x)),
+    y: from.y + (dy / distance) * travel,
+  };
+}
+
+/**
+ * Projects a unit into tile space so pixel positions can be compared
+ * against tile-based ranges
+ */
+function toTileSpace<T extends CombatUnit>(unit: T): T {
+  return {
+    ...unit,
+    position: {
+      x: unit.position.x / BATTLEFIELD_TILE_SIZE,
+      y: unit.position.y / BATTLEFIELD_TILE_SIZE,
+    },
+  };
+}
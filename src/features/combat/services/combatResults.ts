@@ -0,0 +1,64 @@
+/**
+ * Combat Result Helpers
+ *
+ * Shared building blocks for the combat services that return a battle state
+ * with the events it produced (status effects, enemy and zombie abilities)
+ * and write to the battle log.
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics.
+ */
+
+import type { BattleLogEntry, BattleLogEventType, CombatState } from '../../../types/combat';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Battle state after an operation, with the events it emitted
+ */
+export interface CombatResult<E> {
+  state: CombatState;
+  events: E[];
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Merges two results, keeping the later state
+ *
+ * @param first - Earlier result
+ * @param second - Result of the operation applied to first.state
+ * @returns Second state with the events of both, in order
+ */
+export function mergeResult<E>(first: CombatResult<E>, second: CombatResult<E>): CombatResult<E> {
+  return { state: second.state, events: [...first.events, ...second.events] };
+}
+
+/**
+ * Creates a battle log entry stamped with the battle clock
+ *
+ * @param state - Battle state (its clock dates the entry)
+ * @param type - Log event type
+ * @param message - Human-readable description
+ * @param unitIds - Units involved
+ * @param data - Extra event data
+ * @returns Log entry
+ */
+export function createLogEntry(
+  state: CombatState,
+  type: BattleLogEventType,
+  message: string,
+  unitIds: string[],
+  data?: Record<string, unknown>
+): BattleLogEntry {
+  return {
+    timestamp: state.startedAt + Math.round(state.battleDuration * 1000),
+    type,
+    message,
+    unitIds,
+    ...(data ? { data } : {}),
+  };
+}
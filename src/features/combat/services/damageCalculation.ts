@@ -0,0 +1,316 @@
+/**
+ * Damage Calculation Service
+ *
+ * Resolves a single attack into a fully itemized DamageCalculation:
+ * hit/evasion roll, armor mitigation, damage type effectiveness,
+ * resistances, critical strikes and the minimum damage floor.
+ *
+ * Per DOMAIN-COMBAT.md Attack and Damage / Damage Types & Effects.
+ *
+ * Formula:
+ *   afterArmor = attack - armorReduction
+ *   final = max(MINIMUM_DAMAGE, floor(afterArmor * type * resistance * crit * other))
+ *
+ * Missed attacks and attacks against immune defenders deal 0 damage.
+ */
+
+import type { CombatUnit, DamageCalculation, Obstacle } from '../../../types/combat';
+import { DamageType, EnemyType } from '../../../types/combat';
+import type { ZombieType } from '../../../types/farm';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { getEnemyHitProfile, type EnemyHitProfile } from './enemyComposition';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for a damage calculation
+ */
+export interface DamageOptions {
+  /** Random source in [0, 1) for hit and crit rolls (default Math.random) */
+  random?: () => number;
+
+  /** Extra multiplier from abilities, buffs or debuffs (default 1) */
+  modifier?: number;
+
+  /** Defender is a structure (gate, wall, tower) */
+  targetIsStructure?: boolean;
+}
+
+/**
+ * Combat-relevant view of a damage type's config entry
+ */
+interface DamageTypeConfig {
+  vsArmor?: number;
+  armorPenetration?: number;
+  ignoresArmor?: boolean;
+  vsUndead?: number;
+  vsPeasants?: number;
+  vsStructures?: number;
+  isAoE?: boolean;
+  aoeRadius?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Hit profile for zombies
+ *
+ * Per DOMAIN-COMBAT.md zombie attacks always land and do not crit.
+ */
+const ZOMBIE_HIT_PROFILE: EnemyHitProfile = {
+  accuracy: 1,
+  evasion: 0,
+  critRate: 0,
+  critMultiplier: 1,
+};
+
+/**
+ * Damage type dealt by each enemy type's basic attack
+ */
+const ENEMY_DAMAGE_TYPES: Partial<Record<EnemyType, DamageType>> = {
+  [EnemyType.MAGE]: DamageType.FIRE,
+  [EnemyType.PRIEST]: DamageType.HOLY,
+  [EnemyType.PALADIN]: DamageType.HOLY,
+  [EnemyType.NECROMANCER]: DamageType.DARK,
+};
+
+/** Default AoE radius (tiles) for AoE damage types without an explicit radius */
+const DEFAULT_AOE_RADIUS = 1;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Calculates the damage of a single attack
+ *
+ * @param attacker - Attacking unit (zombie or enemy)
+ * @param defender - Defending unit (zombie or enemy)
+ * @param damageType - Type of damage dealt
+ * @param options - Random source and extra modifiers
+ * @returns Itemized damage calculation
+ */
+export function calculateDamage(
+  attacker: CombatUnit,
+  defender: CombatUnit,
+  damageType: DamageType,
+  options: DamageOptions = {}
+): DamageCalculation {
+  const { random = Math.random, modifier = 1, targetIsStructure = false } = options;
+  const attackerProfile = getHitProfile(attacker);
+  const defenderProfile = getHitProfile(defender);
+
+  const baseDamage = attacker.stats.attack;
+  const armorReduction = calculateArmorReduction(defender.stats.defense, damageType);
+  const typeMultiplier = getTypeMultiplier(defender, damageType, targetIsStructure);
+  const resistanceMultiplier = getResistanceMultiplier(defender, damageType);
+
+  const hitChance = getHitChance(attackerProfile, defenderProfile);
+  const isHit = random() < hitChance;
+  const isCritical = isHit && random() < attackerProfile.critRate;
+  const criticalMultiplier = isCritical ? attackerProfile.critMultiplier : 1;
+
+  const modifiers = {
+    armorReduction,
+    typeMultiplier,
+    criticalMultiplier,
+    resistanceMultiplier,
+    other: modifier,
+  };
+
+  if (!isHit || resistanceMultiplier === 0) {
+    return { baseDamage, finalDamage: 0, damageType, isHit, isCritical, modifiers };
+  }
+
+  const afterArmor = Math.max(0, baseDamage - armorReduction);
+  const finalDamage = Math.max(
+    gameConfig.COMBAT.MINIMUM_DAMAGE,
+    Math.floor(afterArmor * typeMultiplier * resistanceMultiplier * criticalMultiplier * modifier)
+  );
+
+  return { baseDamage, finalDamage, damageType, isHit, isCritical, modifiers };
+}
+
+/**
+ * Calculates the damage of an attack against a fortification
+ *
+ * Structures cannot evade and have no resistances; armor and the damage
+ * type's vsStructures multiplier apply as for units.
+ *
+ * @param attacker - Attacking unit
+ * @param obstacle - Fortification being attacked
+ * @param damageType - Type of damage dealt
+ * @param options - Random source and extra modifiers
+ * @returns Itemized damage calculation
+ */
+export function calculateStructureDamage(
+  attacker: CombatUnit,
+  obstacle: Obstacle,
+  damageType: DamageType,
+  options: Omit<DamageOptions, 'targetIsStructure'> = {}
+): DamageCalculation {
+  const { random = Math.random, modifier = 1 } = options;
+  const attackerProfile = getHitProfile(attacker);
+
+  const baseDamage = attacker.stats.attack;
+  const armorReduction = calculateArmorReduction(obstacle.defense, damageType);
+  const typeMultiplier = getDamageTypeConfig(damageType).vsStructures ?? 1;
+
+  const isHit = random() < attackerProfile.accuracy;
+  const isCritical = isHit && random() < attackerProfile.critRate;
+  const criticalMultiplier = isCritical ? attackerProfile.critMultiplier : 1;
+
+  const modifiers = {
+    armorReduction,
+    typeMultiplier,
+    criticalMultiplier,
+    resistanceMultiplier: 1,
+    other: modifier,
+  };
+
+  if (!isHit) {
+    return { baseDamage, finalDamage: 0, damageType, isHit, isCritical, modifiers };
+  }
+
+  const afterArmor = Math.max(0, baseDamage - armorReduction);
+  const finalDamage = Math.max(
+    gameConfig.COMBAT.MINIMUM_DAMAGE,
+    Math.floor(afterArmor * typeMultiplier * criticalMultiplier * modifier)
+  );
+
+  return { baseDamage, finalDamage, damageType, isHit, isCritical, modifiers };
+}
+
+/**
+ * Gets the damage type of a unit's basic attack
+ *
+ * Zombies use their ZOMBIES config entry; enemies use their class
+ * (mages burn, priests and paladins smite, necromancers curse).
+ *
+ * @param unit - Attacking unit
+ * @returns Damage type
+ */
+export function getAttackDamageType(unit: CombatUnit): DamageType {
+  if (isEnemyUnit(unit)) {
+    return ENEMY_DAMAGE_TYPES[unit.type as EnemyType] ?? DamageType.PHYSICAL;
+  }
+
+  const zombieConfig = gameConfig.ZOMBIES[unit.type as ZombieType] as
+    | { damageType: DamageType }
+    | undefined;
+  return zombieConfig?.damageType ?? DamageType.PHYSICAL;
+}
+
+/**
+ * Gets the AoE splash radius of a damage type
+ *
+ * @param damageType - Damage type
+ * @returns Radius in tiles (0 = single target)
+ */
+export function getAoERadius(damageType: DamageType): number {
+  const config = getDamageTypeConfig(damageType);
+
+  if (!config.isAoE) {
+    return 0;
+  }
+
+  return config.aoeRadius ?? DEFAULT_AOE_RADIUS;
+}
+
+/**
+ * Gets the chance an attack connects
+ *
+ * @param attacker - Attacker hit profile
+ * @param defender - Defender hit profile
+ * @returns Probability in [0, 1]
+ */
+export function getHitChance(attacker: EnemyHitProfile, defender: EnemyHitProfile): number {
+  return Math.max(0, Math.min(1, attacker.accuracy * (1 - defender.evasion)));
+}
+
+/**
+ * Gets the hit/evasion/crit profile of a unit
+ *
+ * Enemies use ENEMY_BASE_STATS; zombies always hit and never evade.
+ *
+ * @param unit - Combat unit
+ * @returns Hit profile
+ */
+export function getHitProfile(unit: CombatUnit): EnemyHitProfile {
+  return isEnemyUnit(unit) ? getEnemyHitProfile(unit.type as EnemyType) : ZOMBIE_HIT_PROFILE;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Armor mitigation for a damage type
+ *
+ * - ignoresArmor: no reduction (Dark)
+ * - armorPenetration: only the unpenetrated share applies (Toxic)
+ * - vsArmor: armor is partially effective (Physical, Fire)
+ * - otherwise full armor applies
+ */
+function calculateArmorReduction(defense: number, damageType: DamageType): number {
+  const config = getDamageTypeConfig(damageType);
+
+  if (config.ignoresArmor) {
+    return 0;
+  }
+  if (config.armorPenetration !== undefined) {
+    return defense * (1 - config.armorPenetration);
+  }
+  if (config.vsArmor !== undefined) {
+    return defense * config.vsArmor;
+  }
+  return defense;
+}
+
+/**
+ * Damage type effectiveness against the defender
+ */
+function getTypeMultiplier(
+  defender: CombatUnit,
+  damageType: DamageType,
+  targetIsStructure: boolean
+): number {
+  const config = getDamageTypeConfig(damageType);
+
+  if (targetIsStructure) {
+    return config.vsStructures ?? 1;
+  }
+  if (config.vsUndead !== undefined && !isEnemyUnit(defender)) {
+    return config.vsUndead;
+  }
+  if (config.vsPeasants !== undefined && (defender.type as EnemyType) === EnemyType.PEASANT) {
+    return config.vsPeasants;
+  }
+  return 1;
+}
+
+/**
+ * Resistance multiplier (resistance 0.5 = half damage, -0.5 = +50% damage)
+ */
+function getResistanceMultiplier(defender: CombatUnit, damageType: DamageType): number {
+  const resistance = defender.stats.resistances[damageType] ?? 0;
+  return Math.max(0, 1 - resistance);
+}
+
+/**
+ * Reads the COMBAT.DAMAGE_MULTIPLIERS entry for a damage type
+ */
+function getDamageTypeConfig(damageType: DamageType): DamageTypeConfig {
+  return (gameConfig.COMBAT.DAMAGE_MULTIPLIERS[damageType] as DamageTypeConfig | undefined) ?? {};
+}
+
+/**
+ * Enemies carry an AI profile; zombies do not
+ */
+function isEnemyUnit(unit: CombatUnit): boolean {
+  return 'aiProfile' in unit;
+}
@@ -0,0 +1,572 @@
+/**
+ * Enemy Ability Service
+ *
+ * Decides when enemies use their special abilities and resolves them:
+ * damage, heals, buffs, debuffs, summons and resurrection. Zombie signature
+ * casts run through the same executor (see zombieAbilities.ts).
+ *
+ * Per DOMAIN-COMBAT.md Enemy Types and AI Behavior.
+ *
+ * Rules:
+ * - Only living enemies whose AI profile uses abilities cast them, and
+ *   never while stunned or feared; zombies cast unless retreating
+ * - An ability is ready once its cooldown has elapsed since lastUsedAt
+ *   (never-used abilities are ready immediately) and it has charges left
+ * - Each unit casts at most one ability per step: the first ready ability
+ *   in its list that has valid targets
+ * - Heals only fire on allies below HEAL_HP_THRESHOLD, resurrection needs a
+ *   fallen ally, and buffs and summons wait until an opponent is in range
+ * - Damage and debuffs need an opponent within the caster's range
+ *
+ * All functions are pure and return events for the caller to dispatch.
+ */
+
+import type {
+  AbilityEffect,
+  BattleLogEntry,
+  CombatState,
+  CombatUnit,
+  Enemy,
+  EnemyAbility,
+} from '../../../types/combat';
+import {
+  AbilityEffectType,
+  AbilityTargetType,
+  BattleLogEventType,
+  UnitAIState,
+} from '../../../types/combat';
+import type { GameEvent } from '../../../types/events';
+import { calculateDistance, BATTLEFIELD_TILE_SIZE } from './targeting';
+import { calculateDamage, getAttackDamageType } from './damageCalculation';
+import { createEnemy } from './battleInitialization';
+import { createLogEntry, mergeResult } from './combatResults';
+import {
+  applyAbilityStatusEffect,
+  canUnitAct,
+  isUnitFleeing,
+  type StatusEffectEvent,
+} from './statusEffects';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Events emitted by the ability system
+ */
+export type AbilityEvent =
+  | Extract<GameEvent, { type: 'ability.used' | 'unit.healed' | 'unit.spawned' }>
+  | StatusEffectEvent;
+
+/**
+ * Result of an ability operation
+ */
+export interface AbilityResult {
+  state: CombatState;
+  events: AbilityEvent[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** HP fraction below which allies are worth healing */
+export const HEAL_HP_THRESHOLD = 0.5;
+
+/** Tolerance for floating point drift in battle time */
+const TIME_EPSILON = 1e-6;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Lets every enemy use its next ready ability
+ *
+ * Casts resolve in enemy order against the state left by earlier casts.
+ *
+ * @param state - Battle state (battle clock already advanced)
+ * @param random - Random source for ability hit and crit rolls
+ * @returns Updated state and emitted events
+ */
+export function resolveEnemyAbilities(
+  state: CombatState,
+  random: () => number = Math.random
+): AbilityResult {
+  return resolveUnitAbilities(
+    state,
+    state.enemies.map((e) => e.id),
+    random
+  );
+}
+
+/**
+ * Lets each of the given units use its next ready ability
+ *
+ * Casts resolve in the given order against the state left by earlier casts.
+ *
+ * @param state - Battle state (battle clock already advanced)
+ * @param unitIds - Units that may cast, on either side
+ * @param random - Random source for ability hit and crit rolls
+ * @returns Updated state and emitted events
+ */
+export function resolveUnitAbilities(
+  state: CombatState,
+  unitIds: ReadonlyArray<string>,
+  random: () => number = Math.random
+): AbilityResult {
+  return unitIds.reduce<AbilityResult>(
+    (acc, unitId) => {
+      const caster = findUnit(acc.state, unitId);
+      if (!caster || !canCast(acc.state, caster)) {
+        return acc;
+      }
+
+      const ability = caster.abilities?.find(
+        (a) =>
+          isAbilityReady(a, acc.state.battleDuration) &&
+          resolveAbilityTargets(acc.state, caster, a.effect) !== null
+      );
+
+      return ability
+        ? mergeResult(acc, castAbility(acc.state, caster.id, ability.id, random))
+        : acc;
+    },
+    { state, events: [] }
+  );
+}
+
+/**
+ * Uses one of a unit's abilities
+ *
+ * Puts the ability on cooldown, applies its effect and logs it. Does
+ * nothing if the caster cannot act, the ability is on cooldown or it has
+ * no valid targets.
+ *
+ * @param state - Battle state
+ * @param casterId - Unit using the ability
+ * @param abilityId - Ability to use
+ * @param random - Random source for hit and crit rolls
+ * @returns Updated state and emitted events
+ */
+export function castAbility(
+  state: CombatState,
+  casterId: string,
+  abilityId: string,
+  random: () => number = Math.random
+): AbilityResult {
+  const caster = findUnit(state, casterId);
+  const ability = caster?.abilities?.find((a) => a.id === abilityId);
+  if (!caster || !ability || !canCast(state, caster)) {
+    return { state, events: [] };
+  }
+
+  const now = state.battleDuration;
+  const targetIds = resolveAbilityTargets(state, caster, ability.effect);
+  if (!isAbilityReady(ability, now) || targetIds === null) {
+    return { state, events: [] };
+  }
+
+  const used = <T extends CombatUnit>(unit: T): T =>
+    unit.id === casterId
+      ? {
+          ...unit,
+          abilities: unit.abilities?.map((a) =>
+            a.id === abilityId
+              ? {
+                  ...a,
+                  lastUsedAt: now,
+                  ...(a.charges !== undefined ? { charges: a.charges - 1 } : {}),
+                }
+              : a
+          ),
+        }
+      : unit;
+  const onCooldown: CombatState = {
+    ...state,
+    playerSquad: state.playerSquad.map(used),
+    enemies: state.enemies.map(used),
+    battleLog: [
+      ...state.battleLog,
+      createLogEntry(
+        state,
+        BattleLogEventType.ABILITY_USED,
+        `${caster.name} used ${ability.name}`,
+        [casterId, ...targetIds],
+        { abilityId, effect: ability.effect.type, targetIds }
+      ),
+    ],
+  };
+  const event: AbilityEvent = {
+    type: 'ability.used',
+    payload: { battleId: state.battleId, unitId: casterId, abilityId, targetIds },
+  };
+
+  const applied = applyAbilityEffect(onCooldown, caster, ability.effect, targetIds, random);
+  return { state: applied.state, events: [event, ...applied.events] };
+}
+
+/**
+ * Checks whether an ability's cooldown has elapsed and it has charges left
+ *
+ * @param ability - Ability to check
+ * @param now - Battle time in seconds
+ * @returns True if the ability can be used
+ */
+export function isAbilityReady(ability: EnemyAbility, now: number): boolean {
+  if (ability.charges !== undefined && ability.charges <= 0) {
+    return false;
+  }
+
+  return ability.lastUsedAt === null || now - ability.lastUsedAt >= ability.cooldown - TIME_EPSILON;
+}
+
+/**
+ * Resolves the units an ability would affect
+ *
+ * Single-target damage and debuffs prefer the caster's current target;
+ * AoE hits everyone within aoeRadius tiles of that primary target. Heals
+ * pick injured allies, resurrection picks fallen allies, and summons have
+ * no targets. Allies and opponents are taken from the caster's side.
+ *
+ * @param state - Battle state
+ * @param caster - Unit using the ability
+ * @param effect - Ability effect
+ * @returns Affected unit IDs, or null when the ability has nothing to do
+ */
+export function resolveAbilityTargets(
+  state: CombatState,
+  caster: CombatUnit,
+  effect: AbilityEffect
+): string[] | null {
+  const isZombie = state.playerSquad.some((z) => z.id === caster.id);
+  const side: CombatUnit[] = isZombie ? [...state.playerSquad] : [...state.enemies];
+  const allies = side.filter((u) => !u.isDead);
+  const opponents = (isZombie ? state.enemies : state.playerSquad).filter((u) => !u.isDead);
+  const inRange = opponents.filter((o) => isWithinRange(caster, o.position));
+
+  switch (effect.type) {
+    case AbilityEffectType.DAMAGE:
+    case AbilityEffectType.DEBUFF:
+      return resolveOffensiveTargets(caster, effect, opponents, inRange);
+
+    case AbilityEffectType.HEAL: {
+      const injured = selectAllies(caster, effect.targetType, allies).filter(
+        (a) => a.stats.hp < a.stats.maxHp * HEAL_HP_THRESHOLD
+      );
+      const targets =
+        effect.targetType === AbilityTargetType.ALLY
+          ? injured.sort(byHpFraction).slice(0, 1)
+          : injured;
+      return nonEmpty(targets.map((t) => t.id));
+    }
+
+    case AbilityEffectType.RESURRECT: {
+      const fallen = side.filter((u) => u.isDead && u.id !== caster.id);
+      const targets =
+        effect.targetType === AbilityTargetType.ALL_ALLIES ? fallen : fallen.slice(-1);
+      return nonEmpty(targets.map((t) => t.id));
+    }
+
+    case AbilityEffectType.BUFF:
+      return inRange.length > 0
+        ? nonEmpty(selectAllies(caster, effect.targetType, allies).map((a) => a.id))
+        : null;
+
+    case AbilityEffectType.SUMMON:
+      // Summons are enemy units
+      return !isZombie && inRange.length > 0 && effect.summon ? [] : null;
+
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// EFFECT RESOLUTION
+// ============================================================================
+
+/**
+ * Applies an ability's effect to its resolved targets
+ */
+function applyAbilityEffect(
+  state: CombatState,
+  caster: CombatUnit,
+  effect: AbilityEffect,
+  targetIds: string[],
+  random: () => number
+): AbilityResult {
+  switch (effect.type) {
+    case AbilityEffectType.DAMAGE: {
+      const damaged = applyAbilityDamage(state, caster, effect, targetIds, random);
+      const survivors = targetIds.filter((id) => findUnit(damaged, id)?.isDead === false);
+      return applyAbilityStatusEffect(damaged, effect, survivors);
+    }
+
+    case AbilityEffectType.BUFF:
+    case AbilityEffectType.DEBUFF:
+      return applyAbilityStatusEffect(state, effect, targetIds);
+
+    case AbilityEffectType.HEAL:
+    case AbilityEffectType.RESURRECT:
+      return restoreAllies(state, effect, targetIds);
+
+    case AbilityEffectType.SUMMON:
+      return summonUnits(state, caster, effect, random);
+
+    default:
+      return { state, events: [] };
+  }
+}
+
+/**
+ * Deals ability damage to its targets, killing those reduced to 0 HP
+ *
+ * Ability damage replaces the caster's attack stat and is then mitigated
+ * like a normal attack.
+ */
+function applyAbilityDamage(
+  state: CombatState,
+  caster: CombatUnit,
+  effect: AbilityEffect,
+  targetIds: string[],
+  random: () => number
+): CombatState {
+  const damageType = effect.damageType ?? getAttackDamageType(caster);
+  const attacker = { ...caster, stats: { ...caster.stats, attack: effect.damage ?? 0 } };
+  const log: BattleLogEntry[] = [];
+
+  const hurt = <T extends CombatUnit>(unit: T): T => {
+    if (!targetIds.includes(unit.id) || unit.isDead) {
+      return unit;
+    }
+
+    const { finalDamage } = calculateDamage(attacker, unit, damageType, { random });
+    const hp = Math.max(0, unit.stats.hp - finalDamage);
+    if (hp > 0) {
+      return { ...unit, stats: { ...unit.stats, hp } };
+    }
+
+    log.push(
+      createLogEntry(state, BattleLogEventType.UNIT_DIED, `${unit.name} was destroyed`, [
+        unit.id,
+        caster.id,
+      ])
+    );
+    return {
+      ...unit,
+      stats: { ...unit.stats, hp: 0 },
+      isDead: true,
+      aiState: UnitAIState.DEAD,
+      targetId: null,
+    };
+  };
+
+  return {
+    ...state,
+    playerSquad: state.playerSquad.map(hurt),
+    enemies: state.enemies.map(hurt),
+    battleLog: [...state.battleLog, ...log],
+  };
+}
+
+/**
+ * Heals allies, or raises fallen allies with the heal amount as HP
+ */
+function restoreAllies(
+  state: CombatState,
+  effect: AbilityEffect,
+  targetIds: string[]
+): AbilityResult {
+  const amount = effect.heal ?? 0;
+  const events: AbilityEvent[] = [];
+
+  const restore = <T extends CombatUnit>(unit: T): T => {
+    if (!targetIds.includes(unit.id)) {
+      return unit;
+    }
+
+    const hp = Math.min(unit.stats.maxHp, (unit.isDead ? 0 : unit.stats.hp) + amount);
+    events.push({
+      type: 'unit.healed',
+      payload: {
+        battleId: state.battleId,
+        unitId: unit.id,
+        amount: hp - (unit.isDead ? 0 : unit.stats.hp),
+        newHp: hp,
+      },
+    });
+
+    return unit.isDead
+      ? {
+          ...unit,
+          stats: { ...unit.stats, hp },
+          isDead: false,
+          aiState: UnitAIState.IDLE,
+          targetId: null,
+        }
+      : { ...unit, stats: { ...unit.stats, hp } };
+  };
+
+  return {
+    state: {
+      ...state,
+      playerSquad: state.playerSquad.map(restore),
+      enemies: state.enemies.map(restore),
+    },
+    events,
+  };
+}
+
+/**
+ * Spawns summoned units in a column just behind the caster
+ */
+function summonUnits(
+  state: CombatState,
+  caster: CombatUnit,
+  effect: AbilityEffect,
+  random: () => number
+): AbilityResult {
+  const { summon } = effect;
+  if (!summon) {
+    return { state, events: [] };
+  }
+
+  const summoned = Array.from({ length: summon.count }, (_, i) => ({
+    ...createEnemy(
+      { type: summon.enemyType, count: summon.count, wave: state.currentWave },
+      i,
+      random
+    ),
+    position: {
+      x: caster.position.x + BATTLEFIELD_TILE_SIZE,
+      y: caster.position.y + (i - (summon.count - 1) / 2) * BATTLEFIELD_TILE_SIZE,
+    },
+  }));
+
+  return {
+    state: {
+      ...state,
+      enemies: [...state.enemies, ...summoned],
+      battleLog: [
+        ...state.battleLog,
+        ...summoned.map((unit) =>
+          createLogEntry(
+            state,
+            BattleLogEventType.UNIT_SPAWNED,
+            `${caster.name} summoned ${unit.name}`,
+            [unit.id, caster.id]
+          )
+        ),
+      ],
+    },
+    events: summoned.map((unit) => ({
+      type: 'unit.spawned',
+      payload: {
+        battleId: state.battleId,
+        unitId: unit.id,
+        unitType: unit.type,
+        position: unit.position,
+      },
+    })),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Checks whether a unit may use abilities this step
+ */
+function canCast(state: CombatState, caster: CombatUnit | Enemy): boolean {
+  const isWilling = 'aiProfile' in caster ? caster.aiProfile.useAbilities : !state.isRetreating;
+
+  return (
+    !caster.isDead && isWilling && canUnitAct(state, caster.id) && !isUnitFleeing(state, caster.id)
+  );
+}
+
+/**
+ * Resolves targets for damage and debuff abilities
+ */
+function resolveOffensiveTargets(
+  caster: CombatUnit,
+  effect: AbilityEffect,
+  opponents: CombatUnit[],
+  inRange: CombatUnit[]
+): string[] | null {
+  if (effect.targetType === AbilityTargetType.ALL_ENEMIES) {
+    return inRange.length > 0 ? opponents.map((o) => o.id) : null;
+  }
+
+  const primary =
+    inRange.find((o) => o.id === caster.targetId) ??
+    [...inRange].sort(
+      (a, b) =>
+        calculateDistance(caster.position, a.position) -
+        calculateDistance(caster.position, b.position)
+    )[0];
+  if (!primary) {
+    return null;
+  }
+
+  if (effect.targetType === AbilityTargetType.AOE) {
+    const radius = (effect.aoeRadius ?? 0) * BATTLEFIELD_TILE_SIZE;
+    return opponents
+      .filter((o) => calculateDistance(primary.position, o.position) <= radius)
+      .map((o) => o.id);
+  }
+
+  return effect.targetType === AbilityTargetType.SINGLE ? [primary.id] : null;
+}
+
+/**
+ * Selects the allies a supportive ability can reach
+ */
+function selectAllies(
+  caster: CombatUnit,
+  targetType: AbilityTargetType,
+  allies: CombatUnit[]
+): CombatUnit[] {
+  switch (targetType) {
+    case AbilityTargetType.SELF:
+      return [caster];
+    case AbilityTargetType.ALLY:
+      return allies.filter((a) => isWithinRange(caster, a.position));
+    case AbilityTargetType.ALL_ALLIES:
+      return allies;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Checks whether a position is within the caster's range (tiles)
+ */
+function isWithinRange(caster: CombatUnit, position: { x: number; y: number }): boolean {
+  return calculateDistance(caster.position, position) <= caster.stats.range * BATTLEFIELD_TILE_SIZE;
+}
+
+/**
+ * Orders units from most to least injured
+ */
+function byHpFraction(a: CombatUnit, b: CombatUnit): number {
+  return a.stats.hp / a.stats.maxHp - b.stats.hp / b.stats.maxHp;
+}
+
+/**
+ * Treats an empty target list as nothing to do
+ */
+function nonEmpty(ids: string[]): string[] | null {
+  return ids.length > 0 ? ids : null;
+}
+
+/**
+ * Finds a unit on either side
+ */
+function findUnit(state: CombatState, unitId: string): CombatUnit | Enemy | undefined {
+  return (
+    state.playerSquad.find((u) => u.id === unitId) ?? state.enemies.find((u) => u.id === unitId)
+  );
+}
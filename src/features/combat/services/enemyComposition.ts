@@ -12,19 +12,15 @@
  */
 
 import type { Location } from '../../../types/world';
-import type {
-  Enemy,
-  EnemyType,
-  CombatStats,
-  EnemyAIProfile,
-  EnemyAbility,
-} from '../../../types/combat';
+import type { Enemy, EnemyAIProfile, EnemyAbility } from '../../../types/combat';
 import {
+  EnemyType,
   UnitAIState,
   TargetPriority,
   DamageType,
   AbilityEffectType,
   AbilityTargetType,
+  StatusEffect,
 } from '../../../types/combat';
 import type { Position } from '../../../types/global';
 import { generateId } from '../../../lib/utils/idGenerator';
@@ -40,11 +36,33 @@ export interface LocationEnemyComposition {
   type: EnemyType;
   count: number;
   wave: number;
-  stats: CombatStats;
+  /** Base stats scaled to the location's difficulty */
+  stats: EnemyBaseStats;
   spawnZone?: string;
   isBoss?: boolean;
 }
 
+/**
+ * Hit, evasion and critical strike profile for an enemy type
+ */
+export interface EnemyHitProfile {
+  accuracy: number;
+  evasion: number;
+  critRate: number;
+  critMultiplier: number;
+}
+
+/**
+ * Base stats of an enemy type, including its hit profile
+ */
+export interface EnemyBaseStats extends EnemyHitProfile {
+  maxHp: number;
+  attack: number;
+  defense: number;
+  speed: number;
+  range: number;
+}
+
 /**
  * Validation result for enemy composition
  */
@@ -63,7 +81,7 @@ export interface EnemyCompositionValidation {
  *
  * Per DOMAIN-COMBAT.md enemy specifications.
  */
-const ENEMY_BASE_STATS: Record<EnemyType, Omit<CombatStats, 'currentHp'>> = {
+const ENEMY_BASE_STATS: Record<EnemyType, EnemyBaseStats> = {
   // Common enemies
   peasant: {
     maxHp: 30,
@@ -312,8 +330,15 @@ const ENEMY_AI_PROFILES: Record<EnemyType, EnemyAIProfile> = {
 
 /**
  * Get abilities for enemy type
+ *
+ * Abilities are listed in the order the enemy considers them each step
+ * (see enemyAbilities.ts), so conditional abilities such as heals come
+ * before the ones that are always usable.
+ *
+ * @param type Enemy type
+ * @returns Fresh abilities with no cooldown elapsed
  */
-function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
+export function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
   const abilities: EnemyAbility[] = [];
 
   switch (type as string) {
@@ -334,6 +359,17 @@ function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
       break;
 
     case EnemyType.PRIEST:
+      abilities.push({
+        id: generateId(),
+        name: 'Mend',
+        cooldown: 10,
+        lastUsedAt: null,
+        effect: {
+          type: AbilityEffectType.HEAL,
+          heal: 30,
+          targetType: AbilityTargetType.ALLY,
+        },
+      });
       abilities.push({
         id: generateId(),
         name: 'Holy Smite',
@@ -349,6 +385,17 @@ function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
       break;
 
     case EnemyType.PALADIN:
+      abilities.push({
+        id: generateId(),
+        name: 'Lay on Hands',
+        cooldown: 25,
+        lastUsedAt: null,
+        effect: {
+          type: AbilityEffectType.HEAL,
+          heal: 50,
+          targetType: AbilityTargetType.SELF,
+        },
+      });
       abilities.push({
         id: generateId(),
         name: 'Divine Shield',
@@ -356,6 +403,7 @@ function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
         lastUsedAt: null,
         effect: {
           type: AbilityEffectType.BUFF,
+          statusEffect: StatusEffect.BUFFED,
           targetType: AbilityTargetType.SELF,
         },
       });
@@ -375,6 +423,17 @@ function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
       break;
 
     case EnemyType.NECROMANCER:
+      abilities.push({
+        id: generateId(),
+        name: 'Raise Dead',
+        cooldown: 20,
+        lastUsedAt: null,
+        effect: {
+          type: AbilityEffectType.RESURRECT,
+          heal: 30,
+          targetType: AbilityTargetType.ALLY,
+        },
+      });
       abilities.push({
         id: generateId(),
         name: 'Dark Bolt',
@@ -397,9 +456,21 @@ function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
         lastUsedAt: null,
         effect: {
           type: AbilityEffectType.BUFF,
+          statusEffect: StatusEffect.BUFFED,
           targetType: AbilityTargetType.ALL_ALLIES,
         },
       });
+      abilities.push({
+        id: generateId(),
+        name: 'Call Reinforcements',
+        cooldown: 30,
+        lastUsedAt: null,
+        effect: {
+          type: AbilityEffectType.SUMMON,
+          summon: { enemyType: EnemyType.MILITIA, count: 2 },
+          targetType: AbilityTargetType.SELF,
+        },
+      });
       break;
 
     case 'boss':
@@ -422,6 +493,7 @@ function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
         lastUsedAt: null,
         effect: {
           type: AbilityEffectType.BUFF,
+          statusEffect: StatusEffect.BUFFED,
           targetType: AbilityTargetType.SELF,
         },
       });
@@ -445,28 +517,58 @@ function getEnemyAbilities(type: EnemyType): EnemyAbility[] {
  * @param type Enemy type
  * @returns Base combat stats (difficulty 1)
  */
-export function getEnemyBaseStats(type: EnemyType): Omit<CombatStats, 'currentHp'> {
+export function getEnemyBaseStats(type: EnemyType): EnemyBaseStats {
   return { ...ENEMY_BASE_STATS[type] };
 }
 
 /**
- * Scale enemy stats based on difficulty
+ * Get hit/evasion/crit profile for an enemy type
+ *
+ * Unknown types always hit, never evade and never crit.
  *
- * Formula: stat * (1 + (difficulty - 1) * 0.15)
+ * @param type Enemy type
+ * @returns Accuracy, evasion, crit rate and crit multiplier
+ */
+export function getEnemyHitProfile(type: EnemyType): EnemyHitProfile {
+  const stats: EnemyHitProfile | undefined = ENEMY_BASE_STATS[type];
+
+  return {
+    accuracy: stats?.accuracy ?? 1,
+    evasion: stats?.evasion ?? 0,
+    critRate: stats?.critRate ?? 0,
+    critMultiplier: stats?.critMultiplier ?? 1,
+  };
+}
+
+/**
+ * Get the stat multiplier for a location difficulty
+ *
+ * Formula: 1 + (difficulty - 1) * 0.15
  * This gives approximately +15% stats per difficulty level.
  *
+ * @param difficulty Location difficulty (1-10)
+ * @returns Multiplier for HP, attack and defense (1 at difficulty 1)
+ */
+export function getDifficultyScale(difficulty: number): number {
+  return 1 + (difficulty - 1) * 0.15;
+}
+
+/**
+ * Scale enemy stats based on difficulty
+ *
+ * Formula: stat * getDifficultyScale(difficulty) * levelModifier
+ *
  * @param baseStats Base stats to scale
  * @param difficulty Location difficulty (1-10)
  * @param levelModifier Optional boss/elite modifier (default 1.0)
  * @returns Scaled stats
  */
 export function scaleEnemyStats(
-  baseStats: Omit<CombatStats, 'currentHp'>,
+  baseStats: EnemyBaseStats,
   difficulty: number,
   levelModifier: number = 1.0
-): Omit<CombatStats, 'currentHp'> {
-  const scaleFactor = 1 + (difficulty - 1) * 0.15;
-  const totalScale = scaleFactor * levelModifier;
+): EnemyBaseStats {
+  const totalScale = getDifficultyScale(difficulty) * levelModifier;
 
   return {
     maxHp: Math.floor(baseStats.maxHp * totalScale),
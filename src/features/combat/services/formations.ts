@@ -0,0 +1,405 @@
+/**
+ * Formations Service
+ *
+ * Places the squad on the battlefield. A formation maps each deployment slot
+ * to a lane and a row of the deployment grid; slot 1 takes the first place,
+ * and row 0 is the front line, so "slot 1 leads the charge".
+ *
+ * Per DOMAIN-COMBAT.md Battle Preparation (deployment order affects formation).
+ *
+ * - Presets (line, staggered, wedge, column, box, pincer, ranged behind
+ *   tanks) are laid out for the number of units deployed
+ * - User-defined formations are stored per saved squad in the world state
+ * - Formations are validated against the battlefield bounds, the deployment
+ *   zone and fortification positions before deployment
+ *
+ * Grid: lanes are LANE_SPACING apart across the field, centered on its
+ * middle; rows are ROW_SPACING apart, and the back row stands EDGE_MARGIN
+ * from the own edge. Enemies use the same grid mirrored on the right.
+ *
+ * All functions are pure.
+ */
+
+import type { Formation, FormationPresetId, FormationSlot, Obstacle } from '../../../types/combat';
+import type { ZombieType } from '../../../types/farm';
+import type { Position } from '../../../types/global';
+import type { WorldState } from '../../../types/world';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import type { FormationType } from './battleInitialization';
+import type { Result } from './battleResolution';
+import {
+  BATTLEFIELD_HEIGHT,
+  BATTLEFIELD_TILE_SIZE,
+  BATTLEFIELD_WIDTH,
+  calculateDistance,
+} from './targeting';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Formation validation result
+ */
+export interface FormationValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Battlefield side a formation deploys on
+ */
+export type FormationSide = 'left' | 'right';
+
+/**
+ * What role ordering needs to know about a unit
+ */
+interface RoleUnit {
+  readonly type: string;
+  readonly stats: { readonly range: number; readonly defense: number };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Built-in formations, in menu order */
+export const FORMATION_PRESET_IDS: ReadonlyArray<FormationPresetId> = [
+  'line',
+  'staggered',
+  'wedge',
+  'column',
+  'box',
+  'pincer',
+  'rangedBehindTanks',
+];
+
+/** Distance between lanes */
+const LANE_SPACING = 80;
+
+/** Distance between rows */
+const ROW_SPACING = 60;
+
+/** Distance from the own edge to the back row */
+const EDGE_MARGIN = 100;
+
+/** Closest a unit may stand to the top or bottom edge */
+const VERTICAL_MARGIN = 50;
+
+/** Depth of each side's deployment zone, from its edge */
+const DEPLOYMENT_ZONE_WIDTH = 500;
+
+/** Closest a slot may be to a standing fortification */
+const FORTIFICATION_CLEARANCE = BATTLEFIELD_TILE_SIZE;
+
+/** Width of a ranged-behind-tanks row */
+const ROLE_ROW_WIDTH = 3;
+
+/** Display names of the presets */
+const PRESET_NAMES: Record<FormationPresetId, string> = {
+  line: 'Line',
+  staggered: 'Staggered',
+  wedge: 'Wedge',
+  column: 'Column',
+  box: 'Box',
+  pincer: 'Flanking Pincer',
+  rangedBehindTanks: 'Ranged Behind Tanks',
+};
+
+/** Zombie types that hold the front in role formations */
+const TANK_TYPES: ReadonlyArray<string> = ['brute', 'boneKnight'];
+
+/** Defense from which any unit counts as a tank */
+const TANK_DEFENSE = 20;
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+/**
+ * Lays out a preset formation for a squad
+ *
+ * @param id - Preset ID
+ * @param size - Number of units to place
+ * @returns Formation with one slot per unit
+ */
+export function getFormationPreset(id: FormationPresetId, size: number): Formation {
+  const slots = Array.from({ length: Math.max(size, 0) }, (_, i) => getPresetSlot(id, i, size));
+
+  return {
+    id,
+    name: PRESET_NAMES[id],
+    slots,
+    ...(id === 'rangedBehindTanks' ? { ordering: 'role' as const } : {}),
+  };
+}
+
+/**
+ * Resolves a preset ID or formation to the formation used for a squad
+ *
+ * A formation with fewer slots than units falls back to the line preset.
+ *
+ * @param formation - Preset ID or formation
+ * @param size - Number of units to place
+ * @returns Formation with a slot for every unit
+ */
+export function resolveFormation(formation: FormationType, size: number): Formation {
+  if (typeof formation === 'string') {
+    return getFormationPreset(formation, size);
+  }
+
+  return formation.slots.length >= size ? formation : getFormationPreset('line', size);
+}
+
+// ============================================================================
+// PLACEMENT
+// ============================================================================
+
+/**
+ * Orders units the way a formation fills its slots
+ *
+ * Slot-ordered formations keep the deployment order. Role-ordered formations
+ * put tanks first and ranged units last, keeping deployment order within
+ * each role.
+ *
+ * @param units - Units in deployment order
+ * @param formation - Formation
+ * @returns Units in slot order
+ */
+export function arrangeSquad<T extends RoleUnit>(
+  units: ReadonlyArray<T>,
+  formation: Formation
+): T[] {
+  if (formation.ordering !== 'role') {
+    return [...units];
+  }
+
+  return units
+    .map((unit, index) => ({ unit, index, rank: getRoleRank(unit) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ unit }) => unit);
+}
+
+/**
+ * Gets the battlefield positions of a formation's first slots
+ *
+ * Positions are clamped to the battlefield's height.
+ *
+ * @param formation - Formation
+ * @param count - Number of slots to place
+ * @param side - Side to deploy on ('left' for zombies, 'right' for enemies)
+ * @returns Position of slot 1 to slot count
+ */
+export function getFormationPositions(
+  formation: Formation,
+  count: number,
+  side: FormationSide
+): Position[] {
+  const slots = formation.slots.slice(0, count);
+  const depth = getFormationDepth(slots);
+
+  return slots.map((slot) => {
+    const position = getSlotPosition(slot, depth, side);
+    return {
+      x: position.x,
+      y: Math.max(VERTICAL_MARGIN, Math.min(BATTLEFIELD_HEIGHT - VERTICAL_MARGIN, position.y)),
+    };
+  });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validates a formation for a squad
+ *
+ * Errors: too few slots, shared slots, slots off the battlefield or outside
+ * the deployment zone, slots on standing fortifications. Warning: slots left
+ * empty.
+ *
+ * @param formation - Formation to check
+ * @param squadSize - Number of units to deploy
+ * @param obstacles - Battlefield obstacles (default none)
+ * @returns Validation result with errors and warnings
+ */
+export function validateFormation(
+  formation: Formation,
+  squadSize: number,
+  obstacles: ReadonlyArray<Obstacle> = []
+): FormationValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const slots = formation.slots.slice(0, squadSize);
+
+  if (formation.slots.length < squadSize) {
+    errors.push(`Formation has ${formation.slots.length} slots for ${squadSize} units`);
+  } else if (formation.slots.length > squadSize) {
+    warnings.push(`${formation.slots.length - squadSize} formation slot(s) left empty`);
+  }
+
+  const used = new Set(slots.map((slot) => `${slot.lane}:${slot.row}`));
+  if (used.size < slots.length) {
+    errors.push('Formation places several units in the same slot');
+  }
+
+  if (slots.some((slot) => slot.row < 0 || !Number.isInteger(slot.row))) {
+    errors.push('Formation rows must be whole numbers from 0 (front)');
+  }
+
+  const depth = getFormationDepth(slots);
+  const positions = slots.map((slot) => getSlotPosition(slot, depth, 'left'));
+
+  if (positions.some((p) => p.y < VERTICAL_MARGIN || p.y > BATTLEFIELD_HEIGHT - VERTICAL_MARGIN)) {
+    errors.push('Formation lanes extend past the battlefield edge');
+  }
+
+  if (positions.some((p) => p.x > DEPLOYMENT_ZONE_WIDTH)) {
+    errors.push('Formation is too deep for the deployment zone');
+  }
+
+  const blocked = positions.filter((position) =>
+    obstacles.some(
+      (obstacle) =>
+        !obstacle.isDestroyed &&
+        calculateDistance(position, obstacle.position) < FORTIFICATION_CLEARANCE
+    )
+  );
+  if (blocked.length > 0) {
+    errors.push(`${blocked.length} formation slot(s) are blocked by fortifications`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+// ============================================================================
+// SQUAD FORMATIONS
+// ============================================================================
+
+/**
+ * Stores a user-defined formation for a saved squad
+ *
+ * @param world - Current world
+ * @param squadId - Saved squad ID
+ * @param formation - Formation (one slot per squad member)
+ * @returns World with the formation, or the first validation error
+ */
+export function saveSquadFormation(
+  world: WorldState,
+  squadId: string,
+  formation: Formation
+): Result<WorldState> {
+  if (formation.slots.length === 0) {
+    return { success: false, error: 'Formation has no slots' };
+  }
+
+  const validation = validateFormation(formation, formation.slots.length);
+  if (!validation.isValid) {
+    return { success: false, error: validation.errors[0] ?? 'Invalid formation' };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...world,
+      squadFormations: { ...world.squadFormations, [squadId]: formation },
+    },
+  };
+}
+
+/**
+ * Gets the formation stored for a saved squad
+ *
+ * @param world - Current world
+ * @param squadId - Saved squad ID
+ * @returns Formation, or undefined if the squad has none
+ */
+export function getSquadFormation(world: WorldState, squadId: string): Formation | undefined {
+  return world.squadFormations?.[squadId];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Grid place of slot index (0-based) in a preset for size units
+ */
+function getPresetSlot(id: FormationPresetId, index: number, size: number): FormationSlot {
+  switch (id) {
+    case 'line':
+      return { lane: index - (size - 1) / 2, row: 0 };
+
+    case 'staggered':
+      // Every other unit one row back
+      return { lane: index - (size - 1) / 2, row: index % 2 };
+
+    case 'wedge': {
+      // Slot 1 at the point, then pairs further back and wider
+      const row = Math.ceil(index / 2);
+      return { lane: index % 2 === 1 ? -row : row, row };
+    }
+
+    case 'column':
+      // Two lanes wide, as deep as needed
+      return { lane: (index % 2) - 0.5, row: Math.floor(index / 2) };
+
+    case 'box':
+      return getBlockSlot(index, size, Math.ceil(Math.sqrt(size)));
+
+    case 'pincer': {
+      // Alternate between two arms on the outer lanes, centre left open
+      const arm = index % 2 === 0 ? -1 : 1;
+      const armIndex = Math.floor(index / 2);
+      return { lane: arm * (3 + (armIndex % 2)), row: Math.floor(armIndex / 2) };
+    }
+
+    case 'rangedBehindTanks':
+      return getBlockSlot(index, size, ROLE_ROW_WIDTH);
+  }
+}
+
+/**
+ * Slot in a block of fixed width; the last row is centered
+ */
+function getBlockSlot(index: number, size: number, width: number): FormationSlot {
+  const row = Math.floor(index / width);
+  const rowSize = Math.min(width, size - row * width);
+  return { lane: (index % width) - (rowSize - 1) / 2, row };
+}
+
+/**
+ * Number of rows the slots occupy
+ */
+function getFormationDepth(slots: ReadonlyArray<FormationSlot>): number {
+  return slots.reduce((depth, slot) => Math.max(depth, slot.row + 1), 1);
+}
+
+/**
+ * Battlefield position of a slot in a formation of the given depth
+ */
+function getSlotPosition(slot: FormationSlot, depth: number, side: FormationSide): Position {
+  const distanceFromEdge = EDGE_MARGIN + (depth - 1 - slot.row) * ROW_SPACING;
+
+  return {
+    x: side === 'left' ? distanceFromEdge : BATTLEFIELD_WIDTH - distanceFromEdge,
+    y: BATTLEFIELD_HEIGHT / 2 + slot.lane * LANE_SPACING,
+  };
+}
+
+/**
+ * Front-to-back rank of a unit's role: tank 0, melee 1, ranged 2
+ */
+function getRoleRank(unit: RoleUnit): number {
+  if (TANK_TYPES.includes(unit.type) || unit.stats.defense >= TANK_DEFENSE) return 0;
+
+  const baseStats = gameConfig.ZOMBIES[unit.type as ZombieType]?.baseStats as
+    | { range: number }
+    | undefined;
+  return (baseStats?.range ?? unit.stats.range) > 1 ? 2 : 1;
+}
@@ -15,6 +15,7 @@
 import type { Obstacle, ObstacleType, DamageType } from '../../../types/combat';
 import type { Position } from '../../../types/global';
 import { generateId } from '../../../lib/utils/idGenerator';
+import { BATTLEFIELD_HEIGHT, BATTLEFIELD_WIDTH } from './targeting';
 
 // ============================================================================
 // TYPES
@@ -109,12 +110,6 @@ const FORTIFICATION_STATS: Record<ObstacleType, FortificationStats> = {
 /** Minimum distance between fortifications */
 const MIN_FORTIFICATION_SPACING = 32;
 
-/** Battlefield width */
-const BATTLEFIELD_WIDTH = 1920;
-
-/** Battlefield height */
-const BATTLEFIELD_HEIGHT = 1080;
-
 // ============================================================================
 // PUBLIC API
 // ============================================================================
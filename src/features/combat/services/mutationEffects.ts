@@ -0,0 +1,115 @@
+/**
+ * Mutation Effect Service
+ *
+ * Resolves the combat side of zombie mutations from the mutation registry
+ * (farm/services/mutations.ts): on-hit status effects and lifesteal, and
+ * auras that buff nearby zombies. Stat modifiers are applied when a zombie
+ * enters battle (see battleInitialization.ts).
+ *
+ * Per PRD Natural Mutations and DOMAIN-COMBAT.md Status Effects.
+ *
+ * Rules:
+ * - Each landed hit rolls every on-hit status effect of the attacker's
+ *   mutations; random is only drawn for attackers that have one
+ * - Mutation lifesteal adds to the zombie type's lifesteal
+ * - Auras buff other living zombies within radius tiles; bonuses from
+ *   several auras add up
+ *
+ * All functions are pure and return events for the caller to dispatch.
+ */
+
+import type { CombatState, CombatStats, CombatUnit } from '../../../types/combat';
+import { getMutationDefinitions } from '../../farm/services/mutations';
+import { calculateDistance, BATTLEFIELD_TILE_SIZE } from './targeting';
+import { applyStatusEffect, type StatusEffectResult } from './statusEffects';
+import type { AbilityHit } from './zombieAbilities';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Gets the lifesteal a unit's mutations add
+ *
+ * @param unit - Attacking unit
+ * @returns Share of damage dealt healed back (0 without lifesteal mutations)
+ */
+export function getMutationLifeSteal(unit: CombatUnit): number {
+  return getMutationDefinitions(unit.mutations).reduce(
+    (sum, m) => sum + (m.onHit?.lifeSteal ?? 0),
+    0
+  );
+}
+
+/**
+ * Rolls the on-hit status effects of the attackers' mutations
+ *
+ * @param state - Battle state after damage was applied
+ * @param hits - Landed hits on units this step
+ * @param random - Random source in [0, 1) for effect chances
+ * @returns Updated state and emitted events
+ */
+export function applyMutationOnHitEffects(
+  state: CombatState,
+  hits: ReadonlyArray<Pick<AbilityHit, 'attackerId' | 'targetId'>>,
+  random: () => number = Math.random
+): StatusEffectResult {
+  let result: StatusEffectResult = { state, events: [] };
+
+  for (const hit of hits) {
+    const attacker = state.playerSquad.find((z) => z.id === hit.attackerId);
+    for (const mutation of getMutationDefinitions(attacker?.mutations)) {
+      const { statusEffect, chance = 1 } = mutation.onHit ?? {};
+      if (!statusEffect || random() >= chance) continue;
+
+      const applied = applyStatusEffect(result.state, hit.targetId, statusEffect);
+      result = { state: applied.state, events: [...result.events, ...applied.events] };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Applies the auras of nearby zombies to a zombie's stats
+ *
+ * @param state - Battle state
+ * @param unit - Unit whose stats are being resolved (enemies are unaffected)
+ * @param stats - Stats before auras (status effects already applied)
+ * @returns Stats with aura bonuses
+ */
+export function applyMutationAuras(
+  state: CombatState,
+  unit: CombatUnit,
+  stats: CombatStats
+): CombatStats {
+  if (!state.playerSquad.some((z) => z.id === unit.id)) {
+    return stats;
+  }
+
+  let attack = 0;
+  let defense = 0;
+  for (const ally of state.playerSquad) {
+    if (ally.id === unit.id || ally.isDead) continue;
+
+    for (const { aura } of getMutationDefinitions(ally.mutations)) {
+      if (
+        aura &&
+        calculateDistance(ally.position, unit.position) <= aura.radius * BATTLEFIELD_TILE_SIZE
+      ) {
+        attack += aura.attack ?? 0;
+        defense += aura.defense ?? 0;
+      }
+    }
+  }
+
+  if (attack === 0 && defense === 0) {
+    return stats;
+  }
+
+  return {
+    ...stats,
+    attack: Math.floor(stats.attack * (1 + attack)),
+    defense: Math.floor(stats.defense * (1 + defense)),
+  };
+}
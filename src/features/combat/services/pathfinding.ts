@@ -0,0 +1,516 @@
+/**
+ * Battlefield Pathfinding Service
+ *
+ * Navigation layer that routes units around fortifications.
+ *
+ * Per DOMAIN-COMBAT.md obstacles funnel the horde: walls, gates and
+ * barricades block movement until they are destroyed, so units either walk
+ * around them or break through.
+ *
+ * Responsibilities:
+ * - Build a walkability grid from CombatState.obstacles (blocksMovement)
+ * - Flow-field routing: one Dijkstra pass per goal tile serves every unit
+ *   heading to that goal
+ * - Breaching: units that can break through treat destructible blockers as
+ *   passable at BREACH_COST extra tiles, so they only attack a gate when the
+ *   detour around it is longer
+ * - Repathing: grids are cached per obstacles array, so destroying a
+ *   fortification (destroyFortification) yields a new grid and new routes
+ *
+ * Coordinate system:
+ * - Positions passed in and returned are battlefield pixels
+ * - The grid is in tiles of BATTLEFIELD_TILE_SIZE pixels
+ */
+
+import type { CombatUnit, Obstacle } from '../../../types/combat';
+import type { Position } from '../../../types/global';
+import {
+  BATTLEFIELD_HEIGHT,
+  BATTLEFIELD_TILE_SIZE,
+  BATTLEFIELD_WIDTH,
+  calculateDistance,
+} from './targeting';
+import { blocksMovement } from './fortifications';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Grid width in tiles */
+export const NAVIGATION_GRID_WIDTH = Math.ceil(BATTLEFIELD_WIDTH / BATTLEFIELD_TILE_SIZE);
+
+/** Grid height in tiles */
+export const NAVIGATION_GRID_HEIGHT = Math.ceil(BATTLEFIELD_HEIGHT / BATTLEFIELD_TILE_SIZE);
+
+/**
+ * Extra path cost (in tiles) of breaking through a fortification
+ *
+ * A unit attacks a blocking fortification only when walking around it
+ * would cost more than this many extra tiles.
+ */
+export const BREACH_COST = 12;
+
+/**
+ * Reach (in tiles) within which a melee unit can hit an adjacent obstacle
+ *
+ * Covers diagonal adjacency between tile centers.
+ */
+export const OBSTACLE_REACH = 1.5;
+
+const DIAGONAL_COST = Math.SQRT2;
+
+/** Neighbour offsets: 4 orthogonal then 4 diagonal */
+const NEIGHBOURS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Walkability grid for the battlefield
+ */
+export interface NavigationGrid {
+  /** Width in tiles */
+  readonly width: number;
+
+  /** Height in tiles */
+  readonly height: number;
+
+  /** Movement-blocking obstacle on each blocked tile (keyed by tile index) */
+  readonly blockers: ReadonlyMap<number, Obstacle>;
+
+  /** Flow fields computed on this grid (keyed by goal tile and breach flag) */
+  readonly flowFields: Map<string, FlowField>;
+}
+
+/**
+ * Cost-to-goal for every tile of a grid
+ */
+export interface FlowField {
+  /** Goal tile index */
+  readonly goal: number;
+
+  /** Whether destructible blockers were treated as passable */
+  readonly canBreach: boolean;
+
+  /** Path cost from each tile to the goal (Infinity if unreachable) */
+  readonly costs: Float64Array;
+}
+
+/**
+ * Where a unit should head next
+ */
+export interface NavigationStep {
+  /** Next tile center to move toward (pixels) */
+  readonly waypoint: Position;
+
+  /** Blocking obstacle on the next tile, if the route breaks through one */
+  readonly obstacle: Obstacle | null;
+}
+
+// ============================================================================
+// GRID
+// ============================================================================
+
+const gridCache = new WeakMap<ReadonlyArray<Obstacle>, NavigationGrid>();
+
+/**
+ * Get the navigation grid for a set of obstacles
+ *
+ * Grids are cached per obstacles array. Battle state is immutable, so a
+ * destroyed fortification produces a new array and therefore a new grid.
+ *
+ * @param obstacles - Battlefield obstacles
+ * @returns Navigation grid
+ */
+export function getNavigationGrid(obstacles: ReadonlyArray<Obstacle>): NavigationGrid {
+  const cached = gridCache.get(obstacles);
+  if (cached) {
+    return cached;
+  }
+
+  const grid = createNavigationGrid(obstacles);
+  gridCache.set(obstacles, grid);
+  return grid;
+}
+
+/**
+ * Build a walkability grid from obstacles
+ *
+ * Each movement-blocking obstacle occupies the tile containing its position.
+ *
+ * @param obstacles - Battlefield obstacles
+ * @param width - Grid width in tiles
+ * @param height - Grid height in tiles
+ * @returns Navigation grid
+ */
+export function createNavigationGrid(
+  obstacles: ReadonlyArray<Obstacle>,
+  width: number = NAVIGATION_GRID_WIDTH,
+  height: number = NAVIGATION_GRID_HEIGHT
+): NavigationGrid {
+  const blockers = new Map<number, Obstacle>();
+
+  for (const obstacle of obstacles) {
+    if (!blocksMovement(obstacle)) continue;
+
+    const tile = toTile(obstacle.position, width, height);
+    blockers.set(tile.y * width + tile.x, obstacle);
+  }
+
+  return { width, height, blockers, flowFields: new Map() };
+}
+
+/**
+ * Check if a tile can be walked through
+ *
+ * @param grid - Navigation grid
+ * @param tile - Tile coordinates
+ * @returns True if inside the grid and not blocked
+ */
+export function isWalkable(grid: NavigationGrid, tile: Position): boolean {
+  return isInside(grid, tile) && !grid.blockers.has(tile.y * grid.width + tile.x);
+}
+
+/**
+ * Check if a straight line between two positions crosses no blocked tile
+ *
+ * @param grid - Navigation grid
+ * @param from - Start (pixels)
+ * @param to - End (pixels)
+ * @returns True if the line is clear
+ */
+export function isLineWalkable(grid: NavigationGrid, from: Position, to: Position): boolean {
+  if (grid.blockers.size === 0) {
+    return true;
+  }
+
+  // Sample at quarter-tile intervals so no tile along the line is skipped
+  const samples = Math.ceil((calculateDistance(from, to) / BATTLEFIELD_TILE_SIZE) * 4);
+  for (let i = 0; i <= samples; i++) {
+    const t = samples === 0 ? 0 : i / samples;
+    const tile = toTile(
+      { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t },
+      grid.width,
+      grid.height
+    );
+    if (grid.blockers.has(tile.y * grid.width + tile.x)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// ============================================================================
+// FLOW FIELDS
+// ============================================================================
+
+/**
+ * Get the flow field toward a goal, computing it once per grid
+ *
+ * @param grid - Navigation grid
+ * @param goal - Goal position (pixels)
+ * @param canBreach - Whether destructible blockers may be broken through
+ * @returns Flow field
+ */
+export function getFlowField(grid: NavigationGrid, goal: Position, canBreach: boolean): FlowField {
+  const tile = toTile(goal, grid.width, grid.height);
+  const key = `${tile.y * grid.width + tile.x}:${canBreach}`;
+
+  const cached = grid.flowFields.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const field = createFlowField(grid, goal, canBreach);
+  grid.flowFields.set(key, field);
+  return field;
+}
+
+/**
+ * Compute path costs from every tile to a goal (Dijkstra from the goal)
+ *
+ * Diagonal moves may not cut the corner of a blocked tile.
+ *
+ * @param grid - Navigation grid
+ * @param goal - Goal position (pixels)
+ * @param canBreach - Whether destructible blockers may be broken through
+ * @returns Flow field
+ */
+export function createFlowField(
+  grid: NavigationGrid,
+  goal: Position,
+  canBreach: boolean
+): FlowField {
+  const goalTile = toTile(goal, grid.width, grid.height);
+  const goalIndex = goalTile.y * grid.width + goalTile.x;
+  const costs = new Float64Array(grid.width * grid.height).fill(Infinity);
+  const queue = new MinHeap();
+
+  costs[goalIndex] = 0;
+  queue.push(goalIndex, 0);
+
+  for (let item = queue.pop(); item; item = queue.pop()) {
+    const { index, cost } = item;
+    if (cost > (costs[index] ?? Infinity)) continue;
+
+    // Searching outward from the goal: a unit on a neighbouring tile moves
+    // into this one, so it pays this tile's entry cost
+    const entryCost = index === goalIndex ? 0 : getEntryCost(grid, index, canBreach);
+    if (entryCost === Infinity) continue;
+
+    const x = index % grid.width;
+    const y = Math.floor(index / grid.width);
+
+    for (const [dx, dy] of NEIGHBOURS) {
+      const next = { x: x + dx, y: y + dy };
+      if (!isInside(grid, next) || cutsCorner(grid, x, y, dx, dy)) continue;
+
+      const nextIndex = next.y * grid.width + next.x;
+      const nextCost = cost + entryCost + getMoveCost(dx, dy);
+      if (nextCost < (costs[nextIndex] ?? Infinity)) {
+        costs[nextIndex] = nextCost;
+        queue.push(nextIndex, nextCost);
+      }
+    }
+  }
+
+  return { goal: goalIndex, canBreach, costs };
+}
+
+/**
+ * Get where a unit should head next along a flow field
+ *
+ * @param grid - Navigation grid
+ * @param field - Flow field toward the unit's goal
+ * @param position - Unit position (pixels)
+ * @returns Next step, or null if the goal is unreachable or already reached
+ */
+export function getNavigationStep(
+  grid: NavigationGrid,
+  field: FlowField,
+  position: Position
+): NavigationStep | null {
+  const tile = toTile(position, grid.width, grid.height);
+  const index = tile.y * grid.width + tile.x;
+
+  if (index === field.goal) {
+    return null;
+  }
+
+  let best: { index: number; cost: number } | null = null;
+  for (const [dx, dy] of NEIGHBOURS) {
+    const next = { x: tile.x + dx, y: tile.y + dy };
+    if (!isInside(grid, next) || cutsCorner(grid, tile.x, tile.y, dx, dy)) continue;
+
+    const nextIndex = next.y * grid.width + next.x;
+    const entryCost = nextIndex === field.goal ? 0 : getEntryCost(grid, nextIndex, field.canBreach);
+    const cost = (field.costs[nextIndex] ?? Infinity) + entryCost + getMoveCost(dx, dy);
+    if (cost < Infinity && (!best || cost < best.cost)) {
+      best = { index: nextIndex, cost };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  return {
+    waypoint: toTileCenter(best.index % grid.width, Math.floor(best.index / grid.width)),
+    obstacle: grid.blockers.get(best.index) ?? null,
+  };
+}
+
+/**
+ * Follow a flow field from a position to its goal
+ *
+ * Stops at the first fortification that has to be broken through.
+ *
+ * @param grid - Navigation grid
+ * @param from - Start (pixels)
+ * @param to - Goal (pixels)
+ * @param canBreach - Whether destructible blockers may be broken through
+ * @returns Tile-center waypoints (pixels), empty if unreachable
+ */
+export function findPath(
+  grid: NavigationGrid,
+  from: Position,
+  to: Position,
+  canBreach: boolean = false
+): Position[] {
+  const field = getFlowField(grid, to, canBreach);
+  const path: Position[] = [];
+  let position = from;
+
+  for (let i = 0; i < grid.width * grid.height; i++) {
+    const step = getNavigationStep(grid, field, position);
+    if (!step) break;
+
+    path.push(step.waypoint);
+    if (step.obstacle) break;
+    position = step.waypoint;
+  }
+
+  return path;
+}
+
+// ============================================================================
+// BREACHING
+// ============================================================================
+
+/**
+ * Decide whether a blocked unit should attack the obstacle on its route
+ *
+ * A unit breaks through when its route continues through a destructible
+ * blocker that is within its reach (attack range, or OBSTACLE_REACH for
+ * melee units that must stand next to it).
+ *
+ * @param unit - Unit following the route
+ * @param step - Unit's next navigation step
+ * @returns True if the unit should attack step.obstacle
+ */
+export function shouldAttackObstacle(
+  unit: CombatUnit,
+  step: NavigationStep | null
+): step is NavigationStep & { obstacle: Obstacle } {
+  if (!step?.obstacle || !step.obstacle.isDestructible || step.obstacle.isDestroyed) {
+    return false;
+  }
+
+  const reach = Math.max(unit.stats.range, OBSTACLE_REACH) * BATTLEFIELD_TILE_SIZE;
+  return calculateDistance(unit.position, toCenterOfTile(step.obstacle.position)) <= reach;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Convert a pixel position to the tile containing it (clamped to the grid)
+ */
+function toTile(position: Position, width: number, height: number): Position {
+  return {
+    x: Math.max(0, Math.min(width - 1, Math.floor(position.x / BATTLEFIELD_TILE_SIZE))),
+    y: Math.max(0, Math.min(height - 1, Math.floor(position.y / BATTLEFIELD_TILE_SIZE))),
+  };
+}
+
+function toTileCenter(x: number, y: number): Position {
+  return {
+    x: (x + 0.5) * BATTLEFIELD_TILE_SIZE,
+    y: (y + 0.5) * BATTLEFIELD_TILE_SIZE,
+  };
+}
+
+function toCenterOfTile(position: Position): Position {
+  return toTileCenter(
+    Math.floor(position.x / BATTLEFIELD_TILE_SIZE),
+    Math.floor(position.y / BATTLEFIELD_TILE_SIZE)
+  );
+}
+
+function getMoveCost(dx: number, dy: number): number {
+  return dx !== 0 && dy !== 0 ? DIAGONAL_COST : 1;
+}
+
+function isInside(grid: NavigationGrid, tile: Position): boolean {
+  return tile.x >= 0 && tile.y >= 0 && tile.x < grid.width && tile.y < grid.height;
+}
+
+/**
+ * Extra cost of standing on a tile: 0 when open, BREACH_COST for a
+ * destructible blocker a unit may break through, Infinity otherwise
+ */
+function getEntryCost(grid: NavigationGrid, index: number, canBreach: boolean): number {
+  const blocker = grid.blockers.get(index);
+  if (!blocker) {
+    return 0;
+  }
+
+  return canBreach && blocker.isDestructible ? BREACH_COST : Infinity;
+}
+
+/**
+ * Diagonal moves are not allowed to squeeze between two blocked tiles' corners
+ */
+function cutsCorner(grid: NavigationGrid, x: number, y: number, dx: number, dy: number): boolean {
+  if (dx === 0 || dy === 0) {
+    return false;
+  }
+
+  return (
+    grid.blockers.has(y * grid.width + (x + dx)) || grid.blockers.has((y + dy) * grid.width + x)
+  );
+}
+
+/** Tile index queued with its path cost */
+interface HeapItem {
+  index: number;
+  cost: number;
+}
+
+/**
+ * Binary min-heap of tile indices keyed by path cost
+ */
+class MinHeap {
+  private readonly items: HeapItem[] = [];
+
+  push(index: number, cost: number): void {
+    this.items.push({ index, cost });
+
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.isLess(i, parent)) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): HeapItem | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+
+    if (last && this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (this.isLess(left, smallest)) smallest = left;
+        if (this.isLess(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private isLess(a: number, b: number): boolean {
+    const itemA = this.items[a];
+    const itemB = this.items[b];
+    return itemA !== undefined && itemB !== undefined && itemA.cost < itemB.cost;
+  }
+
+  private swap(a: number, b: number): void {
+    const itemA = this.items[a];
+    const itemB = this.items[b];
+    if (itemA && itemB) {
+      this.items[a] = itemB;
+      this.items[b] = itemA;
+    }
+  }
+}
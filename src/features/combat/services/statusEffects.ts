@@ -0,0 +1,587 @@
+/**
+ * Status Effect Service
+ *
+ * Applies, stacks, refreshes, ticks and expires battle status effects
+ * (poison, burning, stun, fear, bleed, weakened, slowed, buffed).
+ *
+ * Per DOMAIN-COMBAT.md Status Effects and COMBAT.STATUS_EFFECTS config.
+ *
+ * Rules:
+ * - Stackable effects add a stack up to maxStacks; at the cap the stack
+ *   closest to expiring is refreshed instead
+ * - Non-stackable effects refresh duration (and keep the stronger value)
+ * - DoT effects deal damagePerSecond % of max HP once per whole second
+ *   since the stack was applied
+ * - Burning can spread to units within spreadRadius tiles on each tick
+ * - Stunned units cannot act; feared units flee
+ *
+ * All functions are pure and return status.applied / status.removed
+ * events for the caller to dispatch.
+ */
+
+import type {
+  ActiveStatusEffect,
+  AbilityEffect,
+  BattleLogEntry,
+  CombatState,
+  CombatStats,
+  CombatUnit,
+} from '../../../types/combat';
+import { BattleLogEventType, DamageType, StatusEffect, UnitAIState } from '../../../types/combat';
+import type { GameEvent } from '../../../types/events';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { calculateDistance, BATTLEFIELD_TILE_SIZE } from './targeting';
+import { createLogEntry, mergeResult } from './combatResults';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Events emitted by the status effect system
+ */
+export type StatusEffectEvent = Extract<GameEvent, { type: 'status.applied' | 'status.removed' }>;
+
+/**
+ * Result of a status effect operation
+ */
+export interface StatusEffectResult {
+  state: CombatState;
+  events: StatusEffectEvent[];
+}
+
+/**
+ * Options when applying a status effect
+ */
+export interface ApplyStatusOptions {
+  /** Override duration (seconds); defaults to config */
+  duration?: number;
+
+  /** Override strength; defaults to config */
+  strength?: number;
+}
+
+/**
+ * Combat-relevant view of a STATUS_EFFECTS config entry
+ */
+interface StatusEffectConfig {
+  duration: number;
+  canStack: boolean;
+  maxStacks?: number;
+  damagePerSecond?: number;
+  spreadRadius?: number;
+  preventsAction?: boolean;
+  forcesRetreat?: boolean;
+  attackReduction?: number;
+  speedReduction?: number;
+  statBoost?: number;
+}
+
+/**
+ * Combat-relevant view of a DAMAGE_MULTIPLIERS config entry
+ */
+interface DamageEffectConfig {
+  appliesPoison?: boolean;
+  appliesBurning?: boolean;
+  appliesFear?: boolean;
+  appliesWeakened?: boolean;
+  stunChance?: number;
+  spreadChance?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Tolerance for floating point drift in battle time */
+const TIME_EPSILON = 1e-6;
+
+// ============================================================================
+// PUBLIC API - APPLICATION
+// ============================================================================
+
+/**
+ * Applies a status effect to a unit
+ *
+ * Enforces canStack / maxStacks from config. Dead or unknown units are
+ * ignored.
+ *
+ * @param state - Battle state
+ * @param unitId - Target unit
+ * @param effect - Effect to apply
+ * @param options - Duration / strength overrides
+ * @returns Updated state and emitted events
+ */
+export function applyStatusEffect(
+  state: CombatState,
+  unitId: string,
+  effect: StatusEffect,
+  options: ApplyStatusOptions = {}
+): StatusEffectResult {
+  const unit = findUnit(state, unitId);
+  if (!unit || unit.isDead) {
+    return { state, events: [] };
+  }
+
+  const config = getStatusConfig(effect);
+  const duration = options.duration ?? config.duration;
+  const strength = options.strength ?? getDefaultStrength(effect);
+  const existing = state.activeEffects.filter((e) => e.unitId === unitId && e.effect === effect);
+  const maxStacks = config.canStack ? (config.maxStacks ?? Infinity) : 1;
+
+  let activeEffects: ActiveStatusEffect[];
+
+  if (existing.length < maxStacks) {
+    activeEffects = [
+      ...state.activeEffects,
+      { effect, unitId, duration, strength, appliedAt: state.battleDuration },
+    ];
+  } else {
+    // At the cap: refresh the stack closest to expiring
+    const weakest = existing.reduce((a, b) => (b.duration < a.duration ? b : a));
+    activeEffects = state.activeEffects.map((e) =>
+      e === weakest
+        ? {
+            ...e,
+            duration: Math.max(e.duration, duration),
+            strength: Math.max(e.strength, strength),
+          }
+        : e
+    );
+  }
+
+  const next = syncUnitStatus({ ...state, activeEffects }, unitId);
+  const logEntry = createLogEntry(
+    state,
+    BattleLogEventType.STATUS_APPLIED,
+    `${unit.name} is ${effect}`,
+    [unitId],
+    { effect, duration }
+  );
+
+  return {
+    state: { ...next, battleLog: [...next.battleLog, logEntry] },
+    events: [
+      {
+        type: 'status.applied',
+        payload: { battleId: state.battleId, unitId, effect, duration },
+      },
+    ],
+  };
+}
+
+/**
+ * Applies the on-hit status effects of a damage type
+ *
+ * Toxic poisons, fire burns, dark causes fear, holy weakens and may stun.
+ *
+ * @param state - Battle state
+ * @param unitId - Unit that was hit
+ * @param damageType - Damage type of the hit
+ * @param random - Random source in [0, 1) for chance-based effects
+ * @returns Updated state and emitted events
+ */
+export function applyDamageTypeEffects(
+  state: CombatState,
+  unitId: string,
+  damageType: DamageType,
+  random: () => number = Math.random
+): StatusEffectResult {
+  return getDamageTypeEffects(damageType, random).reduce<StatusEffectResult>(
+    (acc, effect) => mergeResult(acc, applyStatusEffect(acc.state, unitId, effect)),
+    { state, events: [] }
+  );
+}
+
+/**
+ * Applies an ability's status effect to its targets
+ *
+ * @param state - Battle state
+ * @param abilityEffect - Ability effect definition
+ * @param targetIds - Units affected by the ability
+ * @returns Updated state and emitted events
+ */
+export function applyAbilityStatusEffect(
+  state: CombatState,
+  abilityEffect: AbilityEffect,
+  targetIds: ReadonlyArray<string>
+): StatusEffectResult {
+  const { statusEffect } = abilityEffect;
+  if (!statusEffect) {
+    return { state, events: [] };
+  }
+
+  return targetIds.reduce<StatusEffectResult>(
+    (acc, id) => mergeResult(acc, applyStatusEffect(acc.state, id, statusEffect)),
+    { state, events: [] }
+  );
+}
+
+/**
+ * Removes all stacks of an effect from a unit
+ *
+ * @param state - Battle state
+ * @param unitId - Unit to cleanse
+ * @param effect - Effect to remove
+ * @returns Updated state and emitted events
+ */
+export function removeStatusEffect(
+  state: CombatState,
+  unitId: string,
+  effect: StatusEffect
+): StatusEffectResult {
+  const hasEffect = state.activeEffects.some((e) => e.unitId === unitId && e.effect === effect);
+  if (!hasEffect) {
+    return { state, events: [] };
+  }
+
+  const activeEffects = state.activeEffects.filter(
+    (e) => !(e.unitId === unitId && e.effect === effect)
+  );
+
+  return {
+    state: syncUnitStatus({ ...state, activeEffects }, unitId),
+    events: [{ type: 'status.removed', payload: { battleId: state.battleId, unitId, effect } }],
+  };
+}
+
+/**
+ * Gets the status effects triggered by a hit of the given damage type
+ *
+ * @param damageType - Damage type
+ * @param random - Random source for chance-based effects
+ * @returns Effects to apply
+ */
+export function getDamageTypeEffects(
+  damageType: DamageType,
+  random: () => number = Math.random
+): StatusEffect[] {
+  const config = getDamageEffectConfig(damageType);
+  const effects: StatusEffect[] = [];
+
+  if (config.appliesPoison) effects.push(StatusEffect.POISONED);
+  if (config.appliesBurning) effects.push(StatusEffect.BURNING);
+  if (config.appliesFear) effects.push(StatusEffect.FEAR);
+  if (config.appliesWeakened) effects.push(StatusEffect.WEAKENED);
+  if (config.stunChance !== undefined && random() < config.stunChance) {
+    effects.push(StatusEffect.STUNNED);
+  }
+
+  return effects;
+}
+
+// ============================================================================
+// PUBLIC API - TICK
+// ============================================================================
+
+/**
+ * Advances all active effects by dt seconds
+ *
+ * Expects state.battleDuration to already include dt. Deals DoT, spreads
+ * burning, expires finished effects and kills units reduced to 0 HP.
+ * Effects on dead units are removed like expired ones.
+ *
+ * @param state - Battle state (battle clock already advanced)
+ * @param dt - Elapsed time in seconds
+ * @param random - Random source for burning spread
+ * @returns Updated state and emitted events
+ */
+export function tickStatusEffects(
+  state: CombatState,
+  dt: number,
+  random: () => number = Math.random
+): StatusEffectResult {
+  if (state.activeEffects.length === 0) {
+    return { state, events: [] };
+  }
+
+  const now = state.battleDuration;
+  const before = now - dt;
+
+  // 1. Damage over time (whole-second ticks since each stack was applied)
+  const dotDamage = new Map<string, number>();
+  const spreaders: ActiveStatusEffect[] = [];
+
+  for (const active of state.activeEffects) {
+    const ticks = countTicks(before - active.appliedAt, now - active.appliedAt);
+    if (ticks === 0) {
+      continue;
+    }
+
+    const unit = findUnit(state, active.unitId);
+    if (!unit || unit.isDead) {
+      continue;
+    }
+
+    if (getStatusConfig(active.effect).damagePerSecond !== undefined) {
+      const perTick = Math.max(
+        gameConfig.COMBAT.MINIMUM_DAMAGE,
+        Math.floor((unit.stats.maxHp * active.strength) / 100)
+      );
+      dotDamage.set(unit.id, (dotDamage.get(unit.id) ?? 0) + perTick * ticks);
+    }
+
+    if (active.effect === StatusEffect.BURNING) {
+      spreaders.push(active);
+    }
+  }
+
+  let current = applyDotDamage(state, dotDamage);
+
+  // 2. Expire finished effects and drop those on dead units
+  const isOver = (e: ActiveStatusEffect) =>
+    e.duration - dt <= TIME_EPSILON || findUnit(current, e.unitId)?.isDead === true;
+  const removed = current.activeEffects.filter(isOver);
+  const activeEffects = current.activeEffects
+    .filter((e) => !isOver(e))
+    .map((e) => ({ ...e, duration: e.duration - dt }));
+
+  current = { ...current, activeEffects };
+
+  const events: StatusEffectEvent[] = [];
+  const touched = new Set<string>([...removed.map((e) => e.unitId), ...dotDamage.keys()]);
+
+  for (const e of removed) {
+    const stillActive = activeEffects.some((a) => a.unitId === e.unitId && a.effect === e.effect);
+    const alreadyReported = events.some(
+      (ev) => ev.payload.unitId === e.unitId && ev.payload.effect === String(e.effect)
+    );
+    if (!stillActive && !alreadyReported) {
+      events.push({
+        type: 'status.removed',
+        payload: { battleId: state.battleId, unitId: e.unitId, effect: e.effect },
+      });
+    }
+  }
+
+  for (const unitId of touched) {
+    current = syncUnitStatus(current, unitId);
+  }
+
+  // 3. Burning spreads to nearby units
+  return spreaders.reduce<StatusEffectResult>(
+    (acc, burning) => mergeResult(acc, spreadBurning(acc.state, burning.unitId, random)),
+    { state: current, events }
+  );
+}
+
+// ============================================================================
+// PUBLIC API - QUERIES
+// ============================================================================
+
+/**
+ * Gets all active effect stacks on a unit
+ *
+ * @param state - Battle state
+ * @param unitId - Unit ID
+ * @returns Active effects
+ */
+export function getUnitEffects(
+  state: CombatState,
+  unitId: string
+): ReadonlyArray<ActiveStatusEffect> {
+  return state.activeEffects.filter((e) => e.unitId === unitId);
+}
+
+/**
+ * Checks whether a unit may move or attack (not stunned)
+ *
+ * @param state - Battle state
+ * @param unitId - Unit ID
+ * @returns True if the unit can act
+ */
+export function canUnitAct(state: CombatState, unitId: string): boolean {
+  return !getUnitEffects(state, unitId).some((e) => getStatusConfig(e.effect).preventsAction);
+}
+
+/**
+ * Checks whether a unit is forced to flee (fear)
+ *
+ * @param state - Battle state
+ * @param unitId - Unit ID
+ * @returns True if the unit must flee
+ */
+export function isUnitFleeing(state: CombatState, unitId: string): boolean {
+  return getUnitEffects(state, unitId).some((e) => getStatusConfig(e.effect).forcesRetreat);
+}
+
+/**
+ * Gets a unit's stats with weakened / slowed / buffed modifiers applied
+ *
+ * Buff stacks add up; reductions use the strongest active stack.
+ *
+ * @param state - Battle state
+ * @param unit - Unit
+ * @returns Effective combat stats
+ */
+export function getEffectiveStats(state: CombatState, unit: CombatUnit): CombatStats {
+  const effects = getUnitEffects(state, unit.id);
+  if (effects.length === 0) {
+    return unit.stats;
+  }
+
+  const strongest = (effect: StatusEffect): number =>
+    effects.filter((e) => e.effect === effect).reduce((max, e) => Math.max(max, e.strength), 0);
+  const buff = effects
+    .filter((e) => e.effect === StatusEffect.BUFFED)
+    .reduce((sum, e) => sum + e.strength, 0);
+
+  const attackMultiplier = (1 - strongest(StatusEffect.WEAKENED)) * (1 + buff);
+  const speedMultiplier = (1 - strongest(StatusEffect.SLOWED)) * (1 + buff);
+
+  return {
+    ...unit.stats,
+    attack: Math.floor(unit.stats.attack * attackMultiplier),
+    defense: Math.floor(unit.stats.defense * (1 + buff)),
+    speed: unit.stats.speed * speedMultiplier,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Rolls burning spread from one unit to its neighbors
+ */
+function spreadBurning(
+  state: CombatState,
+  sourceId: string,
+  random: () => number
+): StatusEffectResult {
+  const source = findUnit(state, sourceId);
+  if (!source || source.isDead) {
+    return { state, events: [] };
+  }
+
+  const radius = (getStatusConfig(StatusEffect.BURNING).spreadRadius ?? 0) * BATTLEFIELD_TILE_SIZE;
+  const chance = getDamageEffectConfig(DamageType.FIRE).spreadChance ?? 0;
+
+  const neighbors = [...state.playerSquad, ...state.enemies].filter(
+    (u) =>
+      u.id !== sourceId &&
+      !u.isDead &&
+      !state.activeEffects.some((e) => e.unitId === u.id && e.effect === StatusEffect.BURNING) &&
+      calculateDistance(source.position, u.position) <= radius
+  );
+
+  return neighbors.reduce<StatusEffectResult>(
+    (acc, neighbor) =>
+      random() < chance
+        ? mergeResult(acc, applyStatusEffect(acc.state, neighbor.id, StatusEffect.BURNING))
+        : acc,
+    { state, events: [] }
+  );
+}
+
+/**
+ * Applies accumulated DoT damage, killing units at 0 HP
+ */
+function applyDotDamage(state: CombatState, damage: Map<string, number>): CombatState {
+  if (damage.size === 0) {
+    return state;
+  }
+
+  const log: BattleLogEntry[] = [];
+  const hurt = <T extends CombatUnit>(unit: T): T => {
+    const amount = damage.get(unit.id);
+    if (amount === undefined || unit.isDead) {
+      return unit;
+    }
+
+    const hp = Math.max(0, unit.stats.hp - amount);
+    if (hp > 0) {
+      return { ...unit, stats: { ...unit.stats, hp } };
+    }
+
+    log.push(
+      createLogEntry(
+        state,
+        BattleLogEventType.UNIT_DIED,
+        `${unit.name} succumbed to their wounds`,
+        [unit.id]
+      )
+    );
+    return {
+      ...unit,
+      stats: { ...unit.stats, hp: 0 },
+      isDead: true,
+      aiState: UnitAIState.DEAD,
+      targetId: null,
+    };
+  };
+
+  return {
+    ...state,
+    playerSquad: state.playerSquad.map(hurt),
+    enemies: state.enemies.map(hurt),
+    battleLog: [...state.battleLog, ...log],
+  };
+}
+
+/**
+ * Counts whole-second boundaries crossed between two elapsed times
+ */
+function countTicks(elapsedBefore: number, elapsedAfter: number): number {
+  return Math.max(
+    0,
+    Math.floor(elapsedAfter + TIME_EPSILON) - Math.floor(Math.max(0, elapsedBefore) + TIME_EPSILON)
+  );
+}
+
+/**
+ * Rewrites a unit's statusEffects list from the active effects
+ */
+function syncUnitStatus(state: CombatState, unitId: string): CombatState {
+  const statusEffects = [
+    ...new Set(state.activeEffects.filter((e) => e.unitId === unitId).map((e) => e.effect)),
+  ];
+  const sync = <T extends CombatUnit>(unit: T): T =>
+    unit.id === unitId ? { ...unit, statusEffects } : unit;
+
+  return {
+    ...state,
+    playerSquad: state.playerSquad.map(sync),
+    enemies: state.enemies.map(sync),
+  };
+}
+
+/**
+ * Finds a unit on either side
+ */
+function findUnit(state: CombatState, unitId: string): CombatUnit | undefined {
+  return (
+    state.playerSquad.find((u) => u.id === unitId) ?? state.enemies.find((u) => u.id === unitId)
+  );
+}
+
+/**
+ * Default strength for an effect from config
+ *
+ * DoT effects use damagePerSecond (% max HP); stat effects use their
+ * reduction or boost fraction.
+ */
+function getDefaultStrength(effect: StatusEffect): number {
+  const config = getStatusConfig(effect);
+  return (
+    config.damagePerSecond ??
+    config.attackReduction ??
+    config.speedReduction ??
+    config.statBoost ??
+    0
+  );
+}
+
+/**
+ * Reads the COMBAT.STATUS_EFFECTS entry for an effect
+ */
+function getStatusConfig(effect: StatusEffect): StatusEffectConfig {
+  return gameConfig.COMBAT.STATUS_EFFECTS[effect] as StatusEffectConfig;
+}
+
+/**
+ * Reads the status-related fields of a COMBAT.DAMAGE_MULTIPLIERS entry
+ */
+function getDamageEffectConfig(damageType: DamageType): DamageEffectConfig {
+  return (gameConfig.COMBAT.DAMAGE_MULTIPLIERS[damageType] as DamageEffectConfig | undefined) ?? {};
+}
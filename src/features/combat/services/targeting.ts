@@ -11,6 +11,23 @@ import type { CombatUnit, Enemy, Obstacle } from '../../../types/combat';
 import { TargetPriority, EnemyType } from '../../../types/combat';
 import type { Position } from '../../../types/global';
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Pixels per battlefield tile
+ *
+ * Battlefield positions are in pixels while ranges and speeds are in tiles.
+ */
+export const BATTLEFIELD_TILE_SIZE = 32;
+
+/** Battlefield width in pixels */
+export const BATTLEFIELD_WIDTH = 1920;
+
+/** Battlefield height in pixels */
+export const BATTLEFIELD_HEIGHT = 1080;
+
 // ============================================================================
 // DISTANCE AND RANGE UTILITIES
 // ============================================================================
@@ -190,11 +207,11 @@ export function findTargetsInRange(
  *
  * Higher score = higher priority for SUPPORT targeting
  *
- * @param enemy - Enemy to score
+ * @param enemy - Unit to score
  * @returns Priority score
  */
-function getSupportPriority(enemy: Enemy): number {
-  switch (enemy.type) {
+function getSupportPriority(enemy: CombatUnit): number {
+  switch (enemy.type as EnemyType) {
     case EnemyType.PRIEST:
       return 100; // Highest priority
     case EnemyType.MAGE:
@@ -212,11 +229,11 @@ function getSupportPriority(enemy: Enemy): number {
  *
  * Higher score = higher priority for RANGED targeting
  *
- * @param enemy - Enemy to score
+ * @param enemy - Unit to score
  * @returns Priority score
  */
-function getRangedPriority(enemy: Enemy): number {
-  switch (enemy.type) {
+function getRangedPriority(enemy: CombatUnit): number {
+  switch (enemy.type as EnemyType) {
     case EnemyType.ARCHER:
     case EnemyType.CROSSBOWMAN:
       return 100;
@@ -243,11 +260,11 @@ function getRangedPriority(enemy: Enemy): number {
  * @param unit - Unit doing the targeting (for distance calculations)
  * @returns Sorted array (highest priority first)
  */
-export function prioritizeTargets(
-  targets: Enemy[],
+export function prioritizeTargets<T extends CombatUnit>(
+  targets: T[],
   priority: TargetPriority,
   unit?: CombatUnit
-): Enemy[] {
+): T[] {
   const sorted = [...targets];
 
   switch (priority) {
@@ -305,16 +322,19 @@ export function prioritizeTargets(
 /**
  * Select the best target based on priority strategy
  *
+ * Works in both directions: zombies selecting enemies and enemies
+ * selecting zombies.
+ *
  * @param unit - Unit selecting a target
  * @param targets - Available targets
  * @param priority - Targeting priority
  * @returns Selected target or null if none available
  */
-export function selectTarget(
+export function selectTarget<T extends CombatUnit>(
   unit: CombatUnit,
-  targets: Enemy[],
+  targets: T[],
   priority: TargetPriority
-): Enemy | null {
+): T | null {
   // Filter out dead targets
   const validTargets = targets.filter((t) => !t.isDead);
 
@@ -326,7 +346,7 @@ export function selectTarget(
   const sorted = prioritizeTargets(validTargets, priority, unit);
 
   // Return highest priority target
-  return sorted[0];
+  return sorted[0] ?? null;
 }
 
 // ============================================================================
@@ -17,6 +17,7 @@ import type { Location, LocationEnemy } from '../../../types/world';
 import type { Enemy } from '../../../types/combat';
 import type { Position } from '../../../types/global';
 import { generateEnemyUnit } from './enemyComposition';
+import { BATTLEFIELD_HEIGHT } from './targeting';
 
 // ============================================================================
 // TYPES
@@ -40,9 +41,6 @@ export interface WaveDefinition {
 const ENEMY_SPAWN_X_MIN = 1600;
 const ENEMY_SPAWN_X_MAX = 1850;
 
-/** Battlefield height */
-const BATTLEFIELD_HEIGHT = 1080;
-
 /** Vertical spacing between spawned enemies */
 const SPAWN_VERTICAL_SPACING = 60;
 
@@ -112,12 +110,14 @@ export function getWaveEnemies(waves: WaveDefinition[], waveNumber: number): Loc
  * @param enemyIndex Index of this enemy in spawn sequence (0-based)
  * @param totalEnemies Total enemies in this wave
  * @param spawnZone Optional spawn zone (frontline, midline, backline)
+ * @param random Random source in [0, 1) for the default spawn area (default Math.random)
  * @returns Spawn position
  */
 export function calculateSpawnPosition(
   enemyIndex: number,
   totalEnemies: number,
-  spawnZone?: string
+  spawnZone?: string,
+  random: () => number = Math.random
 ): Position {
   // Determine X position based on spawn zone
   let x: number;
@@ -125,7 +125,7 @@ export function calculateSpawnPosition(
     x = SPAWN_ZONES[spawnZone];
   } else {
     // Default spawn area (random within range)
-    x = ENEMY_SPAWN_X_MIN + Math.random() * (ENEMY_SPAWN_X_MAX - ENEMY_SPAWN_X_MIN);
+    x = ENEMY_SPAWN_X_MIN + random() * (ENEMY_SPAWN_X_MAX - ENEMY_SPAWN_X_MIN);
   }
 
   // Distribute Y position evenly
@@ -211,12 +211,14 @@ export function shouldSpawnNextWave(
  * @param waves All wave definitions
  * @param waveNumber Wave number to spawn
  * @param difficulty Location difficulty for stat scaling
+ * @param random Random source in [0, 1) for spawn positions (default Math.random)
  * @returns Array of spawned enemy units
  */
 export function spawnWave(
   waves: WaveDefinition[],
   waveNumber: number,
-  difficulty: number
+  difficulty: number,
+  random: () => number = Math.random
 ): Enemy[] {
   const wave = waves.find((w) => w.waveNumber === waveNumber);
 
@@ -229,7 +231,12 @@ export function spawnWave(
 
   for (const enemyGroup of wave.enemies) {
     for (let i = 0; i < enemyGroup.count; i++) {
-      const position = calculateSpawnPosition(enemyIndex, wave.totalEnemies, enemyGroup.spawnZone);
+      const position = calculateSpawnPosition(
+        enemyIndex,
+        wave.totalEnemies,
+        enemyGroup.spawnZone,
+        random
+      );
 
       const enemy = generateEnemyUnit(
         enemyGroup.type,
@@ -0,0 +1,325 @@
+/**
+ * Zombie Ability Service
+ *
+ * Resolves the signature combat abilities of each zombie type from
+ * gameConfig.ZOMBIE_ABILITIES: on-hit splash and lifesteal, bonus damage
+ * against fortifications, explosions on death, and periodic casts (heals,
+ * debuffs, resurrection) that run through the ability executor in
+ * enemyAbilities.ts.
+ *
+ * Per DOMAIN-COMBAT.md Real-Time Combat Mechanics (zombie abilities).
+ *
+ * Rules:
+ * - Splash damages other enemies within its radius of the struck target
+ * - Lifesteal heals the attacker for a share of the damage it dealt (plus any
+ *   mutation lifesteal), unless the attacker died in the same step
+ * - Death explosions deal EXPLOSIVE damage within the explosive aoeRadius,
+ *   hitting zombies too when friendlyFire is set, and never chain
+ * - Casts follow the executor rules; charges limit uses per battle
+ *
+ * All functions are pure and return events for the caller to dispatch.
+ */
+
+import type {
+  AbilityEffect,
+  BattleLogEntry,
+  CombatState,
+  CombatUnit,
+  EnemyAbility,
+} from '../../../types/combat';
+import { BattleLogEventType, DamageType, UnitAIState } from '../../../types/combat';
+import type { ZombieType } from '../../../types/farm';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { calculateDistance, BATTLEFIELD_TILE_SIZE } from './targeting';
+import { calculateDamage, getAoERadius } from './damageCalculation';
+import { resolveUnitAbilities, type AbilityEvent, type AbilityResult } from './enemyAbilities';
+import { getMutationLifeSteal } from './mutationEffects';
+import { createLogEntry, mergeResult } from './combatResults';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Combat-relevant view of a ZOMBIE_ABILITIES config entry
+ */
+export interface ZombieAbilityConfig {
+  lifeSteal?: number;
+  splash?: { ratio: number; radius: number };
+  structureMultiplier?: number;
+  deathExplosion?: { damage: number; friendlyFire: boolean };
+  casts?: ReadonlyArray<{
+    name: string;
+    cooldown: number;
+    charges?: number;
+    effect: AbilityEffect;
+  }>;
+}
+
+/**
+ * Damage dealt by one unit to another during a step
+ */
+export interface AbilityHit {
+  attackerId: string;
+  targetId: string;
+  damage: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Ability ID reported for death explosions */
+export const DEATH_EXPLOSION_ABILITY_ID = 'death-explosion';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Gets the signature abilities of a zombie type
+ *
+ * @param type - Zombie type (other unit types have none)
+ * @returns Ability config, empty for types without abilities
+ */
+export function getZombieAbilityConfig(type: string): ZombieAbilityConfig {
+  const abilities: Partial<Record<string, ZombieAbilityConfig>> = gameConfig.ZOMBIE_ABILITIES;
+  return abilities[type] ?? {};
+}
+
+/**
+ * Creates the castable abilities a zombie brings into battle
+ *
+ * @param type - Zombie type
+ * @returns Abilities ready to use, empty for types without casts
+ */
+export function createZombieAbilities(type: ZombieType): EnemyAbility[] {
+  return (getZombieAbilityConfig(type).casts ?? []).map((cast, i) => ({
+    id: `${type}-ability-${i}`,
+    name: cast.name,
+    cooldown: cast.cooldown,
+    lastUsedAt: null,
+    ...(cast.charges !== undefined ? { charges: cast.charges } : {}),
+    effect: cast.effect,
+  }));
+}
+
+/**
+ * Gets a zombie's damage multiplier against fortifications
+ *
+ * @param unit - Attacking zombie
+ * @returns Multiplier (1 when the zombie has no structure bonus)
+ */
+export function getStructureDamageMultiplier(unit: CombatUnit): number {
+  return getZombieAbilityConfig(unit.type).structureMultiplier ?? 1;
+}
+
+/**
+ * Resolves splash damage from a hit
+ *
+ * @param attacker - Zombie that landed the hit
+ * @param target - Unit that was struck
+ * @param damage - Damage dealt to the target
+ * @param opponents - Living enemies
+ * @returns Extra hits on other units within the splash radius
+ */
+export function resolveSplashDamage(
+  attacker: CombatUnit,
+  target: CombatUnit,
+  damage: number,
+  opponents: ReadonlyArray<CombatUnit>
+): AbilityHit[] {
+  const { splash } = getZombieAbilityConfig(attacker.type);
+  const splashDamage = splash ? Math.floor(damage * splash.ratio) : 0;
+  if (!splash || splashDamage <= 0) {
+    return [];
+  }
+
+  return opponents
+    .filter(
+      (o) =>
+        o.id !== target.id &&
+        !o.isDead &&
+        calculateDistance(o.position, target.position) <= splash.radius * BATTLEFIELD_TILE_SIZE
+    )
+    .map((o) => ({ attackerId: attacker.id, targetId: o.id, damage: splashDamage }));
+}
+
+/**
+ * Heals attackers with lifesteal for the damage they dealt
+ *
+ * @param state - Battle state after damage was applied
+ * @param hits - Damage dealt this step (hits on fortifications are ignored)
+ * @returns Updated state and unit.healed events
+ */
+export function applyLifeSteal(state: CombatState, hits: ReadonlyArray<AbilityHit>): AbilityResult {
+  const healing = new Map<string, number>();
+  for (const hit of hits) {
+    // Hits on fortifications do not heal
+    if (!state.enemies.some((e) => e.id === hit.targetId)) {
+      continue;
+    }
+
+    const attacker = state.playerSquad.find((z) => z.id === hit.attackerId);
+    const ratio = attacker
+      ? (getZombieAbilityConfig(attacker.type).lifeSteal ?? 0) + getMutationLifeSteal(attacker)
+      : 0;
+    const amount = Math.floor(hit.damage * ratio);
+    if (amount > 0) {
+      healing.set(hit.attackerId, (healing.get(hit.attackerId) ?? 0) + amount);
+    }
+  }
+
+  if (healing.size === 0) {
+    return { state, events: [] };
+  }
+
+  const events: AbilityEvent[] = [];
+  const playerSquad = state.playerSquad.map((zombie) => {
+    const amount = healing.get(zombie.id);
+    if (amount === undefined || zombie.isDead || zombie.stats.hp >= zombie.stats.maxHp) {
+      return zombie;
+    }
+
+    const hp = Math.min(zombie.stats.maxHp, zombie.stats.hp + amount);
+    events.push({
+      type: 'unit.healed',
+      payload: {
+        battleId: state.battleId,
+        unitId: zombie.id,
+        amount: hp - zombie.stats.hp,
+        newHp: hp,
+      },
+    });
+    return { ...zombie, stats: { ...zombie.stats, hp } };
+  });
+
+  return { state: { ...state, playerSquad }, events };
+}
+
+/**
+ * Detonates zombies with a death explosion that died since the previous state
+ *
+ * Zombies killed by an explosion do not explode in turn.
+ *
+ * @param previous - Battle state before this step
+ * @param state - Battle state after this step's damage
+ * @param random - Random source for damage rolls
+ * @returns Updated state and emitted events
+ */
+export function resolveDeathExplosions(
+  previous: CombatState,
+  state: CombatState,
+  random: () => number = Math.random
+): AbilityResult {
+  const exploding = state.playerSquad.filter(
+    (zombie) =>
+      zombie.isDead &&
+      getZombieAbilityConfig(zombie.type).deathExplosion !== undefined &&
+      previous.playerSquad.some((p) => p.id === zombie.id && !p.isDead)
+  );
+
+  return exploding.reduce<AbilityResult>(
+    (acc, zombie) => mergeResult(acc, explode(acc.state, zombie, random)),
+    { state, events: [] }
+  );
+}
+
+/**
+ * Lets every zombie use its next ready cast
+ *
+ * @param state - Battle state (battle clock already advanced)
+ * @param random - Random source for ability hit and crit rolls
+ * @returns Updated state and emitted events
+ */
+export function resolveZombieAbilities(
+  state: CombatState,
+  random: () => number = Math.random
+): AbilityResult {
+  return resolveUnitAbilities(
+    state,
+    state.playerSquad.filter((z) => z.abilities?.length).map((z) => z.id),
+    random
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Deals a zombie's death explosion damage around its position
+ */
+function explode(state: CombatState, zombie: CombatUnit, random: () => number): AbilityResult {
+  const { deathExplosion } = getZombieAbilityConfig(zombie.type);
+  if (!deathExplosion) {
+    return { state, events: [] };
+  }
+
+  const radius = getAoERadius(DamageType.EXPLOSIVE) * BATTLEFIELD_TILE_SIZE;
+  const inBlast = (unit: CombatUnit): boolean =>
+    unit.id !== zombie.id &&
+    !unit.isDead &&
+    calculateDistance(unit.position, zombie.position) <= radius;
+  const targetIds = [
+    ...state.enemies.filter(inBlast),
+    ...(deathExplosion.friendlyFire ? state.playerSquad.filter(inBlast) : []),
+  ].map((u) => u.id);
+
+  const bomb = { ...zombie, stats: { ...zombie.stats, attack: deathExplosion.damage } };
+  const log: BattleLogEntry[] = [
+    createLogEntry(
+      state,
+      BattleLogEventType.ABILITY_USED,
+      `${zombie.name} exploded`,
+      [zombie.id, ...targetIds],
+      { abilityId: DEATH_EXPLOSION_ABILITY_ID, targetIds }
+    ),
+  ];
+
+  const blast = <T extends CombatUnit>(unit: T): T => {
+    if (!targetIds.includes(unit.id)) {
+      return unit;
+    }
+
+    const { finalDamage } = calculateDamage(bomb, unit, DamageType.EXPLOSIVE, { random });
+    const hp = Math.max(0, unit.stats.hp - finalDamage);
+    if (hp > 0) {
+      return { ...unit, stats: { ...unit.stats, hp } };
+    }
+
+    log.push(
+      createLogEntry(state, BattleLogEventType.UNIT_DIED, `${unit.name} was destroyed`, [
+        unit.id,
+        zombie.id,
+      ])
+    );
+    return {
+      ...unit,
+      stats: { ...unit.stats, hp: 0 },
+      isDead: true,
+      aiState: UnitAIState.DEAD,
+      targetId: null,
+    };
+  };
+
+  return {
+    state: {
+      ...state,
+      playerSquad: state.playerSquad.map(blast),
+      enemies: state.enemies.map(blast),
+      battleLog: [...state.battleLog, ...log],
+    },
+    events: [
+      {
+        type: 'ability.used',
+        payload: {
+          battleId: state.battleId,
+          unitId: zombie.id,
+          abilityId: DEATH_EXPLOSION_ABILITY_ID,
+          targetIds,
+        },
+      },
+    ],
+  };
+}
@@ -430,11 +430,13 @@ describe('damageCalculatorTestHelpers', () => {
         baseDamage: 10,
         finalDamage: 0,
         damageType: DamageType.PHYSICAL,
+        isHit: true,
         isCritical: false,
         modifiers: {
           armorReduction: 10,
           typeMultiplier: 1.0,
           criticalMultiplier: 1.0,
+          resistanceMultiplier: 1.0,
           other: 1.0,
         },
       };
@@ -101,11 +101,13 @@ export function calculateExpectedDamage(
     baseDamage,
     finalDamage,
     damageType,
+    isHit: true,
     isCritical,
     modifiers: {
       armorReduction,
       typeMultiplier,
       criticalMultiplier,
+      resistanceMultiplier: 1.0,
       other: 1.0,
     },
   };
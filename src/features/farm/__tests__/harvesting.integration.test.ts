@@ -95,6 +95,12 @@ const createTestGameState = (overrides: Partial<GameState> = {}): GameState => (
     dayNightCycle: 0,
     weather: 'clear' as any,
   },
+  meta: {
+    version: '1.0.0',
+    createdAt: Date.now(),
+    lastSavedAt: Date.now(),
+    totalPlayTime: 0,
+  },
   ...overrides,
 });
 
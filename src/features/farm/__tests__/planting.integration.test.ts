@@ -94,6 +94,10 @@ const createMinimalGameState = (overrides: Partial<GameState> = {}): GameState =
       [Resource.BONE_MEAL]: 3,
       [Resource.EMBALMING_FLUID]: 1,
       [Resource.DARK_ESSENCE]: 2,
+      [Resource.RADIOACTIVE_WASTE]: 0,
+      [Resource.CORRUPTED_DNA]: 0,
+      [Resource.EVOLUTION_SERUM]: 0,
+      [Resource.PRIMAL_ESSENCE]: 0,
     },
     currencies: {
       [Currency.DARK_COINS]: 500,
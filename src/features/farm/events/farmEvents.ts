@@ -0,0 +1,645 @@
+/**
+ * Farm Event Routing
+ *
+ * Routes gameMachine farm events (types/events.ts FarmEvent) through the
+ * farm services and event handlers, returning the updated game state.
+ *
+ * - seed.planted, plot.watered, plot.fertilized, plot.catalyzed → planting
+ *   service
+ * - zombie.matured, zombie.harvested → growth / harvesting handlers
+ * - zombie.fed, zombie.pet → feeding / happiness services
+ * - zombie.toCrypt, zombie.fromCrypt → zombie management service
+ * - zombie.fused → fusion service
+ * - zombie.equipped, zombie.unequipped → equipment service
+ * - zombie.command → zombie AI service
+ * - building.placed, building.constructed, building.upgraded,
+ *   building.demolished → construction service
+ * - mutationLab.started, mutationLab.cancelled → mutation lab service
+ * - crafting.started, crafting.cancelled → crafting service
+ *
+ * Authority: DOMAIN-FARM.md, ARCHITECTURE.md (event-driven patterns)
+ */
+
+import type { BuildingId, GameState, PlotId, ZombieId } from '../../../types/global';
+import type { GameEvent } from '../../../types/events';
+import type { FarmState, Zombie } from '../../../types/farm';
+import { BuildingType, PlotState } from '../../../types/farm';
+import { handlePlantSeedEvent } from './plantingEvents';
+import { handleHarvestEvent } from './harvestingEvents';
+import { handleGrowthCompleteEvent, handleGrowthUpdateEvent } from './growthEvents';
+import {
+  waterPlot,
+  fertilizePlot,
+  applyMutationCatalyst,
+  type PlantingResult,
+} from '../services/planting';
+import { determineQuality } from '../services/growth';
+import { createGameRandom } from '../../game/lib/gameRandom';
+import { feedZombie } from '../services/feeding';
+import { petZombie } from '../services/happiness';
+import { sendToCrypt, deployFromCrypt } from '../services/zombieManagement';
+import { setFollowCommand, setGuardCommand, clearCommand } from '../services/zombieAI';
+import {
+  placeBuilding,
+  upgradeBuilding,
+  demolishBuilding,
+  completeConstruction,
+  type ConstructionResult,
+} from '../services/construction';
+import { startMutation, cancelMutation } from '../services/mutationLab';
+import { startCrafting, cancelCrafting, type CraftingResult } from '../services/crafting';
+import { fuseZombies } from '../services/fusion';
+import { equipItem, unequipItem, type EquipmentResult } from '../services/equipment';
+
+/**
+ * Result type for event handlers
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+// ============================================================================
+// EVENT TYPES
+// ============================================================================
+
+/**
+ * Farm events that act on a plot
+ */
+export type PlotEvent = Extract<
+  GameEvent,
+  {
+    type:
+      | 'seed.planted'
+      | 'plot.watered'
+      | 'plot.fertilized'
+      | 'plot.catalyzed'
+      | 'zombie.matured'
+      | 'zombie.harvested';
+  }
+>;
+
+/**
+ * Farm events that act on a zombie
+ */
+export type ZombieEvent = Extract<
+  GameEvent,
+  {
+    type:
+      | 'zombie.fed'
+      | 'zombie.pet'
+      | 'zombie.toCrypt'
+      | 'zombie.fromCrypt'
+      | 'zombie.command'
+      | 'zombie.fused'
+      | 'zombie.equipped'
+      | 'zombie.unequipped';
+  }
+>;
+
+/**
+ * Farm events that act on a building
+ */
+export type BuildingEvent = Extract<
+  GameEvent,
+  {
+    type:
+      | 'building.placed'
+      | 'building.constructed'
+      | 'building.upgraded'
+      | 'building.demolished'
+      | 'mutationLab.started'
+      | 'mutationLab.cancelled'
+      | 'crafting.started'
+      | 'crafting.cancelled';
+  }
+>;
+
+/**
+ * Player-driven farm events handled by the game machine
+ */
+export type FarmActionEvent = PlotEvent | ZombieEvent | BuildingEvent;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const FARM_ACTION_EVENT_TYPES: ReadonlySet<GameEvent['type']> = new Set<FarmActionEvent['type']>([
+  'seed.planted',
+  'plot.watered',
+  'plot.fertilized',
+  'plot.catalyzed',
+  'zombie.matured',
+  'zombie.harvested',
+  'zombie.fed',
+  'zombie.pet',
+  'zombie.toCrypt',
+  'zombie.fromCrypt',
+  'zombie.command',
+  'zombie.fused',
+  'zombie.equipped',
+  'zombie.unequipped',
+  'building.placed',
+  'building.constructed',
+  'building.upgraded',
+  'building.demolished',
+  'mutationLab.started',
+  'mutationLab.cancelled',
+  'crafting.started',
+  'crafting.cancelled',
+]);
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+/**
+ * Handle Farm Event
+ *
+ * Applies a player farm action to the game state.
+ *
+ * @param gameState - Current game state
+ * @param event - Farm event from the game machine
+ * @returns Updated game state or error
+ */
+export function handleFarmEvent(gameState: GameState, event: FarmActionEvent): Result<GameState> {
+  switch (event.type) {
+    case 'seed.planted': {
+      const result = handlePlantSeedEvent(gameState, {
+        type: 'PLANT_SEED',
+        plotId: event.payload.plotId,
+        seedType: event.payload.seedType,
+        timestamp: event.payload.timestamp,
+      });
+
+      return result.success && result.updatedState
+        ? { success: true, data: result.updatedState }
+        : { success: false, error: result.error ?? 'Planting failed' };
+    }
+
+    case 'plot.watered':
+      return applyPlantingResult(
+        gameState,
+        waterPlot(gameState.farm, gameState.inventory, event.payload.plotId)
+      );
+
+    case 'plot.fertilized':
+      return applyPlantingResult(
+        gameState,
+        fertilizePlot(gameState.farm, gameState.inventory, event.payload.plotId)
+      );
+
+    case 'plot.catalyzed':
+      return applyPlantingResult(
+        gameState,
+        applyMutationCatalyst(
+          gameState.farm,
+          gameState.inventory,
+          event.payload.plotId,
+          event.payload.catalyst
+        )
+      );
+
+    case 'zombie.matured':
+      return maturePlot(gameState, event.payload.plotId, event.payload.timestamp);
+
+    case 'zombie.harvested': {
+      const plot = gameState.farm.plots.find((p) => p.id === event.payload.plotId);
+      if (!plot?.plantedSeed) {
+        return { success: false, error: `Plot ${event.payload.plotId} has nothing to harvest` };
+      }
+
+      const rng = createGameRandom(gameState.meta);
+      const quality = determineQuality(
+        plot.plantedSeed,
+        { isFertilized: plot.isFertilized, isWatered: plot.isWatered },
+        rng.random
+      );
+
+      return handleHarvestEvent(
+        { ...gameState, meta: rng.save(gameState.meta) },
+        { type: 'HARVEST', plotId: plot.id, quality, timestamp: event.payload.timestamp }
+      );
+    }
+
+    case 'zombie.fed': {
+      const found = findFarmZombie(gameState.farm, event.payload.zombieId);
+      if (!found) {
+        return zombieNotFound(event.payload.zombieId);
+      }
+
+      const result = feedZombie(
+        found.zombie,
+        gameState,
+        event.payload.timestamp,
+        gameState.time.day,
+        found.isInCrypt
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: {
+          ...result.data.gameState,
+          farm: replaceZombie(gameState.farm, result.data.zombie),
+        },
+      };
+    }
+
+    case 'zombie.pet': {
+      const found = findFarmZombie(gameState.farm, event.payload.zombieId);
+      if (!found) {
+        return zombieNotFound(event.payload.zombieId);
+      }
+
+      const result = petZombie(found.zombie, event.payload.timestamp);
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: { ...gameState, farm: replaceZombie(gameState.farm, result.data.zombie) },
+      };
+    }
+
+    case 'zombie.toCrypt':
+      return applyFarmResult(gameState, sendToCrypt(gameState.farm, event.payload.zombieId));
+
+    case 'zombie.fromCrypt':
+      return applyFarmResult(gameState, deployFromCrypt(gameState.farm, event.payload.zombieId));
+
+    case 'zombie.command': {
+      const zombie = gameState.farm.activeZombies.find((z) => z.id === event.payload.zombieId);
+      if (!zombie) {
+        return zombieNotFound(event.payload.zombieId);
+      }
+
+      const result = commandZombie(zombie, event.payload.command, event.payload.targetPosition);
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: { ...gameState, farm: replaceZombie(gameState.farm, result.data) },
+      };
+    }
+
+    case 'zombie.fused': {
+      const rng = createGameRandom(gameState.meta);
+      const result = fuseZombies(
+        gameState.farm,
+        gameState.inventory,
+        event.payload.zombieId,
+        event.payload.partnerId,
+        event.payload.fusedZombieId,
+        event.payload.timestamp,
+        rng.random
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: {
+          ...gameState,
+          farm: result.data.farmState,
+          inventory: result.data.inventory,
+          meta: rng.save(gameState.meta),
+        },
+      };
+    }
+
+    case 'zombie.equipped':
+      return applyEquipmentResult(
+        gameState,
+        equipItem(
+          gameState.farm,
+          gameState.inventory,
+          event.payload.zombieId,
+          event.payload.slot,
+          event.payload.itemId
+        )
+      );
+
+    case 'zombie.unequipped':
+      return applyEquipmentResult(
+        gameState,
+        unequipItem(gameState.farm, gameState.inventory, event.payload.zombieId, event.payload.slot)
+      );
+
+    case 'building.placed':
+      return applyConstructionResult(
+        gameState,
+        placeBuilding(
+          gameState.farm,
+          gameState.inventory,
+          event.payload.buildingId,
+          event.payload.type as BuildingType,
+          event.payload.position,
+          event.payload.timestamp
+        )
+      );
+
+    case 'building.constructed':
+      return applyFarmResult(
+        gameState,
+        completeConstruction(gameState.farm, event.payload.buildingId)
+      );
+
+    case 'building.upgraded': {
+      const building = gameState.farm.buildings.find((b) => b.id === event.payload.buildingId);
+      if (building && event.payload.newLevel !== building.level + 1) {
+        return {
+          success: false,
+          error: `Building ${building.id} cannot be upgraded to level ${event.payload.newLevel}`,
+        };
+      }
+
+      return applyConstructionResult(
+        gameState,
+        upgradeBuilding(
+          gameState.farm,
+          gameState.inventory,
+          event.payload.buildingId,
+          event.payload.timestamp
+        )
+      );
+    }
+
+    case 'building.demolished':
+      return applyConstructionResult(
+        gameState,
+        demolishBuilding(gameState.farm, gameState.inventory, event.payload.buildingId)
+      );
+
+    case 'mutationLab.started': {
+      const result = startMutation(
+        gameState.farm,
+        gameState.inventory,
+        event.payload.buildingId,
+        event.payload.zombieId,
+        event.payload.catalyst,
+        event.payload.targetMutation ?? null,
+        event.payload.timestamp
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: { ...gameState, farm: result.data.farmState, inventory: result.data.inventory },
+      };
+    }
+
+    case 'mutationLab.cancelled':
+      return applyFarmResult(
+        gameState,
+        cancelMutation(gameState.farm, event.payload.buildingId, event.payload.zombieId)
+      );
+
+    case 'crafting.started':
+      return applyCraftingResult(
+        gameState,
+        startCrafting(
+          gameState.farm,
+          gameState.inventory,
+          gameState.player,
+          event.payload.buildingId,
+          event.payload.jobId,
+          event.payload.recipeId,
+          event.payload.quantity,
+          event.payload.timestamp
+        )
+      );
+
+    case 'crafting.cancelled':
+      return applyCraftingResult(
+        gameState,
+        cancelCrafting(
+          gameState.farm,
+          gameState.inventory,
+          event.payload.buildingId,
+          event.payload.jobId
+        )
+      );
+  }
+}
+
+/**
+ * Handle Farm Growth
+ *
+ * Advances growth timers and marks plots whose growth completed as READY.
+ *
+ * @param gameState - Current game state
+ * @param deltaTime - Time elapsed in milliseconds
+ * @param timestamp - Current timestamp
+ * @returns Updated game state or error
+ */
+export function handleFarmGrowth(
+  gameState: GameState,
+  deltaTime: number,
+  timestamp: number
+): Result<GameState> {
+  const result = handleGrowthUpdateEvent(gameState, {
+    type: 'GROWTH_UPDATE',
+    deltaTime,
+    timestamp,
+  });
+
+  if (!result.success || !result.updatedState) {
+    return { success: false, error: result.error ?? 'Growth update failed' };
+  }
+
+  const completed = new Set(result.completedPlots ?? []);
+  if (completed.size === 0) {
+    return { success: true, data: result.updatedState };
+  }
+
+  const { farm } = result.updatedState;
+  return {
+    success: true,
+    data: {
+      ...result.updatedState,
+      farm: {
+        ...farm,
+        plots: farm.plots.map((plot) =>
+          completed.has(plot.id) ? { ...plot, state: PlotState.READY } : plot
+        ),
+      },
+    },
+  };
+}
+
+/**
+ * Check if an event is a player farm action
+ */
+export function isFarmActionEvent(event: GameEvent): event is FarmActionEvent {
+  return FARM_ACTION_EVENT_TYPES.has(event.type);
+}
+
+/**
+ * Get the plot an event targets
+ */
+export function getEventPlotId(event: FarmActionEvent): PlotId | undefined {
+  return 'plotId' in event.payload ? event.payload.plotId : undefined;
+}
+
+/**
+ * Get the zombie an event targets
+ */
+export function getEventZombieId(event: FarmActionEvent): ZombieId | undefined {
+  return 'zombieId' in event.payload ? event.payload.zombieId : undefined;
+}
+
+/**
+ * Get the existing building an event targets (new placements have none yet)
+ */
+export function getEventBuildingId(event: FarmActionEvent): BuildingId | undefined {
+  return 'buildingId' in event.payload && event.type !== 'building.placed'
+    ? event.payload.buildingId
+    : undefined;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Mark a fully grown plot as ready to harvest
+ */
+function maturePlot(gameState: GameState, plotId: PlotId, timestamp: number): Result<GameState> {
+  const result = handleGrowthCompleteEvent(gameState, {
+    type: 'GROWTH_COMPLETE',
+    plotId,
+    timestamp,
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error ?? 'Growth is not complete' };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...gameState,
+      farm: {
+        ...gameState.farm,
+        plots: gameState.farm.plots.map((plot) =>
+          plot.id === plotId ? { ...plot, state: PlotState.READY } : plot
+        ),
+      },
+    },
+  };
+}
+
+/**
+ * Execute a player command (follow, guard, or anything else to clear)
+ */
+function commandZombie(
+  zombie: Zombie,
+  command: string,
+  targetPosition?: { x: number; y: number }
+): Result<Zombie> {
+  switch (command) {
+    case 'follow':
+      return setFollowCommand(zombie);
+    case 'guard':
+      return targetPosition
+        ? setGuardCommand(zombie, targetPosition)
+        : { success: false, error: 'Guard command requires a target position' };
+    default:
+      return { success: true, data: clearCommand(zombie) };
+  }
+}
+
+/**
+ * Find a zombie on the farm or in the Crypt
+ */
+function findFarmZombie(
+  farm: FarmState,
+  zombieId: ZombieId
+): { zombie: Zombie; isInCrypt: boolean } | undefined {
+  const active = farm.activeZombies.find((z) => z.id === zombieId);
+  if (active) {
+    return { zombie: active, isInCrypt: false };
+  }
+
+  const stored = farm.cryptZombies.find((z) => z.id === zombieId);
+  return stored ? { zombie: stored, isInCrypt: true } : undefined;
+}
+
+/**
+ * Replace a zombie wherever it lives (active roster or Crypt)
+ */
+function replaceZombie(farm: FarmState, zombie: Zombie): FarmState {
+  const replace = (z: Zombie) => (z.id === zombie.id ? zombie : z);
+  return {
+    ...farm,
+    activeZombies: farm.activeZombies.map(replace),
+    cryptZombies: farm.cryptZombies.map(replace),
+  };
+}
+
+function applyPlantingResult(gameState: GameState, result: PlantingResult): Result<GameState> {
+  if (!result.success || !result.farmState || !result.inventory) {
+    return { success: false, error: result.error ?? 'Plot update failed' };
+  }
+
+  return {
+    success: true,
+    data: { ...gameState, farm: result.farmState, inventory: result.inventory },
+  };
+}
+
+function applyConstructionResult(
+  gameState: GameState,
+  result: Result<ConstructionResult>
+): Result<GameState> {
+  if (!result.success) {
+    return result;
+  }
+
+  return {
+    success: true,
+    data: { ...gameState, farm: result.data.farmState, inventory: result.data.inventory },
+  };
+}
+
+function applyEquipmentResult(
+  gameState: GameState,
+  result: Result<EquipmentResult>
+): Result<GameState> {
+  if (!result.success) {
+    return result;
+  }
+
+  return {
+    success: true,
+    data: { ...gameState, farm: result.data.farmState, inventory: result.data.inventory },
+  };
+}
+
+function applyCraftingResult(
+  gameState: GameState,
+  result: Result<CraftingResult>
+): Result<GameState> {
+  if (!result.success) {
+    return result;
+  }
+
+  return {
+    success: true,
+    data: { ...gameState, farm: result.data.farmState, inventory: result.data.inventory },
+  };
+}
+
+function applyFarmResult(gameState: GameState, result: Result<FarmState>): Result<GameState> {
+  return result.success ? { success: true, data: { ...gameState, farm: result.data } } : result;
+}
+
+function zombieNotFound(zombieId: ZombieId): Result<GameState> {
+  return { success: false, error: `Zombie ${zombieId} not found` };
+}
@@ -3,12 +3,18 @@
  *
  * Event handlers for zombie harvesting actions.
  * Integrates harvesting service with game state machine.
+ *
+ * Quality, mutation and byproduct rolls draw from the game's seeded random
+ * sequence (GameState.meta, see game/lib/gameRandom.ts). Mutation odds follow
+ * the weather and night at harvest.
  */
 
 import type { GameState } from '../../../types/global';
 import type { ZombieQuality } from '../../../types/farm';
 import { harvestZombie } from '../services/harvesting';
 import { determineQuality } from '../services/growth';
+import { getMutationConditions } from '../services/mutations';
+import { createGameRandom } from '../../game/lib/gameRandom';
 
 /**
  * Result type for event handlers
@@ -26,6 +32,7 @@ export interface HarvestEvent {
   type: 'HARVEST';
   plotId: string;
   quality: ZombieQuality;
+  timestamp?: number;
 }
 
 /**
@@ -53,11 +60,15 @@ export function handleHarvestEvent(gameState: GameState, event: HarvestEvent): R
   }
 
   // Call harvesting service
+  const rng = createGameRandom(gameState.meta);
   const harvestResult = harvestZombie(
     gameState.farm,
     gameState.inventory,
     event.plotId,
-    event.quality
+    event.quality,
+    rng.random,
+    event.timestamp,
+    getMutationConditions(gameState.time)
   );
 
   if (!harvestResult.success) {
@@ -69,6 +80,7 @@ export function handleHarvestEvent(gameState: GameState, event: HarvestEvent): R
     ...gameState,
     farm: harvestResult.data.farmState,
     inventory: harvestResult.data.inventory,
+    meta: rng.save(gameState.meta),
     player: {
       ...gameState.player,
       stats: {
@@ -97,6 +109,7 @@ export interface BatchHarvestEvent {
     plotId: string;
     quality: ZombieQuality;
   }>;
+  timestamp?: number;
 }
 
 /**
@@ -135,6 +148,7 @@ export function handleBatchHarvestEvent(
   }
 
   // Process each harvest
+  const rng = createGameRandom(gameState.meta);
   let currentGameState = gameState;
   let successCount = 0;
   const errors: string[] = [];
@@ -144,7 +158,10 @@ export function handleBatchHarvestEvent(
       currentGameState.farm,
       currentGameState.inventory,
       harvest.plotId,
-      harvest.quality
+      harvest.quality,
+      rng.random,
+      event.timestamp,
+      getMutationConditions(currentGameState.time)
     );
 
     if (harvestResult.success) {
@@ -164,6 +181,7 @@ export function handleBatchHarvestEvent(
   // Update player stats with successful harvests
   const finalGameState: GameState = {
     ...currentGameState,
+    meta: rng.save(currentGameState.meta),
     player: {
       ...currentGameState.player,
       stats: {
@@ -190,6 +208,7 @@ export function handleBatchHarvestEvent(
  */
 export interface AutoHarvestEvent {
   type: 'AUTO_HARVEST';
+  timestamp?: number;
 }
 
 /**
@@ -224,11 +243,16 @@ export function handleAutoHarvestEvent(
   }
 
   // Determine quality for each plot
+  const rng = createGameRandom(gameState.meta);
   const harvests = readyPlots.map((plot) => {
-    const quality = determineQuality(plot.plantedSeed!, {
-      isFertilized: plot.isFertilized,
-      isWatered: plot.isWatered,
-    });
+    const quality = determineQuality(
+      plot.plantedSeed!,
+      {
+        isFertilized: plot.isFertilized,
+        isWatered: plot.isWatered,
+      },
+      rng.random
+    );
 
     return {
       plotId: plot.id,
@@ -236,9 +260,13 @@ export function handleAutoHarvestEvent(
     };
   });
 
-  // Process as batch harvest
-  return handleBatchHarvestEvent(gameState, {
-    type: 'BATCH_HARVEST',
-    harvests,
-  });
+  // Process as batch harvest, continuing the sequence after the quality rolls
+  return handleBatchHarvestEvent(
+    { ...gameState, meta: rng.save(gameState.meta) },
+    {
+      type: 'BATCH_HARVEST',
+      harvests,
+      timestamp: event.timestamp,
+    }
+  );
 }
@@ -0,0 +1,193 @@
+/**
+ * Building Effects Service - Unit Tests
+ *
+ * Tests the building effects resolver per DOMAIN-FARM.md:
+ * - Only active buildings apply effects, scaled by level
+ * - Mausoleum capacity bonus
+ * - Decoration happiness radius
+ * - Production and healing cycles
+ *
+ * Authority: DOMAIN-FARM.md Section "Structures"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Building, FarmState } from '../../../../types/farm';
+import { BuildingState, BuildingType } from '../../../../types/farm';
+import { Resource } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import {
+  getEffectiveLevel,
+  getBuildingModifiers,
+  getActiveZombieCapacity,
+  applyBuildingModifiers,
+  getDecorationHappiness,
+  getProductionEffect,
+  getHealingEffect,
+  getMutationLabEffect,
+  getCraftingEffect,
+} from '../buildingEffects';
+
+// Test fixtures
+function createBuilding(type: BuildingType, overrides: Partial<Building> = {}): Building {
+  return {
+    id: `${type}-1`,
+    type,
+    position: { x: 0, y: 0 },
+    level: 1,
+    state: BuildingState.ACTIVE,
+    constructionStartedAt: null,
+    constructionTimeRemaining: null,
+    data: {},
+    ...overrides,
+  };
+}
+
+function createFarm(buildings: Building[]): FarmState {
+  return createTestFarmState({ buildings });
+}
+
+describe('buildingEffects', () => {
+  describe('getEffectiveLevel', () => {
+    it('should keep the previous level while an upgrade is under construction', () => {
+      expect(getEffectiveLevel(createBuilding(BuildingType.MAUSOLEUM, { level: 3 }))).toBe(3);
+      expect(
+        getEffectiveLevel(
+          createBuilding(BuildingType.MAUSOLEUM, { level: 3, state: BuildingState.BUILDING })
+        )
+      ).toBe(2);
+      expect(
+        getEffectiveLevel(
+          createBuilding(BuildingType.MAUSOLEUM, { level: 1, state: BuildingState.BUILDING })
+        )
+      ).toBe(0);
+      expect(
+        getEffectiveLevel(createBuilding(BuildingType.MAUSOLEUM, { state: BuildingState.DAMAGED }))
+      ).toBe(0);
+    });
+  });
+
+  describe('getBuildingModifiers', () => {
+    it('should sum modifiers of active buildings scaled by level', () => {
+      const farm = createFarm([
+        createBuilding(BuildingType.MAUSOLEUM, { id: 'm1', level: 2 }),
+        createBuilding(BuildingType.MAUSOLEUM, { id: 'm2', state: BuildingState.BUILDING }),
+        createBuilding(BuildingType.GUARD_TOWER),
+      ]);
+
+      expect(getBuildingModifiers(farm)).toEqual({
+        zombieCapacityBonus: 10,
+        defenseBonus: 10,
+        cryptEfficiencyBonus: 0,
+        xpPerHour: 0,
+      });
+    });
+  });
+
+  describe('getActiveZombieCapacity', () => {
+    it('should add Mausoleum bonuses to the base capacity, up to the max', () => {
+      const { INITIAL_ZOMBIE_CAP, MAX_ZOMBIE_CAP } = gameConfig.CAPACITY;
+
+      expect(getActiveZombieCapacity(createFarm([]))).toBe(INITIAL_ZOMBIE_CAP);
+      expect(getActiveZombieCapacity(createFarm([createBuilding(BuildingType.MAUSOLEUM)]))).toBe(
+        INITIAL_ZOMBIE_CAP + 5
+      );
+
+      const many = Array.from({ length: 10 }, (_, i) =>
+        createBuilding(BuildingType.MAUSOLEUM, { id: `m${i}`, level: 10 })
+      );
+      expect(getActiveZombieCapacity(createFarm(many))).toBe(MAX_ZOMBIE_CAP);
+    });
+
+    it('should write the derived capacity into the farm state', () => {
+      const farm = createFarm([createBuilding(BuildingType.MAUSOLEUM)]);
+
+      expect(applyBuildingModifiers(farm).activeZombieCapacity).toBe(
+        gameConfig.CAPACITY.INITIAL_ZOMBIE_CAP + 5
+      );
+    });
+  });
+
+  describe('getDecorationHappiness', () => {
+    it('should only count active decorations within their radius', () => {
+      const farm = createFarm([
+        createBuilding(BuildingType.BONFIRE, { id: 'fire', position: { x: 0, y: 0 } }),
+        createBuilding(BuildingType.GALLOWS, { id: 'gallows', position: { x: 10, y: 10 } }),
+      ]);
+
+      expect(getDecorationHappiness(farm, { x: 2, y: 2 })).toBe(5);
+      expect(getDecorationHappiness(farm, { x: 5, y: 5 })).toBe(0);
+      expect(getDecorationHappiness(farm, { x: 10, y: 9 })).toBe(2);
+    });
+  });
+
+  describe('getProductionEffect', () => {
+    it('should scale Blood Well output and stock limit by level', () => {
+      const effect = getProductionEffect(createBuilding(BuildingType.BLOOD_WELL, { level: 2 }));
+
+      expect(effect).toEqual({
+        input: {},
+        output: { [Resource.BLOOD_WATER]: 2 },
+        cycleMs: 5 * 60 * 1000,
+        stockLimit: 20,
+      });
+    });
+
+    it('should shorten converter cycles by level', () => {
+      const effect = getProductionEffect(createBuilding(BuildingType.BONE_MILL, { level: 2 }));
+
+      expect(effect).toEqual({
+        input: { [Resource.BONES]: 5 },
+        output: { [Resource.BONE_MEAL]: 3 },
+        cycleMs: 10 * 60 * 1000,
+      });
+    });
+
+    it('should return null for buildings that do not produce', () => {
+      expect(getProductionEffect(createBuilding(BuildingType.MAUSOLEUM))).toBeNull();
+      expect(
+        getProductionEffect(
+          createBuilding(BuildingType.BLOOD_WELL, { state: BuildingState.BUILDING })
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('getHealingEffect', () => {
+    it('should heal 10% per hour per Stitching Station level', () => {
+      expect(getHealingEffect(createBuilding(BuildingType.STITCHING_STATION))).toEqual({
+        healPercent: 10,
+        cost: { [Resource.CLOTH]: 1 },
+        cycleMs: 60 * 60 * 1000,
+      });
+      expect(getHealingEffect(createBuilding(BuildingType.BLOOD_WELL))).toBeNull();
+    });
+  });
+
+  describe('getMutationLabEffect', () => {
+    it('should add chambers and queue slots per Mutation Lab level', () => {
+      expect(getMutationLabEffect(createBuilding(BuildingType.MUTATION_LAB, { level: 2 }))).toEqual(
+        {
+          chambers: 2,
+          queueSize: 4,
+        }
+      );
+      expect(
+        getMutationLabEffect(
+          createBuilding(BuildingType.MUTATION_LAB, { state: BuildingState.DAMAGED })
+        )
+      ).toBeNull();
+      expect(getMutationLabEffect(createBuilding(BuildingType.BONE_MILL))).toBeNull();
+    });
+  });
+
+  describe('getCraftingEffect', () => {
+    it('should grow the crafting queue and speed with station level', () => {
+      expect(getCraftingEffect(createBuilding(BuildingType.BONE_MILL, { level: 2 }))).toEqual({
+        queueSize: 4,
+        speed: 2,
+      });
+      expect(getCraftingEffect(createBuilding(BuildingType.BLOOD_WELL))).toBeNull();
+    });
+  });
+});
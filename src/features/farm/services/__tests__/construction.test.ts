@@ -0,0 +1,241 @@
+/**
+ * Construction Service - Unit Tests
+ *
+ * Tests building placement and construction per DOMAIN-FARM.md:
+ * - Grid bounds and footprint overlap
+ * - Cost deduction and build time
+ * - Construction countdown to ACTIVE
+ * - Per-level upgrade costs
+ * - Partial refunds on demolish
+ *
+ * Authority: DOMAIN-FARM.md Section "Structures"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Building, FarmState } from '../../../../types/farm';
+import { BuildingState, BuildingType } from '../../../../types/farm';
+import type { Inventory } from '../../../../types/resources';
+import { Currency, Resource } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createTestPlot } from '../../../../lib/test-utils/factories/plotFactory';
+import { createEmptyInventory } from '../../../game/lib/resources';
+import {
+  placeBuilding,
+  upgradeBuilding,
+  demolishBuilding,
+  completeConstruction,
+  updateConstruction,
+  getUpgradeCost,
+  getDemolishRefund,
+  isAreaFree,
+} from '../construction';
+
+// Test fixtures
+const NOW = 1_000_000;
+
+/** Inventory that can afford any building several times over */
+function createRichInventory(): Inventory {
+  const inventory = createEmptyInventory(100_000);
+  const fill = <K extends string>(amounts: Record<K, number>) =>
+    Object.fromEntries(Object.keys(amounts).map((key) => [key, 1000])) as Record<K, number>;
+  return {
+    ...inventory,
+    resources: fill(inventory.resources),
+    currencies: fill(inventory.currencies),
+  };
+}
+
+function createFarm(overrides: Partial<FarmState> = {}): FarmState {
+  return createTestFarmState({ plots: [], gridSize: { width: 10, height: 10 }, ...overrides });
+}
+
+function createBuilding(overrides: Partial<Building> = {}): Building {
+  return {
+    id: 'b1',
+    type: BuildingType.CRYPT,
+    position: { x: 0, y: 0 },
+    level: 1,
+    state: BuildingState.ACTIVE,
+    constructionStartedAt: null,
+    constructionTimeRemaining: null,
+    data: {},
+    ...overrides,
+  };
+}
+
+function place(farm: FarmState, type: BuildingType, x: number, y: number) {
+  return placeBuilding(farm, createRichInventory(), 'new', type, { x, y }, NOW);
+}
+
+describe('construction', () => {
+  describe('isAreaFree', () => {
+    it('should reject areas outside the farm grid', () => {
+      const farm = createFarm();
+
+      expect(isAreaFree(farm, { x: 9, y: 0 }, { width: 2, height: 2 })).toBe(false);
+      expect(isAreaFree(farm, { x: -1, y: 0 }, { width: 1, height: 1 })).toBe(false);
+    });
+
+    it('should reject areas overlapping plots, nodes or buildings', () => {
+      const farm = createFarm({
+        plots: [createTestPlot({ position: { x: 5, y: 5 } })],
+        buildings: [createBuilding({ position: { x: 0, y: 0 } })],
+      });
+
+      expect(isAreaFree(farm, { x: 4, y: 4 }, { width: 2, height: 2 })).toBe(false);
+      expect(isAreaFree(farm, { x: 1, y: 1 }, { width: 2, height: 2 })).toBe(false);
+      expect(isAreaFree(farm, { x: 2, y: 0 }, { width: 2, height: 2 })).toBe(true);
+    });
+  });
+
+  describe('placeBuilding', () => {
+    it('should deduct the cost and start construction', () => {
+      const result = place(createFarm(), BuildingType.CRYPT, 2, 2);
+
+      if (!result.success) throw new Error(result.error);
+      const { building, inventory } = result.data;
+      expect(building.state).toBe(BuildingState.BUILDING);
+      expect(building.constructionTimeRemaining).toBe(
+        gameConfig.BUILDINGS.crypt.buildTimeMinutes * 60 * 1000
+      );
+      expect(inventory.currencies[Currency.DARK_COINS]).toBe(
+        1000 - gameConfig.BUILDINGS.crypt.cost.currencies[Currency.DARK_COINS]
+      );
+    });
+
+    it('should activate buildings with no build time immediately', () => {
+      const result = place(createFarm(), BuildingType.ZOMBIE_PLOT, 0, 0);
+
+      if (!result.success) throw new Error(result.error);
+      expect(result.data.building.state).toBe(BuildingState.ACTIVE);
+    });
+
+    it('should fail when the footprint overlaps another building', () => {
+      const farm = createFarm({ buildings: [createBuilding()] });
+
+      const result = place(farm, BuildingType.CRYPT, 1, 1);
+
+      expect(result).toEqual({ success: false, error: 'Building does not fit here' });
+    });
+
+    it('should fail when the player cannot afford it', () => {
+      const result = placeBuilding(
+        createFarm(),
+        createEmptyInventory(),
+        'new',
+        BuildingType.CRYPT,
+        { x: 0, y: 0 },
+        NOW
+      );
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('updateConstruction', () => {
+    it('should count down and activate finished buildings', () => {
+      const farm = createFarm({
+        buildings: [
+          createBuilding({
+            id: 'b1',
+            state: BuildingState.BUILDING,
+            constructionTimeRemaining: 1000,
+          }),
+          createBuilding({
+            id: 'b2',
+            position: { x: 4, y: 4 },
+            state: BuildingState.BUILDING,
+            constructionTimeRemaining: 5000,
+          }),
+        ],
+      });
+
+      const { farmState, completed } = updateConstruction(farm, 2000);
+
+      expect(completed).toEqual(['b1']);
+      expect(farmState.buildings[0]?.state).toBe(BuildingState.ACTIVE);
+      expect(farmState.buildings[1]?.constructionTimeRemaining).toBe(3000);
+    });
+
+    it('should apply building modifiers when a building finishes', () => {
+      const farm = createFarm({
+        activeZombieCapacity: gameConfig.CAPACITY.INITIAL_ZOMBIE_CAP,
+        buildings: [
+          createBuilding({
+            type: BuildingType.MAUSOLEUM,
+            state: BuildingState.BUILDING,
+            constructionTimeRemaining: 1000,
+          }),
+        ],
+      });
+
+      const { farmState } = updateConstruction(farm, 1000);
+
+      expect(farmState.activeZombieCapacity).toBe(gameConfig.CAPACITY.INITIAL_ZOMBIE_CAP + 5);
+    });
+  });
+
+  describe('completeConstruction', () => {
+    it('should not complete a building that still has time remaining', () => {
+      const farm = createFarm({
+        buildings: [
+          createBuilding({ state: BuildingState.BUILDING, constructionTimeRemaining: 1000 }),
+        ],
+      });
+
+      expect(completeConstruction(farm, 'b1').success).toBe(false);
+    });
+  });
+
+  describe('upgradeBuilding', () => {
+    it('should charge the scaled cost for the next level', () => {
+      const farm = createFarm({ buildings: [createBuilding()] });
+      const inventory = createRichInventory();
+
+      const result = upgradeBuilding(farm, inventory, 'b1', NOW);
+
+      if (!result.success) throw new Error(result.error);
+      const cost = getUpgradeCost(BuildingType.CRYPT, 2);
+      expect(cost.currencies?.[Currency.DARK_COINS]).toBe(75);
+      expect(result.data.building).toMatchObject({ level: 2, state: BuildingState.BUILDING });
+      expect(result.data.inventory.currencies[Currency.DARK_COINS]).toBe(1000 - 75);
+    });
+
+    it('should fail at max level', () => {
+      const farm = createFarm({
+        buildings: [createBuilding({ level: gameConfig.BUILDINGS.crypt.maxLevel })],
+      });
+
+      const result = upgradeBuilding(farm, createRichInventory(), 'b1', NOW);
+
+      expect(result).toEqual({ success: false, error: 'Building is already at max level' });
+    });
+
+    it('should fail while the building is under construction', () => {
+      const farm = createFarm({
+        buildings: [
+          createBuilding({ state: BuildingState.BUILDING, constructionTimeRemaining: 1000 }),
+        ],
+      });
+
+      expect(upgradeBuilding(farm, createRichInventory(), 'b1', NOW).success).toBe(false);
+    });
+  });
+
+  describe('demolishBuilding', () => {
+    it('should remove the building and refund part of the investment', () => {
+      const farm = createFarm({ buildings: [createBuilding({ level: 2 })] });
+
+      const result = demolishBuilding(farm, createEmptyInventory(), 'b1');
+
+      if (!result.success) throw new Error(result.error);
+      // (base 50 + level 2 upgrade 75) * 50%
+      expect(result.data.inventory.currencies[Currency.DARK_COINS]).toBe(62);
+      expect(result.data.inventory.resources[Resource.ROTTEN_WOOD]).toBe(
+        getDemolishRefund(createBuilding({ level: 2 })).resources?.[Resource.ROTTEN_WOOD]
+      );
+      expect(result.data.farmState.buildings).toHaveLength(0);
+    });
+  });
+});
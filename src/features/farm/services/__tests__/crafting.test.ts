@@ -0,0 +1,250 @@
+/**
+ * Crafting Service - Unit Tests
+ *
+ * Tests crafting per the PRD's Crafted Resources & Items:
+ * - Recipe registry and player level / tech unlocks
+ * - Queueing batches (stations, batch size, queue limits, stack limits)
+ * - Craft timers, station speed, paused stations and full stacks
+ * - Cancelled batches and demolished stations refunding their cost
+ *
+ * Authority: PRD Crafted Resources & Items, DOMAIN-FARM.md Section "Structures"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Building, CraftingJob, FarmState } from '../../../../types/farm';
+import { BuildingState, BuildingType } from '../../../../types/farm';
+import type { Inventory } from '../../../../types/resources';
+import { Resource } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createEmptyInventory } from '../../../game/lib/resources';
+import {
+  canCraftRecipe,
+  cancelCrafting,
+  getMaxBatchSize,
+  getRecipe,
+  getStationRecipes,
+  startCrafting,
+  updateCrafting,
+  type CraftingProgress,
+} from '../crafting';
+
+// Test fixtures
+const MINUTE = 60 * 1000;
+const BONE_MEAL_STACK = gameConfig.RESOURCES[Resource.BONE_MEAL].stackSize;
+
+const player: CraftingProgress = { level: 20, unlockedTech: [] };
+
+function createMill(overrides: Partial<Building> = {}): Building {
+  return {
+    id: 'mill-1',
+    type: BuildingType.BONE_MILL,
+    position: { x: 0, y: 0 },
+    level: 1,
+    state: BuildingState.ACTIVE,
+    constructionStartedAt: null,
+    constructionTimeRemaining: null,
+    data: {},
+    ...overrides,
+  };
+}
+
+function createFarm(overrides: Partial<FarmState> = {}): FarmState {
+  return createTestFarmState({ buildings: [createMill()], ...overrides });
+}
+
+function createJob(id: string, overrides: Partial<CraftingJob> = {}): CraftingJob {
+  return {
+    id,
+    buildingId: 'mill-1',
+    recipeId: 'boneMeal',
+    quantity: 1,
+    remainingMs: 10 * MINUTE,
+    queuedAt: 0,
+    ...overrides,
+  };
+}
+
+function withResources(resources: Partial<Record<Resource, number>>): Inventory {
+  const inventory = createEmptyInventory();
+  return { ...inventory, resources: { ...inventory.resources, ...resources } };
+}
+
+function craft(
+  farm: FarmState,
+  inventory: Inventory,
+  recipeId = 'boneMeal',
+  quantity = 1,
+  progress: CraftingProgress = player
+) {
+  return startCrafting(farm, inventory, progress, 'mill-1', 'job-1', recipeId, quantity, 1000);
+}
+
+describe('crafting', () => {
+  describe('recipes', () => {
+    it('should list the recipes of each station', () => {
+      expect(getStationRecipes(BuildingType.BONE_MILL).map((r) => r.id)).toEqual(['boneMeal']);
+      expect(getStationRecipes(BuildingType.CORPSE_COMPOSTER).map((r) => r.id)).toEqual([
+        'graveDirt',
+        'embalmingFluid',
+      ]);
+      expect(getRecipe('philosophersStone')).toBeNull();
+    });
+
+    it('should unlock recipes with player level and tech', () => {
+      const essence = getRecipe('darkEssence');
+      if (!essence) throw new Error('Missing recipe');
+
+      expect(canCraftRecipe(essence, player)).toEqual({
+        success: false,
+        error: 'Dark Essence requires the dark_alchemy tech',
+      });
+      expect(canCraftRecipe(essence, { level: 20, unlockedTech: ['dark_alchemy'] }).success).toBe(
+        true
+      );
+      expect(canCraftRecipe(essence, { level: 10, unlockedTech: ['dark_alchemy'] })).toEqual({
+        success: false,
+        error: 'Dark Essence unlocks at player level 15',
+      });
+    });
+  });
+
+  describe('startCrafting', () => {
+    it('should pay for the whole batch and queue it', () => {
+      const result = craft(createFarm(), withResources({ [Resource.BONES]: 20 }), 'boneMeal', 3);
+
+      if (!result.success) throw new Error(result.error);
+      expect(result.data.inventory.resources[Resource.BONES]).toBe(5);
+      expect(result.data.farmState.craftingJobs).toEqual([
+        createJob('job-1', { quantity: 3, queuedAt: 1000 }),
+      ]);
+    });
+
+    it('should refuse the wrong station, locked recipes and bad batch sizes', () => {
+      const farm = createFarm();
+      const inventory = withResources({ [Resource.BONES]: 100, [Resource.CORPSE_DUST]: 100 });
+
+      expect(craft(farm, inventory, 'graveDirt')).toEqual({
+        success: false,
+        error: 'Grave Dirt is crafted at a Corpse Composter',
+      });
+      expect(craft(farm, inventory, 'boneMeal', 1, { level: 0, unlockedTech: [] })).toEqual({
+        success: false,
+        error: 'Bone Meal unlocks at player level 1',
+      });
+      expect(craft(farm, inventory, 'boneMeal', 0).success).toBe(false);
+      expect(craft(farm, inventory, 'boneMeal', 11).success).toBe(false);
+      expect(craft(farm, withResources({ [Resource.BONES]: 4 })).success).toBe(false);
+    });
+
+    it('should refuse a batch when the station queue is full', () => {
+      const farm = createFarm({ craftingJobs: [createJob('a'), createJob('b')] });
+
+      expect(craft(farm, withResources({ [Resource.BONES]: 10 }))).toEqual({
+        success: false,
+        error: 'Bone Mill queue is full',
+      });
+    });
+
+    it('should refuse batches that could overfill the output stack', () => {
+      const farm = createFarm({ craftingJobs: [createJob('a', { quantity: 2 })] });
+      const inventory = withResources({
+        [Resource.BONES]: 100,
+        [Resource.BONE_MEAL]: BONE_MEAL_STACK - 12,
+      });
+
+      expect(getMaxBatchSize(farm, inventory, 'boneMeal')).toBe(2);
+      expect(craft(farm, inventory, 'boneMeal', 2).success).toBe(true);
+      expect(craft(farm, inventory, 'boneMeal', 3)).toEqual({
+        success: false,
+        error: `Not enough room for Bone Meal (stack limit ${BONE_MEAL_STACK})`,
+      });
+    });
+  });
+
+  describe('updateCrafting', () => {
+    it('should finish the crafts of a batch one by one', () => {
+      const farm = createFarm({ craftingJobs: [createJob('a', { quantity: 3 })] });
+
+      const { farmState, inventory, completed } = updateCrafting(
+        farm,
+        createEmptyInventory(),
+        25 * MINUTE
+      );
+
+      expect(inventory.resources[Resource.BONE_MEAL]).toBe(6);
+      expect(completed).toEqual([
+        { buildingId: 'mill-1', recipeId: 'boneMeal', output: { [Resource.BONE_MEAL]: 3 } },
+        { buildingId: 'mill-1', recipeId: 'boneMeal', output: { [Resource.BONE_MEAL]: 3 } },
+      ]);
+      expect(farmState.craftingJobs).toEqual([
+        createJob('a', { quantity: 1, remainingMs: 5 * MINUTE }),
+      ]);
+    });
+
+    it('should run the next batch after the first and craft faster at higher levels', () => {
+      const farm = createFarm({
+        buildings: [createMill({ level: 2 })],
+        craftingJobs: [createJob('a'), createJob('b')],
+      });
+
+      const { farmState, completed } = updateCrafting(farm, createEmptyInventory(), 8 * MINUTE);
+
+      expect(completed).toHaveLength(1);
+      expect(farmState.craftingJobs).toEqual([createJob('b', { remainingMs: 4 * MINUTE })]);
+    });
+
+    it('should pause damaged stations and hold crafts whose output does not fit', () => {
+      const damaged = createFarm({
+        buildings: [createMill({ state: BuildingState.DAMAGED })],
+        craftingJobs: [createJob('a')],
+      });
+      const full = withResources({ [Resource.BONE_MEAL]: BONE_MEAL_STACK - 2 });
+
+      expect(updateCrafting(damaged, full, 20 * MINUTE).farmState).toBe(damaged);
+
+      const held = updateCrafting(
+        createFarm({ craftingJobs: [createJob('a')] }),
+        full,
+        20 * MINUTE
+      );
+      expect(held.completed).toEqual([]);
+      expect(held.inventory).toBe(full);
+      expect(held.farmState.craftingJobs).toEqual([createJob('a', { remainingMs: 0 })]);
+    });
+
+    it('should refund the batches of a demolished station', () => {
+      const farm = createFarm({ buildings: [], craftingJobs: [createJob('a', { quantity: 2 })] });
+
+      const { farmState, inventory } = updateCrafting(farm, createEmptyInventory(), MINUTE);
+
+      expect(farmState.craftingJobs).toEqual([]);
+      expect(inventory.resources[Resource.BONES]).toBe(10);
+    });
+
+    it('should refund a demolished station past a full inventory', () => {
+      const farm = createFarm({ buildings: [], craftingJobs: [createJob('a', { quantity: 2 })] });
+      const full = { ...createEmptyInventory(10), currentCount: 10 };
+
+      const { farmState, inventory } = updateCrafting(farm, full, MINUTE);
+
+      expect(farmState.craftingJobs).toEqual([]);
+      expect(inventory.resources[Resource.BONES]).toBe(10);
+      expect(inventory.currentCount).toBe(20);
+      expect(inventory.capacity).toBe(10);
+    });
+  });
+
+  describe('cancelCrafting', () => {
+    it('should refund the crafts not yet finished', () => {
+      const farm = createFarm({ craftingJobs: [createJob('a', { quantity: 4 })] });
+
+      const result = cancelCrafting(farm, createEmptyInventory(), 'mill-1', 'a');
+
+      if (!result.success) throw new Error(result.error);
+      expect(result.data.farmState.craftingJobs).toEqual([]);
+      expect(result.data.inventory.resources[Resource.BONES]).toBe(20);
+      expect(cancelCrafting(farm, createEmptyInventory(), 'mill-1', 'zzz').success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Equipment Service - Unit Tests
+ *
+ * Tests zombie equipment:
+ * - Item catalog and item creation
+ * - Equipping and unequipping (slots, swaps, inventory capacity)
+ * - Effective stats and quality scaling
+ * - Preservation Talisman decay reduction
+ * - Equipment returned when zombies leave for good
+ *
+ * Authority: DOMAIN-FARM.md Section "Decay and Maintenance"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { EquipmentSlot, FarmState, Zombie } from '../../../../types/farm';
+import type { Inventory, Item } from '../../../../types/resources';
+import { ItemQuality } from '../../../../types/resources';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createTestInventory } from '../../../../lib/test-utils/factories/inventoryFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { getEffectiveDecayRate } from '../decay';
+import {
+  createItem,
+  equipItem,
+  getEffectiveStats,
+  getEquipmentDecayMultiplier,
+  getSurvivorHp,
+  returnEquipment,
+  unequipItem,
+} from '../equipment';
+
+// Test fixtures
+function createTestItem(type: string, id: string, quality = ItemQuality.COMMON): Item {
+  const item = createItem(type, quality, id);
+  if (!item) throw new Error(`Unknown item ${type}`);
+  return item;
+}
+
+const cleaver = createTestItem('rustyCleaver', 'cleaver');
+const club = createTestItem('boneClub', 'club');
+const mail = createTestItem('boneMail', 'mail');
+const talisman = createTestItem('preservationTalisman', 'talisman');
+
+function createZombie(id: string, worn: Partial<Record<EquipmentSlot, Item>> = {}): Zombie {
+  return createTestZombie({
+    id,
+    stats: {
+      hp: 80,
+      maxHp: 100,
+      attack: 15,
+      defense: 10,
+      speed: 1,
+      range: 1,
+      attackCooldown: 1.5,
+      decayRate: 1,
+    },
+    equipment: {
+      weapon: worn.weapon?.id ?? null,
+      armor: worn.armor?.id ?? null,
+      accessory: worn.accessory?.id ?? null,
+      items: Object.values(worn),
+    },
+  });
+}
+
+function createInventory(items: Item[], capacity = 100): Inventory {
+  return createTestInventory({ items, capacity, currentCount: items.length });
+}
+
+function createFarm(zombie: Zombie): FarmState {
+  return createTestFarmState({ activeZombies: [zombie], cryptZombies: [] });
+}
+
+function getZombie(farm: FarmState): Zombie | undefined {
+  return farm.activeZombies[0];
+}
+
+describe('equipment', () => {
+  describe('createItem', () => {
+    it('should create catalog items and refuse unknown types', () => {
+      expect(createItem('boneMail', ItemQuality.RARE, 'i1')).toEqual({
+        id: 'i1',
+        type: 'boneMail',
+        name: 'Bone Mail',
+        description: expect.any(String),
+        quality: ItemQuality.RARE,
+        data: {},
+      });
+      expect(createItem('holyHandGrenade', ItemQuality.RARE, 'i2')).toBeNull();
+    });
+  });
+
+  describe('equipItem', () => {
+    it('should move the item from the inventory onto the zombie', () => {
+      const result = equipItem(
+        createFarm(createZombie('z1')),
+        createInventory([cleaver]),
+        'z1',
+        'weapon',
+        'cleaver'
+      );
+
+      if (!result.success) throw new Error(result.error);
+      const zombie = getZombie(result.data.farmState);
+      expect(zombie?.equipment.weapon).toBe('cleaver');
+      expect(zombie?.equipment.items).toEqual([cleaver]);
+      expect(result.data.inventory.items).toEqual([]);
+      expect(result.data.inventory.currentCount).toBe(0);
+    });
+
+    it('should return the replaced item to the inventory', () => {
+      const result = equipItem(
+        createFarm(createZombie('z1', { weapon: cleaver })),
+        createInventory([club]),
+        'z1',
+        'weapon',
+        'club'
+      );
+
+      if (!result.success) throw new Error(result.error);
+      expect(getZombie(result.data.farmState)?.equipment.items).toEqual([club]);
+      expect(result.data.inventory.items).toEqual([cleaver]);
+    });
+
+    it('should refuse the wrong slot, unknown slots and missing items', () => {
+      const farm = createFarm(createZombie('z1'));
+      const inventory = createInventory([cleaver]);
+
+      expect(equipItem(farm, inventory, 'z1', 'armor', 'cleaver')).toEqual({
+        success: false,
+        error: 'Rusty Cleaver goes in the weapon slot',
+      });
+      expect(equipItem(farm, inventory, 'z1', 'hat', 'cleaver')).toEqual({
+        success: false,
+        error: 'Unknown equipment slot: hat',
+      });
+      expect(equipItem(farm, inventory, 'z1', 'weapon', 'club').success).toBe(false);
+      expect(equipItem(farm, inventory, 'z9', 'weapon', 'cleaver').success).toBe(false);
+    });
+  });
+
+  describe('unequipItem', () => {
+    it('should move the item back to the inventory', () => {
+      const result = unequipItem(
+        createFarm(createZombie('z1', { weapon: cleaver })),
+        createInventory([]),
+        'z1',
+        'weapon'
+      );
+
+      if (!result.success) throw new Error(result.error);
+      expect(getZombie(result.data.farmState)?.equipment).toMatchObject({
+        weapon: null,
+        items: [],
+      });
+      expect(result.data.inventory.items).toEqual([cleaver]);
+    });
+
+    it('should refuse empty slots and a full inventory', () => {
+      const farm = createFarm(createZombie('z1', { weapon: cleaver }));
+
+      expect(unequipItem(farm, createInventory([]), 'z1', 'armor')).toEqual({
+        success: false,
+        error: 'Nothing is equipped in the armor slot',
+      });
+      expect(unequipItem(farm, createInventory([club], 1), 'z1', 'weapon').success).toBe(false);
+    });
+  });
+
+  describe('getEffectiveStats', () => {
+    it('should add item bonuses, raising current HP with max HP', () => {
+      const stats = getEffectiveStats(createZombie('z1', { weapon: cleaver, armor: mail }));
+
+      expect(stats).toMatchObject({ hp: 100, maxHp: 120, attack: 20, defense: 16 });
+    });
+
+    it('should scale bonuses with item quality', () => {
+      const epic = createTestItem('rustyCleaver', 'epic', ItemQuality.EPIC);
+
+      expect(getEffectiveStats(createZombie('z1', { weapon: epic })).attack).toBe(25);
+    });
+
+    it('should keep the stats of an unequipped zombie', () => {
+      const zombie = createZombie('z1');
+
+      expect(getEffectiveStats(zombie)).toBe(zombie.stats);
+    });
+  });
+
+  describe('getSurvivorHp', () => {
+    it('should take the max HP bonus off HP left after a fight', () => {
+      const zombie = createZombie('z1', { armor: mail });
+
+      expect(getSurvivorHp(zombie, 90)).toBe(70);
+      expect(getSurvivorHp(zombie, 120)).toBe(100);
+      expect(getSurvivorHp(zombie, 10)).toBe(1);
+      expect(getSurvivorHp(createZombie('z2'), 90)).toBe(90);
+    });
+  });
+
+  describe('preservation', () => {
+    it('should halve decay with a Preservation Talisman', () => {
+      const plain = createZombie('z1');
+      const preserved = createZombie('z2', { accessory: talisman });
+
+      expect(getEquipmentDecayMultiplier(preserved)).toBe(0.5);
+      expect(getEffectiveDecayRate(preserved)).toBeCloseTo(getEffectiveDecayRate(plain) * 0.5);
+    });
+  });
+
+  describe('returnEquipment', () => {
+    it('should return the items of departed zombies past capacity', () => {
+      const inventory = returnEquipment(createInventory([club], 1), [
+        createZombie('z1', { weapon: cleaver, armor: mail }),
+        createZombie('z2'),
+      ]);
+
+      expect(inventory.items).toEqual([club, cleaver, mail]);
+      expect(inventory.currentCount).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Farm Raid Service - Unit Tests
+ *
+ * Tests farm raids per the PRD's Base Defense & Raids:
+ * - Raid chance (grace period, fog, blood moon) and scheduling
+ * - Raiders spawning at the farm edges
+ * - Resolution against towers, traps, walls and guarding zombies
+ * - Damaged buildings, stolen resources and true zombie death
+ *
+ * Authority: PRD Base Defense & Raids, DOMAIN-FARM.md Section "Zombie Lifecycle on the Farm"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Building, ScheduledFarmRaid } from '../../../../types/farm';
+import { BuildingState, BuildingType, ZombieAIState } from '../../../../types/farm';
+import type { TimeState } from '../../../../types/global';
+import { Season, Weather } from '../../../../types/global';
+import { ItemQuality, Resource } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createTestInventoryWithResources } from '../../../../lib/test-utils/factories/inventoryFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { createItem } from '../equipment';
+import {
+  getFarmRaidChance,
+  getRaiderCount,
+  scheduleFarmRaid,
+  spawnFarmRaiders,
+  resolveFarmRaid,
+  updateFarmRaids,
+} from '../farmRaids';
+
+// Test fixtures
+const config = gameConfig.FARM_RAIDS;
+
+function createTime(overrides: Partial<TimeState> = {}): TimeState {
+  return {
+    day: 5,
+    hour: 8,
+    minute: 0,
+    season: Season.SPRING,
+    isDaytime: true,
+    weather: Weather.CLEAR,
+    lastUpdate: 0,
+    ...overrides,
+  };
+}
+
+function createBuilding(type: BuildingType, overrides: Partial<Building> = {}): Building {
+  return {
+    id: `${type}-1`,
+    type,
+    position: { x: 10, y: 10 },
+    level: 1,
+    state: BuildingState.ACTIVE,
+    constructionStartedAt: null,
+    constructionTimeRemaining: null,
+    data: {},
+    ...overrides,
+  };
+}
+
+function createGuard(id: string, hp: number, attack: number) {
+  const zombie = createTestZombie({ id, aiState: ZombieAIState.GUARDING });
+  return { ...zombie, stats: { ...zombie.stats, hp, attack } };
+}
+
+const RAID: ScheduledFarmRaid = { day: 5, hour: 22, raiders: 2, isBloodMoon: false };
+
+const inventory = createTestInventoryWithResources({
+  [Resource.BONES]: 100,
+  [Resource.ROTTEN_WOOD]: 50,
+});
+
+describe('farmRaids', () => {
+  describe('getFarmRaidChance', () => {
+    it('should not raid during the grace period', () => {
+      expect(getFarmRaidChance(createTime({ day: config.GRACE_DAYS - 1 }))).toBe(0);
+      expect(getFarmRaidChance(createTime({ day: config.GRACE_DAYS }))).toBe(config.DAILY_CHANCE);
+    });
+
+    it('should lower the chance in fog and raise it on a blood moon', () => {
+      expect(getFarmRaidChance(createTime({ weather: Weather.FOG }))).toBeCloseTo(
+        config.DAILY_CHANCE * config.FOG_CHANCE_MULTIPLIER
+      );
+      expect(getFarmRaidChance(createTime({ day: 7 }))).toBeCloseTo(
+        config.DAILY_CHANCE * config.BLOOD_MOON_CHANCE_MULTIPLIER
+      );
+    });
+  });
+
+  describe('scheduleFarmRaid', () => {
+    it('should schedule a night raid when the roll hits', () => {
+      const farm = scheduleFarmRaid(createTestFarmState(), createTime(), () => 0);
+
+      expect(farm.scheduledRaid).toEqual({
+        day: 5,
+        hour: config.RAID_HOUR,
+        raiders: getRaiderCount(5),
+        isBloodMoon: false,
+      });
+    });
+
+    it('should not schedule when the roll misses or a raid is already coming', () => {
+      const farm = createTestFarmState();
+      const scheduled = createTestFarmState({ scheduledRaid: RAID });
+
+      expect(scheduleFarmRaid(farm, createTime(), () => 0.99)).toBe(farm);
+      expect(scheduleFarmRaid(scheduled, createTime({ day: 6 }), () => 0)).toBe(scheduled);
+    });
+
+    it('should bring more raiders on a blood moon', () => {
+      expect(getRaiderCount(7)).toBeGreaterThan(getRaiderCount(6));
+    });
+  });
+
+  describe('spawnFarmRaiders', () => {
+    it('should place raiders on the farm edges', () => {
+      let seed = 0;
+      const random = () => (seed = (seed + 0.37) % 1);
+      const farm = createTestFarmState();
+      const { width, height } = farm.gridSize;
+
+      for (const raider of spawnFarmRaiders(farm, 8, random)) {
+        const { x, y } = raider.position;
+        expect(x === 0 || y === 0 || x === width - 1 || y === height - 1).toBe(true);
+        expect(raider.hp).toBe(config.RAIDER_HP);
+      }
+    });
+  });
+
+  describe('resolveFarmRaid', () => {
+    it('should let raiders damage buildings and steal from an undefended farm', () => {
+      const farm = createTestFarmState({
+        buildings: [createBuilding(BuildingType.BONE_MILL)],
+      });
+
+      const {
+        farmState,
+        inventory: after,
+        report,
+      } = resolveFarmRaid(farm, inventory, RAID, 1000, () => 0);
+
+      expect(report.outcome).toBe('plundered');
+      expect(report.raidersEscaped).toBe(2);
+      expect(report.damagedBuildingIds).toEqual([`${BuildingType.BONE_MILL}-1`]);
+      expect(farmState.buildings[0]?.state).toBe(BuildingState.DAMAGED);
+      expect(report.stolen[Resource.BONES]).toBe(100 * config.MAX_STOLEN_FRACTION);
+      expect(after.resources[Resource.BONES]).toBe(90);
+      expect(farmState.scheduledRaid).toBeNull();
+      expect(farmState.lastRaidReport).toBe(report);
+    });
+
+    it('should repel raiders with guard towers and guarding zombies', () => {
+      const farm = createTestFarmState({
+        buildings: [createBuilding(BuildingType.GUARD_TOWER, { level: 3 })],
+        activeZombies: [createGuard('guard-1', 100, 20)],
+      });
+
+      const {
+        farmState,
+        inventory: after,
+        report,
+      } = resolveFarmRaid(farm, inventory, RAID, 1000, () => 0);
+
+      expect(report.outcome).toBe('repelled');
+      expect(report.raidersKilled).toBe(2);
+      expect(report.stolen).toEqual({});
+      expect(after).toBe(inventory);
+      expect(farmState.activeZombies[0]?.stats.hp).toBeLessThan(100);
+    });
+
+    it('should destroy guards that fall to 0 HP for good', () => {
+      const farm = createTestFarmState({
+        activeZombies: [createGuard('guard-1', 1, 1), createTestZombie({ id: 'idle-1' })],
+      });
+
+      const { farmState, report } = resolveFarmRaid(farm, inventory, RAID, 1000, () => 0);
+
+      expect(report.killedZombieIds).toEqual(['guard-1']);
+      expect(farmState.activeZombies.map((z) => z.id)).toEqual(['idle-1']);
+    });
+
+    it('should fight guards with their equipment', () => {
+      const club = createItem('boneClub', ItemQuality.COMMON, 'club');
+      const mail = createItem('boneMail', ItemQuality.COMMON, 'mail');
+      if (!club || !mail) throw new Error('Missing item');
+      const guard = createGuard('guard-1', 200, 1);
+      const farm = createTestFarmState({
+        activeZombies: [
+          {
+            ...guard,
+            stats: { ...guard.stats, maxHp: 200 },
+            equipment: { weapon: 'club', armor: 'mail', accessory: null, items: [club, mail] },
+          },
+        ],
+      });
+
+      const { farmState, report } = resolveFarmRaid(farm, inventory, RAID, 1000, () => 0);
+
+      expect(report.raidersKilled).toBe(2);
+      // 220 effective HP less 80 damage, then the armor's 20 bonus HP
+      expect(farmState.activeZombies[0]?.stats.hp).toBe(120);
+    });
+
+    it('should spend traps and hold raiders behind a stone wall', () => {
+      const farm = createTestFarmState({
+        buildings: [
+          createBuilding(BuildingType.TRAP, { id: 'trap-1' }),
+          createBuilding(BuildingType.STONE_WALL, { id: 'wall-1' }),
+        ],
+      });
+
+      const { farmState, report } = resolveFarmRaid(farm, inventory, RAID, 1000, () => 0);
+
+      expect(farmState.buildings.find((b) => b.id === 'trap-1')?.state).toBe(
+        BuildingState.DISABLED
+      );
+      expect(report.raidersKilled).toBe(1);
+      expect(report.damagedBuildingIds).toEqual([]);
+      expect(report.stolen).toEqual({});
+      expect(report.outcome).toBe('repelled');
+    });
+  });
+
+  describe('updateFarmRaids', () => {
+    it('should wait for the raid hour, then resolve the raid', () => {
+      const farm = createTestFarmState({ scheduledRaid: RAID });
+
+      const early = updateFarmRaids(farm, inventory, createTime({ hour: 21 }), false, 1000);
+      expect(early.report).toBeNull();
+      expect(early.farmState).toBe(farm);
+
+      const due = updateFarmRaids(farm, inventory, createTime({ hour: 22 }), false, 1000, () => 0);
+      expect(due.report?.raiders).toBe(2);
+      expect(due.farmState.scheduledRaid).toBeNull();
+    });
+
+    it('should only roll for new raids on a new day', () => {
+      const farm = createTestFarmState();
+
+      expect(updateFarmRaids(farm, inventory, createTime(), false, 0, () => 0).farmState).toBe(
+        farm
+      );
+      expect(
+        updateFarmRaids(farm, inventory, createTime(), true, 0, () => 0).farmState.scheduledRaid
+      ).not.toBeNull();
+    });
+
+    it('should re-arm spent traps when a new day starts', () => {
+      const farm = createTestFarmState({
+        buildings: [createBuilding(BuildingType.TRAP, { state: BuildingState.DISABLED })],
+      });
+
+      const sameDay = updateFarmRaids(farm, inventory, createTime(), false, 0, () => 0.99);
+      const nextDay = updateFarmRaids(farm, inventory, createTime(), true, 0, () => 0.99);
+
+      expect(sameDay.farmState.buildings[0]?.state).toBe(BuildingState.DISABLED);
+      expect(nextDay.farmState.buildings[0]?.state).toBe(BuildingState.ACTIVE);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Zombie Fusion Service - Unit Tests
+ *
+ * Tests fusion per the PRD's Zombie Fusion:
+ * - Compatibility (max level, tiers, fused zombies, same zombie)
+ * - Hybrid types and the stat preview
+ * - Fusing: cost, consumed parents, lineage, roster or Crypt placement
+ * - Quality upgrades and inherited mutations
+ *
+ * Authority: PRD Zombie Fusion, DOMAIN-FARM.md Section "Zombies"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { FarmState, Zombie } from '../../../../types/farm';
+import { ZombieQuality, ZombieType } from '../../../../types/farm';
+import { Currency } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createInventoryWithCurrencies } from '../../../../lib/test-utils/factories/inventoryFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { canFuse, fuseZombies, getHybridType, isFusedZombie, previewFusion } from '../fusion';
+
+// Test fixtures
+const MAX_LEVEL = gameConfig.PROGRESSION.MAX_ZOMBIE_LEVEL;
+const COST = gameConfig.FUSION.COST.currencies[Currency.SOUL_ESSENCE];
+
+const inventory = createInventoryWithCurrencies(0, 50);
+
+function createShambler(id: string, overrides: Partial<Zombie> = {}): Zombie {
+  return createTestZombie({
+    id,
+    name: 'Rotting Walker',
+    type: ZombieType.SHAMBLER,
+    level: MAX_LEVEL,
+    mutations: [],
+    stats: {
+      hp: 500,
+      maxHp: 600,
+      attack: 100,
+      defense: 60,
+      speed: 1,
+      range: 1,
+      attackCooldown: 1.5,
+      decayRate: 1,
+    },
+    position: { x: 3, y: 4 },
+    ...overrides,
+  });
+}
+
+function createRunner(id: string, overrides: Partial<Zombie> = {}): Zombie {
+  return createShambler(id, {
+    name: 'Putrid Fiend',
+    type: ZombieType.RUNNER,
+    stats: {
+      hp: 400,
+      maxHp: 400,
+      attack: 120,
+      defense: 30,
+      speed: 2,
+      range: 1,
+      attackCooldown: 0.8,
+      decayRate: 1.2,
+    },
+    position: { x: 8, y: 2 },
+    ...overrides,
+  });
+}
+
+function createFarm(overrides: Partial<FarmState> = {}): FarmState {
+  return createTestFarmState({
+    activeZombies: [createShambler('a'), createRunner('b')],
+    cryptZombies: [],
+    ...overrides,
+  });
+}
+
+function fuse(farm: FarmState, random: () => number = () => 0.99) {
+  const result = fuseZombies(farm, inventory, 'a', 'b', 'fused', 1000, random);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+describe('fusion', () => {
+  describe('canFuse', () => {
+    it('should allow max-level zombies of neighboring tiers', () => {
+      const brute = createShambler('brute', { type: ZombieType.BRUTE });
+
+      expect(canFuse(createShambler('a'), createRunner('b')).success).toBe(true);
+      expect(canFuse(createShambler('a'), brute).success).toBe(true);
+    });
+
+    it('should refuse zombies below max level', () => {
+      const young = createRunner('b', { name: 'Young Runner', level: MAX_LEVEL - 1 });
+
+      expect(canFuse(createShambler('a'), young)).toEqual({
+        success: false,
+        error: `Young Runner must be level ${MAX_LEVEL} to fuse`,
+      });
+    });
+
+    it('should refuse tiers too far apart and a zombie with itself', () => {
+      const abomination = createShambler('big', { type: ZombieType.ABOMINATION });
+      const zombie = createShambler('a');
+
+      expect(canFuse(zombie, abomination)).toEqual({
+        success: false,
+        error: 'Zombie tiers are too far apart to fuse',
+      });
+      expect(canFuse(zombie, zombie).success).toBe(false);
+    });
+
+    it('should protect fused zombies from another fusion', () => {
+      const { zombie } = fuse(createFarm());
+      const hybrid = { ...zombie, level: MAX_LEVEL };
+
+      expect(isFusedZombie(hybrid)).toBe(true);
+      expect(canFuse(hybrid, createShambler('c'))).toEqual({
+        success: false,
+        error: 'Rotting Fiend has already been fused',
+      });
+    });
+  });
+
+  describe('getHybridType', () => {
+    it('should resolve listed pairs in either order', () => {
+      expect(getHybridType(ZombieType.SHAMBLER, ZombieType.RUNNER)).toBe(ZombieType.GHOUL);
+      expect(getHybridType(ZombieType.RUNNER, ZombieType.SHAMBLER)).toBe(ZombieType.GHOUL);
+      expect(getHybridType(ZombieType.SHAMBLER, ZombieType.SHAMBLER)).toBe(ZombieType.BRUTE);
+    });
+
+    it('should keep the higher-tier parent type for other pairs', () => {
+      expect(getHybridType(ZombieType.SHAMBLER, ZombieType.SPITTER)).toBe(ZombieType.SPITTER);
+      expect(getHybridType(ZombieType.LICH, ZombieType.LICH)).toBe(ZombieType.LICH);
+    });
+  });
+
+  describe('previewFusion', () => {
+    it('should combine a share of the stats and keep the best of the rest', () => {
+      expect(previewFusion(createShambler('a'), createRunner('b'))).toEqual({
+        hp: 700,
+        maxHp: 700,
+        attack: 154,
+        defense: 63,
+        speed: 2,
+        range: 1,
+        attackCooldown: 0.8,
+        decayRate: 1,
+      });
+    });
+
+    it('should scale the stats with a better quality', () => {
+      const stats = previewFusion(createShambler('a'), createRunner('b'), ZombieQuality.SILVER);
+
+      expect(stats.maxHp).toBe(Math.round(1000 * 0.7 * 1.25));
+    });
+  });
+
+  describe('fuseZombies', () => {
+    it('should consume both parents, charge the cost and record the lineage', () => {
+      const { farmState, inventory: after, zombie } = fuse(createFarm());
+
+      expect(farmState.activeZombies.map((z) => z.id)).toEqual(['fused']);
+      expect(after.currencies[Currency.SOUL_ESSENCE]).toBe(50 - COST);
+      expect(zombie).toMatchObject({
+        type: ZombieType.GHOUL,
+        name: 'Rotting Fiend',
+        quality: ZombieQuality.BRONZE,
+        level: 1,
+        xp: 0,
+        position: null,
+        createdAt: 1000,
+      });
+      expect(zombie.lineage).toEqual({
+        parents: [
+          { id: 'a', type: ZombieType.SHAMBLER, name: 'Rotting Walker', quality: 'bronze' },
+          { id: 'b', type: ZombieType.RUNNER, name: 'Putrid Fiend', quality: 'bronze' },
+        ],
+        fusedAt: 1000,
+      });
+      expect(farmState.activeZombies[0]?.position).toEqual({ x: 3, y: 4 });
+    });
+
+    it('should fuse Crypt zombies into the Crypt', () => {
+      const farm = createFarm({
+        activeZombies: [],
+        cryptZombies: [createShambler('a', { position: null }), createRunner('b')],
+      });
+
+      const { farmState } = fuse(farm);
+
+      expect(farmState.activeZombies).toEqual([]);
+      expect(farmState.cryptZombies.map((z) => z.id)).toEqual(['fused']);
+    });
+
+    it('should refuse without enough Soul Essence', () => {
+      const poor = createInventoryWithCurrencies(0, COST - 1);
+
+      expect(fuseZombies(createFarm(), poor, 'a', 'b', 'fused', 1000).success).toBe(false);
+      expect(fuseZombies(createFarm(), inventory, 'a', 'missing', 'fused', 1000)).toEqual({
+        success: false,
+        error: 'Zombie missing not found',
+      });
+    });
+
+    it('should rise one quality tier when the upgrade roll hits', () => {
+      const farm = createFarm({
+        activeZombies: [
+          createShambler('a', { quality: ZombieQuality.GOLD }),
+          createRunner('b', { quality: ZombieQuality.SILVER }),
+        ],
+      });
+
+      expect(fuse(farm, () => 0.99).zombie.quality).toBe(ZombieQuality.GOLD);
+      expect(fuse(farm, () => 0).zombie.quality).toBe(ZombieQuality.DIAMOND);
+    });
+
+    it('should inherit the strongest mutation of each parent', () => {
+      const farm = createFarm({
+        activeZombies: [
+          createShambler('a', { mutations: ['swift', 'armoredSkin'] }),
+          createRunner('b', { mutations: ['Pack Leader', 'venomous'] }),
+        ],
+      });
+
+      expect(fuse(farm).zombie.mutations).toEqual(['armoredSkin', 'packLeader']);
+    });
+
+    it('should skip inherited mutations without a free slot', () => {
+      const farm = createFarm({
+        activeZombies: [
+          createShambler('a', { mutations: ['bloodlust'] }),
+          createRunner('b', { mutations: ['dreadAura', 'razorClaws'] }),
+        ],
+      });
+      const twins = createFarm({
+        activeZombies: [
+          createShambler('a', { mutations: ['swift'] }),
+          createRunner('b', { mutations: ['swift'] }),
+        ],
+      });
+
+      expect(fuse(farm).zombie.mutations).toEqual(['bloodlust', 'razorClaws']);
+      expect(fuse(twins).zombie.mutations).toEqual(['swift']);
+    });
+
+    it('should sometimes add a new mutation', () => {
+      expect(fuse(createFarm(), () => 0).zombie.mutations).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Mutation Lab Service - Unit Tests
+ *
+ * Tests forced mutations per the PRD's Forced Mutations:
+ * - Starting a job (catalyst paid, zombie leaves the roster, queue limits)
+ * - Catalyst outcomes (physical, ability, targeted, epic) and slot limits
+ * - Job timers, chambers, paused labs and success rolls
+ * - Zombies returning to the roster or the Crypt
+ *
+ * Authority: PRD Forced Mutations (Using the Mutation Lab)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Building, FarmState, MutationJob } from '../../../../types/farm';
+import {
+  BuildingState,
+  BuildingType,
+  MutationCategory,
+  MutationRarity,
+} from '../../../../types/farm';
+import { Resource } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createTestInventoryWithResources } from '../../../../lib/test-utils/factories/inventoryFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { getMutation } from '../mutations';
+import {
+  cancelMutation,
+  getLabMutationOptions,
+  getLabSuccessChance,
+  getMutationJobs,
+  startMutation,
+  updateMutationLab,
+} from '../mutationLab';
+
+// Test fixtures
+const MS_PER_GAME_HOUR = gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION / 24;
+
+const inventory = createTestInventoryWithResources({
+  [Resource.RADIOACTIVE_WASTE]: 10,
+  [Resource.CORRUPTED_DNA]: 10,
+  [Resource.EVOLUTION_SERUM]: 2,
+  [Resource.PRIMAL_ESSENCE]: 2,
+});
+
+function createZombie(id: string, mutations: string[] = []) {
+  return createTestZombie({ id, mutations });
+}
+
+function createLab(overrides: Partial<Building> = {}): Building {
+  return {
+    id: 'lab-1',
+    type: BuildingType.MUTATION_LAB,
+    position: { x: 4, y: 6 },
+    level: 1,
+    state: BuildingState.ACTIVE,
+    constructionStartedAt: null,
+    constructionTimeRemaining: null,
+    data: {},
+    ...overrides,
+  };
+}
+
+function createFarm(overrides: Partial<FarmState> = {}): FarmState {
+  return createTestFarmState({
+    buildings: [createLab()],
+    activeZombies: [createZombie('z1'), createZombie('z2')],
+    ...overrides,
+  });
+}
+
+function createJob(zombieId: string, overrides: Partial<MutationJob> = {}): MutationJob {
+  return {
+    buildingId: 'lab-1',
+    zombie: { ...createZombie(zombieId), position: null },
+    catalyst: Resource.RADIOACTIVE_WASTE,
+    targetMutation: null,
+    remainingMs: 2 * MS_PER_GAME_HOUR,
+    queuedAt: 0,
+    ...overrides,
+  };
+}
+
+function start(farm: FarmState, zombieId: string, catalyst: Resource, target?: string) {
+  return startMutation(farm, inventory, 'lab-1', zombieId, catalyst, target ?? null, 1000);
+}
+
+describe('mutationLab', () => {
+  describe('startMutation', () => {
+    it('should take the zombie off the roster and pay the catalyst', () => {
+      const result = start(createFarm(), 'z1', Resource.RADIOACTIVE_WASTE);
+
+      if (!result.success) throw new Error(result.error);
+      const { farmState, inventory: after } = result.data;
+      expect(farmState.activeZombies.map((z) => z.id)).toEqual(['z2']);
+      expect(getMutationJobs(farmState)).toEqual([
+        expect.objectContaining({
+          buildingId: 'lab-1',
+          catalyst: Resource.RADIOACTIVE_WASTE,
+          remainingMs: 2 * MS_PER_GAME_HOUR,
+          queuedAt: 1000,
+        }),
+      ]);
+      expect(farmState.mutationJobs?.[0]?.zombie.position).toBeNull();
+      expect(after.resources[Resource.RADIOACTIVE_WASTE]).toBe(7);
+    });
+
+    it('should refuse buildings that are not working labs', () => {
+      const damaged = createFarm({ buildings: [createLab({ state: BuildingState.DAMAGED })] });
+      const mill = createFarm({ buildings: [createLab({ type: BuildingType.BONE_MILL })] });
+
+      expect(start(damaged, 'z1', Resource.RADIOACTIVE_WASTE)).toEqual({
+        success: false,
+        error: 'Mutation Lab is not operational',
+      });
+      expect(start(mill, 'z1', Resource.RADIOACTIVE_WASTE)).toEqual({
+        success: false,
+        error: 'Building lab-1 is not a Mutation Lab',
+      });
+    });
+
+    it('should refuse zombies outside the roster and non-catalysts', () => {
+      const farm = createFarm();
+
+      expect(start(farm, 'missing', Resource.RADIOACTIVE_WASTE).success).toBe(false);
+      expect(start(farm, 'z1', Resource.BONES)).toEqual({
+        success: false,
+        error: 'bones is not a Mutation Lab catalyst',
+      });
+    });
+
+    it('should refuse jobs beyond the chambers and queue', () => {
+      const zombies = ['z1', 'z2', 'z3', 'z4'].map((id) => createZombie(id));
+      let farm = createFarm({ activeZombies: zombies });
+
+      for (const id of ['z1', 'z2', 'z3']) {
+        const result = start(farm, id, Resource.RADIOACTIVE_WASTE);
+        if (!result.success) throw new Error(result.error);
+        farm = result.data.farmState;
+      }
+
+      expect(start(farm, 'z4', Resource.RADIOACTIVE_WASTE)).toEqual({
+        success: false,
+        error: 'Mutation Lab queue is full',
+      });
+    });
+
+    it('should require a target for an Evolution Serum', () => {
+      const farm = createFarm();
+
+      expect(start(farm, 'z1', Resource.EVOLUTION_SERUM).success).toBe(false);
+      expect(start(farm, 'z1', Resource.EVOLUTION_SERUM, 'Pack Leader')).toMatchObject({
+        success: true,
+      });
+    });
+
+    it('should refuse a catalyst whose category slots are full', () => {
+      const farm = createFarm({
+        activeZombies: [createZombie('z1', ['venomous'])],
+      });
+
+      expect(start(farm, 'z1', Resource.CORRUPTED_DNA)).toEqual({
+        success: false,
+        error: 'Zombie has no free mutation slot for this catalyst',
+      });
+      expect(start(farm, 'z1', Resource.RADIOACTIVE_WASTE).success).toBe(true);
+    });
+  });
+
+  describe('getLabMutationOptions', () => {
+    it('should limit outcomes to the catalyst category or rarity', () => {
+      const zombie = { mutations: [] };
+
+      for (const m of getLabMutationOptions(zombie, Resource.RADIOACTIVE_WASTE)) {
+        expect(m.category).toBe(MutationCategory.PHYSICAL);
+      }
+      for (const m of getLabMutationOptions(zombie, Resource.PRIMAL_ESSENCE)) {
+        expect(m.rarity).toBe(MutationRarity.EPIC);
+      }
+      expect(getLabMutationOptions(zombie, Resource.CORRUPTED_DNA).length).toBeGreaterThan(0);
+    });
+
+    it('should lower the success chance for each mutation the zombie has', () => {
+      const { successChance } = gameConfig.MUTATION_LAB.CATALYSTS[Resource.RADIOACTIVE_WASTE];
+
+      expect(getLabSuccessChance({ mutations: [] }, Resource.RADIOACTIVE_WASTE)).toBe(
+        successChance
+      );
+      expect(getLabSuccessChance({ mutations: ['swift'] }, Resource.RADIOACTIVE_WASTE)).toBeCloseTo(
+        successChance - gameConfig.MUTATION_LAB.SUCCESS_PENALTY_PER_MUTATION
+      );
+    });
+  });
+
+  describe('updateMutationLab', () => {
+    it('should count down the running job and leave queued jobs waiting', () => {
+      const farm = createFarm({ mutationJobs: [createJob('z3'), createJob('z4')] });
+
+      const { farmState, completed } = updateMutationLab(farm, MS_PER_GAME_HOUR, () => 0);
+
+      expect(completed).toEqual([]);
+      expect(farmState.mutationJobs?.map((job) => job.remainingMs)).toEqual([
+        MS_PER_GAME_HOUR,
+        2 * MS_PER_GAME_HOUR,
+      ]);
+    });
+
+    it('should mutate a zombie on success and return it beside the lab', () => {
+      const farm = createFarm({ mutationJobs: [createJob('z3')] });
+
+      const { farmState, completed } = updateMutationLab(farm, 2 * MS_PER_GAME_HOUR, () => 0);
+
+      const zombie = farmState.activeZombies.find((z) => z.id === 'z3');
+      expect(completed).toEqual([{ buildingId: 'lab-1', zombieId: 'z3', mutation: 'razorClaws' }]);
+      expect(zombie?.mutations).toEqual(['razorClaws']);
+      expect(zombie?.position).toEqual({ x: 4, y: 6 });
+      expect(getMutationJobs(farmState)).toEqual([]);
+    });
+
+    it('should return the zombie unchanged when the roll fails', () => {
+      const farm = createFarm({ mutationJobs: [createJob('z3')] });
+
+      const { farmState, completed } = updateMutationLab(farm, 2 * MS_PER_GAME_HOUR, () => 0.99);
+
+      expect(completed).toEqual([{ buildingId: 'lab-1', zombieId: 'z3', mutation: null }]);
+      expect(farmState.activeZombies.find((z) => z.id === 'z3')?.mutations).toEqual([]);
+    });
+
+    it('should give the targeted mutation for an Evolution Serum', () => {
+      const farm = createFarm({
+        mutationJobs: [
+          createJob('z3', { catalyst: Resource.EVOLUTION_SERUM, targetMutation: 'packLeader' }),
+        ],
+      });
+
+      const { completed } = updateMutationLab(farm, 8 * MS_PER_GAME_HOUR, () => 0);
+
+      expect(completed[0]?.mutation).toBe('packLeader');
+      expect(getMutation(completed[0]?.mutation ?? '')?.category).toBe(MutationCategory.ABILITY);
+    });
+
+    it('should carry leftover time into the next queued job', () => {
+      const farm = createFarm({ mutationJobs: [createJob('z3'), createJob('z4')] });
+
+      const { farmState, completed } = updateMutationLab(farm, 3 * MS_PER_GAME_HOUR, () => 0.99);
+
+      expect(completed.map((outcome) => outcome.zombieId)).toEqual(['z3']);
+      expect(farmState.mutationJobs?.[0]?.remainingMs).toBe(MS_PER_GAME_HOUR);
+    });
+
+    it('should run one job per chamber', () => {
+      const farm = createFarm({
+        buildings: [createLab({ level: 2 })],
+        mutationJobs: [createJob('z3'), createJob('z4')],
+      });
+
+      const { completed } = updateMutationLab(farm, 2 * MS_PER_GAME_HOUR, () => 0.99);
+
+      expect(completed.map((outcome) => outcome.zombieId)).toEqual(['z3', 'z4']);
+    });
+
+    it('should pause jobs in a damaged lab', () => {
+      const farm = createFarm({
+        buildings: [createLab({ state: BuildingState.DAMAGED })],
+        mutationJobs: [createJob('z3')],
+      });
+
+      expect(updateMutationLab(farm, 2 * MS_PER_GAME_HOUR, () => 0).farmState).toBe(farm);
+    });
+
+    it('should send finished zombies to the Crypt when the roster is full', () => {
+      const farm = createFarm({ activeZombieCapacity: 2, mutationJobs: [createJob('z3')] });
+
+      const { farmState } = updateMutationLab(farm, 2 * MS_PER_GAME_HOUR, () => 0.99);
+
+      expect(farmState.activeZombies).toHaveLength(2);
+      expect(farmState.cryptZombies.map((z) => z.id)).toEqual(['z3']);
+    });
+
+    it('should release the zombies of a demolished lab', () => {
+      const farm = createFarm({ buildings: [], mutationJobs: [createJob('z3')] });
+
+      const { farmState, completed } = updateMutationLab(farm, 1, () => 0);
+
+      expect(completed).toEqual([{ buildingId: 'lab-1', zombieId: 'z3', mutation: null }]);
+      expect(farmState.activeZombies.map((z) => z.id)).toContain('z3');
+    });
+  });
+
+  describe('cancelMutation', () => {
+    it('should return the zombie without refunding the catalyst', () => {
+      const farm = createFarm({ mutationJobs: [createJob('z3')] });
+
+      const result = cancelMutation(farm, 'lab-1', 'z3');
+
+      if (!result.success) throw new Error(result.error);
+      expect(getMutationJobs(result.data)).toEqual([]);
+      expect(result.data.activeZombies.map((z) => z.id)).toContain('z3');
+      expect(cancelMutation(farm, 'lab-1', 'z1').success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Mutation Service - Unit Tests
+ *
+ * Tests the mutation registry per the PRD's Natural Mutations:
+ * - Catalog lookup by ID and by legacy display name
+ * - Mutation odds (quality, catalysts, fog, night, blood moon)
+ * - Rarity-weighted rolls and mutation slots
+ * - Stat, decay, happiness and farm behavior modifiers
+ * - Plot catalysts and harvest odds
+ *
+ * Authority: DOMAIN-FARM.md Section "Harvesting"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Plot } from '../../../../types/farm';
+import { MutationCategory, MutationRarity, PlotState, ZombieQuality } from '../../../../types/farm';
+import { Season, Weather } from '../../../../types/global';
+import { Resource, SeedType } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createTestInventoryWithResources } from '../../../../lib/test-utils/factories/inventoryFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { getEffectiveDecayRate } from '../decay';
+import { processAllZombiesHappiness } from '../happiness';
+import { harvestZombie } from '../harvesting';
+import { applyMutationCatalyst } from '../planting';
+import {
+  applyMutationStats,
+  getMutation,
+  getMutationChance,
+  getMutationConditions,
+  getMutationFarmBehavior,
+  getMutations,
+  hasFreeMutationSlot,
+  rollMutation,
+} from '../mutations';
+
+// Test fixtures
+const odds = gameConfig.MUTATION_ODDS;
+
+function createPlot(overrides: Partial<Plot> = {}): Plot {
+  return {
+    id: 'plot-1',
+    position: { x: 0, y: 0 },
+    state: PlotState.PLANTED,
+    plantedSeed: SeedType.SHAMBLER_SEED,
+    plantedAt: 0,
+    baseGrowthTime: 1000,
+    growthTimeRemaining: 1000,
+    isWatered: false,
+    isFertilized: false,
+    zombieId: null,
+    ...overrides,
+  };
+}
+
+describe('mutations', () => {
+  describe('registry', () => {
+    it('should define common, rare and epic mutations', () => {
+      for (const rarity of Object.values(MutationRarity)) {
+        expect(getMutations(rarity).length).toBeGreaterThan(0);
+      }
+    });
+
+    it('should find mutations by ID and by display name', () => {
+      expect(getMutation('thickSkin')?.name).toBe('Thick Skin');
+      expect(getMutation('Pack Leader')?.id).toBe('packLeader');
+      expect(getMutation('Not A Mutation')).toBeNull();
+    });
+  });
+
+  describe('getMutationChance', () => {
+    it('should start from the quality chance', () => {
+      expect(getMutationChance(ZombieQuality.BRONZE)).toBe(odds.BASE_CHANCE.bronze);
+      expect(getMutationChance(ZombieQuality.DIAMOND)).toBe(odds.BASE_CHANCE.diamond);
+    });
+
+    it('should raise the chance with catalysts, fog, night and a blood moon', () => {
+      const base = getMutationChance(ZombieQuality.BRONZE);
+
+      expect(
+        getMutationChance(ZombieQuality.BRONZE, { catalyst: Resource.SOUL_FRAGMENTS })
+      ).toBeCloseTo(base + odds.CATALYSTS.soulFragments.chanceBonus);
+      expect(getMutationChance(ZombieQuality.BRONZE, { weather: Weather.FOG })).toBeCloseTo(
+        base * odds.FOG_MULTIPLIER
+      );
+      expect(
+        getMutationChance(ZombieQuality.BRONZE, { isNight: true, isBloodMoon: true })
+      ).toBeCloseTo(base * odds.NIGHT_MULTIPLIER * odds.BLOOD_MOON_MULTIPLIER);
+    });
+
+    it('should cap the chance', () => {
+      expect(
+        getMutationChance(ZombieQuality.DIAMOND, {
+          catalyst: Resource.DARK_ESSENCE,
+          weather: Weather.FOG,
+          isNight: true,
+          isBloodMoon: true,
+        })
+      ).toBe(odds.MAX_CHANCE);
+    });
+
+    it('should read night and blood moon from game time', () => {
+      const time = {
+        day: 7,
+        hour: 23,
+        minute: 0,
+        season: Season.SPRING,
+        isDaytime: false,
+        weather: Weather.CLEAR,
+        lastUpdate: 0,
+      };
+
+      expect(getMutationConditions(time)).toMatchObject({ isNight: true, isBloodMoon: true });
+      expect(getMutationConditions({ ...time, isDaytime: true }).isBloodMoon).toBe(false);
+    });
+  });
+
+  describe('rollMutation', () => {
+    it('should roll rarity by weight', () => {
+      expect(rollMutation(() => 0)?.rarity).toBe(MutationRarity.COMMON);
+      expect(rollMutation(() => 0.8)?.rarity).toBe(MutationRarity.RARE);
+      expect(rollMutation(() => 0.99)?.rarity).toBe(MutationRarity.EPIC);
+    });
+
+    it('should not roll a mutation the zombie already has', () => {
+      const first = getMutations(MutationRarity.COMMON)[0];
+
+      expect(rollMutation(() => 0, [first?.id ?? ''])?.id).not.toBe(first?.id);
+    });
+
+    it('should not roll into a category without a free slot', () => {
+      const abilities = getMutations().filter((m) => m.category === MutationCategory.ABILITY);
+
+      for (const roll of [0, 0.5, 0.8, 0.99]) {
+        expect(rollMutation(() => roll, ['venomous'])?.category).toBe(MutationCategory.PHYSICAL);
+      }
+      expect(hasFreeMutationSlot(['venomous'], MutationCategory.ABILITY)).toBe(false);
+      expect(abilities.length).toBeGreaterThan(gameConfig.MUTATION_SLOTS.ability);
+    });
+  });
+
+  describe('effects', () => {
+    it('should apply stat modifiers and keep the HP share', () => {
+      const stats = { hp: 50, maxHp: 100, attack: 10, defense: 10, speed: 1 };
+
+      expect(applyMutationStats(stats, ['regeneration', 'armoredSkin'])).toEqual({
+        hp: 60,
+        maxHp: 120,
+        attack: 10,
+        defense: 15,
+        speed: 0.9,
+      });
+      expect(applyMutationStats(stats, [])).toBe(stats);
+    });
+
+    it('should slow decay for resilient zombies', () => {
+      const zombie = createTestZombie();
+
+      expect(getEffectiveDecayRate({ ...zombie, mutations: ['resilient'] })).toBeCloseTo(
+        getEffectiveDecayRate(zombie) * 0.5
+      );
+    });
+
+    it('should shift happiness each day', () => {
+      const farm = createTestFarmState({
+        activeZombies: [
+          createTestZombie({ id: 'leader', happiness: 50, mutations: ['packLeader'] }),
+          createTestZombie({ id: 'restless', happiness: 50, mutations: ['bloodlust'] }),
+        ],
+      });
+
+      const happiness = processAllZombiesHappiness(farm).activeZombies.map((z) => z.happiness);
+
+      expect(happiness).toEqual([52, 48]);
+    });
+
+    it('should combine farm behavior', () => {
+      expect(getMutationFarmBehavior({ mutations: ['swift', 'bloodlust'] })).toEqual({
+        wanderRangeMultiplier: 1.5,
+        activityBonus: 0.5,
+      });
+    });
+  });
+
+  describe('catalysts', () => {
+    const inventory = createTestInventoryWithResources({ [Resource.SOUL_FRAGMENTS]: 2 });
+
+    it('should apply a catalyst to a plot and consume it', () => {
+      const farm = createTestFarmState({ plots: [createPlot()] });
+
+      const result = applyMutationCatalyst(farm, inventory, 'plot-1', Resource.SOUL_FRAGMENTS);
+
+      expect(result.success).toBe(true);
+      expect(result.farmState?.plots[0]?.catalyst).toBe(Resource.SOUL_FRAGMENTS);
+      expect(result.inventory?.resources[Resource.SOUL_FRAGMENTS]).toBe(1);
+    });
+
+    it('should refuse non-catalysts and a second catalyst', () => {
+      const farm = createTestFarmState({ plots: [createPlot()] });
+      const treated = createTestFarmState({
+        plots: [createPlot({ catalyst: Resource.SOUL_FRAGMENTS })],
+      });
+
+      expect(applyMutationCatalyst(farm, inventory, 'plot-1', Resource.BONES).error).toBe(
+        'bones is not a mutation catalyst'
+      );
+      expect(
+        applyMutationCatalyst(treated, inventory, 'plot-1', Resource.SOUL_FRAGMENTS).error
+      ).toBe('Plot already has a catalyst');
+    });
+
+    it('should raise the harvest odds and be used up by the harvest', () => {
+      // Above the base chance and the double mutation chance, below base + catalyst
+      const roll = odds.BASE_CHANCE.bronze + odds.CATALYSTS.soulFragments.chanceBonus - 0.03;
+      const random = () => roll;
+      const plain = createTestFarmState({ plots: [createPlot({ state: PlotState.READY })] });
+      const treated = createTestFarmState({
+        plots: [createPlot({ state: PlotState.READY, catalyst: Resource.SOUL_FRAGMENTS })],
+      });
+
+      const without = harvestZombie(plain, inventory, 'plot-1', ZombieQuality.BRONZE, random, 0);
+      const withCatalyst = harvestZombie(
+        treated,
+        inventory,
+        'plot-1',
+        ZombieQuality.BRONZE,
+        random,
+        0
+      );
+
+      if (!without.success || !withCatalyst.success) throw new Error('Harvest failed');
+      expect(without.data.zombie.mutations).toEqual([]);
+      expect(withCatalyst.data.zombie.mutations).toHaveLength(1);
+      expect(withCatalyst.data.farmState.plots[0]?.catalyst).toBeNull();
+    });
+  });
+});
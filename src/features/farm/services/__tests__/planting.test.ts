@@ -27,6 +27,8 @@ import {
   validateSeedAvailability,
   calculatePlantingBonus,
   startGrowthTimer,
+  waterPlot,
+  fertilizePlot,
   type PlantingResult,
   type GrowthTimer,
 } from '../planting';
@@ -64,6 +66,10 @@ const createTestInventory = (seedOverrides: Partial<Record<string, number>> = {}
     [Resource.BONE_MEAL]: 3,
     [Resource.EMBALMING_FLUID]: 1,
     [Resource.DARK_ESSENCE]: 2,
+    [Resource.RADIOACTIVE_WASTE]: 0,
+    [Resource.CORRUPTED_DNA]: 0,
+    [Resource.EVOLUTION_SERUM]: 0,
+    [Resource.PRIMAL_ESSENCE]: 0,
   },
   currencies: {
     [Currency.DARK_COINS]: 500,
@@ -539,4 +545,65 @@ describe('planting service', () => {
       expect(result.error).toBeDefined();
     });
   });
+
+  describe('waterPlot', () => {
+    it('should water an empty plot and consume Blood Water', () => {
+      const result = waterPlot(createTestFarmState(), createTestInventory(), 'plot-1');
+
+      expect(result.success).toBe(true);
+      expect(result.farmState?.plots[0]?.isWatered).toBe(true);
+      expect(result.inventory?.resources[Resource.BLOOD_WATER]).toBe(19);
+    });
+
+    it('should speed up the remaining growth of a planted plot', () => {
+      const farmState = createTestFarmState({
+        plots: [createTestPlot({ state: PlotState.PLANTED, growthTimeRemaining: 90000 })],
+      });
+
+      const result = waterPlot(farmState, createTestInventory(), 'plot-1');
+
+      expect(result.farmState?.plots[0]?.growthTimeRemaining).toBe(60000);
+    });
+
+    it('should fail when the plot is already watered', () => {
+      const farmState = createTestFarmState({ plots: [createTestPlot({ isWatered: true })] });
+
+      const result = waterPlot(farmState, createTestInventory(), 'plot-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Plot is already watered');
+    });
+
+    it('should fail without Blood Water', () => {
+      const inventory = createTestInventory();
+      const dry = {
+        ...inventory,
+        resources: { ...inventory.resources, [Resource.BLOOD_WATER]: 0 },
+      };
+
+      const result = waterPlot(createTestFarmState(), dry, 'plot-1');
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('fertilizePlot', () => {
+    it('should fertilize a plot and consume Corpse Dust', () => {
+      const result = fertilizePlot(createTestFarmState(), createTestInventory(), 'plot-1');
+
+      expect(result.success).toBe(true);
+      expect(result.farmState?.plots[0]?.isFertilized).toBe(true);
+      expect(result.inventory?.resources[Resource.CORPSE_DUST]).toBe(9);
+    });
+
+    it('should fail for a plot that is ready to harvest', () => {
+      const farmState = createTestFarmState({
+        plots: [createTestPlot({ state: PlotState.READY, growthTimeRemaining: 0 })],
+      });
+
+      const result = fertilizePlot(farmState, createTestInventory(), 'plot-1');
+
+      expect(result.success).toBe(false);
+    });
+  });
 });
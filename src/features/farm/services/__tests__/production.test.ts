@@ -0,0 +1,115 @@
+/**
+ * Production Service - Unit Tests
+ *
+ * Tests timed building effects per DOMAIN-FARM.md:
+ * - Blood Well output up to its stock limit
+ * - Converter input-to-output cycles
+ * - Stitching Station healing and upkeep
+ * - Cycle progress carried between updates
+ *
+ * Authority: DOMAIN-FARM.md Section "Structures"
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Building, FarmState } from '../../../../types/farm';
+import { BuildingState, BuildingType } from '../../../../types/farm';
+import type { Inventory } from '../../../../types/resources';
+import { Resource } from '../../../../types/resources';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { createEmptyInventory } from '../../../game/lib/resources';
+import { updateProduction } from '../production';
+
+// Test fixtures
+const MINUTE = 60 * 1000;
+
+function createBuilding(type: BuildingType, overrides: Partial<Building> = {}): Building {
+  return {
+    id: 'b1',
+    type,
+    position: { x: 0, y: 0 },
+    level: 1,
+    state: BuildingState.ACTIVE,
+    constructionStartedAt: null,
+    constructionTimeRemaining: null,
+    data: {},
+    ...overrides,
+  };
+}
+
+function createFarm(building: Building, overrides: Partial<FarmState> = {}): FarmState {
+  return createTestFarmState({ buildings: [building], activeZombies: [], ...overrides });
+}
+
+function withResources(resources: Partial<Record<Resource, number>>): Inventory {
+  const inventory = createEmptyInventory();
+  return { ...inventory, resources: { ...inventory.resources, ...resources } };
+}
+
+describe('production', () => {
+  describe('updateProduction', () => {
+    it('should produce Blood Water each cycle and carry partial progress', () => {
+      const farm = createFarm(createBuilding(BuildingType.BLOOD_WELL));
+
+      const { farmState, inventory } = updateProduction(farm, createEmptyInventory(), 12 * MINUTE);
+
+      expect(inventory.resources[Resource.BLOOD_WATER]).toBe(2);
+      expect(farmState.buildings[0]?.data.productionTimer).toBe(3 * MINUTE);
+    });
+
+    it('should stop the Blood Well at its stock limit', () => {
+      const farm = createFarm(createBuilding(BuildingType.BLOOD_WELL));
+
+      const { inventory } = updateProduction(
+        farm,
+        withResources({ [Resource.BLOOD_WATER]: 9 }),
+        60 * MINUTE
+      );
+
+      expect(inventory.resources[Resource.BLOOD_WATER]).toBe(10);
+    });
+
+    it('should convert input into output while input lasts', () => {
+      const farm = createFarm(createBuilding(BuildingType.BONE_MILL));
+
+      const { farmState, inventory } = updateProduction(
+        farm,
+        withResources({ [Resource.BONES]: 12 }),
+        60 * MINUTE
+      );
+
+      expect(inventory.resources[Resource.BONES]).toBe(2);
+      expect(inventory.resources[Resource.BONE_MEAL]).toBe(6);
+      expect(farmState.buildings[0]?.data.productionTimer ?? 0).toBe(0);
+    });
+
+    it('should not run buildings under construction', () => {
+      const farm = createFarm(
+        createBuilding(BuildingType.BLOOD_WELL, { state: BuildingState.BUILDING })
+      );
+      const inventory = createEmptyInventory();
+
+      const result = updateProduction(farm, inventory, 60 * MINUTE);
+
+      expect(result.inventory).toBe(inventory);
+      expect(result.farmState).toBe(farm);
+    });
+
+    it('should heal injured zombies at the Stitching Station and pay its upkeep', () => {
+      const injured = createTestZombie({ id: 'z1' });
+      const farm = createFarm(createBuilding(BuildingType.STITCHING_STATION), {
+        activeZombies: [{ ...injured, stats: { ...injured.stats, hp: 10, maxHp: 100 } }],
+      });
+
+      const { farmState, inventory } = updateProduction(
+        farm,
+        withResources({ [Resource.CLOTH]: 1 }),
+        2 * 60 * MINUTE
+      );
+
+      // Second hour has no Cloth left to pay for
+      expect(farmState.activeZombies[0]?.stats.hp).toBe(20);
+      expect(inventory.resources[Resource.CLOTH]).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Resource Node Service Unit Tests
+ *
+ * Tests for resource node respawning per DOMAIN-FARM.md:
+ * - Cooldown countdown for depleted nodes
+ * - Respawn at full capacity
+ * - Ready and permanent nodes are untouched
+ * - Blood well refills
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { updateResourceNodes } from '../resourceNodes';
+import type { FarmState } from '../../../../types/farm';
+import type { ResourceNode } from '../../../../types/resources';
+import { ResourceNodeState, ResourceNodeType } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+
+/** One blood well refill interval in real milliseconds */
+const REFILL_MS =
+  (gameConfig.RESOURCE_NODES.bloodWell.refillInterval * gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION) /
+  (24 * 60);
+
+// Test fixtures
+const createTestNode = (overrides: Partial<ResourceNode> = {}): ResourceNode => ({
+  id: 'node-1',
+  type: ResourceNodeType.DEAD_TREE,
+  position: { x: 0, y: 0 },
+  state: ResourceNodeState.DEPLETED,
+  cooldownRemaining: 60000,
+  capacity: 3,
+  remaining: 0,
+  ...overrides,
+});
+
+const createTestFarmState = (overrides: Partial<FarmState> = {}): FarmState => ({
+  plots: [],
+  activeZombies: [],
+  cryptZombies: [],
+  buildings: [],
+  resourceNodes: [],
+  activeZombieCapacity: 10,
+  expansionLevel: 0,
+  gridSize: { width: 20, height: 15 },
+  ...overrides,
+});
+
+describe('resource node service', () => {
+  describe('updateResourceNodes', () => {
+    it('should reduce the cooldown of depleted nodes', () => {
+      const farmState = createTestFarmState({ resourceNodes: [createTestNode()] });
+
+      const result = updateResourceNodes(farmState, 15000);
+
+      expect(result.resourceNodes[0]?.cooldownRemaining).toBe(45000);
+      expect(result.resourceNodes[0]?.state).toBe(ResourceNodeState.DEPLETED);
+    });
+
+    it('should respawn a node at full capacity when the cooldown ends', () => {
+      const farmState = createTestFarmState({ resourceNodes: [createTestNode()] });
+
+      const result = updateResourceNodes(farmState, 90000);
+
+      expect(result.resourceNodes[0]).toMatchObject({
+        state: ResourceNodeState.READY,
+        cooldownRemaining: 0,
+        remaining: 3,
+      });
+    });
+
+    it('should leave ready and permanent nodes unchanged', () => {
+      const farmState = createTestFarmState({
+        resourceNodes: [
+          createTestNode({ state: ResourceNodeState.READY, remaining: 2 }),
+          createTestNode({ id: 'node-2', state: ResourceNodeState.PERMANENT }),
+        ],
+      });
+
+      const result = updateResourceNodes(farmState, 90000);
+
+      expect(result).toBe(farmState);
+    });
+
+    it('should refill a blood well once per refill interval', () => {
+      const well = createTestNode({
+        type: ResourceNodeType.BLOOD_WELL,
+        state: ResourceNodeState.DEPLETED,
+        cooldownRemaining: 0,
+        capacity: 10,
+        remaining: 0,
+      });
+      const farmState = createTestFarmState({ resourceNodes: [well] });
+
+      const partial = updateResourceNodes(farmState, REFILL_MS / 2);
+      expect(partial.resourceNodes[0]?.remaining).toBe(0);
+
+      const result = updateResourceNodes(partial, REFILL_MS * 2);
+      expect(result.resourceNodes[0]).toMatchObject({
+        state: ResourceNodeState.READY,
+        remaining: 2,
+        cooldownRemaining: REFILL_MS / 2,
+      });
+    });
+
+    it('should stop refilling a blood well at capacity', () => {
+      const well = createTestNode({
+        type: ResourceNodeType.BLOOD_WELL,
+        state: ResourceNodeState.READY,
+        cooldownRemaining: 0,
+        capacity: 10,
+        remaining: 9,
+      });
+      const farmState = createTestFarmState({ resourceNodes: [well] });
+
+      const result = updateResourceNodes(farmState, REFILL_MS * 5);
+
+      expect(result.resourceNodes[0]).toMatchObject({ remaining: 10, cooldownRemaining: 0 });
+    });
+
+    it('should ignore non-positive delta time', () => {
+      const farmState = createTestFarmState({ resourceNodes: [createTestNode()] });
+
+      expect(updateResourceNodes(farmState, 0)).toBe(farmState);
+    });
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * Building Effects Service
+ *
+ * Resolves the passive effects of farm buildings per DOMAIN-FARM.md:
+ * - Only ACTIVE buildings apply their effect (an upgrading building keeps
+ *   the effect of its previous level until the upgrade finishes)
+ * - Numeric effects scale linearly with building level
+ * - Capacity (Mausoleum), defense, Crypt efficiency and training bonuses
+ * - Decoration happiness within each decoration's radius
+ * - Production cycles (Blood Well, Corpse Composter, Bone Mill) and
+ *   Stitching Station healing, consumed by the production service
+ * - Raid defenses (Guard Tower, Wooden Spikes, Trap, Stone Wall), consumed
+ *   by the farm raid service
+ * - Mutation Lab chambers and queue, consumed by the mutation lab service
+ * - Crafting station queues and speed, consumed by the crafting service
+ *
+ * Farm services read building modifiers from here rather than from
+ * gameConfig.BUILDINGS directly.
+ *
+ * Authority: DOMAIN-FARM.md Section "Structures"
+ */
+
+import type { Building, BuildingType, FarmState } from '../../../types/farm';
+import { BuildingState } from '../../../types/farm';
+import type { Position } from '../../../types/global';
+import type { Resource } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Farm-wide modifiers from all active buildings
+ */
+export interface BuildingModifiers {
+  /** Extra active zombie slots (Mausoleum) */
+  zombieCapacityBonus: number;
+
+  /** Farm defense (Guard Tower, walls, spikes) */
+  defenseBonus: number;
+
+  /** Crypt preservation bonus (Crypt Expansion) */
+  cryptEfficiencyBonus: number;
+
+  /** Training XP per hour (Training Dummy) */
+  xpPerHour: number;
+}
+
+/**
+ * One production cycle of a building
+ */
+export interface ProductionEffect {
+  /** Resources consumed when the cycle completes */
+  input: Partial<Record<Resource, number>>;
+
+  /** Resources produced when the cycle completes */
+  output: Partial<Record<Resource, number>>;
+
+  /** Cycle duration in milliseconds */
+  cycleMs: number;
+
+  /** Production pauses while the output stock is at this amount */
+  stockLimit?: number;
+}
+
+/**
+ * One healing cycle of a Stitching Station
+ */
+export interface HealingEffect {
+  /** Percent of max HP restored to each injured zombie per cycle */
+  healPercent: number;
+
+  /** Resources consumed per cycle */
+  cost: Partial<Record<Resource, number>>;
+
+  /** Cycle duration in milliseconds */
+  cycleMs: number;
+}
+
+/**
+ * What a defensive building does when raiders attack the farm
+ */
+export interface RaidDefenseEffect {
+  /** Damage to the nearest raider every round (Guard Tower, Wooden Spikes) */
+  damagePerRound: number;
+
+  /** Damage to the nearest raider once, after which the trap is spent */
+  trapDamage: number;
+
+  /** Damage raiders must deal to break through (Stone Wall) */
+  wallHp: number;
+}
+
+/**
+ * Capacity of a Mutation Lab
+ */
+export interface MutationLabEffect {
+  /** Zombies mutating at once */
+  chambers: number;
+
+  /** Zombies waiting for a free chamber */
+  queueSize: number;
+}
+
+/**
+ * Crafting queue of a station
+ */
+export interface CraftingEffect {
+  /** Batches queued at once, including the one being crafted */
+  queueSize: number;
+
+  /** Crafting speed (1 = recipe time) */
+  speed: number;
+}
+
+/**
+ * Union of the effect fields used by gameConfig.BUILDINGS entries
+ */
+interface BuildingEffectConfig {
+  zombieCapacityBonus?: number;
+  defenseBonus?: number;
+  cryptEfficiencyBonus?: number;
+  xpPerHour?: number;
+  happinessBonus?: number;
+  radius?: number;
+  producesResource?: Resource;
+  productionRate?: number;
+  productionIntervalMinutes?: number;
+  capacity?: number;
+  convertsResource?: {
+    input: Partial<Record<Resource, number>>;
+    output: Partial<Record<Resource, number>>;
+    timeMinutes: number;
+  };
+  healRatePerHour?: number;
+  resourceCost?: Partial<Record<Resource, number>>;
+  raidDamage?: number;
+  damageToAttackers?: number;
+  trapDamage?: number;
+  hp?: number;
+  mutationChambers?: number;
+  queueSize?: number;
+  craftingQueue?: number;
+}
+
+/** Real milliseconds per minute (production times are real time, like build times) */
+const MS_PER_MINUTE = 60 * 1000;
+
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+// ============================================================================
+// LEVELS
+// ============================================================================
+
+/**
+ * Get the level a building's effect currently applies at
+ *
+ * @param building - Building to check
+ * @returns Effective level (0 if the building has no effect right now)
+ */
+export function getEffectiveLevel(building: Building): number {
+  switch (building.state) {
+    case BuildingState.ACTIVE:
+      return building.level;
+    case BuildingState.BUILDING:
+      // Upgrading buildings keep working at their previous level
+      return building.level - 1;
+    default:
+      return 0;
+  }
+}
+
+// ============================================================================
+// MODIFIERS
+// ============================================================================
+
+/**
+ * Sum the passive modifiers of every building on the farm
+ *
+ * @param farmState - Current farm state
+ * @returns Farm-wide building modifiers
+ */
+export function getBuildingModifiers(farmState: FarmState): BuildingModifiers {
+  const modifiers: BuildingModifiers = {
+    zombieCapacityBonus: 0,
+    defenseBonus: 0,
+    cryptEfficiencyBonus: 0,
+    xpPerHour: 0,
+  };
+
+  for (const building of farmState.buildings) {
+    const level = getEffectiveLevel(building);
+    if (level <= 0) continue;
+
+    const effect = getEffectConfig(building.type);
+    modifiers.zombieCapacityBonus += (effect.zombieCapacityBonus ?? 0) * level;
+    modifiers.defenseBonus += (effect.defenseBonus ?? 0) * level;
+    modifiers.cryptEfficiencyBonus += (effect.cryptEfficiencyBonus ?? 0) * level;
+    modifiers.xpPerHour += (effect.xpPerHour ?? 0) * level;
+  }
+
+  return modifiers;
+}
+
+/**
+ * Get active zombie capacity from the base cap plus building bonuses
+ *
+ * @param farmState - Current farm state
+ * @returns Active zombie capacity (capped at CAPACITY.MAX_ZOMBIE_CAP)
+ */
+export function getActiveZombieCapacity(farmState: FarmState): number {
+  const { INITIAL_ZOMBIE_CAP, MAX_ZOMBIE_CAP } = gameConfig.CAPACITY;
+  return Math.min(
+    INITIAL_ZOMBIE_CAP + getBuildingModifiers(farmState).zombieCapacityBonus,
+    MAX_ZOMBIE_CAP
+  );
+}
+
+/**
+ * Recalculate the farm values derived from buildings
+ *
+ * Called whenever a building is added, removed, finished or upgraded.
+ *
+ * @param farmState - Current farm state
+ * @returns Farm state with derived values updated
+ */
+export function applyBuildingModifiers(farmState: FarmState): FarmState {
+  const activeZombieCapacity = getActiveZombieCapacity(farmState);
+  if (activeZombieCapacity === farmState.activeZombieCapacity) {
+    return farmState;
+  }
+
+  return { ...farmState, activeZombieCapacity };
+}
+
+/**
+ * Get the happiness bonus from decorations near a position
+ *
+ * Each active decoration adds its happinessBonus to zombies within its radius.
+ *
+ * @param farmState - Current farm state
+ * @param position - Zombie position
+ * @returns Happiness bonus
+ */
+export function getDecorationHappiness(farmState: FarmState, position: Position): number {
+  let bonus = 0;
+
+  for (const building of farmState.buildings) {
+    const effect = getEffectConfig(building.type);
+    if (!effect.happinessBonus || getEffectiveLevel(building) <= 0) continue;
+
+    const distance = Math.hypot(position.x - building.position.x, position.y - building.position.y);
+    if (distance <= (effect.radius ?? 0)) {
+      bonus += effect.happinessBonus;
+    }
+  }
+
+  return bonus;
+}
+
+// ============================================================================
+// PRODUCTION & HEALING
+// ============================================================================
+
+/**
+ * Get the production cycle of a building
+ *
+ * - Blood Well: productionRate per productionIntervalMinutes, scaled by level
+ * - Converters: input to output every timeMinutes, shortened by level
+ *
+ * @param building - Building to check
+ * @returns Production cycle, or null if the building does not produce
+ */
+export function getProductionEffect(building: Building): ProductionEffect | null {
+  const level = getEffectiveLevel(building);
+  if (level <= 0) return null;
+
+  const effect = getEffectConfig(building.type);
+
+  if (effect.producesResource && effect.productionRate && effect.productionIntervalMinutes) {
+    return {
+      input: {},
+      output: { [effect.producesResource]: effect.productionRate * level },
+      cycleMs: effect.productionIntervalMinutes * MS_PER_MINUTE,
+      stockLimit: effect.capacity !== undefined ? effect.capacity * level : undefined,
+    };
+  }
+
+  if (effect.convertsResource) {
+    return {
+      input: effect.convertsResource.input,
+      output: effect.convertsResource.output,
+      cycleMs: (effect.convertsResource.timeMinutes * MS_PER_MINUTE) / level,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Get the healing cycle of a building
+ *
+ * @param building - Building to check
+ * @returns Hourly healing cycle, or null if the building does not heal
+ */
+export function getHealingEffect(building: Building): HealingEffect | null {
+  const level = getEffectiveLevel(building);
+  if (level <= 0) return null;
+
+  const effect = getEffectConfig(building.type);
+  if (!effect.healRatePerHour) return null;
+
+  return {
+    healPercent: effect.healRatePerHour * level,
+    cost: effect.resourceCost ?? {},
+    cycleMs: MS_PER_HOUR,
+  };
+}
+
+/**
+ * Get what a building does against farm raiders
+ *
+ * @param building - Building to check
+ * @returns Raid defense, or null if the building does not defend
+ */
+export function getRaidDefenseEffect(building: Building): RaidDefenseEffect | null {
+  const level = getEffectiveLevel(building);
+  if (level <= 0) return null;
+
+  const effect = getEffectConfig(building.type);
+  const defense: RaidDefenseEffect = {
+    damagePerRound: ((effect.raidDamage ?? 0) + (effect.damageToAttackers ?? 0)) * level,
+    trapDamage: (effect.trapDamage ?? 0) * level,
+    wallHp: (effect.hp ?? 0) * level,
+  };
+
+  return defense.damagePerRound > 0 || defense.trapDamage > 0 || defense.wallHp > 0
+    ? defense
+    : null;
+}
+
+/**
+ * Get the chambers and queue of a Mutation Lab
+ *
+ * @param building - Building to check
+ * @returns Lab capacity, or null if the building does not mutate zombies
+ */
+export function getMutationLabEffect(building: Building): MutationLabEffect | null {
+  const level = getEffectiveLevel(building);
+  if (level <= 0) return null;
+
+  const effect = getEffectConfig(building.type);
+  if (!effect.mutationChambers) return null;
+
+  return {
+    chambers: effect.mutationChambers * level,
+    queueSize: (effect.queueSize ?? 0) * level,
+  };
+}
+
+/**
+ * Get the crafting queue of a station
+ *
+ * Queue size scales with level, and crafts run faster at higher levels.
+ *
+ * @param building - Building to check
+ * @returns Crafting queue, or null if the building does not craft
+ */
+export function getCraftingEffect(building: Building): CraftingEffect | null {
+  const level = getEffectiveLevel(building);
+  if (level <= 0) return null;
+
+  const effect = getEffectConfig(building.type);
+  if (!effect.craftingQueue) return null;
+
+  return {
+    queueSize: effect.craftingQueue * level,
+    speed: level,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getEffectConfig(type: BuildingType): BuildingEffectConfig {
+  return gameConfig.BUILDINGS[type].effect as BuildingEffectConfig;
+}
@@ -0,0 +1,429 @@
+/**
+ * Construction Service
+ *
+ * Implements building placement and construction per DOMAIN-FARM.md:
+ * - Placement on the farm grid (bounds and footprint overlap checks)
+ * - Construction cost and build time from gameConfig.BUILDINGS
+ * - Construction countdown to ACTIVE
+ * - Upgrades with per-level cost and build time (CONSTRUCTION.UPGRADE_SCALING)
+ * - Demolition with a partial refund (CONSTRUCTION.DEMOLISH_REFUND_RATE)
+ * - Building modifiers (e.g. zombie capacity) re-applied on every change
+ *
+ * Authority: DOMAIN-FARM.md Section "Structures"
+ */
+
+import type { Building, FarmState } from '../../../types/farm';
+import { BuildingState, BuildingType } from '../../../types/farm';
+import type { BuildingId, Position } from '../../../types/global';
+import type { Inventory, ResourceCost, ResourceReward } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { addReward, deductCost } from '../../game/lib/resources';
+import { applyBuildingModifiers } from './buildingEffects';
+
+/**
+ * Result type for service operations
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * Farm and inventory after a construction action
+ */
+export interface ConstructionResult {
+  farmState: FarmState;
+  inventory: Inventory;
+  building: Building;
+}
+
+/**
+ * Grid footprint (width x height tiles)
+ */
+export interface Footprint {
+  width: number;
+  height: number;
+}
+
+/** Real milliseconds per build minute */
+const MS_PER_MINUTE = 60 * 1000;
+
+// ============================================================================
+// FOOTPRINT & PLACEMENT CHECKS
+// ============================================================================
+
+/**
+ * Get the grid footprint of a building type
+ *
+ * @param type - Building type
+ * @returns Footprint in tiles
+ */
+export function getFootprint(type: BuildingType): Footprint {
+  return gameConfig.BUILDINGS[type].gridSize;
+}
+
+/**
+ * Check if an area is inside the farm and free of plots, nodes and buildings
+ *
+ * @param farmState - Current farm state
+ * @param position - Top-left tile of the area
+ * @param footprint - Area size in tiles
+ * @returns True if the area can be built on
+ */
+export function isAreaFree(
+  farmState: FarmState,
+  position: Position,
+  footprint: Footprint
+): boolean {
+  const { width, height } = farmState.gridSize;
+  if (
+    position.x < 0 ||
+    position.y < 0 ||
+    position.x + footprint.width > width ||
+    position.y + footprint.height > height
+  ) {
+    return false;
+  }
+
+  const overlaps = (other: Position, size: Footprint) =>
+    position.x < other.x + size.width &&
+    other.x < position.x + footprint.width &&
+    position.y < other.y + size.height &&
+    other.y < position.y + footprint.height;
+
+  const tile: Footprint = { width: 1, height: 1 };
+  return (
+    !farmState.plots.some((plot) => overlaps(plot.position, tile)) &&
+    !farmState.resourceNodes.some((node) => overlaps(node.position, tile)) &&
+    !farmState.buildings.some((building) =>
+      overlaps(building.position, getFootprint(building.type))
+    )
+  );
+}
+
+// ============================================================================
+// COSTS
+// ============================================================================
+
+/**
+ * Get the cost of upgrading a building type to a level
+ *
+ * @param type - Building type
+ * @param newLevel - Level being upgraded to
+ * @returns Upgrade cost
+ */
+export function getUpgradeCost(type: BuildingType, newLevel: number): ResourceCost {
+  return scaleCost(
+    gameConfig.BUILDINGS[type].cost,
+    gameConfig.CONSTRUCTION.UPGRADE_SCALING(newLevel),
+    Math.ceil
+  );
+}
+
+/**
+ * Get the refund for demolishing a building
+ *
+ * Refunds DEMOLISH_REFUND_RATE of the base cost plus every upgrade paid.
+ *
+ * @param building - Building being demolished
+ * @returns Refund reward
+ */
+export function getDemolishRefund(building: Building): ResourceReward {
+  let invested = 1;
+  for (let level = 2; level <= building.level; level++) {
+    invested += gameConfig.CONSTRUCTION.UPGRADE_SCALING(level);
+  }
+
+  return scaleCost(
+    gameConfig.BUILDINGS[building.type].cost,
+    invested * gameConfig.CONSTRUCTION.DEMOLISH_REFUND_RATE,
+    Math.floor
+  );
+}
+
+// ============================================================================
+// CONSTRUCTION ACTIONS
+// ============================================================================
+
+/**
+ * Place a new building and start its construction
+ *
+ * Per DOMAIN-FARM.md:
+ * - Footprint must fit on the farm and not overlap plots, nodes or buildings
+ * - Cost is paid up front
+ * - Buildings with no build time are active immediately
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param buildingId - ID for the new building
+ * @param type - Building type
+ * @param position - Top-left tile
+ * @param timestamp - Placement time
+ * @returns Updated farm state and inventory or error
+ */
+export function placeBuilding(
+  farmState: FarmState,
+  inventory: Inventory,
+  buildingId: BuildingId,
+  type: BuildingType,
+  position: Position,
+  timestamp: number
+): Result<ConstructionResult> {
+  if (!Object.values(BuildingType).includes(type)) {
+    return { success: false, error: `Unknown building type: ${type}` };
+  }
+
+  if (farmState.buildings.some((b) => b.id === buildingId)) {
+    return { success: false, error: `Building ${buildingId} already exists` };
+  }
+
+  if (!isAreaFree(farmState, position, getFootprint(type))) {
+    return { success: false, error: 'Building does not fit here' };
+  }
+
+  const payment = deductCost(inventory, gameConfig.BUILDINGS[type].cost);
+  if (!payment.success) {
+    return { success: false, error: payment.error.message };
+  }
+
+  const building = startConstruction(
+    {
+      id: buildingId,
+      type,
+      position,
+      level: 1,
+      state: BuildingState.BUILDING,
+      constructionStartedAt: null,
+      constructionTimeRemaining: null,
+      data: {},
+    },
+    gameConfig.BUILDINGS[type].buildTimeMinutes * MS_PER_MINUTE,
+    timestamp
+  );
+
+  return {
+    success: true,
+    data: {
+      farmState: applyBuildingModifiers({
+        ...farmState,
+        buildings: [...farmState.buildings, building],
+      }),
+      inventory: payment.inventory,
+      building,
+    },
+  };
+}
+
+/**
+ * Upgrade an active building to its next level
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param buildingId - Building to upgrade
+ * @param timestamp - Upgrade time
+ * @returns Updated farm state and inventory or error
+ */
+export function upgradeBuilding(
+  farmState: FarmState,
+  inventory: Inventory,
+  buildingId: BuildingId,
+  timestamp: number
+): Result<ConstructionResult> {
+  const existing = farmState.buildings.find((b) => b.id === buildingId);
+  if (!existing) {
+    return { success: false, error: `Building ${buildingId} not found` };
+  }
+
+  if (existing.state !== BuildingState.ACTIVE) {
+    return { success: false, error: 'Building must be active to upgrade' };
+  }
+
+  const config = gameConfig.BUILDINGS[existing.type];
+  const newLevel = existing.level + 1;
+  if (newLevel > config.maxLevel) {
+    return { success: false, error: 'Building is already at max level' };
+  }
+
+  const payment = deductCost(inventory, getUpgradeCost(existing.type, newLevel));
+  if (!payment.success) {
+    return { success: false, error: payment.error.message };
+  }
+
+  const building = startConstruction(
+    { ...existing, level: newLevel },
+    config.buildTimeMinutes * MS_PER_MINUTE * gameConfig.CONSTRUCTION.UPGRADE_SCALING(newLevel),
+    timestamp
+  );
+
+  return {
+    success: true,
+    data: {
+      farmState: replaceBuilding(farmState, building),
+      inventory: payment.inventory,
+      building,
+    },
+  };
+}
+
+/**
+ * Demolish a building and refund part of its cost
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param buildingId - Building to demolish
+ * @returns Updated farm state and inventory or error
+ */
+export function demolishBuilding(
+  farmState: FarmState,
+  inventory: Inventory,
+  buildingId: BuildingId
+): Result<ConstructionResult> {
+  const building = farmState.buildings.find((b) => b.id === buildingId);
+  if (!building) {
+    return { success: false, error: `Building ${buildingId} not found` };
+  }
+
+  const refund = addReward(inventory, getDemolishRefund(building));
+  if (!refund.success) {
+    return { success: false, error: refund.error.message };
+  }
+
+  return {
+    success: true,
+    data: {
+      farmState: applyBuildingModifiers({
+        ...farmState,
+        buildings: farmState.buildings.filter((b) => b.id !== buildingId),
+      }),
+      inventory: refund.inventory,
+      building,
+    },
+  };
+}
+
+/**
+ * Finish a building whose construction time has run out
+ *
+ * @param farmState - Current farm state
+ * @param buildingId - Building to complete
+ * @returns Updated farm state or error
+ */
+export function completeConstruction(
+  farmState: FarmState,
+  buildingId: BuildingId
+): Result<FarmState> {
+  const building = farmState.buildings.find((b) => b.id === buildingId);
+  if (!building) {
+    return { success: false, error: `Building ${buildingId} not found` };
+  }
+
+  if (building.state !== BuildingState.BUILDING) {
+    return { success: false, error: 'Building is not under construction' };
+  }
+
+  if ((building.constructionTimeRemaining ?? 0) > 0) {
+    return { success: false, error: 'Construction is not finished' };
+  }
+
+  return { success: true, data: replaceBuilding(farmState, activate(building)) };
+}
+
+// ============================================================================
+// CONSTRUCTION UPDATE
+// ============================================================================
+
+/**
+ * Updates construction progress for all buildings under construction
+ *
+ * Buildings whose construction time runs out become ACTIVE.
+ *
+ * @param farmState - Current farm state
+ * @param deltaTime - Time elapsed in milliseconds
+ * @returns Updated farm state and the buildings that finished
+ */
+export function updateConstruction(
+  farmState: FarmState,
+  deltaTime: number
+): { farmState: FarmState; completed: BuildingId[] } {
+  const completed: BuildingId[] = [];
+  if (deltaTime <= 0 || !farmState.buildings.some((b) => b.state === BuildingState.BUILDING)) {
+    return { farmState, completed };
+  }
+
+  const buildings = farmState.buildings.map((building) => {
+    if (building.state !== BuildingState.BUILDING) {
+      return building;
+    }
+
+    const constructionTimeRemaining = Math.max(
+      0,
+      (building.constructionTimeRemaining ?? 0) - deltaTime
+    );
+    if (constructionTimeRemaining > 0) {
+      return { ...building, constructionTimeRemaining };
+    }
+
+    completed.push(building.id);
+    return activate(building);
+  });
+
+  const updated = { ...farmState, buildings };
+  return {
+    farmState: completed.length > 0 ? applyBuildingModifiers(updated) : updated,
+    completed,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Start (or skip, for instant builds) construction of a building
+ */
+function startConstruction(building: Building, buildTime: number, timestamp: number): Building {
+  if (buildTime <= 0) {
+    return activate(building);
+  }
+
+  return {
+    ...building,
+    state: BuildingState.BUILDING,
+    constructionStartedAt: timestamp,
+    constructionTimeRemaining: buildTime,
+  };
+}
+
+function activate(building: Building): Building {
+  return {
+    ...building,
+    state: BuildingState.ACTIVE,
+    constructionStartedAt: null,
+    constructionTimeRemaining: null,
+  };
+}
+
+function replaceBuilding(farmState: FarmState, building: Building): FarmState {
+  return applyBuildingModifiers({
+    ...farmState,
+    buildings: farmState.buildings.map((b) => (b.id === building.id ? building : b)),
+  });
+}
+
+/**
+ * Scale every amount in a cost, rounding with the given function
+ */
+function scaleCost(
+  cost: ResourceCost,
+  factor: number,
+  round: (value: number) => number
+): ResourceCost {
+  const scale = <K extends string>(amounts?: Readonly<Partial<Record<K, number>>>) =>
+    amounts
+      ? (Object.fromEntries(
+          Object.entries(amounts).map(([key, amount]) => [key, round((amount as number) * factor)])
+        ) as Partial<Record<K, number>>)
+      : undefined;
+
+  return {
+    resources: scale(cost.resources),
+    currencies: scale(cost.currencies),
+  };
+}
@@ -0,0 +1,506 @@
+/**
+ * Crafting Service
+ *
+ * Crafts materials and Mutation Lab catalysts from recipes
+ * (gameConfig.RECIPES) per the PRD's Crafted Resources & Items:
+ * - Each recipe is crafted at one kind of station (Bone Mill, Corpse
+ *   Composter, Mutation Lab) and unlocks at a player level, some also with
+ *   a researched tech
+ * - A batch of crafts is queued at a station and its whole cost is paid up
+ *   front. Each station crafts its first batch, one craft at a time; further
+ *   batches wait in its queue (CraftingEffect). A station that is damaged
+ *   or upgrading to its first level pauses its queue
+ * - Crafts run faster at higher station levels
+ * - Output is added as each craft finishes. Outputs never exceed a
+ *   resource's stackSize (gameConfig.RESOURCES): a batch that could overfill
+ *   a stack cannot be queued, and a finished craft waits while its output
+ *   does not fit in the inventory
+ * - Cancelling a batch, or demolishing its station, refunds the cost of the
+ *   crafts not yet finished (a demolished station's batches past inventory
+ *   capacity, so they are never lost)
+ *
+ * Jobs live in farmState.craftingJobs, so saves and offline catch-up (which
+ * replays the game loop) carry them.
+ *
+ * Authority: PRD Crafted Resources & Items, DOMAIN-FARM.md Section "Structures"
+ */
+
+import type { BuildingType, CraftingJob, FarmState } from '../../../types/farm';
+import type { BuildingId, Player } from '../../../types/global';
+import type {
+  Currency,
+  Inventory,
+  Resource,
+  ResourceCost,
+  SeedType,
+} from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { addReward, deductCost, getResourceAmount } from '../../game/lib/resources';
+import { getCraftingEffect } from './buildingEffects';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result type for service operations
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * A crafting recipe (gameConfig.RECIPES)
+ */
+export interface RecipeDefinition {
+  /** Recipe ID (key in gameConfig.RECIPES) */
+  id: string;
+  name: string;
+
+  /** Building type that crafts the recipe */
+  station: BuildingType;
+
+  /** Paid per craft */
+  cost: ResourceCost;
+
+  /** Resources produced per craft */
+  output: Partial<Record<Resource, number>>;
+
+  /** Real minutes per craft at a level 1 station */
+  timeMinutes: number;
+
+  /** Player level that unlocks the recipe */
+  playerLevel: number;
+
+  /** Tech that must also be researched */
+  tech?: string;
+}
+
+/**
+ * Player progress that recipe unlocks are checked against
+ */
+export type CraftingProgress = Pick<Player, 'level' | 'unlockedTech'>;
+
+/**
+ * Farm and inventory after a crafting action
+ */
+export interface CraftingResult {
+  farmState: FarmState;
+  inventory: Inventory;
+}
+
+/**
+ * A finished craft
+ */
+export interface CraftingOutcome {
+  buildingId: BuildingId;
+  recipeId: string;
+
+  /** Resources added to the inventory */
+  output: Partial<Record<Resource, number>>;
+}
+
+/**
+ * Farm and inventory after advancing the stations, with the crafts that finished
+ */
+export interface CraftingUpdate {
+  farmState: FarmState;
+  inventory: Inventory;
+  completed: CraftingOutcome[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Real milliseconds per minute (crafting times are real time, like build times) */
+const MS_PER_MINUTE = 60 * 1000;
+
+const RECIPES: Readonly<Record<string, Omit<RecipeDefinition, 'id'>>> = gameConfig.RECIPES;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Gets a recipe
+ *
+ * @param recipeId - Recipe ID
+ * @returns Recipe, or null if there is no such recipe
+ */
+export function getRecipe(recipeId: string): RecipeDefinition | null {
+  const recipe = RECIPES[recipeId];
+  return recipe ? { id: recipeId, ...recipe } : null;
+}
+
+/**
+ * Gets the recipes a kind of station crafts
+ *
+ * @param station - Building type
+ * @returns Recipes in catalog order
+ */
+export function getStationRecipes(station: BuildingType): RecipeDefinition[] {
+  return Object.keys(RECIPES)
+    .map(getRecipe)
+    .filter((recipe): recipe is RecipeDefinition => recipe?.station === station);
+}
+
+/**
+ * Checks whether the player has unlocked a recipe
+ *
+ * @param recipe - Recipe to check
+ * @param player - Player level and researched tech
+ * @returns Success, or the requirement the player has not met
+ */
+export function canCraftRecipe(recipe: RecipeDefinition, player: CraftingProgress): Result<void> {
+  if (player.level < recipe.playerLevel) {
+    return {
+      success: false,
+      error: `${recipe.name} unlocks at player level ${recipe.playerLevel}`,
+    };
+  }
+
+  if (recipe.tech !== undefined && !player.unlockedTech.includes(recipe.tech)) {
+    return { success: false, error: `${recipe.name} requires the ${recipe.tech} tech` };
+  }
+
+  return { success: true, data: undefined };
+}
+
+/**
+ * Gets the batches queued or crafting at the stations
+ *
+ * @param farmState - Current farm state
+ * @param buildingId - Only batches of this station
+ * @returns Jobs in queue order (a station crafts its first job)
+ */
+export function getCraftingJobs(farmState: FarmState, buildingId?: BuildingId): CraftingJob[] {
+  return (farmState.craftingJobs ?? []).filter(
+    (job) => buildingId === undefined || job.buildingId === buildingId
+  );
+}
+
+/**
+ * Gets the largest batch of a recipe that can be queued now
+ *
+ * Limited by the batch size cap, the cost the inventory can pay and the
+ * room left in the output stacks (counting batches already queued).
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param recipeId - Recipe to craft
+ * @returns Crafts that fit in one batch (0 if none)
+ */
+export function getMaxBatchSize(
+  farmState: FarmState,
+  inventory: Inventory,
+  recipeId: string
+): number {
+  const recipe = getRecipe(recipeId);
+  if (!recipe) return 0;
+
+  const limits: number[] = [gameConfig.CRAFTING.MAX_BATCH_SIZE];
+  for (const [resource, amount] of getEntries(recipe.cost.resources)) {
+    limits.push(Math.floor(getResourceAmount(inventory, resource) / amount));
+  }
+  for (const [currency, amount] of getEntries(recipe.cost.currencies)) {
+    limits.push(Math.floor(inventory.currencies[currency] / amount));
+  }
+  for (const [resource, amount] of getEntries(recipe.output)) {
+    limits.push(Math.floor(getStackRoom(farmState, inventory, resource) / amount));
+  }
+
+  return Math.max(0, Math.min(...limits));
+}
+
+// ============================================================================
+// PLAYER ACTIONS
+// ============================================================================
+
+/**
+ * Queues a batch of crafts at a station
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param player - Player level and researched tech
+ * @param buildingId - Crafting station
+ * @param jobId - ID for the new job
+ * @param recipeId - Recipe to craft
+ * @param quantity - Crafts in the batch (paid now)
+ * @param timestamp - Current timestamp
+ * @returns Updated farm and inventory, or error
+ */
+export function startCrafting(
+  farmState: FarmState,
+  inventory: Inventory,
+  player: CraftingProgress,
+  buildingId: BuildingId,
+  jobId: string,
+  recipeId: string,
+  quantity: number,
+  timestamp: number
+): Result<CraftingResult> {
+  const building = farmState.buildings.find((b) => b.id === buildingId);
+  if (!building) {
+    return { success: false, error: `Building ${buildingId} not found` };
+  }
+
+  const recipe = getRecipe(recipeId);
+  if (!recipe) {
+    return { success: false, error: `Unknown recipe: ${recipeId}` };
+  }
+
+  const stationName = gameConfig.BUILDINGS[recipe.station].name;
+  if (building.type !== recipe.station) {
+    return { success: false, error: `${recipe.name} is crafted at a ${stationName}` };
+  }
+
+  const effect = getCraftingEffect(building);
+  if (!effect) {
+    return { success: false, error: `${stationName} is not operational` };
+  }
+
+  const { MAX_BATCH_SIZE } = gameConfig.CRAFTING;
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_BATCH_SIZE) {
+    return { success: false, error: `Batch size must be between 1 and ${MAX_BATCH_SIZE}` };
+  }
+
+  const unlocked = canCraftRecipe(recipe, player);
+  if (!unlocked.success) {
+    return unlocked;
+  }
+
+  if (getCraftingJobs(farmState, buildingId).length >= effect.queueSize) {
+    return { success: false, error: `${stationName} queue is full` };
+  }
+
+  for (const [resource, amount] of getEntries(recipe.output)) {
+    if (amount * quantity > getStackRoom(farmState, inventory, resource)) {
+      const { name, stackSize } = gameConfig.RESOURCES[resource];
+      return {
+        success: false,
+        error: `Not enough room for ${name} (stack limit ${stackSize})`,
+      };
+    }
+  }
+
+  const payment = deductCost(inventory, scaleCost(recipe.cost, quantity));
+  if (!payment.success) {
+    return { success: false, error: payment.error.message };
+  }
+
+  const job: CraftingJob = {
+    id: jobId,
+    buildingId,
+    recipeId,
+    quantity,
+    remainingMs: recipe.timeMinutes * MS_PER_MINUTE,
+    queuedAt: timestamp,
+  };
+
+  return {
+    success: true,
+    data: {
+      farmState: { ...farmState, craftingJobs: [...getCraftingJobs(farmState), job] },
+      inventory: payment.inventory,
+    },
+  };
+}
+
+/**
+ * Cancels a batch, refunding the crafts not yet finished
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param buildingId - Crafting station
+ * @param jobId - Job to cancel
+ * @returns Updated farm and inventory, or error
+ */
+export function cancelCrafting(
+  farmState: FarmState,
+  inventory: Inventory,
+  buildingId: BuildingId,
+  jobId: string
+): Result<CraftingResult> {
+  const job = getCraftingJobs(farmState, buildingId).find((j) => j.id === jobId);
+  if (!job) {
+    return { success: false, error: `Crafting job ${jobId} not found at ${buildingId}` };
+  }
+
+  const refund = refundJob(inventory, job);
+  if (!refund.success) {
+    return refund;
+  }
+
+  return {
+    success: true,
+    data: { farmState: removeJob(farmState, job), inventory: refund.data },
+  };
+}
+
+// ============================================================================
+// CRAFTING UPDATE
+// ============================================================================
+
+/**
+ * Advances the crafting stations and adds the output of finished crafts
+ *
+ * Time left over when a craft finishes goes to the next craft in the queue.
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param deltaTime - Time elapsed in milliseconds
+ * @returns Updated farm and inventory, and the crafts that finished
+ */
+export function updateCrafting(
+  farmState: FarmState,
+  inventory: Inventory,
+  deltaTime: number
+): CraftingUpdate {
+  const jobs = getCraftingJobs(farmState);
+  if (jobs.length === 0 || deltaTime <= 0) {
+    return { farmState, inventory, completed: [] };
+  }
+
+  let farm = farmState;
+  let inv = inventory;
+  const completed: CraftingOutcome[] = [];
+
+  for (const buildingId of new Set(jobs.map((job) => job.buildingId))) {
+    const building = farm.buildings.find((b) => b.id === buildingId);
+    if (!building) {
+      // Demolished station: its batches are refunded, past capacity if need be
+      for (const job of getCraftingJobs(farm, buildingId)) {
+        inv = returnJobCost(inv, job);
+        farm = removeJob(farm, job);
+      }
+      continue;
+    }
+
+    const effect = getCraftingEffect(building);
+    if (!effect) continue;
+
+    let remaining = deltaTime;
+    while (remaining > 0) {
+      const job = getCraftingJobs(farm, buildingId)[0];
+      const recipe = job && getRecipe(job.recipeId);
+      if (!job || !recipe) break;
+
+      const untilFinished = job.remainingMs / effect.speed;
+      if (remaining < untilFinished) {
+        farm = replaceJob(farm, {
+          ...job,
+          remainingMs: job.remainingMs - remaining * effect.speed,
+        });
+        break;
+      }
+
+      remaining -= untilFinished;
+      const current: CraftingJob = { ...job, remainingMs: 0 };
+
+      // A finished craft waits while its output does not fit
+      const produced = canStore(inv, recipe.output)
+        ? addReward(inv, { resources: recipe.output })
+        : null;
+      if (!produced?.success) {
+        farm = replaceJob(farm, current);
+        break;
+      }
+
+      inv = produced.inventory;
+      completed.push({ buildingId, recipeId: recipe.id, output: recipe.output });
+      farm =
+        current.quantity > 1
+          ? replaceJob(farm, {
+              ...current,
+              quantity: current.quantity - 1,
+              remainingMs: recipe.timeMinutes * MS_PER_MINUTE,
+            })
+          : removeJob(farm, current);
+    }
+  }
+
+  return { farmState: farm, inventory: inv, completed };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getEntries<K extends string>(
+  record: Partial<Record<K, number>> | undefined
+): [K, number][] {
+  return Object.entries(record ?? {}) as [K, number][];
+}
+
+/**
+ * Room left in a resource's stack, after the output of queued crafts
+ */
+function getStackRoom(farmState: FarmState, inventory: Inventory, resource: Resource): number {
+  const pending = getCraftingJobs(farmState).reduce(
+    (sum, job) => sum + (getRecipe(job.recipeId)?.output[resource] ?? 0) * job.quantity,
+    0
+  );
+
+  return Math.max(
+    0,
+    gameConfig.RESOURCES[resource].stackSize - getResourceAmount(inventory, resource) - pending
+  );
+}
+
+/**
+ * Whether one craft's output fits under the stack limits
+ */
+function canStore(inventory: Inventory, output: Partial<Record<Resource, number>>): boolean {
+  return getEntries(output).every(
+    ([resource, amount]) =>
+      getResourceAmount(inventory, resource) + amount <= gameConfig.RESOURCES[resource].stackSize
+  );
+}
+
+function scaleCost(cost: ResourceCost, times: number): ResourceCost {
+  const scale = <K extends string>(record: Partial<Record<K, number>> | undefined) =>
+    record &&
+    (Object.fromEntries(
+      getEntries(record).map(([key, amount]) => [key, amount * times])
+    ) as Partial<Record<K, number>>);
+
+  return {
+    resources: scale<Resource>(cost.resources),
+    currencies: scale<Currency>(cost.currencies),
+    seeds: scale<SeedType>(cost.seeds),
+  };
+}
+
+/**
+ * Return the cost of a batch's unfinished crafts to the inventory
+ */
+function refundJob(inventory: Inventory, job: CraftingJob): Result<Inventory> {
+  const recipe = getRecipe(job.recipeId);
+  if (!recipe) {
+    return { success: true, data: inventory };
+  }
+
+  const refund = addReward(inventory, scaleCost(recipe.cost, job.quantity));
+  return refund.success
+    ? { success: true, data: refund.inventory }
+    : { success: false, error: refund.error.message };
+}
+
+/**
+ * Return the cost of a batch's unfinished crafts regardless of inventory
+ * capacity, so it is never lost
+ */
+function returnJobCost(inventory: Inventory, job: CraftingJob): Inventory {
+  const refund = refundJob({ ...inventory, capacity: Infinity }, job);
+  return refund.success ? { ...refund.data, capacity: inventory.capacity } : inventory;
+}
+
+function replaceJob(farm: FarmState, job: CraftingJob): FarmState {
+  return {
+    ...farm,
+    craftingJobs: getCraftingJobs(farm).map((j) => (j.id === job.id ? job : j)),
+  };
+}
+
+function removeJob(farm: FarmState, job: CraftingJob): FarmState {
+  return { ...farm, craftingJobs: getCraftingJobs(farm).filter((j) => j.id !== job.id) };
+}
@@ -7,12 +7,15 @@
  * - Feeding prevention
  * - Crypt storage pauses decay
  * - Shelter and preservation item effects
+ * - Mutation decay modifiers (see mutations.ts)
  *
  * Authority: DOMAIN-FARM.md Section "Decay and Maintenance"
  */
 
 import type { Zombie, ZombieQuality, FarmState, ZombieStats } from '../../../types/farm';
 import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { getMutationDecayMultiplier } from './mutations';
+import { getEquipmentDecayMultiplier } from './equipment';
 
 /**
  * Quality-Based Decay Rates
@@ -94,8 +97,9 @@ export function getDecayFloor(quality: ZombieQuality): number {
  * Calculates the effective decay rate considering all modifiers:
  * - Base quality rate
  * - Zombie type decay modifier (from stats)
+ * - Mutation decay modifiers
  * - Shelter bonus (50% reduction)
- * - Preservation items (future)
+ * - Preservation items (see equipment.ts)
  *
  * @param zombie - Zombie to calculate decay rate for
  * @param isSheltered - Whether zombie is in a shelter
@@ -108,16 +112,16 @@ export function getEffectiveDecayRate(zombie: Zombie, isSheltered: boolean = fal
   // Apply zombie type modifier (from config)
   const typeModifier = zombie.stats.decayRate;
 
-  // Combine base rate and type modifier
-  let effectiveRate = baseRate * typeModifier;
+  // Combine base rate, type modifier and mutations
+  let effectiveRate = baseRate * typeModifier * getMutationDecayMultiplier(zombie);
 
   // Apply shelter reduction (50% less decay)
   if (isSheltered) {
     effectiveRate *= gameConfig.DECAY.SHELTER_DECAY_REDUCTION;
   }
 
-  // Apply preservation item effects (future: check zombie.equipment for preservation items)
-  // For now, no preservation items implemented
+  // Apply preservation item effects (e.g. Preservation Talisman)
+  effectiveRate *= getEquipmentDecayMultiplier(zombie);
 
   return effectiveRate;
 }
@@ -0,0 +1,396 @@
+/**
+ * Equipment Service
+ *
+ * Equips zombies with items from the inventory (gameConfig.ITEMS):
+ * - Each item fits one slot (weapon, armor or accessory); equipping moves
+ *   the item from Inventory.items onto the zombie, and an item already in
+ *   the slot goes back to the inventory
+ * - Unequipping moves the item back (inventory capacity applies)
+ * - Item stat bonuses add to the zombie's stats, scaled by item quality;
+ *   a Preservation Talisman slows decay (DOMAIN-FARM.md Other Decay Reducers)
+ * - Battles and farm raids run on these effective stats; survivors go back to
+ *   their own stats with the max HP bonus taken off what they have left
+ * - Equipment of zombies that die (or are consumed by a fusion) returns to
+ *   the inventory, past capacity if need be, so it is never lost
+ *
+ * Slots hold the item ID; the items themselves travel in equipment.items.
+ *
+ * Authority: DOMAIN-FARM.md Section "Decay and Maintenance"
+ */
+
+import type { EquipmentSlot, FarmState, Zombie, ZombieStats } from '../../../types/farm';
+import type { ZombieId } from '../../../types/global';
+import type { Inventory, Item, ItemQuality } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { addItem, getItem, removeItem } from '../../game/lib/resources';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result type for service operations
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * Flat stat bonuses of an item (before quality scaling)
+ */
+export interface ItemStatBonuses {
+  maxHp?: number;
+  attack?: number;
+  defense?: number;
+  speed?: number;
+}
+
+/**
+ * An equippable item definition (gameConfig.ITEMS)
+ */
+export interface ItemDefinition {
+  /** Item type (key in gameConfig.ITEMS) */
+  id: string;
+  name: string;
+  description: string;
+  slot: EquipmentSlot;
+  stats: ItemStatBonuses;
+
+  /** Scales the wearer's daily decay (0.5 = half) */
+  decayMultiplier?: number;
+}
+
+/**
+ * Farm and inventory after an equipment change
+ */
+export interface EquipmentResult {
+  farmState: FarmState;
+  inventory: Inventory;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const EQUIPMENT_SLOTS: ReadonlyArray<EquipmentSlot> = ['weapon', 'armor', 'accessory'];
+
+const ITEMS: Readonly<Record<string, Omit<ItemDefinition, 'id'>>> = gameConfig.ITEMS;
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+/**
+ * Checks whether a string names an equipment slot
+ */
+export function isEquipmentSlot(slot: string): slot is EquipmentSlot {
+  return (EQUIPMENT_SLOTS as ReadonlyArray<string>).includes(slot);
+}
+
+/**
+ * Gets an item definition
+ *
+ * @param type - Item type
+ * @returns Definition, or null if the item cannot be equipped
+ */
+export function getItemDefinition(type: string): ItemDefinition | null {
+  const definition = ITEMS[type];
+  return definition ? { id: type, ...definition } : null;
+}
+
+/**
+ * Creates an item from the catalog
+ *
+ * @param type - Item type
+ * @param quality - Item quality
+ * @param id - Unique item ID
+ * @returns New item, or null if the type is not in the catalog
+ */
+export function createItem(type: string, quality: ItemQuality, id: string): Item | null {
+  const definition = getItemDefinition(type);
+  if (!definition) return null;
+
+  return {
+    id,
+    type,
+    name: definition.name,
+    description: definition.description,
+    quality,
+    data: {},
+  };
+}
+
+// ============================================================================
+// EFFECTS
+// ============================================================================
+
+/**
+ * Gets the items a zombie wears
+ *
+ * @param zombie - Zombie to check
+ * @returns Equipped items (slot IDs without an item record are skipped)
+ */
+export function getEquippedItems(zombie: Pick<Zombie, 'equipment'>): Item[] {
+  const { equipment } = zombie;
+  if (!equipment?.items) return [];
+
+  const ids = EQUIPMENT_SLOTS.map((slot) => equipment[slot]);
+  return equipment.items.filter((item) => ids.includes(item.id));
+}
+
+/**
+ * Sums the stat bonuses of a zombie's equipment, scaled by item quality
+ *
+ * @param zombie - Zombie to check
+ * @returns Bonuses per stat
+ */
+export function getEquipmentBonuses(zombie: Pick<Zombie, 'equipment'>): Required<ItemStatBonuses> {
+  const bonuses = { maxHp: 0, attack: 0, defense: 0, speed: 0 };
+
+  for (const item of getEquippedItems(zombie)) {
+    const stats = getItemDefinition(item.type)?.stats ?? {};
+    const multiplier = gameConfig.ITEM_QUALITY_MULTIPLIERS[item.quality];
+    bonuses.maxHp += Math.round((stats.maxHp ?? 0) * multiplier);
+    bonuses.attack += Math.round((stats.attack ?? 0) * multiplier);
+    bonuses.defense += Math.round((stats.defense ?? 0) * multiplier);
+    bonuses.speed += (stats.speed ?? 0) * multiplier;
+  }
+
+  return bonuses;
+}
+
+/**
+ * Gets the decay multiplier of a zombie's equipment
+ *
+ * @param zombie - Zombie to check
+ * @returns Product of the items' decay multipliers (1 without preservation items)
+ */
+export function getEquipmentDecayMultiplier(zombie: Pick<Zombie, 'equipment'>): number {
+  return getEquippedItems(zombie).reduce(
+    (product, item) => product * (getItemDefinition(item.type)?.decayMultiplier ?? 1),
+    1
+  );
+}
+
+/**
+ * Gets a zombie's stats with its equipment
+ *
+ * Max HP bonuses also raise current HP.
+ *
+ * @param zombie - Zombie to check
+ * @returns Effective stats (the zombie's stats if it wears nothing)
+ */
+export function getEffectiveStats(zombie: Pick<Zombie, 'equipment' | 'stats'>): ZombieStats {
+  if (getEquippedItems(zombie).length === 0) {
+    return zombie.stats;
+  }
+
+  const bonuses = getEquipmentBonuses(zombie);
+  return {
+    ...zombie.stats,
+    hp: zombie.stats.hp + bonuses.maxHp,
+    maxHp: zombie.stats.maxHp + bonuses.maxHp,
+    attack: zombie.stats.attack + bonuses.attack,
+    defense: zombie.stats.defense + bonuses.defense,
+    speed: zombie.stats.speed + bonuses.speed,
+    decayRate: zombie.stats.decayRate * getEquipmentDecayMultiplier(zombie),
+  };
+}
+
+/**
+ * Maps the HP a surviving zombie ended a fight on back to its own stats
+ *
+ * The fight ran on effective stats, so the equipment max HP bonus comes off
+ * first; what is left is clamped to the zombie's max HP (at least 1 HP).
+ *
+ * @param zombie - Zombie that fought
+ * @param hp - HP left against its effective stats
+ * @returns HP to store on the zombie
+ */
+export function getSurvivorHp(zombie: Pick<Zombie, 'equipment' | 'stats'>, hp: number): number {
+  const bonus = getEquipmentBonuses(zombie).maxHp;
+  return Math.max(1, Math.min(zombie.stats.maxHp, hp - bonus));
+}
+
+// ============================================================================
+// PLAYER ACTIONS
+// ============================================================================
+
+/**
+ * Equips an inventory item on a zombie
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param zombieId - Zombie on the farm or in the Crypt
+ * @param slot - Slot to fill
+ * @param itemId - Item in the inventory
+ * @returns Updated farm and inventory, or error
+ */
+export function equipItem(
+  farmState: FarmState,
+  inventory: Inventory,
+  zombieId: ZombieId,
+  slot: string,
+  itemId: string
+): Result<EquipmentResult> {
+  const zombie = findZombie(farmState, zombieId);
+  if (!zombie) {
+    return { success: false, error: `Zombie ${zombieId} not found` };
+  }
+
+  if (!isEquipmentSlot(slot)) {
+    return { success: false, error: `Unknown equipment slot: ${slot}` };
+  }
+
+  const item = getItem(inventory, itemId);
+  if (!item) {
+    return { success: false, error: `Item ${itemId} not found in inventory` };
+  }
+
+  const definition = getItemDefinition(item.type);
+  if (!definition) {
+    return { success: false, error: `${item.name} cannot be equipped` };
+  }
+
+  if (definition.slot !== slot) {
+    return { success: false, error: `${item.name} goes in the ${definition.slot} slot` };
+  }
+
+  const removed = removeItem(inventory, itemId);
+  if (!removed.success) {
+    return { success: false, error: removed.error.message };
+  }
+
+  // The replaced item takes the place of the new one in the inventory
+  const unequipped = takeOff(zombie, slot);
+  const updated = putBack(removed.inventory, unequipped.items);
+  const equipped: Zombie = {
+    ...unequipped.zombie,
+    equipment: {
+      ...unequipped.zombie.equipment,
+      [slot]: item.id,
+      items: [...(unequipped.zombie.equipment.items ?? []), item],
+    },
+  };
+
+  return {
+    success: true,
+    data: { farmState: replaceZombie(farmState, equipped), inventory: updated },
+  };
+}
+
+/**
+ * Moves the item in a zombie's slot back to the inventory
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param zombieId - Zombie on the farm or in the Crypt
+ * @param slot - Slot to empty
+ * @returns Updated farm and inventory, or error
+ */
+export function unequipItem(
+  farmState: FarmState,
+  inventory: Inventory,
+  zombieId: ZombieId,
+  slot: string
+): Result<EquipmentResult> {
+  const zombie = findZombie(farmState, zombieId);
+  if (!zombie) {
+    return { success: false, error: `Zombie ${zombieId} not found` };
+  }
+
+  if (!isEquipmentSlot(slot)) {
+    return { success: false, error: `Unknown equipment slot: ${slot}` };
+  }
+
+  if (!zombie.equipment[slot]) {
+    return { success: false, error: `Nothing is equipped in the ${slot} slot` };
+  }
+
+  const unequipped = takeOff(zombie, slot);
+  let updated = inventory;
+  for (const item of unequipped.items) {
+    const added = addItem(updated, item);
+    if (!added.success) {
+      return { success: false, error: added.error.message };
+    }
+    updated = added.inventory;
+  }
+
+  return {
+    success: true,
+    data: { farmState: replaceZombie(farmState, unequipped.zombie), inventory: updated },
+  };
+}
+
+/**
+ * Returns the equipment of zombies leaving the farm for good to the inventory
+ *
+ * Items are added past inventory capacity so they are never lost.
+ *
+ * @param inventory - Current inventory
+ * @param zombies - Zombies that died or were consumed
+ * @returns Inventory with their equipped items
+ */
+export function returnEquipment(
+  inventory: Inventory,
+  zombies: ReadonlyArray<Pick<Zombie, 'equipment'>>
+): Inventory {
+  return putBack(inventory, zombies.flatMap(getEquippedItems));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function findZombie(farm: FarmState, zombieId: ZombieId): Zombie | undefined {
+  return (
+    farm.activeZombies.find((z) => z.id === zombieId) ??
+    farm.cryptZombies.find((z) => z.id === zombieId)
+  );
+}
+
+function replaceZombie(farm: FarmState, zombie: Zombie): FarmState {
+  const replace = (z: Zombie) => (z.id === zombie.id ? zombie : z);
+  return {
+    ...farm,
+    activeZombies: farm.activeZombies.map(replace),
+    cryptZombies: farm.cryptZombies.map(replace),
+  };
+}
+
+/**
+ * Empty a slot, returning the zombie and the item it wore there (if any)
+ */
+function takeOff(zombie: Zombie, slot: EquipmentSlot): { zombie: Zombie; items: Item[] } {
+  const itemId = zombie.equipment[slot];
+  if (!itemId) {
+    return { zombie, items: [] };
+  }
+
+  const items = zombie.equipment.items ?? [];
+  return {
+    zombie: {
+      ...zombie,
+      equipment: {
+        ...zombie.equipment,
+        [slot]: null,
+        items: items.filter((item) => item.id !== itemId),
+      },
+    },
+    items: items.filter((item) => item.id === itemId),
+  };
+}
+
+/**
+ * Add items to the inventory regardless of capacity
+ */
+function putBack(inventory: Inventory, items: ReadonlyArray<Item>): Inventory {
+  if (items.length === 0) {
+    return inventory;
+  }
+
+  return {
+    ...inventory,
+    items: [...inventory.items, ...items],
+    currentCount: inventory.currentCount + items.length,
+  };
+}
@@ -0,0 +1,502 @@
+/**
+ * Farm Raid Service
+ *
+ * Human raiders attacking the farm per the PRD's Base Defense & Raids and
+ * DOMAIN-FARM.md (true death of zombies killed on the farm).
+ *
+ * Scheduling:
+ * - From FARM_RAIDS.GRACE_DAYS on, each new day may schedule a raid for
+ *   RAID_HOUR that night (DAILY_CHANCE)
+ * - Fog lowers the chance; a blood moon raises it and brings more raiders
+ * - A scheduled raid attacks once its day and hour arrive
+ *
+ * Resolution (rounds, at most MAX_ROUNDS):
+ * - Raiders spawn at the farm edges; defenses always target the nearest raider
+ * - Traps spring once before the fight and are spent (DISABLED) until
+ *   the next day starts, when they re-arm
+ * - Each round Guard Towers, Wooden Spikes and guarding zombies strike, then
+ *   every raider acts: fight the nearest guard, else hack at the nearest
+ *   Stone Wall, else damage the nearest building, loot and escape
+ * - Farm defense (defenseBonus of all defenses) softens raider blows on guards
+ * - Guards at 0 HP are destroyed for good and their equipment returns to
+ *   the inventory; broken walls and looted buildings are left DAMAGED; each
+ *   escaping raider carries off RAIDER_CARRY_CAPACITY resources, at most
+ *   MAX_STOLEN_FRACTION of each stock
+ *
+ * Random rolls take a random source in [0, 1) (default Math.random) so the
+ * game's seeded sequence can drive them.
+ *
+ * Authority: PRD Base Defense & Raids, DOMAIN-FARM.md Section "Zombie Lifecycle on the Farm"
+ */
+
+import type {
+  Building,
+  FarmRaidReport,
+  FarmState,
+  ScheduledFarmRaid,
+  Zombie,
+} from '../../../types/farm';
+import { BuildingState, BuildingType, ZombieAIState } from '../../../types/farm';
+import type { BuildingId, Position, TimeState } from '../../../types/global';
+import { Weather } from '../../../types/global';
+import type { Inventory, Resource } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { removeResource } from '../../game/lib/resources';
+import { isBloodMoon } from '../../game/lib/timeSystem';
+import { getBuildingModifiers, getRaidDefenseEffect } from './buildingEffects';
+import { getEffectiveStats, getSurvivorHp, returnEquipment } from './equipment';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Human raider on the farm
+ */
+export interface FarmRaider {
+  readonly id: string;
+  readonly position: Position;
+  readonly hp: number;
+  readonly attack: number;
+}
+
+/**
+ * Farm and inventory after a raid, with its report
+ */
+export interface FarmRaidResult {
+  farmState: FarmState;
+  inventory: Inventory;
+  report: FarmRaidReport;
+}
+
+/**
+ * Farm and inventory after checking for raids (report set if one attacked)
+ */
+export interface FarmRaidUpdate {
+  farmState: FarmState;
+  inventory: Inventory;
+  report: FarmRaidReport | null;
+}
+
+/**
+ * Mutable fight state while a raid is resolved
+ */
+interface RaidFight {
+  raiders: Array<{ id: string; position: Position; hp: number; attack: number; gone: boolean }>;
+  guards: Array<{ zombie: Zombie; hp: number; attack: number }>;
+  buildings: Building[];
+  wallDamage: Map<BuildingId, number>;
+  inventory: Inventory;
+  stolen: Partial<Record<Resource, number>>;
+  stealLimits: Partial<Record<Resource, number>>;
+  escaped: number;
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+/**
+ * Gets the chance that the current day schedules a raid
+ *
+ * @param time - Current game time
+ * @returns Raid chance (0-1)
+ */
+export function getFarmRaidChance(time: TimeState): number {
+  const config = gameConfig.FARM_RAIDS;
+  if (time.day < config.GRACE_DAYS) return 0;
+
+  let chance = config.DAILY_CHANCE;
+  if (time.weather === Weather.FOG) chance *= config.FOG_CHANCE_MULTIPLIER;
+  if (isBloodMoon(time.day)) chance *= config.BLOOD_MOON_CHANCE_MULTIPLIER;
+
+  return Math.min(chance, 1);
+}
+
+/**
+ * Gets the number of raiders attacking on a day
+ *
+ * @param day - Game day
+ * @returns Raider count
+ */
+export function getRaiderCount(day: number): number {
+  const config = gameConfig.FARM_RAIDS;
+  const count = config.BASE_RAIDERS + Math.floor(day / config.DAYS_PER_EXTRA_RAIDER);
+
+  return isBloodMoon(day) ? Math.ceil(count * config.BLOOD_MOON_RAIDER_MULTIPLIER) : count;
+}
+
+/**
+ * Rolls for a raid on a new day
+ *
+ * Does nothing while a raid is already scheduled.
+ *
+ * @param farmState - Current farm state
+ * @param time - Game time at the start of the day
+ * @param random - Random source in [0, 1) (default Math.random)
+ * @returns Farm state, with a scheduled raid if the roll hit
+ */
+export function scheduleFarmRaid(
+  farmState: FarmState,
+  time: TimeState,
+  random: () => number = Math.random
+): FarmState {
+  if (farmState.scheduledRaid) return farmState;
+
+  const chance = getFarmRaidChance(time);
+  if (chance <= 0 || random() >= chance) return farmState;
+
+  const raid: ScheduledFarmRaid = {
+    day: time.day,
+    hour: gameConfig.FARM_RAIDS.RAID_HOUR,
+    raiders: getRaiderCount(time.day),
+    isBloodMoon: isBloodMoon(time.day),
+  };
+
+  return { ...farmState, scheduledRaid: raid };
+}
+
+/**
+ * Checks whether a scheduled raid attacks now
+ *
+ * @param raid - Scheduled raid
+ * @param time - Current game time
+ * @returns True once the raid's day and hour have arrived
+ */
+export function isFarmRaidDue(raid: ScheduledFarmRaid, time: TimeState): boolean {
+  return time.day > raid.day || (time.day === raid.day && time.hour >= raid.hour);
+}
+
+/**
+ * Re-arms spent traps and schedules raids on new days, and resolves raids
+ * that are due
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param time - Current game time
+ * @param dayChanged - Whether a new day started this step
+ * @param timestamp - Current timestamp
+ * @param random - Random source in [0, 1) (default Math.random)
+ * @returns Farm and inventory, with the report if a raid attacked
+ */
+export function updateFarmRaids(
+  farmState: FarmState,
+  inventory: Inventory,
+  time: TimeState,
+  dayChanged: boolean,
+  timestamp: number,
+  random: () => number = Math.random
+): FarmRaidUpdate {
+  const scheduled = dayChanged ? scheduleFarmRaid(rearmTraps(farmState), time, random) : farmState;
+  const raid = scheduled.scheduledRaid;
+
+  if (!raid || !isFarmRaidDue(raid, time)) {
+    return { farmState: scheduled, inventory, report: null };
+  }
+
+  return resolveFarmRaid(scheduled, inventory, raid, timestamp, random);
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Places raiders at random points along the farm's edges
+ *
+ * @param farmState - Farm being raided
+ * @param count - Number of raiders
+ * @param random - Random source in [0, 1) (default Math.random)
+ * @returns Raiders at full strength
+ */
+export function spawnFarmRaiders(
+  farmState: FarmState,
+  count: number,
+  random: () => number = Math.random
+): FarmRaider[] {
+  const { width, height } = farmState.gridSize;
+  const { RAIDER_HP, RAIDER_ATTACK } = gameConfig.FARM_RAIDS;
+
+  return Array.from({ length: count }, (_, i) => {
+    const edge = Math.floor(random() * 4);
+    const along = random();
+    const position =
+      edge === 0
+        ? { x: Math.floor(along * width), y: 0 }
+        : edge === 1
+          ? { x: width - 1, y: Math.floor(along * height) }
+          : edge === 2
+            ? { x: Math.floor(along * width), y: height - 1 }
+            : { x: 0, y: Math.floor(along * height) };
+
+    return { id: `raider-${i}`, position, hp: RAIDER_HP, attack: RAIDER_ATTACK };
+  });
+}
+
+/**
+ * Fights a raid out against the farm's defenses
+ *
+ * @param farmState - Farm being raided
+ * @param inventory - Current inventory
+ * @param raid - Raid attacking now
+ * @param timestamp - Current timestamp
+ * @param random - Random source in [0, 1) (default Math.random)
+ * @returns Farm and inventory after the raid, and its report
+ */
+export function resolveFarmRaid(
+  farmState: FarmState,
+  inventory: Inventory,
+  raid: ScheduledFarmRaid,
+  timestamp: number,
+  random: () => number = Math.random
+): FarmRaidResult {
+  const config = gameConfig.FARM_RAIDS;
+  const fight: RaidFight = {
+    raiders: spawnFarmRaiders(farmState, raid.raiders, random).map((r) => ({ ...r, gone: false })),
+    guards: farmState.activeZombies
+      .filter((zombie) => zombie.aiState === ZombieAIState.GUARDING && zombie.stats.hp > 0)
+      .map((zombie) => {
+        const { hp, attack } = getEffectiveStats(zombie);
+        return { zombie, hp, attack };
+      }),
+    buildings: [...farmState.buildings],
+    wallDamage: new Map(),
+    inventory,
+    stolen: {},
+    stealLimits: getStealLimits(inventory),
+    escaped: 0,
+  };
+  const damageTaken = 100 / (100 + getBuildingModifiers(farmState).defenseBonus);
+
+  springTraps(fight);
+
+  for (let round = 0; round < config.MAX_ROUNDS && getStandingRaiders(fight).length > 0; round++) {
+    defendersStrike(fight);
+
+    for (const raider of getStandingRaiders(fight)) {
+      raiderActs(fight, raider, damageTaken);
+    }
+  }
+
+  const killedZombieIds = fight.guards.filter((g) => g.hp <= 0).map((g) => g.zombie.id);
+  const guardHp = new Map(fight.guards.map((g) => [g.zombie.id, g.hp]));
+  const damagedBuildingIds = fight.buildings
+    .filter(
+      (b, i) => b.state === BuildingState.DAMAGED && farmState.buildings[i]?.state !== b.state
+    )
+    .map((b) => b.id);
+
+  const report: FarmRaidReport = {
+    day: raid.day,
+    isBloodMoon: raid.isBloodMoon,
+    raiders: fight.raiders.length,
+    raidersKilled: fight.raiders.filter((r) => r.hp <= 0).length,
+    raidersEscaped: fight.escaped,
+    stolen: fight.stolen,
+    damagedBuildingIds,
+    killedZombieIds,
+    outcome: fight.escaped > 0 ? 'plundered' : 'repelled',
+    timestamp,
+  };
+
+  return {
+    farmState: {
+      ...farmState,
+      activeZombies: farmState.activeZombies
+        .filter((zombie) => !killedZombieIds.includes(zombie.id))
+        .map((zombie) => withHp(zombie, guardHp.get(zombie.id))),
+      buildings: fight.buildings,
+      scheduledRaid: null,
+      lastRaidReport: report,
+    },
+    inventory: returnEquipment(
+      fight.inventory,
+      farmState.activeZombies.filter((zombie) => killedZombieIds.includes(zombie.id))
+    ),
+    report,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Each ready trap hits the nearest raider once and is spent
+ */
+function springTraps(fight: RaidFight): void {
+  fight.buildings = fight.buildings.map((building) => {
+    const trapDamage = getRaidDefenseEffect(building)?.trapDamage ?? 0;
+    const target =
+      trapDamage > 0 ? findNearest(building.position, getStandingRaiders(fight)) : null;
+    if (!target) return building;
+
+    target.hp -= trapDamage;
+    return { ...building, state: BuildingState.DISABLED };
+  });
+}
+
+/**
+ * Spent traps are ready again
+ */
+function rearmTraps(farmState: FarmState): FarmState {
+  const isSpentTrap = (building: Building) =>
+    building.state === BuildingState.DISABLED &&
+    (getRaidDefenseEffect({ ...building, state: BuildingState.ACTIVE })?.trapDamage ?? 0) > 0;
+  if (!farmState.buildings.some(isSpentTrap)) return farmState;
+
+  return {
+    ...farmState,
+    buildings: farmState.buildings.map((building) =>
+      isSpentTrap(building) ? { ...building, state: BuildingState.ACTIVE } : building
+    ),
+  };
+}
+
+/**
+ * Towers, spikes and guards each strike the nearest standing raider
+ */
+function defendersStrike(fight: RaidFight): void {
+  for (const building of fight.buildings) {
+    const damage = getRaidDefenseEffect(building)?.damagePerRound ?? 0;
+    const target = damage > 0 ? findNearest(building.position, getStandingRaiders(fight)) : null;
+    if (target) target.hp -= damage;
+  }
+
+  for (const guard of fight.guards) {
+    if (guard.hp <= 0) continue;
+    const target = findNearest(guard.zombie.position, getStandingRaiders(fight));
+    if (target) target.hp -= Math.max(1, guard.attack);
+  }
+}
+
+/**
+ * A raider fights the nearest guard, else breaks the nearest wall, else loots
+ */
+function raiderActs(
+  fight: RaidFight,
+  raider: RaidFight['raiders'][number],
+  damageTaken: number
+): void {
+  const guard = findNearest(
+    raider.position,
+    fight.guards.filter((g) => g.hp > 0),
+    (g) => g.zombie.position
+  );
+  if (guard) {
+    guard.hp = Math.max(0, guard.hp - Math.max(1, Math.round(raider.attack * damageTaken)));
+    return;
+  }
+
+  const wall = findNearest(
+    raider.position,
+    fight.buildings.filter((b) => b.type === BuildingType.STONE_WALL && isStanding(b))
+  );
+  if (wall) {
+    const damage =
+      (fight.wallDamage.get(wall.id) ?? 0) +
+      raider.attack * gameConfig.FARM_RAIDS.RAIDER_SIEGE_MULTIPLIER;
+    fight.wallDamage.set(wall.id, damage);
+    if (damage >= (getRaidDefenseEffect(wall)?.wallHp ?? 0)) {
+      setBuildingState(fight, wall.id, BuildingState.DAMAGED);
+    }
+    return;
+  }
+
+  const target = findNearest(raider.position, fight.buildings.filter(isStanding));
+  if (target) setBuildingState(fight, target.id, BuildingState.DAMAGED);
+
+  steal(fight);
+  raider.gone = true;
+  fight.escaped += 1;
+}
+
+/**
+ * An escaping raider carries off resources from the largest stocks
+ */
+function steal(fight: RaidFight): void {
+  let capacity = gameConfig.FARM_RAIDS.RAIDER_CARRY_CAPACITY;
+  const stocks = (Object.entries(fight.inventory.resources) as Array<[Resource, number]>).sort(
+    (a, b) => b[1] - a[1]
+  );
+
+  for (const [resource] of stocks) {
+    if (capacity <= 0) break;
+
+    const left = (fight.stealLimits[resource] ?? 0) - (fight.stolen[resource] ?? 0);
+    const amount = Math.min(capacity, left);
+    if (amount <= 0) continue;
+
+    const removed = removeResource(fight.inventory, resource, amount);
+    if (!removed.success) continue;
+
+    fight.inventory = removed.inventory;
+    fight.stolen[resource] = (fight.stolen[resource] ?? 0) + amount;
+    capacity -= amount;
+  }
+}
+
+/**
+ * Most of each resource a raid may take
+ */
+function getStealLimits(inventory: Inventory): Partial<Record<Resource, number>> {
+  const limits: Partial<Record<Resource, number>> = {};
+  for (const [resource, amount] of Object.entries(inventory.resources) as Array<
+    [Resource, number]
+  >) {
+    limits[resource] = Math.floor(amount * gameConfig.FARM_RAIDS.MAX_STOLEN_FRACTION);
+  }
+  return limits;
+}
+
+/**
+ * Raiders still fighting on the farm
+ */
+function getStandingRaiders(fight: RaidFight): RaidFight['raiders'] {
+  return fight.raiders.filter((raider) => raider.hp > 0 && !raider.gone);
+}
+
+/**
+ * Buildings raiders can still damage
+ */
+function isStanding(building: Building): boolean {
+  return building.state === BuildingState.ACTIVE;
+}
+
+function setBuildingState(fight: RaidFight, buildingId: BuildingId, state: BuildingState): void {
+  fight.buildings = fight.buildings.map((b) => (b.id === buildingId ? { ...b, state } : b));
+}
+
+/**
+ * Nearest item to a position (first one on ties)
+ */
+function findNearest<T>(
+  from: Position | null,
+  items: ReadonlyArray<T>,
+  getPosition: (item: T) => Position | null = (item) =>
+    (item as { position: Position | null }).position
+): T | null {
+  let nearest: T | null = null;
+  let nearestDistance = Infinity;
+
+  for (const item of items) {
+    const to = getPosition(item);
+    const distance = from && to ? Math.hypot(from.x - to.x, from.y - to.y) : 0;
+    if (distance < nearestDistance) {
+      nearest = item;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Zombie with the HP it ended the raid on, less its equipment bonus
+ */
+function withHp(zombie: Zombie, hp: number | undefined): Zombie {
+  const survivorHp = hp === undefined ? zombie.stats.hp : getSurvivorHp(zombie, hp);
+  return survivorHp === zombie.stats.hp
+    ? zombie
+    : { ...zombie, stats: { ...zombie.stats, hp: survivorHp } };
+}
@@ -0,0 +1,349 @@
+/**
+ * Zombie Fusion Service
+ *
+ * Fuses two zombies into one stronger hybrid per the PRD's Zombie Fusion:
+ * - Both parents must be at max level, of the same or neighboring tiers
+ *   (FUSION.TIER_RANKS), and neither may be a fused zombie itself
+ * - Fusion costs Soul Essence and consumes both parents, from the active
+ *   roster or the Crypt; their equipment returns to the inventory
+ * - The hybrid gets STAT_SHARE of the parents' combined HP, attack and
+ *   defense, and the best speed, range, cooldown and decay of the two
+ * - Its type comes from FUSION.HYBRIDS, or the higher-tier parent's type
+ * - Its quality is the better parent's, with a chance to rise one tier
+ *   (stats scale with the quality multipliers)
+ * - It inherits each parent's strongest mutation (mutation slots apply) and
+ *   may gain a new one
+ * - It starts at level 1 with a lineage record of its parents
+ *
+ * The hybrid joins the active roster where an active parent stood, or the
+ * Crypt when both parents were stored there.
+ *
+ * Authority: PRD Zombie Fusion, DOMAIN-FARM.md Section "Zombies"
+ */
+
+import type { FarmState, Zombie, ZombieParent, ZombieStats } from '../../../types/farm';
+import { MutationRarity, ZombieAIState, ZombieQuality, ZombieType } from '../../../types/farm';
+import type { ZombieId } from '../../../types/global';
+import type { Inventory } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { deductCost } from '../../game/lib/resources';
+import { canAddToActiveRoster } from './zombieManagement';
+import { returnEquipment } from './equipment';
+import { getMutationDefinitions, hasFreeMutationSlot, rollMutation } from './mutations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result type for service operations
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * Farm and inventory after a fusion, with the new zombie
+ */
+export interface FusionResult {
+  farmState: FarmState;
+  inventory: Inventory;
+  zombie: Zombie;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const QUALITIES: ReadonlyArray<ZombieQuality> = [
+  ZombieQuality.BRONZE,
+  ZombieQuality.SILVER,
+  ZombieQuality.GOLD,
+  ZombieQuality.DIAMOND,
+];
+
+const RARITIES: ReadonlyArray<MutationRarity> = [
+  MutationRarity.COMMON,
+  MutationRarity.RARE,
+  MutationRarity.EPIC,
+];
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Checks whether a zombie came out of a fusion
+ *
+ * @param zombie - Zombie to check
+ * @returns True if the zombie has a lineage (and cannot be fused again)
+ */
+export function isFusedZombie(zombie: Pick<Zombie, 'lineage'>): boolean {
+  return zombie.lineage != null;
+}
+
+/**
+ * Checks whether two zombies can be fused
+ *
+ * @param zombie - First parent
+ * @param partner - Second parent
+ * @returns Success, or the reason they cannot be fused
+ */
+export function canFuse(zombie: Zombie, partner: Zombie): Result<void> {
+  if (zombie.id === partner.id) {
+    return { success: false, error: 'A zombie cannot be fused with itself' };
+  }
+
+  const { MAX_ZOMBIE_LEVEL } = gameConfig.PROGRESSION;
+  for (const parent of [zombie, partner]) {
+    if (isFusedZombie(parent)) {
+      return { success: false, error: `${parent.name} has already been fused` };
+    }
+    if (parent.level < MAX_ZOMBIE_LEVEL) {
+      return { success: false, error: `${parent.name} must be level ${MAX_ZOMBIE_LEVEL} to fuse` };
+    }
+  }
+
+  if (
+    Math.abs(getTierRank(zombie.type) - getTierRank(partner.type)) > gameConfig.FUSION.MAX_TIER_GAP
+  ) {
+    return { success: false, error: 'Zombie tiers are too far apart to fuse' };
+  }
+
+  return { success: true, data: undefined };
+}
+
+/**
+ * Resolves the type of the zombie two parent types fuse into
+ *
+ * @param type - First parent type
+ * @param partnerType - Second parent type
+ * @returns Hybrid type from FUSION.HYBRIDS, or the higher-tier parent's type
+ */
+export function getHybridType(type: ZombieType, partnerType: ZombieType): ZombieType {
+  const hybrid = gameConfig.FUSION.HYBRIDS.find(
+    ({ parents: [a, b] }) => (a === type && b === partnerType) || (a === partnerType && b === type)
+  );
+  if (hybrid) {
+    return hybrid.result;
+  }
+
+  return getTierRank(partnerType) > getTierRank(type) ? partnerType : type;
+}
+
+/**
+ * Gets the quality a fusion yields before the upgrade roll
+ *
+ * @param zombie - First parent
+ * @param partner - Second parent
+ * @returns The better of the parents' qualities
+ */
+export function getFusionQuality(
+  zombie: Pick<Zombie, 'quality'>,
+  partner: Pick<Zombie, 'quality'>
+): ZombieQuality {
+  return QUALITIES.indexOf(partner.quality) > QUALITIES.indexOf(zombie.quality)
+    ? partner.quality
+    : zombie.quality;
+}
+
+/**
+ * Previews the stats of the zombie two parents fuse into
+ *
+ * @param zombie - First parent
+ * @param partner - Second parent
+ * @param quality - Quality of the result (default: no quality upgrade)
+ * @returns Stats of the fused zombie at full HP
+ */
+export function previewFusion(
+  zombie: Pick<Zombie, 'quality' | 'stats'>,
+  partner: Pick<Zombie, 'quality' | 'stats'>,
+  quality: ZombieQuality = getFusionQuality(zombie, partner)
+): ZombieStats {
+  const multipliers = gameConfig.QUALITY_MULTIPLIERS;
+  const scale =
+    gameConfig.FUSION.STAT_SHARE *
+    (multipliers[quality] / multipliers[getFusionQuality(zombie, partner)]);
+  const combine = (stat: 'maxHp' | 'attack' | 'defense') =>
+    Math.round((zombie.stats[stat] + partner.stats[stat]) * scale);
+
+  const maxHp = combine('maxHp');
+  return {
+    hp: maxHp,
+    maxHp,
+    attack: combine('attack'),
+    defense: combine('defense'),
+    speed: Math.max(zombie.stats.speed, partner.stats.speed),
+    range: Math.max(zombie.stats.range, partner.stats.range),
+    attackCooldown: Math.min(zombie.stats.attackCooldown, partner.stats.attackCooldown),
+    decayRate: Math.min(zombie.stats.decayRate, partner.stats.decayRate),
+  };
+}
+
+// ============================================================================
+// PLAYER ACTIONS
+// ============================================================================
+
+/**
+ * Fuses two zombies into a hybrid
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param zombieId - First parent (active roster or Crypt)
+ * @param partnerId - Second parent (active roster or Crypt)
+ * @param fusedZombieId - ID for the new zombie
+ * @param timestamp - Current timestamp
+ * @param random - Random source in [0, 1) for quality and mutation rolls
+ * @returns Updated farm, inventory and the fused zombie, or error
+ */
+export function fuseZombies(
+  farmState: FarmState,
+  inventory: Inventory,
+  zombieId: ZombieId,
+  partnerId: ZombieId,
+  fusedZombieId: ZombieId,
+  timestamp: number,
+  random: () => number = Math.random
+): Result<FusionResult> {
+  const zombie = findZombie(farmState, zombieId);
+  if (!zombie) {
+    return { success: false, error: `Zombie ${zombieId} not found` };
+  }
+
+  const partner = findZombie(farmState, partnerId);
+  if (!partner) {
+    return { success: false, error: `Zombie ${partnerId} not found` };
+  }
+
+  const compatibility = canFuse(zombie, partner);
+  if (!compatibility.success) {
+    return compatibility;
+  }
+
+  const payment = deductCost(inventory, gameConfig.FUSION.COST);
+  if (!payment.success) {
+    return { success: false, error: payment.error.message };
+  }
+
+  const quality = rollFusionQuality(zombie, partner, random);
+  const type = getHybridType(zombie.type, partner.type);
+  const fused: Zombie = {
+    id: fusedZombieId,
+    type,
+    name: getHybridName(zombie, partner),
+    quality,
+    level: 1,
+    xp: 0,
+    xpToNextLevel: gameConfig.PROGRESSION.ZOMBIE_XP_CURVE(1),
+    stats: previewFusion(zombie, partner, quality),
+    happiness: Math.round((zombie.happiness + partner.happiness) / 2),
+    daysSinceLastFed: Math.min(zombie.daysSinceLastFed, partner.daysSinceLastFed),
+    lastFedAt: Math.max(zombie.lastFedAt ?? 0, partner.lastFedAt ?? 0) || null,
+    lastPetAt: null,
+    mutations: rollFusionMutations(zombie, partner, random),
+    equipment: {
+      weapon: null,
+      armor: null,
+      accessory: null,
+    },
+    position: null,
+    aiState: ZombieAIState.IDLE,
+    createdAt: timestamp,
+    lineage: { parents: [toParent(zombie), toParent(partner)], fusedAt: timestamp },
+  };
+
+  const isParent = (z: Zombie) => z.id === zombieId || z.id === partnerId;
+  const remaining: FarmState = {
+    ...farmState,
+    activeZombies: farmState.activeZombies.filter((z) => !isParent(z)),
+    cryptZombies: farmState.cryptZombies.filter((z) => !isParent(z)),
+  };
+  const activeParent = farmState.activeZombies.find(isParent);
+  const joinsRoster = activeParent !== undefined && canAddToActiveRoster(remaining);
+
+  return {
+    success: true,
+    data: {
+      farmState: joinsRoster
+        ? {
+            ...remaining,
+            activeZombies: [
+              ...remaining.activeZombies,
+              { ...fused, position: activeParent.position },
+            ],
+          }
+        : { ...remaining, cryptZombies: [...remaining.cryptZombies, fused] },
+      inventory: returnEquipment(payment.inventory, [zombie, partner]),
+      zombie: fused,
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function findZombie(farm: FarmState, zombieId: ZombieId): Zombie | undefined {
+  return (
+    farm.activeZombies.find((z) => z.id === zombieId) ??
+    farm.cryptZombies.find((z) => z.id === zombieId)
+  );
+}
+
+function getTierRank(type: ZombieType): number {
+  return gameConfig.FUSION.TIER_RANKS[gameConfig.ZOMBIES[type].tier];
+}
+
+/**
+ * Roll the quality upgrade: one tier above the better parent (Diamond stays)
+ */
+function rollFusionQuality(zombie: Zombie, partner: Zombie, random: () => number): ZombieQuality {
+  const quality = getFusionQuality(zombie, partner);
+  if (random() >= gameConfig.FUSION.QUALITY_UPGRADE_CHANCE) {
+    return quality;
+  }
+
+  return QUALITIES[QUALITIES.indexOf(quality) + 1] ?? quality;
+}
+
+/**
+ * Inherit the strongest mutation of each parent (a random one among equally
+ * rare), then roll for a new one. Owned mutations and full slots are skipped.
+ */
+function rollFusionMutations(zombie: Zombie, partner: Zombie, random: () => number): string[] {
+  const mutations: string[] = [];
+
+  for (const parent of [zombie, partner]) {
+    const candidates = getMutationDefinitions(parent.mutations).filter(
+      (m) => !mutations.includes(m.id) && hasFreeMutationSlot(mutations, m.category)
+    );
+    if (candidates.length === 0) continue;
+
+    const best = Math.max(...candidates.map((m) => RARITIES.indexOf(m.rarity)));
+    const strongest = candidates.filter((m) => RARITIES.indexOf(m.rarity) === best);
+    const inherited = strongest[Math.floor(random() * strongest.length)];
+    if (inherited) {
+      mutations.push(inherited.id);
+    }
+  }
+
+  if (random() < gameConfig.FUSION.NEW_MUTATION_CHANCE) {
+    const mutation = rollMutation(random, mutations);
+    if (mutation) {
+      mutations.push(mutation.id);
+    }
+  }
+
+  return mutations;
+}
+
+/**
+ * Name a hybrid after its parents: first word of one, last word of the other
+ */
+function getHybridName(zombie: Zombie, partner: Zombie): string {
+  const first = zombie.name.split(' ')[0] ?? zombie.name;
+  const last = partner.name.split(' ').pop() ?? partner.name;
+  return `${first} ${last}`;
+}
+
+function toParent(zombie: Zombie): ZombieParent {
+  return { id: zombie.id, type: zombie.type, name: zombie.name, quality: zombie.quality };
+}
@@ -165,9 +165,14 @@ export interface QualityConditions {
  *
  * @param seedType - Type of seed (affects zombie type)
  * @param conditions - Growth conditions (fertilized, watered, etc.)
+ * @param random - Random source in [0, 1) (default Math.random)
  * @returns Quality tier for the zombie
  */
-export function determineQuality(seedType: SeedType, conditions: QualityConditions): ZombieQuality {
+export function determineQuality(
+  seedType: SeedType,
+  conditions: QualityConditions,
+  random: () => number = Math.random
+): ZombieQuality {
   // Get base quality chances from config
   const baseChances = gameConfig.ZOMBIE_GROWTH.qualityChances;
 
@@ -192,7 +197,7 @@ export function determineQuality(seedType: SeedType, conditions: QualityConditio
   }
 
   // Generate random number for quality selection
-  const roll = Math.random();
+  const roll = random();
 
   // Cumulative probability selection
   let cumulative = 0;
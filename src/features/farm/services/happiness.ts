@@ -8,12 +8,15 @@
  * - Environment factors (decorations, cleanliness)
  * - Social factors (loneliness vs companionship)
  * - Happiness effects on decay and performance
+ * - Daily happiness shifts from mutations (see mutations.ts)
  *
  * Authority: DOMAIN-FARM.md Section "Decay and Maintenance" - Happiness subsection
  */
 
 import type { Zombie, FarmState } from '../../../types/farm';
 import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { getDecorationHappiness } from './buildingEffects';
+import { getMutationHappinessPerDay } from './mutations';
 
 /**
  * Happiness Constants
@@ -161,17 +164,16 @@ export function getSocialFactor(zombie: Zombie, farmState: FarmState): number {
 /**
  * Get Environment Factor
  *
- * Returns happiness boost from environment (decorations, buildings).
- * Future: Check for nearby decorations.
+ * Returns happiness boost from decorations within range of the zombie
+ * (see buildingEffects.getDecorationHappiness).
  *
  * @param zombie - Zombie to check
  * @param farmState - Current farm state
  * @returns Happiness adjustment
  */
-export function getEnvironmentFactor(_zombie: Zombie, _farmState: FarmState): number {
-  // Future: Check farmState.buildings for decorations near zombie.position
-  // For now, assume no decorations
-  return 0;
+export function getEnvironmentFactor(zombie: Zombie, farmState: FarmState): number {
+  // Zombies in the Crypt have no position and see no decorations
+  return zombie.position ? getDecorationHappiness(farmState, zombie.position) : 0;
 }
 
 /**
@@ -298,9 +300,7 @@ export function applyHappinessRecovery(zombie: Zombie, _farmState: FarmState): Z
  * @param happiness - Happiness value (0-100)
  * @returns Modifier object with stat and decay adjustments
  */
-export function getHappinessModifier(
-  happiness: number
-): {
+export function getHappinessModifier(happiness: number): {
   statModifier: number;
   decayModifier: number;
 } {
@@ -335,14 +335,15 @@ export function getHappinessModifier(
  * Extremely unhappy zombies (< 25 happiness) may become unresponsive.
  *
  * @param zombie - Zombie to check
+ * @param random - Random source in [0, 1) (default Math.random)
  * @returns True if zombie should ignore commands
  */
-export function shouldIgnoreCommand(zombie: Zombie): boolean {
+export function shouldIgnoreCommand(zombie: Zombie, random: () => number = Math.random): boolean {
   // Below 25 happiness, zombies may ignore commands
   if (zombie.happiness < 25) {
     // Chance to ignore increases as happiness decreases
     const ignoreChance = (25 - zombie.happiness) / 25; // 0% at 25, 100% at 0
-    return Math.random() < ignoreChance;
+    return random() < ignoreChance;
   }
   return false;
 }
@@ -381,6 +382,12 @@ export function processAllZombiesHappiness(farmState: FarmState): FarmState {
       happiness = clampHappiness(happiness + injuryFactor);
     }
 
+    // Apply the daily shift from mutations (restless or content)
+    const mutationShift = getMutationHappinessPerDay(zombie);
+    if (mutationShift !== 0) {
+      happiness = clampHappiness(happiness + mutationShift);
+    }
+
     return {
       ...zombie,
       happiness,
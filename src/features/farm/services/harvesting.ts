@@ -24,6 +24,7 @@ import type {
 import type { Inventory, SeedType, Resource } from '../../../types/resources';
 import { PlotState, ZombieAIState } from '../../../types/farm';
 import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { getMutationChance, rollMutation, type MutationConditions } from './mutations';
 
 /**
  * Result type for service operations
@@ -176,76 +177,46 @@ export function applyQualityMultiplier(
 // APPLY MUTATIONS
 // ============================================================================
 
-/**
- * Available mutation types
- */
-const MUTATION_TYPES = [
-  'Regeneration', // Slowly heals over time
-  'Thick Skin', // +defense
-  'Bloodlust', // +attack
-  'Swift', // +speed
-  'Venomous', // Attacks apply poison
-  'Resilient', // Reduced decay rate
-  'Explosive Finish', // Explodes on death
-  'Pack Leader', // Boosts nearby zombies
-  'Berserker', // Gains attack as HP lowers
-  'Armored', // Additional damage reduction
-];
-
 /**
  * Applies random mutations to zombie
  *
- * Per DOMAIN-FARM.md:
+ * Per PRD Natural Mutations:
  * - Mutations are rare special traits
- * - Higher quality zombies have higher mutation chance
- * - Mutations provide unique bonuses
- *
- * Mutation chances by quality:
- * - Bronze: 5%
- * - Silver: 10%
- * - Gold: 20%
- * - Diamond: 35%
+ * - Higher quality zombies have higher mutation chance (see getMutationChance)
+ * - Rarity is rolled by weight, then a mutation of that rarity
+ * - A mutation occasionally brings a second one
  *
  * @param zombie - Zombie to mutate
  * @param mutationChance - Probability of mutation (0-1)
- * @returns Zombie with mutations applied
+ * @param random - Random source in [0, 1) (default Math.random)
+ * @returns Zombie with mutation IDs added
  */
-export function applyMutations(zombie: Zombie, mutationChance: number): Zombie {
+export function applyMutations(
+  zombie: Zombie,
+  mutationChance: number,
+  random: () => number = Math.random
+): Zombie {
   // Check if mutation occurs
-  if (Math.random() > mutationChance) {
+  if (random() > mutationChance) {
     return zombie; // No mutation
   }
 
-  // Select random mutation(s)
-  const numMutations = Math.random() < 0.1 ? 2 : 1; // 10% chance for 2 mutations
-  const mutations: string[] = [];
+  const count = random() < gameConfig.MUTATION_ODDS.DOUBLE_MUTATION_CHANCE ? 2 : 1;
+  const mutations = [...zombie.mutations];
 
-  for (let i = 0; i < numMutations; i++) {
-    const mutation = MUTATION_TYPES[Math.floor(Math.random() * MUTATION_TYPES.length)];
-    if (!mutations.includes(mutation)) {
-      mutations.push(mutation);
+  for (let i = 0; i < count; i++) {
+    const mutation = rollMutation(random, mutations);
+    if (mutation) {
+      mutations.push(mutation.id);
     }
   }
 
   return {
     ...zombie,
-    mutations: [...zombie.mutations, ...mutations],
+    mutations,
   };
 }
 
-/**
- * Gets mutation chance based on quality
- */
-function getMutationChance(quality: ZombieQuality): number {
-  const chances = {
-    bronze: 0.05, // 5%
-    silver: 0.1, // 10%
-    gold: 0.2, // 20%
-    diamond: 0.35, // 35%
-  };
-  return chances[quality] || 0;
-}
-
 // ============================================================================
 // GENERATE BYPRODUCTS
 // ============================================================================
@@ -259,13 +230,17 @@ function getMutationChance(quality: ZombieQuality): number {
  * - Higher tier zombies drop more/better resources
  *
  * @param zombieType - Type of zombie harvested
+ * @param random - Random source in [0, 1) (default Math.random)
  * @returns Resource byproducts
  */
-export function generateByproducts(zombieType: ZombieType): Record<Resource, number> {
+export function generateByproducts(
+  zombieType: ZombieType,
+  random: () => number = Math.random
+): Record<Resource, number> {
   // Base byproducts for all zombies
   const byproducts: Partial<Record<Resource, number>> = {
-    rottedWood: Math.floor(Math.random() * 3) + 1, // 1-3 wood
-    bones: Math.floor(Math.random() * 2) + 1, // 1-2 bones
+    rottedWood: Math.floor(random() * 3) + 1, // 1-3 wood
+    bones: Math.floor(random() * 2) + 1, // 1-2 bones
   };
 
   // Type-specific byproducts
@@ -273,7 +248,7 @@ export function generateByproducts(zombieType: ZombieType): Record<Resource, num
 
   // Advanced/Elite zombies drop more
   if (tierBonus >= 2) {
-    byproducts.corpseDust = Math.floor(Math.random() * 2) + 1;
+    byproducts.corpseDust = Math.floor(random() * 2) + 1;
   }
 
   if (tierBonus >= 3) {
@@ -320,7 +295,8 @@ export interface HarvestResult {
  * 1. Validate plot is ready
  * 2. Generate zombie with stats based on type and quality
  * 3. Apply quality multipliers
- * 4. Apply random mutations
+ * 4. Apply random mutations (odds raised by the plot's catalyst and the
+ *    weather and night in conditions)
  * 5. Add zombie to active roster (or Crypt if at capacity)
  * 6. Clear plot for replanting
  * 7. Generate and add resource byproducts
@@ -329,13 +305,19 @@ export interface HarvestResult {
  * @param inventory - Current inventory
  * @param plotId - ID of plot to harvest
  * @param quality - Quality of harvested zombie (from determineQuality)
+ * @param random - Random source in [0, 1) for ID, name, mutations and byproducts
+ * @param now - Harvest time (ms)
+ * @param conditions - Weather and night at harvest (see getMutationConditions)
  * @returns Updated farm state, inventory, and harvested zombie
  */
 export function harvestZombie(
   farmState: FarmState,
   inventory: Inventory,
   plotId: string,
-  quality: ZombieQuality
+  quality: ZombieQuality,
+  random: () => number = Math.random,
+  now: number = Date.now(),
+  conditions: MutationConditions = {}
 ): Result<HarvestResult> {
   // Find plot
   const plot = farmState.plots.find((p) => p.id === plotId);
@@ -365,9 +347,9 @@ export function harvestZombie(
   const stats = generateZombieStats(zombieType, quality);
 
   const zombie: Zombie = {
-    id: `zombie-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    id: `zombie-${now}-${random().toString(36).substr(2, 9)}`,
     type: zombieType,
-    name: generateZombieName(zombieType),
+    name: generateZombieName(zombieType, random),
     quality,
     level: 1,
     xp: 0,
@@ -385,12 +367,15 @@ export function harvestZombie(
     },
     position: null,
     aiState: ZombieAIState.IDLE,
-    createdAt: Date.now(),
+    createdAt: now,
   };
 
   // Apply mutations
-  const mutationChance = getMutationChance(quality);
-  const mutatedZombie = applyMutations(zombie, mutationChance);
+  const mutationChance = getMutationChance(quality, {
+    ...conditions,
+    catalyst: plot.catalyst ?? null,
+  });
+  const mutatedZombie = applyMutations(zombie, mutationChance, random);
 
   // Determine if zombie goes to active roster or Crypt
   const hasCapacity = farmState.activeZombies.length < farmState.activeZombieCapacity;
@@ -412,6 +397,7 @@ export function harvestZombie(
             growthTimeRemaining: null,
             isWatered: false,
             isFertilized: false,
+            catalyst: null,
             zombieId: null,
           }
         : p
@@ -419,7 +405,7 @@ export function harvestZombie(
   };
 
   // Generate byproducts
-  const byproducts = generateByproducts(zombieType);
+  const byproducts = generateByproducts(zombieType, random);
 
   // Add byproducts to inventory
   const updatedInventory: Inventory = {
@@ -449,7 +435,7 @@ export function harvestZombie(
 /**
  * Generates a random name for a zombie
  */
-function generateZombieName(zombieType: ZombieType): string {
+function generateZombieName(zombieType: ZombieType, random: () => number): string {
   const prefixes = [
     'Rotting',
     'Shambling',
@@ -471,8 +457,8 @@ function generateZombieName(zombieType: ZombieType): string {
     'Remains',
   ];
 
-  const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-  const suffix = suffixes[Math.floor(Math.random() * suffixes.length)];
+  const prefix = prefixes[Math.floor(random() * prefixes.length)];
+  const suffix = suffixes[Math.floor(random() * suffixes.length)];
 
   // For special zombie types, use their type name
   const zombieConfig = gameConfig.ZOMBIES[zombieType];
@@ -0,0 +1,443 @@
+/**
+ * Mutation Lab Service
+ *
+ * Forced mutations per the PRD's Forced Mutations (Using the Mutation Lab):
+ * - A zombie from the active roster goes into a lab with a catalyst; the
+ *   catalyst is paid up front and the zombie leaves the roster (no farm AI,
+ *   decay, raids or battles) until its job ends
+ * - Each lab runs as many jobs as it has chambers; further jobs wait in its
+ *   queue (MutationLabEffect). A lab that is damaged or upgrading to its
+ *   first level pauses its jobs
+ * - A job completes after the catalyst's timer (game hours) and rolls for
+ *   success; every mutation the zombie already has lowers the chance
+ * - On success the zombie gains a mutation driven by the catalyst: physical
+ *   (Radioactive Waste), ability (Corrupted DNA), the target picked with an
+ *   Evolution Serum, or an epic mutation (Primal Essence). Mutation slot
+ *   limits apply to every outcome
+ * - Zombies coming out of a lab rejoin the roster beside it, or go to the
+ *   Crypt when the roster is full. Cancelled jobs and jobs of demolished
+ *   labs return the zombie without a mutation; the catalyst is spent
+ *
+ * Jobs live in farmState.mutationJobs, so saves and offline catch-up (which
+ * replays the game loop) carry them.
+ *
+ * Authority: PRD Forced Mutations (Using the Mutation Lab)
+ */
+
+import type {
+  FarmState,
+  MutationCategory,
+  MutationJob,
+  MutationRarity,
+  Zombie,
+} from '../../../types/farm';
+import { BuildingType, ZombieAIState } from '../../../types/farm';
+import type { BuildingId, Position, ZombieId } from '../../../types/global';
+import type { Inventory, Resource } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { deductCost } from '../../game/lib/resources';
+import { getMutationLabEffect } from './buildingEffects';
+import { canAddToActiveRoster } from './zombieManagement';
+import {
+  getMutation,
+  hasFreeMutationSlot,
+  rollMutation,
+  type MutationDefinition,
+} from './mutations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result type for service operations
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * A Mutation Lab catalyst (gameConfig.MUTATION_LAB.CATALYSTS)
+ */
+export interface LabCatalyst {
+  /** Units consumed per attempt */
+  cost: number;
+
+  /** Game hours the attempt takes */
+  hours: number;
+
+  /** Success chance for a zombie without mutations */
+  successChance: number;
+
+  /** Only mutations of this category can result */
+  category?: MutationCategory;
+
+  /** Only mutations of this rarity can result */
+  rarity?: MutationRarity;
+
+  /** The player picks the resulting mutation */
+  targeted?: boolean;
+}
+
+/**
+ * Farm and inventory after a lab action
+ */
+export interface MutationLabResult {
+  farmState: FarmState;
+  inventory: Inventory;
+}
+
+/**
+ * A finished lab job
+ */
+export interface MutationLabOutcome {
+  buildingId: BuildingId;
+  zombieId: ZombieId;
+
+  /** Mutation gained (null if the attempt failed) */
+  mutation: string | null;
+}
+
+/**
+ * Farm after advancing the labs, with the jobs that finished
+ */
+export interface MutationLabUpdate {
+  farmState: FarmState;
+  completed: MutationLabOutcome[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Real milliseconds per game hour */
+const MS_PER_GAME_HOUR = gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION / 24;
+
+const CATALYSTS: Partial<Record<Resource, LabCatalyst>> = gameConfig.MUTATION_LAB.CATALYSTS;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Gets a Mutation Lab catalyst
+ *
+ * @param resource - Resource to check
+ * @returns Catalyst, or null if the resource is not a lab catalyst
+ */
+export function getLabCatalyst(resource: Resource): LabCatalyst | null {
+  return CATALYSTS[resource] ?? null;
+}
+
+/**
+ * Gets the jobs queued or running in the Mutation Labs
+ *
+ * @param farmState - Current farm state
+ * @param buildingId - Only jobs of this lab
+ * @returns Jobs in queue order (a lab runs its first jobs, one per chamber)
+ */
+export function getMutationJobs(farmState: FarmState, buildingId?: BuildingId): MutationJob[] {
+  return (farmState.mutationJobs ?? []).filter(
+    (job) => buildingId === undefined || job.buildingId === buildingId
+  );
+}
+
+/**
+ * Gets the chance a lab attempt succeeds
+ *
+ * @param zombie - Zombie in the chamber
+ * @param catalyst - Catalyst used
+ * @returns Success chance (0 if the resource is not a lab catalyst)
+ */
+export function getLabSuccessChance(zombie: Pick<Zombie, 'mutations'>, catalyst: Resource): number {
+  const config = getLabCatalyst(catalyst);
+  if (!config) return 0;
+
+  const lab = gameConfig.MUTATION_LAB;
+  return Math.max(
+    lab.MIN_SUCCESS_CHANCE,
+    config.successChance - zombie.mutations.length * lab.SUCCESS_PENALTY_PER_MUTATION
+  );
+}
+
+/**
+ * Gets the mutations a lab attempt can give a zombie
+ *
+ * @param zombie - Zombie in the chamber
+ * @param catalyst - Catalyst used
+ * @returns Mutations the zombie does not have and has a free slot for
+ */
+export function getLabMutationOptions(
+  zombie: Pick<Zombie, 'mutations'>,
+  catalyst: Resource
+): MutationDefinition[] {
+  const config = getLabCatalyst(catalyst);
+  if (!config) return [];
+
+  return Object.keys(gameConfig.MUTATIONS)
+    .map(getMutation)
+    .filter((m): m is MutationDefinition => m !== null && canGain(zombie, config, m));
+}
+
+// ============================================================================
+// PLAYER ACTIONS
+// ============================================================================
+
+/**
+ * Puts an active zombie into a Mutation Lab
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param buildingId - Mutation Lab
+ * @param zombieId - Zombie from the active roster
+ * @param catalyst - Catalyst to use (paid now)
+ * @param targetMutation - Mutation ID to aim for (Evolution Serum only)
+ * @param timestamp - Current timestamp
+ * @returns Updated farm and inventory, or error
+ */
+export function startMutation(
+  farmState: FarmState,
+  inventory: Inventory,
+  buildingId: BuildingId,
+  zombieId: ZombieId,
+  catalyst: Resource,
+  targetMutation: string | null,
+  timestamp: number
+): Result<MutationLabResult> {
+  const building = farmState.buildings.find((b) => b.id === buildingId);
+  if (building?.type !== BuildingType.MUTATION_LAB) {
+    return { success: false, error: `Building ${buildingId} is not a Mutation Lab` };
+  }
+
+  const effect = getMutationLabEffect(building);
+  if (!effect) {
+    return { success: false, error: 'Mutation Lab is not operational' };
+  }
+
+  if (getMutationJobs(farmState, buildingId).length >= effect.chambers + effect.queueSize) {
+    return { success: false, error: 'Mutation Lab queue is full' };
+  }
+
+  const zombie = farmState.activeZombies.find((z) => z.id === zombieId);
+  if (!zombie) {
+    return { success: false, error: `Zombie ${zombieId} not found in active roster` };
+  }
+
+  const config = getLabCatalyst(catalyst);
+  if (!config) {
+    return { success: false, error: `${catalyst} is not a Mutation Lab catalyst` };
+  }
+
+  const target = config.targeted ? getMutation(targetMutation ?? '') : null;
+  if (config.targeted && !target) {
+    return { success: false, error: 'Choose a known mutation to target' };
+  }
+
+  const options = getLabMutationOptions(zombie, catalyst);
+  if (target ? !options.some((m) => m.id === target.id) : options.length === 0) {
+    return { success: false, error: 'Zombie has no free mutation slot for this catalyst' };
+  }
+
+  const payment = deductCost(inventory, { resources: { [catalyst]: config.cost } });
+  if (!payment.success) {
+    return { success: false, error: payment.error.message };
+  }
+
+  const job: MutationJob = {
+    buildingId,
+    zombie: { ...zombie, position: null, aiState: ZombieAIState.IDLE },
+    catalyst,
+    targetMutation: target?.id ?? null,
+    remainingMs: config.hours * MS_PER_GAME_HOUR,
+    queuedAt: timestamp,
+  };
+
+  return {
+    success: true,
+    data: {
+      farmState: {
+        ...farmState,
+        activeZombies: farmState.activeZombies.filter((z) => z.id !== zombieId),
+        mutationJobs: [...getMutationJobs(farmState), job],
+      },
+      inventory: payment.inventory,
+    },
+  };
+}
+
+/**
+ * Takes a zombie out of a Mutation Lab without mutating it
+ *
+ * The catalyst is not refunded.
+ *
+ * @param farmState - Current farm state
+ * @param buildingId - Mutation Lab
+ * @param zombieId - Zombie in the lab
+ * @returns Updated farm state or error
+ */
+export function cancelMutation(
+  farmState: FarmState,
+  buildingId: BuildingId,
+  zombieId: ZombieId
+): Result<FarmState> {
+  const job = getMutationJobs(farmState, buildingId).find((j) => j.zombie.id === zombieId);
+  if (!job) {
+    return { success: false, error: `Zombie ${zombieId} is not in Mutation Lab ${buildingId}` };
+  }
+
+  return { success: true, data: finishJob(farmState, job, job.zombie) };
+}
+
+// ============================================================================
+// LAB UPDATE
+// ============================================================================
+
+/**
+ * Advances the Mutation Lab jobs and completes those whose timer ran out
+ *
+ * Time left over when a job completes goes to the next job in the queue.
+ *
+ * @param farmState - Current farm state
+ * @param deltaTime - Time elapsed in milliseconds
+ * @param random - Random source in [0, 1) for success and mutation rolls
+ * @returns Updated farm state and finished jobs
+ */
+export function updateMutationLab(
+  farmState: FarmState,
+  deltaTime: number,
+  random: () => number = Math.random
+): MutationLabUpdate {
+  const jobs = getMutationJobs(farmState);
+  if (jobs.length === 0 || deltaTime <= 0) {
+    return { farmState, completed: [] };
+  }
+
+  let farm = farmState;
+  const completed: MutationLabOutcome[] = [];
+
+  for (const buildingId of new Set(jobs.map((job) => job.buildingId))) {
+    const building = farm.buildings.find((b) => b.id === buildingId);
+    if (!building) {
+      // Demolished lab: its zombies come back unchanged
+      for (const job of getMutationJobs(farm, buildingId)) {
+        farm = finishJob(farm, job, job.zombie);
+        completed.push({ buildingId, zombieId: job.zombie.id, mutation: null });
+      }
+      continue;
+    }
+
+    const effect = getMutationLabEffect(building);
+    if (!effect) continue;
+
+    let remaining = deltaTime;
+    while (remaining > 0) {
+      const running = getMutationJobs(farm, buildingId).slice(0, effect.chambers);
+      if (running.length === 0) break;
+
+      const step = Math.min(remaining, ...running.map((job) => job.remainingMs));
+      remaining -= step;
+      farm = advanceJobs(farm, running, step);
+
+      for (const job of getMutationJobs(farm, buildingId).slice(0, effect.chambers)) {
+        if (job.remainingMs > 0) continue;
+
+        const mutation = rollLabOutcome(job, random);
+        const zombie = mutation
+          ? { ...job.zombie, mutations: [...job.zombie.mutations, mutation.id] }
+          : job.zombie;
+        farm = finishJob(farm, job, zombie);
+        completed.push({ buildingId, zombieId: zombie.id, mutation: mutation?.id ?? null });
+      }
+    }
+  }
+
+  return { farmState: farm, completed };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether a catalyst can give a zombie a mutation
+ */
+function canGain(
+  zombie: Pick<Zombie, 'mutations'>,
+  config: LabCatalyst,
+  mutation: MutationDefinition
+): boolean {
+  const owned = zombie.mutations.some((m) => getMutation(m)?.id === mutation.id);
+  return (
+    !owned &&
+    hasFreeMutationSlot(zombie.mutations, mutation.category) &&
+    (config.category === undefined || mutation.category === config.category) &&
+    (config.rarity === undefined || mutation.rarity === config.rarity)
+  );
+}
+
+/**
+ * Roll a finished job: success first, then the mutation it gives
+ */
+function rollLabOutcome(job: MutationJob, random: () => number): MutationDefinition | null {
+  const config = getLabCatalyst(job.catalyst);
+  if (!config || random() >= getLabSuccessChance(job.zombie, job.catalyst)) {
+    return null;
+  }
+
+  if (config.targeted) {
+    return (
+      getLabMutationOptions(job.zombie, job.catalyst).find((m) => m.id === job.targetMutation) ??
+      null
+    );
+  }
+
+  return rollMutation(random, job.zombie.mutations, (m) => canGain(job.zombie, config, m));
+}
+
+function advanceJobs(farm: FarmState, running: MutationJob[], step: number): FarmState {
+  const advancing = new Set(running);
+  return {
+    ...farm,
+    mutationJobs: getMutationJobs(farm).map((job) =>
+      advancing.has(job) ? { ...job, remainingMs: job.remainingMs - step } : job
+    ),
+  };
+}
+
+/**
+ * Remove a job and return its zombie to the roster (beside the lab) or the
+ * Crypt when the roster is full
+ */
+function finishJob(farm: FarmState, job: MutationJob, zombie: Zombie): FarmState {
+  const remaining = getMutationJobs(farm).filter((j) => j !== job);
+
+  if (!canAddToActiveRoster(farm)) {
+    return {
+      ...farm,
+      mutationJobs: remaining,
+      cryptZombies: [...farm.cryptZombies, { ...zombie, position: null }],
+    };
+  }
+
+  return {
+    ...farm,
+    mutationJobs: remaining,
+    activeZombies: [
+      ...farm.activeZombies,
+      { ...zombie, position: getExitPosition(farm, job.buildingId) },
+    ],
+  };
+}
+
+/**
+ * Where a zombie leaves a lab: at the lab, or the farm center if it is gone
+ */
+function getExitPosition(farm: FarmState, buildingId: BuildingId): Position {
+  const lab = farm.buildings.find((b) => b.id === buildingId);
+  if (lab) {
+    return { ...lab.position };
+  }
+
+  return {
+    x: Math.floor(farm.gridSize.width / 2),
+    y: Math.floor(farm.gridSize.height / 2),
+  };
+}
@@ -0,0 +1,379 @@
+/**
+ * Mutation Service
+ *
+ * Typed registry over gameConfig.MUTATIONS and the natural mutation odds,
+ * per the PRD's Natural Mutations:
+ * - Each mutation has a rarity (common, rare, epic) and declares its stat
+ *   modifiers, on-hit effects, aura, decay modifiers and farm behavior
+ * - The chance to mutate at harvest starts from the zombie's quality, rises
+ *   with a catalyst on the plot, and is multiplied by fog, night and a
+ *   blood moon
+ * - Once mutating, rarity is rolled by weight, then a mutation of that rarity
+ * - Each zombie has limited slots per category (physical, ability); a full
+ *   category is never rolled
+ *
+ * Combat (combat/services/mutationEffects.ts), decay, happiness and the farm
+ * AI read mutations through this registry. Zombies store mutation IDs; names
+ * stored by older saves still resolve.
+ *
+ * Authority: DOMAIN-FARM.md Section "Harvesting"
+ */
+
+import type { Zombie, ZombieQuality, ZombieStats } from '../../../types/farm';
+import { MutationCategory, MutationRarity } from '../../../types/farm';
+import type { TimeState } from '../../../types/global';
+import { Weather } from '../../../types/global';
+import type { Resource } from '../../../types/resources';
+import type { StatusEffect } from '../../../types/combat';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { isBloodMoon } from '../../game/lib/timeSystem';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Fractional stat bonuses (0.3 = +30%, negative values reduce the stat)
+ */
+export interface MutationStatModifiers {
+  maxHp?: number;
+  attack?: number;
+  defense?: number;
+  speed?: number;
+}
+
+/**
+ * Effects rolled each time the zombie lands a hit in battle
+ */
+export interface MutationOnHitEffect {
+  statusEffect?: StatusEffect;
+  chance?: number;
+  lifeSteal?: number;
+}
+
+/**
+ * Bonuses for allied zombies within radius (tiles) in battle
+ */
+export interface MutationAura {
+  radius: number;
+  attack?: number;
+  defense?: number;
+}
+
+/**
+ * Daily maintenance changes
+ */
+export interface MutationDecayModifiers {
+  /** Multiplies the daily decay rate */
+  rateMultiplier?: number;
+
+  /** Happiness gained (or lost) each day */
+  happinessPerDay?: number;
+}
+
+/**
+ * How the zombie roams the farm
+ */
+export interface MutationFarmBehavior {
+  /** Multiplies the personality wander range */
+  wanderRangeMultiplier?: number;
+
+  /** Added to the chance an idle zombie starts wandering */
+  activityBonus?: number;
+}
+
+/**
+ * A mutation from the registry
+ */
+export interface MutationDefinition {
+  id: string;
+  name: string;
+  rarity: MutationRarity;
+  category: MutationCategory;
+  description: string;
+  stats?: MutationStatModifiers;
+  onHit?: MutationOnHitEffect;
+  aura?: MutationAura;
+  decay?: MutationDecayModifiers;
+  farm?: MutationFarmBehavior;
+}
+
+/**
+ * Conditions at harvest that change the mutation chance
+ */
+export interface MutationConditions {
+  catalyst?: Resource | null;
+  weather?: Weather;
+  isNight?: boolean;
+  isBloodMoon?: boolean;
+}
+
+/**
+ * Combined farm behavior of a zombie's mutations
+ */
+export interface FarmBehaviorModifiers {
+  wanderRangeMultiplier: number;
+  activityBonus: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Every mutation, keyed by ID
+ */
+const MUTATIONS: ReadonlyMap<string, MutationDefinition> = new Map(
+  (Object.entries(gameConfig.MUTATIONS) as Array<[string, Omit<MutationDefinition, 'id'>]>).map(
+    ([id, mutation]) => [id, { id, ...mutation }]
+  )
+);
+
+/**
+ * Mutations by display name (names stored by older saves)
+ */
+const MUTATIONS_BY_NAME: ReadonlyMap<string, MutationDefinition> = new Map(
+  [...MUTATIONS.values()].map((mutation) => [mutation.name, mutation])
+);
+
+/** Rarities in roll order */
+const RARITIES: ReadonlyArray<MutationRarity> = [
+  MutationRarity.COMMON,
+  MutationRarity.RARE,
+  MutationRarity.EPIC,
+];
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Gets a mutation by ID (or by display name, for older saves)
+ *
+ * @param idOrName - Mutation ID or name
+ * @returns Mutation, or null if unknown
+ */
+export function getMutation(idOrName: string): MutationDefinition | null {
+  return MUTATIONS.get(idOrName) ?? MUTATIONS_BY_NAME.get(idOrName) ?? null;
+}
+
+/**
+ * Gets all mutations, optionally of one rarity
+ *
+ * @param rarity - Rarity to filter by
+ * @returns Mutations in catalog order
+ */
+export function getMutations(rarity?: MutationRarity): MutationDefinition[] {
+  return [...MUTATIONS.values()].filter((m) => rarity === undefined || m.rarity === rarity);
+}
+
+/**
+ * Resolves a zombie's mutations, skipping unknown entries
+ *
+ * @param mutations - Mutation IDs or names
+ * @returns Known mutations
+ */
+export function getMutationDefinitions(
+  mutations: ReadonlyArray<string> | undefined
+): MutationDefinition[] {
+  return (mutations ?? []).map(getMutation).filter((m): m is MutationDefinition => m !== null);
+}
+
+// ============================================================================
+// ODDS
+// ============================================================================
+
+/**
+ * Gets the harvest conditions that affect mutation odds
+ *
+ * @param time - Current game time
+ * @param catalyst - Catalyst applied to the plot
+ * @returns Mutation conditions
+ */
+export function getMutationConditions(
+  time: TimeState,
+  catalyst: Resource | null = null
+): MutationConditions {
+  return {
+    catalyst,
+    weather: time.weather,
+    isNight: !time.isDaytime,
+    isBloodMoon: !time.isDaytime && isBloodMoon(time.day),
+  };
+}
+
+/**
+ * Gets the chance a harvested zombie mutates
+ *
+ * @param quality - Zombie quality
+ * @param conditions - Catalyst, weather and night at harvest
+ * @returns Mutation chance (0 to MAX_CHANCE)
+ */
+export function getMutationChance(
+  quality: ZombieQuality,
+  conditions: MutationConditions = {}
+): number {
+  const odds = gameConfig.MUTATION_ODDS;
+  const catalysts: Partial<Record<Resource, { chanceBonus: number }>> = odds.CATALYSTS;
+
+  let chance = (odds.BASE_CHANCE[quality] ?? 0) + getCatalystBonus(catalysts, conditions.catalyst);
+  if (conditions.weather === Weather.FOG) chance *= odds.FOG_MULTIPLIER;
+  if (conditions.isNight) chance *= odds.NIGHT_MULTIPLIER;
+  if (conditions.isBloodMoon) chance *= odds.BLOOD_MOON_MULTIPLIER;
+
+  return Math.min(chance, odds.MAX_CHANCE);
+}
+
+/**
+ * Checks whether a zombie has room for another mutation of a category
+ *
+ * @param mutations - Mutation IDs or names the zombie has
+ * @param category - Category to check
+ * @returns True if the category has a free slot
+ */
+export function hasFreeMutationSlot(
+  mutations: ReadonlyArray<string>,
+  category: MutationCategory
+): boolean {
+  const used = getMutationDefinitions(mutations).filter((m) => m.category === category).length;
+  return used < gameConfig.MUTATION_SLOTS[category];
+}
+
+/**
+ * Checks whether a resource works as a mutation catalyst
+ *
+ * @param resource - Resource to check
+ * @returns True if the resource can be applied to a plot as a catalyst
+ */
+export function isMutationCatalyst(resource: Resource): boolean {
+  return resource in gameConfig.MUTATION_ODDS.CATALYSTS;
+}
+
+/**
+ * Rolls one mutation: rarity by weight, then a mutation of that rarity
+ *
+ * Mutations the zombie already has and categories without a free slot are
+ * never rolled.
+ *
+ * @param random - Random source in [0, 1) (default Math.random)
+ * @param exclude - Mutations the zombie already has
+ * @param filter - Further limits the mutations that can be rolled
+ * @returns Mutation, or null if none is left to roll
+ */
+export function rollMutation(
+  random: () => number = Math.random,
+  exclude: ReadonlyArray<string> = [],
+  filter: (mutation: MutationDefinition) => boolean = () => true
+): MutationDefinition | null {
+  const owned = new Set(getMutationDefinitions(exclude).map((m) => m.id));
+  const canRoll = (m: MutationDefinition) =>
+    !owned.has(m.id) && hasFreeMutationSlot(exclude, m.category) && filter(m);
+  const pools = RARITIES.map((rarity) => ({
+    weight: gameConfig.MUTATION_ODDS.RARITY_WEIGHTS[rarity],
+    mutations: getMutations(rarity).filter(canRoll),
+  })).filter((pool) => pool.mutations.length > 0);
+
+  const totalWeight = pools.reduce((sum, pool) => sum + pool.weight, 0);
+  let roll = random() * totalWeight;
+  const pool = pools.find((p) => (roll -= p.weight) < 0) ?? pools[pools.length - 1];
+  if (!pool) return null;
+
+  return pool.mutations[Math.floor(random() * pool.mutations.length)] ?? null;
+}
+
+// ============================================================================
+// EFFECTS
+// ============================================================================
+
+/**
+ * Applies mutation stat modifiers
+ *
+ * Current HP keeps its share of max HP.
+ *
+ * @param stats - Stats to modify (zombie or combat stats)
+ * @param mutations - Mutation IDs or names
+ * @returns Modified stats
+ */
+export function applyMutationStats<T extends Pick<ZombieStats, 'hp' | keyof MutationStatModifiers>>(
+  stats: T,
+  mutations: ReadonlyArray<string> | undefined
+): T {
+  const bonus = getMutationDefinitions(mutations).reduce<Required<MutationStatModifiers>>(
+    (sum, m) => ({
+      maxHp: sum.maxHp + (m.stats?.maxHp ?? 0),
+      attack: sum.attack + (m.stats?.attack ?? 0),
+      defense: sum.defense + (m.stats?.defense ?? 0),
+      speed: sum.speed + (m.stats?.speed ?? 0),
+    }),
+    { maxHp: 0, attack: 0, defense: 0, speed: 0 }
+  );
+  if (Object.values(bonus).every((value) => value === 0)) {
+    return stats;
+  }
+
+  const maxHp = Math.round(stats.maxHp * (1 + bonus.maxHp));
+  return {
+    ...stats,
+    hp: stats.maxHp > 0 ? Math.round((stats.hp / stats.maxHp) * maxHp) : maxHp,
+    maxHp,
+    attack: Math.round(stats.attack * (1 + bonus.attack)),
+    defense: Math.round(stats.defense * (1 + bonus.defense)),
+    speed: stats.speed * (1 + bonus.speed),
+  };
+}
+
+/**
+ * Gets the combined decay rate multiplier of a zombie's mutations
+ *
+ * @param zombie - Zombie to check
+ * @returns Multiplier (1 without decay mutations)
+ */
+export function getMutationDecayMultiplier(zombie: Pick<Zombie, 'mutations'>): number {
+  return getMutationDefinitions(zombie.mutations).reduce(
+    (product, m) => product * (m.decay?.rateMultiplier ?? 1),
+    1
+  );
+}
+
+/**
+ * Gets the daily happiness change from a zombie's mutations
+ *
+ * @param zombie - Zombie to check
+ * @returns Happiness change per day
+ */
+export function getMutationHappinessPerDay(zombie: Pick<Zombie, 'mutations'>): number {
+  return getMutationDefinitions(zombie.mutations).reduce(
+    (sum, m) => sum + (m.decay?.happinessPerDay ?? 0),
+    0
+  );
+}
+
+/**
+ * Gets the combined farm behavior of a zombie's mutations
+ *
+ * @param zombie - Zombie to check
+ * @returns Wander range multiplier and activity bonus
+ */
+export function getMutationFarmBehavior(zombie: Pick<Zombie, 'mutations'>): FarmBehaviorModifiers {
+  return getMutationDefinitions(zombie.mutations).reduce<FarmBehaviorModifiers>(
+    (behavior, m) => ({
+      wanderRangeMultiplier: behavior.wanderRangeMultiplier * (m.farm?.wanderRangeMultiplier ?? 1),
+      activityBonus: behavior.activityBonus + (m.farm?.activityBonus ?? 0),
+    }),
+    { wanderRangeMultiplier: 1, activityBonus: 0 }
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Chance bonus of the catalyst on the plot
+ */
+function getCatalystBonus(
+  catalysts: Partial<Record<Resource, { chanceBonus: number }>>,
+  catalyst: Resource | null | undefined
+): number {
+  return catalyst ? (catalysts[catalyst]?.chanceBonus ?? 0) : 0;
+}
@@ -8,16 +8,19 @@
  * - Checks seed inventory
  * - Applies growth modifiers (watering, fertilizer, weather)
  * - Initializes growth timer
+ * - Watering and fertilizing plots
+ * - Mutation catalysts (raise the plot's mutation chance at harvest)
  * - Updates farm state immutably
  *
  * Authority: DOMAIN-FARM.md Section "Planting"
  */
 
 import type { FarmState, Plot, PlotState } from '../../../types/farm';
-import type { Inventory, SeedType } from '../../../types/resources';
+import type { Inventory, Resource, SeedType } from '../../../types/resources';
 import type { Weather } from '../../../types/global';
 import { ZombieType } from '../../../types/farm';
 import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { deductCost } from '../../game/lib/resources';
 
 // ============================================================================
 // SEED TYPE MAPPING
@@ -389,3 +392,178 @@ export function plantSeed(
     growthTimer,
   };
 }
+
+// ============================================================================
+// WATERING & FERTILIZING
+// ============================================================================
+
+/**
+ * Water Plot
+ *
+ * Waters a plot, consuming Blood Water (ZOMBIE_GROWTH.wateringCost).
+ *
+ * Per DOMAIN-FARM.md:
+ * - Watering an empty plot applies the +50% speed bonus at planting
+ * - Watering a growing plot speeds up its remaining growth time
+ * - A plot can only be watered once per planting
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param plotId - ID of plot to water
+ * @returns Planting result with updated state or error
+ */
+export function waterPlot(
+  farmState: FarmState,
+  inventory: Inventory,
+  plotId: string
+): PlantingResult {
+  const { wateringSpeedBoost, wateringCost } = gameConfig.ZOMBIE_GROWTH;
+  return treatPlot(farmState, inventory, plotId, 'isWatered', wateringSpeedBoost, wateringCost);
+}
+
+/**
+ * Fertilize Plot
+ *
+ * Fertilizes a plot, consuming Corpse Dust (ZOMBIE_GROWTH.fertilizerCost).
+ *
+ * Per DOMAIN-FARM.md:
+ * - Fertilizer adds +30% growth speed and boosts harvest quality
+ * - A plot can only be fertilized once per planting
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param plotId - ID of plot to fertilize
+ * @returns Planting result with updated state or error
+ */
+export function fertilizePlot(
+  farmState: FarmState,
+  inventory: Inventory,
+  plotId: string
+): PlantingResult {
+  const { fertilizerSpeedBoost, fertilizerCost } = gameConfig.ZOMBIE_GROWTH;
+  return treatPlot(
+    farmState,
+    inventory,
+    plotId,
+    'isFertilized',
+    fertilizerSpeedBoost,
+    fertilizerCost
+  );
+}
+
+/**
+ * Apply Mutation Catalyst
+ *
+ * Applies a catalyst resource to a plot, raising the chance that the zombie
+ * growing there mutates at harvest (MUTATION_ODDS.CATALYSTS).
+ *
+ * Per PRD Natural Mutations:
+ * - Catalysts applied like fertilizer boost mutation probability for that plot
+ * - One catalyst per planting; it is used up by the harvest
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param plotId - ID of plot to treat
+ * @param catalyst - Catalyst resource
+ * @returns Planting result with updated state or error
+ */
+export function applyMutationCatalyst(
+  farmState: FarmState,
+  inventory: Inventory,
+  plotId: string,
+  catalyst: Resource
+): PlantingResult {
+  const catalysts: Partial<Record<Resource, { cost: number }>> = gameConfig.MUTATION_ODDS.CATALYSTS;
+  const config = catalysts[catalyst];
+  if (!config) {
+    return { success: false, error: `${catalyst} is not a mutation catalyst` };
+  }
+
+  const plot = farmState.plots.find((p) => p.id === plotId);
+  if (!plot) {
+    return { success: false, error: 'Plot not found' };
+  }
+
+  if (plot.state === ('ready' as PlotState)) {
+    return { success: false, error: 'Plot is ready to harvest' };
+  }
+
+  if (plot.catalyst) {
+    return { success: false, error: 'Plot already has a catalyst' };
+  }
+
+  const deduction = deductCost(inventory, { resources: { [catalyst]: config.cost } });
+  if (!deduction.success) {
+    return { success: false, error: deduction.error.message };
+  }
+
+  return {
+    success: true,
+    farmState: {
+      ...farmState,
+      plots: farmState.plots.map((p) => (p.id === plotId ? { ...p, catalyst } : p)),
+    },
+    inventory: deduction.inventory,
+  };
+}
+
+/**
+ * Apply a watering or fertilizer treatment to a plot
+ */
+function treatPlot(
+  farmState: FarmState,
+  inventory: Inventory,
+  plotId: string,
+  treatment: 'isWatered' | 'isFertilized',
+  speedBoost: number,
+  cost: Partial<Record<Resource, number>>
+): PlantingResult {
+  const plot = farmState.plots.find((p) => p.id === plotId);
+
+  if (!plot) {
+    return {
+      success: false,
+      error: 'Plot not found',
+    };
+  }
+
+  if (plot.state === ('ready' as PlotState)) {
+    return {
+      success: false,
+      error: 'Plot is ready to harvest',
+    };
+  }
+
+  if (plot[treatment]) {
+    return {
+      success: false,
+      error: treatment === 'isWatered' ? 'Plot is already watered' : 'Plot is already fertilized',
+    };
+  }
+
+  const deduction = deductCost(inventory, { resources: cost });
+
+  if (!deduction.success) {
+    return {
+      success: false,
+      error: deduction.error.message,
+    };
+  }
+
+  // Growing plots speed up immediately; empty plots get the bonus at planting
+  const growthTimeRemaining =
+    plot.growthTimeRemaining === null ? null : plot.growthTimeRemaining / (1 + speedBoost);
+
+  const updatedFarmState: FarmState = {
+    ...farmState,
+    plots: farmState.plots.map((p) =>
+      p.id === plotId ? { ...p, [treatment]: true, growthTimeRemaining } : p
+    ),
+  };
+
+  return {
+    success: true,
+    farmState: updatedFarmState,
+    inventory: deduction.inventory,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Production Service
+ *
+ * Runs the timed building effects per DOMAIN-FARM.md:
+ * - Blood Well produces Blood Water until the stock reaches its capacity
+ * - Corpse Composter and Bone Mill convert their input into output each cycle
+ * - Stitching Station heals injured active zombies each hour, paying its upkeep
+ *
+ * Each building keeps its cycle progress in building.data.productionTimer
+ * (milliseconds until the current cycle completes). A cycle only runs while
+ * it can complete; inputs are consumed and outputs added when it completes.
+ * Cycle definitions come from the building effects resolver.
+ *
+ * Authority: DOMAIN-FARM.md Section "Structures"
+ */
+
+import type { Building, FarmState, Zombie } from '../../../types/farm';
+import type { BuildingId } from '../../../types/global';
+import type { Inventory, Resource } from '../../../types/resources';
+import { addReward, canAffordCost, deductCost, getResourceAmount } from '../../game/lib/resources';
+import {
+  getProductionEffect,
+  getHealingEffect,
+  type ProductionEffect,
+  type HealingEffect,
+} from './buildingEffects';
+
+/**
+ * Farm and inventory after production
+ */
+export interface ProductionUpdate {
+  farmState: FarmState;
+  inventory: Inventory;
+}
+
+/**
+ * A repeating building cycle
+ */
+interface Cycle {
+  cycleMs: number;
+  canRun(update: ProductionUpdate): boolean;
+  complete(update: ProductionUpdate): ProductionUpdate;
+}
+
+// ============================================================================
+// PRODUCTION UPDATE
+// ============================================================================
+
+/**
+ * Advances production and healing cycles for all buildings
+ *
+ * @param farmState - Current farm state
+ * @param inventory - Current inventory
+ * @param deltaTime - Time elapsed in milliseconds
+ * @returns Updated farm state and inventory
+ */
+export function updateProduction(
+  farmState: FarmState,
+  inventory: Inventory,
+  deltaTime: number
+): ProductionUpdate {
+  if (deltaTime <= 0) {
+    return { farmState, inventory };
+  }
+
+  let update: ProductionUpdate = { farmState, inventory };
+
+  for (const building of farmState.buildings) {
+    const cycle = getCycle(building);
+    if (!cycle) continue;
+
+    let timer = getProductionTimer(building);
+    let remaining = deltaTime;
+
+    while (remaining > 0) {
+      if (!cycle.canRun(update)) {
+        timer = 0;
+        break;
+      }
+
+      const untilComplete = timer > 0 ? timer : cycle.cycleMs;
+      if (remaining < untilComplete) {
+        timer = untilComplete - remaining;
+        break;
+      }
+
+      remaining -= untilComplete;
+      timer = 0;
+      update = cycle.complete(update);
+    }
+
+    if (timer !== getProductionTimer(building)) {
+      update = {
+        ...update,
+        farmState: setProductionTimer(update.farmState, building.id, timer),
+      };
+    }
+  }
+
+  return update;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get the production or healing cycle a building runs
+ */
+function getCycle(building: Building): Cycle | null {
+  const production = getProductionEffect(building);
+  if (production) {
+    return {
+      cycleMs: production.cycleMs,
+      canRun: ({ inventory }) => canProduce(production, inventory),
+      complete: ({ farmState, inventory }) => ({
+        farmState,
+        inventory: completeProduction(production, inventory),
+      }),
+    };
+  }
+
+  const healing = getHealingEffect(building);
+  if (healing) {
+    return {
+      cycleMs: healing.cycleMs,
+      canRun: ({ farmState, inventory }) => canHeal(healing, farmState, inventory),
+      complete: ({ farmState, inventory }) => completeHealing(healing, farmState, inventory),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Milliseconds until a building's current cycle completes (0 if idle)
+ */
+function getProductionTimer(building: Building): number {
+  const timer = building.data.productionTimer;
+  return typeof timer === 'number' ? timer : 0;
+}
+
+function setProductionTimer(
+  farmState: FarmState,
+  buildingId: BuildingId,
+  timer: number
+): FarmState {
+  return {
+    ...farmState,
+    buildings: farmState.buildings.map((b) =>
+      b.id === buildingId ? { ...b, data: { ...b.data, productionTimer: timer } } : b
+    ),
+  };
+}
+
+function canProduce(production: ProductionEffect, inventory: Inventory): boolean {
+  if (!canAffordCost(inventory, { resources: production.input })) {
+    return false;
+  }
+
+  if (production.stockLimit === undefined) {
+    return true;
+  }
+
+  return (Object.keys(production.output) as Resource[]).some(
+    (resource) => getResourceAmount(inventory, resource) < (production.stockLimit ?? 0)
+  );
+}
+
+/**
+ * Consume a cycle's input and add its output (skipped if storage is full)
+ */
+function completeProduction(production: ProductionEffect, inventory: Inventory): Inventory {
+  const paid = deductCost(inventory, { resources: production.input });
+  if (!paid.success) {
+    return inventory;
+  }
+
+  const produced = addReward(paid.inventory, { resources: production.output });
+  return produced.success ? produced.inventory : inventory;
+}
+
+function isInjured(zombie: Zombie): boolean {
+  return zombie.stats.hp < zombie.stats.maxHp;
+}
+
+function canHeal(healing: HealingEffect, farmState: FarmState, inventory: Inventory): boolean {
+  return (
+    farmState.activeZombies.some(isInjured) && canAffordCost(inventory, { resources: healing.cost })
+  );
+}
+
+/**
+ * Pay the healing upkeep and restore healPercent of max HP to injured zombies
+ */
+function completeHealing(
+  healing: HealingEffect,
+  farmState: FarmState,
+  inventory: Inventory
+): ProductionUpdate {
+  const paid = deductCost(inventory, { resources: healing.cost });
+  if (!paid.success) {
+    return { farmState, inventory };
+  }
+
+  return {
+    farmState: {
+      ...farmState,
+      activeZombies: farmState.activeZombies.map((zombie) =>
+        isInjured(zombie)
+          ? {
+              ...zombie,
+              stats: {
+                ...zombie.stats,
+                hp: Math.min(
+                  zombie.stats.maxHp,
+                  zombie.stats.hp + Math.ceil((zombie.stats.maxHp * healing.healPercent) / 100)
+                ),
+              },
+            }
+          : zombie
+      ),
+    },
+    inventory: paid.inventory,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Resource Node Service
+ *
+ * Implements resource node respawning per DOMAIN-FARM.md:
+ * - Depleted nodes count down their cooldown
+ * - Nodes respawn at full capacity when the cooldown ends
+ * - Blood wells refill gradually (refillRate per refillInterval)
+ * - Permanent nodes never deplete
+ *
+ * Authority: DOMAIN-FARM.md Section "Resource Gathering"
+ */
+
+import type { FarmState } from '../../../types/farm';
+import type { ResourceNode } from '../../../types/resources';
+import { ResourceNodeState, ResourceNodeType } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+
+/** Real milliseconds per game minute (refill intervals are in game minutes) */
+const MS_PER_GAME_MINUTE = gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION / (24 * 60);
+
+// ============================================================================
+// COOLDOWN UPDATE
+// ============================================================================
+
+/**
+ * Updates cooldowns for all depleted resource nodes
+ *
+ * Reduces cooldownRemaining by deltaTime. Nodes whose cooldown reaches 0
+ * become READY with their capacity restored. Blood wells below capacity use
+ * cooldownRemaining as the time until their next refill.
+ *
+ * @param farmState - Current farm state
+ * @param deltaTime - Time elapsed in milliseconds
+ * @returns Updated farm state
+ */
+export function updateResourceNodes(farmState: FarmState, deltaTime: number): FarmState {
+  if (deltaTime <= 0) {
+    return farmState;
+  }
+
+  if (!farmState.resourceNodes.some(isRecovering)) {
+    return farmState;
+  }
+
+  return {
+    ...farmState,
+    resourceNodes: farmState.resourceNodes.map((node) =>
+      node.type === ResourceNodeType.BLOOD_WELL
+        ? refillBloodWell(node, deltaTime)
+        : updateNodeCooldown(node, deltaTime)
+    ),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether a node is waiting to respawn or refill
+ */
+function isRecovering(node: ResourceNode): boolean {
+  return node.type === ResourceNodeType.BLOOD_WELL
+    ? node.remaining < node.capacity
+    : node.state === ResourceNodeState.DEPLETED;
+}
+
+/**
+ * Refill a blood well by refillRate for every refillInterval elapsed
+ */
+function refillBloodWell(node: ResourceNode, deltaTime: number): ResourceNode {
+  if (node.remaining >= node.capacity) {
+    return node;
+  }
+
+  const { refillRate, refillInterval } = gameConfig.RESOURCE_NODES.bloodWell;
+  const intervalMs = refillInterval * MS_PER_GAME_MINUTE;
+  const untilNextRefill = node.cooldownRemaining > 0 ? node.cooldownRemaining : intervalMs;
+
+  if (deltaTime < untilNextRefill) {
+    return { ...node, cooldownRemaining: untilNextRefill - deltaTime };
+  }
+
+  const overflow = deltaTime - untilNextRefill;
+  const refills = 1 + Math.floor(overflow / intervalMs);
+  const remaining = Math.min(node.capacity, node.remaining + refills * refillRate);
+  const isFull = remaining >= node.capacity;
+
+  return {
+    ...node,
+    state: node.state === ResourceNodeState.PERMANENT ? node.state : ResourceNodeState.READY,
+    remaining,
+    cooldownRemaining: isFull ? 0 : intervalMs - (overflow % intervalMs),
+  };
+}
+
+/**
+ * Count down a depleted node and respawn it when the cooldown ends
+ */
+function updateNodeCooldown(node: ResourceNode, deltaTime: number): ResourceNode {
+  if (node.state !== ResourceNodeState.DEPLETED) {
+    return node;
+  }
+
+  const cooldownRemaining = Math.max(0, node.cooldownRemaining - deltaTime);
+  if (cooldownRemaining > 0) {
+    return { ...node, cooldownRemaining };
+  }
+
+  return {
+    ...node,
+    state: ResourceNodeState.READY,
+    cooldownRemaining: 0,
+    remaining: node.capacity,
+  };
+}
@@ -6,12 +6,14 @@
  * - State transitions based on personality
  * - Command execution (Follow, Guard, etc.)
  * - Movement and pathfinding
+ * - Mutation farm behavior (wander range, activity; see mutations.ts)
  *
  * Authority: DOMAIN-FARM.md Section "Living Zombies on the Farm"
  */
 
 import type { Zombie, ZombieAIState, ZombiePersonality } from '../../../types/farm';
 import type { Position } from '../../../types/global';
+import { getMutationFarmBehavior } from './mutations';
 
 /**
  * Result type for service operations
@@ -107,15 +109,20 @@ export function clearCommand(zombie: Zombie): Zombie {
  *
  * @param currentPosition - Current position
  * @param wanderRange - Maximum tiles to wander in one move
+ * @param random - Random source in [0, 1) (default Math.random)
  * @returns Next position
  */
-export function getNextWanderPosition(currentPosition: Position, wanderRange: number): Position {
+export function getNextWanderPosition(
+  currentPosition: Position,
+  wanderRange: number,
+  random: () => number = Math.random
+): Position {
   // Ensure wanderRange is valid
   const validRange = Math.min(Math.max(1, Math.floor(wanderRange)), 100);
 
   // Generate random offset within wander range
-  const offsetX = Math.floor(Math.random() * (validRange * 2 + 1)) - validRange;
-  const offsetY = Math.floor(Math.random() * (validRange * 2 + 1)) - validRange;
+  const offsetX = Math.floor(random() * (validRange * 2 + 1)) - validRange;
+  const offsetY = Math.floor(random() * (validRange * 2 + 1)) - validRange;
 
   // Calculate new position (ensure non-negative and finite)
   const newX = Math.max(0, Math.floor(currentPosition.x + offsetX));
@@ -173,9 +180,13 @@ const IDLE_TRANSITION_CHANCE: Record<ZombiePersonality, number> = {
  * - Aggressive zombies patrol frequently
  *
  * @param zombie - Zombie to check
+ * @param random - Random source in [0, 1) (default Math.random)
  * @returns True if should become idle
  */
-export function shouldTransitionToIdle(zombie: Zombie): boolean {
+export function shouldTransitionToIdle(
+  zombie: Zombie,
+  random: () => number = Math.random
+): boolean {
   // Never transition from commanded states
   if (zombie.aiState === 'following' || zombie.aiState === 'guarding') {
     return false;
@@ -188,7 +199,7 @@ export function shouldTransitionToIdle(zombie: Zombie): boolean {
 
   // Check personality-based transition chance
   const chance = IDLE_TRANSITION_CHANCE[zombie.personality];
-  return Math.random() < chance;
+  return random() < chance;
 }
 
 /**
@@ -229,15 +240,17 @@ const ACTIVITY_CHANCE: Record<ZombiePersonality, number> = {
  * Check if idle zombie should start wandering based on personality
  *
  * @param zombie - Zombie to check
+ * @param random - Random source in [0, 1)
  * @returns True if should start wandering
  */
-function shouldStartWandering(zombie: Zombie): boolean {
+function shouldStartWandering(zombie: Zombie, random: () => number): boolean {
   if (zombie.aiState !== 'idle') {
     return false;
   }
 
-  const chance = ACTIVITY_CHANCE[zombie.personality];
-  return Math.random() < chance;
+  const chance =
+    ACTIVITY_CHANCE[zombie.personality] + getMutationFarmBehavior(zombie).activityBonus;
+  return random() < chance;
 }
 
 // ============================================================================
@@ -254,9 +267,14 @@ function shouldStartWandering(zombie: Zombie): boolean {
  *
  * @param zombie - Zombie to update
  * @param deltaTime - Time elapsed in milliseconds
+ * @param random - Random source in [0, 1) (default Math.random)
  * @returns Updated zombie
  */
-export function updateZombieAI(zombie: Zombie, deltaTime: number): Zombie {
+export function updateZombieAI(
+  zombie: Zombie,
+  deltaTime: number,
+  random: () => number = Math.random
+): Zombie {
   // Ignore invalid deltaTime
   if (deltaTime <= 0) {
     return zombie;
@@ -273,19 +291,21 @@ export function updateZombieAI(zombie: Zombie, deltaTime: number): Zombie {
   switch (zombie.aiState) {
     case 'idle':
       // Check if should start wandering
-      if (shouldStartWandering(zombie)) {
+      if (shouldStartWandering(zombie, random)) {
         updatedZombie = setAIState(zombie, 'wandering');
       }
       break;
 
     case 'wandering':
       // Check if should transition to idle
-      if (shouldTransitionToIdle(zombie)) {
+      if (shouldTransitionToIdle(zombie, random)) {
         updatedZombie = setAIState(zombie, 'idle');
       } else {
         // Move to new position
-        const wanderRange = getWanderRange(zombie.personality);
-        const newPosition = getNextWanderPosition(zombie.position, wanderRange);
+        const wanderRange =
+          getWanderRange(zombie.personality) *
+          getMutationFarmBehavior(zombie).wanderRangeMultiplier;
+        const newPosition = getNextWanderPosition(zombie.position, wanderRange, random);
         updatedZombie = {
           ...zombie,
           position: newPosition,
@@ -8,10 +8,20 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { createActor, type ActorRef, type Snapshot } from 'xstate';
+import { createActor, type Actor, type ActorRef, type Snapshot } from 'xstate';
 import { gameMachine } from '../gameMachine';
 import type { GameState, GameMode } from '../../../types/global';
 import type { GameEvent } from '../../../types/events';
+import { BattlePhase } from '../../../types/combat';
+import { Currency, Resource, SeedType } from '../../../types/resources';
+import type { FarmState } from '../../../types/farm';
+import { BuildingState, BuildingType, PlotState } from '../../../types/farm';
+import { eventBus } from '../../../lib/events';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { createMockBattle, createMockZombie } from '../../combat/test-utils/combatTestHelpers';
+import { startReplay } from '../../combat/services/battleReplay';
+import { createTestPlot, createPlantedPlot } from '../../../lib/test-utils/factories/plotFactory';
+import { createTestZombie } from '../../../lib/test-utils/factories/zombieFactory';
 
 describe('gameMachine', () => {
   let actor: ActorRef<typeof gameMachine, GameEvent>;
@@ -340,7 +350,7 @@ describe('gameMachine', () => {
       });
 
       const initialCoins = actor.getSnapshot().context.inventory.currencies.darkCoins;
-      const initialXp = actor.getSnapshot().context.player.xp;
+      const initialWins = actor.getSnapshot().context.player.stats.battlesWon;
 
       // Act: Complete battle with rewards
       actor.send({
@@ -351,10 +361,18 @@ describe('gameMachine', () => {
             victory: true,
             survivors: [],
             casualties: [],
+            xpGained: {},
             rewards: {
-              darkCoins: 100,
-              resources: {},
-              xp: 50,
+              currencies: { [Currency.DARK_COINS]: 100 },
+            },
+            unlocks: [],
+            stats: {
+              totalDamageDealt: 0,
+              totalDamageTaken: 0,
+              enemiesKilled: 0,
+              obstaclesDestroyed: 0,
+              duration: 0,
+              flawless: true,
             },
           },
           timestamp: Date.now(),
@@ -363,9 +381,580 @@ describe('gameMachine', () => {
 
       // Assert: Rewards should be applied
       const newCoins = actor.getSnapshot().context.inventory.currencies.darkCoins;
-      const newXp = actor.getSnapshot().context.player.xp;
+      const newWins = actor.getSnapshot().context.player.stats.battlesWon;
       expect(newCoins).toBe(initialCoins + 100);
-      expect(newXp).toBe(initialXp + 50);
+      expect(newWins).toBe(initialWins + 1);
+    });
+
+    it('should unlock the next location after a conquest', () => {
+      const game = createActor(gameMachine);
+      game.start();
+      game.send({ type: 'game.started', payload: { timestamp: Date.now() } });
+      if (!game.getSnapshot().matches('farm')) {
+        game.send({ type: 'tutorial.completed', payload: { timestamp: Date.now() } });
+      }
+      expect(game.getSnapshot().context.world.unlockedLocations).toEqual(['millbrook_farm']);
+      game.send({
+        type: 'battle.initiated',
+        payload: { battleId: 'battle-1', locationId: 'millbrook_farm', timestamp: Date.now() },
+      });
+      const unlocked: GameEvent[] = [];
+      const unsubscribe = eventBus.on('location.unlocked', (event) => {
+        unlocked.push(event);
+      });
+
+      game.send({
+        type: 'battle.ended',
+        payload: {
+          battleId: 'battle-1',
+          result: {
+            victory: true,
+            survivors: [],
+            casualties: [],
+            xpGained: {},
+            rewards: {},
+            unlocks: [],
+            stats: {
+              totalDamageDealt: 0,
+              totalDamageTaken: 0,
+              enemiesKilled: 0,
+              obstaclesDestroyed: 0,
+              duration: 0,
+              flawless: true,
+            },
+          },
+          timestamp: Date.now(),
+        },
+      });
+      unsubscribe();
+
+      const { world } = game.getSnapshot().context;
+      expect(world.conqueredLocations).toEqual(['millbrook_farm']);
+      expect(world.unlockedLocations).toContain('ashford_village');
+      expect(unlocked).toHaveLength(1);
+      game.stop();
+    });
+
+    it('should not raid a location while it is on cooldown', () => {
+      const game = createActor(gameMachine);
+      game.start();
+      game.send({ type: 'game.started', payload: { timestamp: Date.now() } });
+      if (!game.getSnapshot().matches('farm')) {
+        game.send({ type: 'tutorial.completed', payload: { timestamp: Date.now() } });
+      }
+      const raid = (battleId: string) =>
+        game.send({
+          type: 'battle.initiated',
+          payload: { battleId, locationId: 'millbrook_farm', timestamp: Date.now() },
+        });
+      raid('battle-1');
+
+      game.send({
+        type: 'battle.ended',
+        payload: {
+          battleId: 'battle-1',
+          result: {
+            victory: true,
+            survivors: [],
+            casualties: [],
+            xpGained: {},
+            rewards: {},
+            unlocks: [],
+            stats: {
+              totalDamageDealt: 0,
+              totalDamageTaken: 0,
+              enemiesKilled: 0,
+              obstaclesDestroyed: 0,
+              duration: 0,
+              flawless: true,
+            },
+          },
+          timestamp: Date.now(),
+        },
+      });
+      raid('battle-2');
+
+      expect(game.getSnapshot().matches('farm')).toBe(true);
+      expect(game.getSnapshot().context.combat).toBeNull();
+      game.stop();
+    });
+
+    it("should keep the battle's replay in the location's history", () => {
+      const game = createActor(gameMachine);
+      game.start();
+      game.send({ type: 'game.started', payload: { timestamp: Date.now() } });
+      if (!game.getSnapshot().matches('farm')) {
+        game.send({ type: 'tutorial.completed', payload: { timestamp: Date.now() } });
+      }
+      game.send({
+        type: 'battle.initiated',
+        payload: { battleId: 'battle-1', locationId: 'millbrook_farm', timestamp: Date.now() },
+      });
+      const { combat } = game.getSnapshot().context;
+      if (combat?.rngSeed === undefined) throw new Error('battle was not seeded');
+
+      game.send({
+        type: 'battle.ended',
+        payload: {
+          battleId: 'battle-1',
+          result: {
+            victory: false,
+            survivors: [],
+            casualties: [],
+            xpGained: {},
+            rewards: {},
+            unlocks: [],
+            stats: {
+              totalDamageDealt: 0,
+              totalDamageTaken: 0,
+              enemiesKilled: 0,
+              obstaclesDestroyed: 0,
+              duration: 0,
+              flawless: false,
+            },
+          },
+          timestamp: Date.now(),
+          replay: startReplay(combat, combat.rngSeed),
+        },
+      });
+
+      const replays = game.getSnapshot().context.world.replays?.['millbrook_farm'];
+      expect(replays?.map((replay) => replay.battleId)).toEqual(['battle-1']);
+      game.stop();
+    });
+
+    it("should keep recording the battle's replay across a pause", () => {
+      const context = createActor(gameMachine).getSnapshot().context;
+      const game = createActor(gameMachine, {
+        snapshot: gameMachine.resolveState({
+          value: 'farm',
+          context: {
+            ...context,
+            farm: { ...context.farm, activeZombies: [createMockZombie({ id: 'z1' })] },
+          },
+        }),
+      });
+      game.start();
+      const tick = (count: number) => {
+        for (let i = 0; i < count; i++) {
+          game.send({ type: 'battle.tick', payload: { battleId: 'battle-1', deltaMs: 100 } });
+        }
+      };
+      game.send({
+        type: 'battle.initiated',
+        payload: { battleId: 'battle-1', locationId: 'millbrook_farm', timestamp: Date.now() },
+      });
+      game.send({
+        type: 'battle.squadSelected',
+        payload: { battleId: 'battle-1', zombieIds: ['z1'] },
+      });
+      game.send({
+        type: 'battle.started',
+        payload: { battleId: 'battle-1', timestamp: Date.now() },
+      });
+      tick(1);
+
+      game.send({ type: 'game.paused', payload: { timestamp: Date.now() } });
+      game.send({ type: 'game.resumed', payload: { timestamp: Date.now() } });
+      tick(1);
+      game.send({
+        type: 'battle.retreatStarted',
+        payload: { battleId: 'battle-1', timestamp: Date.now() },
+      });
+      tick((gameConfig.COMBAT.RETREAT_COUNTDOWN_SECONDS + 1) * 10);
+
+      const replays = game.getSnapshot().context.world.replays?.['millbrook_farm'];
+      expect(game.getSnapshot().matches('farm')).toBe(true);
+      expect(replays).toHaveLength(1);
+      expect(replays?.[0]?.events.slice(0, 2)).toEqual([
+        { type: 'tick', deltaMs: 100, count: 2 },
+        { type: 'retreat' },
+      ]);
+      game.stop();
+    });
+  });
+
+  // ============================================================================
+  // BATTLE ACTOR
+  // ============================================================================
+
+  describe('battle actor', () => {
+    let game: Actor<typeof gameMachine>;
+
+    beforeEach(() => {
+      game = createActor(gameMachine);
+      game.start();
+      game.send({ type: 'game.started', payload: { timestamp: Date.now() } });
+      game.send({ type: 'tutorial.completed', payload: { timestamp: Date.now() } });
+      game.send({
+        type: 'battle.initiated',
+        payload: { battleId: 'battle-1', locationId: 'village-1', timestamp: Date.now() },
+      });
+    });
+
+    afterEach(() => {
+      game.stop();
+    });
+
+    it('should spawn the battle machine while in combat', () => {
+      expect(game.getSnapshot().children.battle).toBeDefined();
+    });
+
+    it('should mirror battle state updates into context', () => {
+      const state = createMockBattle({ battleId: 'battle-1', battleDuration: 5 });
+
+      game.send({ type: 'battle.updated', payload: { battleId: 'battle-1', state } });
+
+      expect(game.getSnapshot().context.combat).toEqual(state);
+    });
+
+    it('should charge the retreat cost once the battle reports the retreat', () => {
+      const state = createMockBattle({ battleId: 'battle-1', phase: BattlePhase.ACTIVE });
+      game.send({ type: 'battle.updated', payload: { battleId: 'battle-1', state } });
+      const initialCoins = game.getSnapshot().context.inventory.currencies.darkCoins;
+
+      const retreating = { ...state, isRetreating: true };
+      game.send({ type: 'battle.updated', payload: { battleId: 'battle-1', state: retreating } });
+      game.send({ type: 'battle.updated', payload: { battleId: 'battle-1', state: retreating } });
+
+      expect(game.getSnapshot().context.inventory.currencies.darkCoins).toBe(
+        initialCoins - gameConfig.COMBAT.RETREAT_COST.currencies[Currency.DARK_COINS]
+      );
+    });
+
+    it('should not charge a retreat the battle has not confirmed', () => {
+      const state = createMockBattle({ battleId: 'battle-1', phase: BattlePhase.ACTIVE });
+      game.send({ type: 'battle.updated', payload: { battleId: 'battle-1', state } });
+      const initialCoins = game.getSnapshot().context.inventory.currencies.darkCoins;
+
+      game.send({
+        type: 'battle.retreatStarted',
+        payload: { battleId: 'battle-2', timestamp: Date.now() },
+      });
+
+      expect(game.getSnapshot().context.combat?.isRetreating).toBe(false);
+      expect(game.getSnapshot().context.inventory.currencies.darkCoins).toBe(initialCoins);
+    });
+
+    it('should not retreat from a battle that has not started', () => {
+      const initialCoins = game.getSnapshot().context.inventory.currencies.darkCoins;
+
+      game.send({
+        type: 'battle.retreatStarted',
+        payload: { battleId: 'battle-1', timestamp: Date.now() },
+      });
+
+      expect(game.getSnapshot().context.inventory.currencies.darkCoins).toBe(initialCoins);
+    });
+  });
+
+  describe('farm actions', () => {
+    let game: Actor<typeof gameMachine>;
+
+    /** Start the machine in the farm state with the given farm contents */
+    function startFarm(farm: Partial<FarmState>): void {
+      const context = createActor(gameMachine).getSnapshot().context;
+      const snapshot = gameMachine.resolveState({
+        value: 'farm',
+        context: { ...context, farm: { ...context.farm, ...farm } },
+      });
+      game = createActor(gameMachine, { snapshot });
+      game.start();
+    }
+
+    afterEach(() => {
+      game.stop();
+    });
+
+    it('should plant a seed and consume it from inventory', () => {
+      startFarm({ plots: [createTestPlot({ id: 'plot-1' })] });
+
+      game.send({
+        type: 'seed.planted',
+        payload: { plotId: 'plot-1', seedType: SeedType.SHAMBLER_SEED, timestamp: Date.now() },
+      });
+
+      const { farm, inventory } = game.getSnapshot().context;
+      expect(farm.plots[0]?.state).toBe(PlotState.PLANTED);
+      expect(inventory.seeds[SeedType.SHAMBLER_SEED]).toBe(2);
+    });
+
+    it('should grow plots over time and harvest the zombie', () => {
+      startFarm({ plots: [createPlantedPlot({ id: 'plot-1', growthTimeRemaining: 1000 })] });
+
+      game.send({ type: 'game.tick', payload: { deltaMs: 1250, timestamp: Date.now() } });
+      expect(game.getSnapshot().context.farm.plots[0]?.state).toBe(PlotState.READY);
+
+      game.send({
+        type: 'zombie.harvested',
+        payload: { plotId: 'plot-1', timestamp: Date.now() },
+      });
+
+      const { farm, player } = game.getSnapshot().context;
+      expect(farm.activeZombies).toHaveLength(1);
+      expect(farm.plots[0]?.state).toBe(PlotState.EMPTY);
+      expect(player.stats.zombiesHarvested).toBe(1);
+    });
+
+    it('should move zombies between the roster and the Crypt', () => {
+      startFarm({ activeZombies: [createTestZombie({ id: 'z1' })] });
+
+      game.send({ type: 'zombie.toCrypt', payload: { zombieId: 'z1', timestamp: Date.now() } });
+      expect(game.getSnapshot().context.farm.cryptZombies.map((z) => z.id)).toEqual(['z1']);
+
+      game.send({ type: 'zombie.fromCrypt', payload: { zombieId: 'z1', timestamp: Date.now() } });
+      expect(game.getSnapshot().context.farm.activeZombies.map((z) => z.id)).toEqual(['z1']);
+    });
+
+    it('should surface service errors as notifications and error.occurred', () => {
+      startFarm({ plots: [createPlantedPlot({ id: 'plot-1' })] });
+      const errors: GameEvent[] = [];
+      const unsubscribe = eventBus.on('error.occurred', (event) => {
+        errors.push(event);
+      });
+
+      game.send({
+        type: 'seed.planted',
+        payload: { plotId: 'plot-1', seedType: SeedType.SHAMBLER_SEED, timestamp: Date.now() },
+      });
+      unsubscribe();
+
+      const { notifications } = game.getSnapshot().context.ui;
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]?.message).toBe('Plot is not empty');
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should stamp error notifications with the event time and number repeats', () => {
+      startFarm({ plots: [createPlantedPlot({ id: 'plot-1' })] });
+      const plant = {
+        type: 'seed.planted',
+        payload: { plotId: 'plot-1', seedType: SeedType.SHAMBLER_SEED, timestamp: 1000 },
+      } as const;
+
+      game.send(plant);
+      game.send(plant);
+
+      const { notifications } = game.getSnapshot().context.ui;
+      expect(notifications.map((n) => [n.id, n.createdAt])).toEqual([
+        ['seed.planted-1000-0', 1000],
+        ['seed.planted-1000-1', 1000],
+      ]);
+    });
+
+    it('should ignore events for unknown plots and zombies', () => {
+      startFarm({});
+
+      game.send({ type: 'plot.watered', payload: { plotId: 'missing', timestamp: Date.now() } });
+      game.send({ type: 'zombie.pet', payload: { zombieId: 'missing', timestamp: Date.now() } });
+
+      expect(game.getSnapshot().context.ui.notifications).toHaveLength(0);
+    });
+  });
+
+  describe('game loop', () => {
+    let game: Actor<typeof gameMachine>;
+
+    function start(value: 'farm' | 'paused', farm: Partial<FarmState> = {}): void {
+      const context = createActor(gameMachine).getSnapshot().context;
+      const snapshot = gameMachine.resolveState({
+        value,
+        context: { ...context, farm: { ...context.farm, ...farm } },
+      });
+      game = createActor(gameMachine, { snapshot });
+      game.start();
+    }
+
+    function tick(deltaMs: number): void {
+      game.send({ type: 'game.tick', payload: { deltaMs, timestamp: Date.now() } });
+    }
+
+    afterEach(() => {
+      game.stop();
+    });
+
+    it('should advance time and growth on each tick', () => {
+      start('farm', { plots: [createPlantedPlot({ id: 'plot-1', growthTimeRemaining: 5000 })] });
+
+      tick(1250);
+
+      const { time, farm } = game.getSnapshot().context;
+      expect(time.minute).toBe(1);
+      expect(farm.plots[0]?.growthTimeRemaining).toBe(3750);
+    });
+
+    it('should run day-boundary systems when a new day starts', () => {
+      start('farm', { activeZombies: [createTestZombie({ id: 'z1', daysSinceLastFed: 0 })] });
+      const dayChanges: GameEvent[] = [];
+      const unsubscribe = eventBus.on('time.dayChanged', (event) => {
+        dayChanges.push(event);
+      });
+
+      // 18 game hours take the clock from 06:00 past midnight
+      tick(18 * 60 * 1250);
+      unsubscribe();
+
+      const { time, farm } = game.getSnapshot().context;
+      expect(time.day).toBe(2);
+      expect(dayChanges).toHaveLength(1);
+      expect(farm.activeZombies[0]?.daysSinceLastFed).toBe(1);
+    });
+
+    it('should not tick while paused', () => {
+      start('paused', { plots: [createPlantedPlot({ id: 'plot-1', growthTimeRemaining: 5000 })] });
+      const { time } = game.getSnapshot().context;
+
+      tick(1250);
+
+      const context = game.getSnapshot().context;
+      expect(context.time).toBe(time);
+      expect(context.farm.plots[0]?.growthTimeRemaining).toBe(5000);
+    });
+  });
+
+  describe('buildings', () => {
+    let game: Actor<typeof gameMachine>;
+
+    beforeEach(() => {
+      const context = createActor(gameMachine).getSnapshot().context;
+      const inventory = {
+        ...context.inventory,
+        resources: {
+          ...context.inventory.resources,
+          [Resource.ROTTEN_WOOD]: 30,
+          [Resource.BONES]: 20,
+        },
+      };
+      const snapshot = gameMachine.resolveState({
+        value: 'farm',
+        context: { ...context, inventory, farm: { ...context.farm, plots: [] } },
+      });
+      game = createActor(gameMachine, { snapshot });
+      game.start();
+    });
+
+    afterEach(() => {
+      game.stop();
+    });
+
+    it('should place a building, finish it on the game loop and demolish it', () => {
+      const constructed: GameEvent[] = [];
+      const unsubscribe = eventBus.on('building.constructed', (event) => {
+        constructed.push(event);
+      });
+
+      game.send({
+        type: 'building.placed',
+        payload: {
+          buildingId: 'crypt-1',
+          type: BuildingType.CRYPT,
+          position: { x: 0, y: 0 },
+          timestamp: Date.now(),
+        },
+      });
+      expect(game.getSnapshot().context.farm.buildings[0]?.state).toBe(BuildingState.BUILDING);
+      expect(game.getSnapshot().context.inventory.currencies[Currency.DARK_COINS]).toBe(50);
+
+      game.send({ type: 'game.tick', payload: { deltaMs: 3 * 60 * 1000, timestamp: Date.now() } });
+      unsubscribe();
+      expect(game.getSnapshot().context.farm.buildings[0]?.state).toBe(BuildingState.ACTIVE);
+      expect(constructed).toHaveLength(1);
+
+      game.send({
+        type: 'building.demolished',
+        payload: { buildingId: 'crypt-1', timestamp: Date.now() },
+      });
+      const { farm, inventory } = game.getSnapshot().context;
+      expect(farm.buildings).toHaveLength(0);
+      expect(inventory.currencies[Currency.DARK_COINS]).toBe(75);
+    });
+
+    it('should reject upgrades that skip a level', () => {
+      game.send({
+        type: 'building.placed',
+        payload: {
+          buildingId: 'plot-b',
+          type: BuildingType.ZOMBIE_PLOT,
+          position: { x: 0, y: 0 },
+          timestamp: Date.now(),
+        },
+      });
+
+      game.send({
+        type: 'building.upgraded',
+        payload: { buildingId: 'plot-b', newLevel: 3, timestamp: Date.now() },
+      });
+
+      const { farm, ui } = game.getSnapshot().context;
+      expect(farm.buildings[0]?.level).toBe(1);
+      expect(ui.notifications).toHaveLength(1);
+    });
+  });
+
+  describe('loading a save', () => {
+    let game: Actor<typeof gameMachine>;
+
+    beforeEach(() => {
+      game = createActor(gameMachine);
+      game.start();
+    });
+
+    afterEach(() => {
+      game.stop();
+    });
+
+    /** A save for a finished tutorial, last updated one game day ago */
+    function createSave(now: number): GameState {
+      const context = game.getSnapshot().context;
+      return {
+        ...context,
+        player: {
+          ...context.player,
+          tutorialFlags: { ...context.player.tutorialFlags, completedFull: true },
+        },
+        farm: { ...context.farm, plots: [createPlantedPlot({ id: 'plot-1' })] },
+        time: {
+          ...context.time,
+          lastUpdate: now - gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION,
+        },
+      };
+    }
+
+    it('should restore the save and catch up offline time', () => {
+      const now = Date.now();
+      const reports: GameEvent[] = [];
+      const unsubscribe = eventBus.on('offline.calculated', (event) => {
+        reports.push(event);
+      });
+
+      game.send({
+        type: 'game.loaded',
+        payload: { saveVersion: '1.0.0', state: createSave(now), timestamp: now },
+      });
+      unsubscribe();
+
+      const snapshot = game.getSnapshot();
+      expect(snapshot.matches('farm')).toBe(true);
+      expect(snapshot.context.time.day).toBe(2);
+      expect(snapshot.context.farm.plots[0]?.state).toBe(PlotState.READY);
+      expect(reports).toHaveLength(1);
+    });
+
+    it('should resume the tutorial for a save that has not finished it', () => {
+      const now = Date.now();
+      const save = createSave(now);
+
+      game.send({
+        type: 'game.loaded',
+        payload: {
+          saveVersion: '1.0.0',
+          state: { ...save, player: game.getSnapshot().context.player },
+          timestamp: now,
+        },
+      });
+
+      expect(game.getSnapshot().matches('tutorial')).toBe(true);
+      expect(game.getSnapshot().context.farm.plots).toHaveLength(1);
     });
   });
 
@@ -16,12 +16,14 @@ import { saveGame, loadGame, clearSaveData, hasSaveData } from '../../../lib/sto
 import { setupAutoSave, stopAutoSave, triggerAutoSave } from '../../../lib/storage/autoSave';
 import { createTestGameState } from '../../../lib/test-utils/factories/gameStateFactory';
 import { createTestZombie } from '../../../lib/test-utils/factories/zombieFactory';
+import { createTestFarmState } from '../../../lib/test-utils/factories/farmStateFactory';
 import {
   mockLocalStorage,
   restoreLocalStorage,
 } from '../../../lib/test-utils/mocks/mockLocalStorage';
 import type { GameState } from '../../../types';
 import { GameMode } from '../../../types';
+import { Resource } from '../../../types/resources';
 
 describe('Persistence Integration', () => {
   beforeEach(() => {
@@ -84,6 +86,29 @@ describe('Persistence Integration', () => {
       expect(loaded.data?.farm.zombies[1].id).toBe('runner');
     });
 
+    it('should preserve Mutation Lab jobs across save/load', () => {
+      // Arrange
+      const zombie = createTestZombie({ id: 'zombie-1', mutations: ['swift'] });
+      const job = {
+        buildingId: 'lab-1',
+        zombie,
+        catalyst: Resource.CORRUPTED_DNA,
+        targetMutation: null,
+        remainingMs: 30000,
+        queuedAt: 1000,
+      };
+      const state = createTestGameState({
+        farm: createTestFarmState({ activeZombies: [], mutationJobs: [job] }),
+      });
+
+      // Act
+      saveGame(state);
+      const loaded = loadGame();
+
+      // Assert
+      expect(loaded.data?.farm.mutationJobs).toEqual([job]);
+    });
+
     it('should preserve inventory across save/load', () => {
       // Arrange
       const state = createTestGameState({
@@ -7,20 +7,52 @@
  * States: loading, tutorial, farm, combat, paused, gameOver
  * Context: Full GameState (player, farm, combat, inventory, world, ui, time)
  * Events: All GameEvents from types/events.ts
+ * Combat: invokes the battle machine (features/combat/battleMachine.ts) as a child actor
+ * Game loop: game.tick runs one fixed step of the farm simulation (lib/gameLoop.ts)
+ * Loading: game.loaded restores the save and catches up offline time (lib/offlineProgress.ts)
+ * World: the map starts from the world catalog; conquests unlock new regions and locations
+ *   (world/services/worldProgression.ts)
+ * Raids: battles cannot start on a location on cooldown or a cleared story location
+ *   (world/services/raidScheduling.ts)
+ * Randomness: rolls follow the seed in meta, and each battle gets a seed forked from it
+ *   (lib/gameRandom.ts)
+ * Replays: recent battle replays are kept per location in world.replays
+ *   (combat/services/battleReplay.ts)
  *
  * Architecture: Event-driven, immutable state updates, type-safe
  */
 
-import { setup, assign, fromPromise } from 'xstate';
+import { setup, assign, fromPromise, sendTo, enqueueActions } from 'xstate';
 import { GameMode, Season, Weather } from '../../types/global';
-import type { GameState, Player, TimeState, SaveMetadata } from '../../types/global';
+import type { GameState, Player, TimeState, SaveMetadata, LocationId } from '../../types/global';
 import type { GameEvent } from '../../types/events';
 import type { FarmState } from '../../types/farm';
-import type { CombatState, BattleResult } from '../../types/combat';
+import type { CombatState } from '../../types/combat';
+import { BattlePhase } from '../../types/combat';
 import type { Inventory } from '../../types/resources';
-import type { WorldState } from '../../types/world';
-import type { UIState } from '../../types/ui';
+import { Currency, SeedType } from '../../types/resources';
+import type { WorldState, Location } from '../../types/world';
+import type { Notification, UIState } from '../../types/ui';
+import { NotificationType } from '../../types/ui';
 import { gameConfig } from '../../lib/config/zombieFarmConfig';
+import { battleMachine } from '../combat/battleMachine';
+import { resolveBattle } from '../combat/services/battleResolution';
+import { saveReplay } from '../combat/services/battleReplay';
+import {
+  handleFarmEvent,
+  isFarmActionEvent,
+  getEventPlotId,
+  getEventZombieId,
+  getEventBuildingId,
+} from '../farm/events/farmEvents';
+import { emitEvent } from '../../lib/events';
+import { canAffordCost, createEmptyInventory, deductCost } from './lib/resources';
+import { runGameTick, runDayBoundary } from './lib/gameLoop';
+import { calculateOfflineProgress } from './lib/offlineProgress';
+import { createGameRandom, createRandomSeed, forkSeed } from './lib/gameRandom';
+import { createInitialWorldState } from '../world/services/worldCatalog';
+import { getWorldProgress, unlockWorldProgress } from '../world/services/worldProgression';
+import { getRaidBlockReason } from '../world/services/raidScheduling';
 
 // ============================================================================
 // INITIAL STATE FACTORIES
@@ -82,16 +114,12 @@ function createInitialTime(): TimeState {
  */
 function createInitialFarm(): FarmState {
   return {
-    plots: {},
-    zombies: {},
-    activeZombieIds: [],
-    cryptZombieIds: [],
-    buildings: {},
-    resourceNodes: {},
-    capacity: {
-      max: gameConfig.CAPACITY.INITIAL_ZOMBIE_CAP,
-      current: 0,
-    },
+    plots: [],
+    activeZombies: [],
+    cryptZombies: [],
+    buildings: [],
+    resourceNodes: [],
+    activeZombieCapacity: gameConfig.CAPACITY.INITIAL_ZOMBIE_CAP,
     gridSize: gameConfig.FARM.INITIAL_GRID_SIZE,
     expansionLevel: 0,
   };
@@ -101,31 +129,27 @@ function createInitialFarm(): FarmState {
  * Create initial inventory
  */
 function createInitialInventory(): Inventory {
+  const inventory = createEmptyInventory();
   return {
+    ...inventory,
     currencies: {
-      darkCoins: 100, // Starting currency
-      soulEssence: 0,
+      ...inventory.currencies,
+      [Currency.DARK_COINS]: 100, // Starting currency
     },
-    resources: {},
-    items: {},
     seeds: {
-      shamblerSeed: 3, // Start with 3 basic seeds
-      runnerSeed: 1,
+      ...inventory.seeds,
+      [SeedType.SHAMBLER_SEED]: 3, // Start with 3 basic seeds
+      [SeedType.RUNNER_SEED]: 1,
     },
+    currentCount: 4, // Seeds count toward capacity
   };
 }
 
 /**
- * Create initial world state
+ * Create initial world state from the world catalog
  */
 function createInitialWorld(): WorldState {
-  return {
-    locations: {},
-    unlockedLocationIds: [],
-    conqueredLocationIds: [],
-    currentRegion: 'starting_area',
-    discoveredRegions: ['starting_area'],
-  };
+  return createInitialWorldState();
 }
 
 /**
@@ -147,11 +171,14 @@ function createInitialUI(): UIState {
  */
 function createInitialMeta(): SaveMetadata {
   const now = Date.now();
+  const rngSeed = createRandomSeed();
   return {
     version: '1.0.0',
     createdAt: now,
     lastSavedAt: now,
     totalPlayTime: 0,
+    rngSeed,
+    rngState: rngSeed,
   };
 }
 
@@ -172,6 +199,46 @@ function createInitialContext(): GameState {
   };
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Find a world location by ID
+ */
+function findLocation(context: GameState, locationId: LocationId): Location | undefined {
+  return Object.values(context.world.locations).find((location) => location.id === locationId);
+}
+
+/**
+ * Show a failed operation to the player as an error notification
+ *
+ * The ID comes from the error type and timestamp, numbered past any
+ * notification already shown for the same error.
+ */
+function addErrorNotification(
+  ui: UIState,
+  error: { errorType: string; message: string; timestamp: number }
+): UIState {
+  const prefix = `${error.errorType}-${error.timestamp}`;
+  const taken = new Set(ui.notifications.map((notification) => notification.id));
+  let index = 0;
+  while (taken.has(`${prefix}-${index}`)) {
+    index += 1;
+  }
+
+  const notification: Notification = {
+    id: `${prefix}-${index}`,
+    type: NotificationType.ERROR,
+    message: error.message,
+    duration: 5000,
+    createdAt: error.timestamp,
+    dismissible: true,
+  };
+
+  return { ...ui, notifications: [...ui.notifications, notification] };
+}
+
 // ============================================================================
 // MACHINE DEFINITION
 // ============================================================================
@@ -181,6 +248,9 @@ export const gameMachine = setup({
     context: {} as GameState,
     events: {} as GameEvent,
   },
+  actors: {
+    battleMachine,
+  },
   actions: {
     /**
      * Update player XP
@@ -232,103 +302,245 @@ export const gameMachine = setup({
     }),
 
     /**
-     * Initialize battle state
+     * Initialize battle state with its own seed forked from the game's
+     */
+    initializeBattle: enqueueActions(({ context, event, enqueue }) => {
+      if (event.type !== 'battle.initiated') return;
+
+      const rng = createGameRandom(context.meta);
+      const combatState: CombatState = {
+        battleId: event.payload.battleId,
+        locationId: event.payload.locationId,
+        phase: BattlePhase.PREPARATION,
+        playerSquad: [],
+        enemies: [],
+        obstacles: [],
+        currentWave: 0,
+        totalWaves: findLocation(context, event.payload.locationId)?.waves ?? 1,
+        battleDuration: 0,
+        activeEffects: [],
+        battleLog: [],
+        startedAt: event.payload.timestamp,
+        isRetreating: false,
+        retreatCountdown: 0,
+        rngSeed: forkSeed(rng.random),
+      };
+
+      enqueue.assign({
+        combat: combatState,
+        mode: GameMode.COMBAT,
+        meta: rng.save(context.meta),
+      });
+    }),
+
+    /**
+     * Apply battle results: permadeath, survivor XP, rewards and conquest
+     * (see combat/services/battleResolution.ts), and keep the fight's replay
+     * in the location's history (see combat/services/battleReplay.ts)
+     */
+    applyBattleResults: enqueueActions(({ context, event, enqueue }) => {
+      enqueue.assign({ combat: null, mode: GameMode.FARM });
+      if (event.type !== 'battle.ended' || !context.combat) return;
+
+      const { result, timestamp, replay } = event.payload;
+      const resolution = resolveBattle({
+        farm: context.farm,
+        world: context.world,
+        inventory: context.inventory,
+        result,
+        locationId: context.combat.locationId,
+        combat: context.combat,
+        timestamp,
+      });
+
+      if (!resolution.success) {
+        const error = { errorType: 'battle.resolution', message: resolution.error, timestamp };
+        enqueue.assign({ ui: addErrorNotification(context.ui, error) });
+        enqueue(() => emitEvent({ type: 'error.occurred', payload: error }));
+        return;
+      }
+
+      const { farm, inventory, events } = resolution.data;
+      const world = replay ? saveReplay(resolution.data.world, replay) : resolution.data.world;
+      const newlyConquered =
+        world.conqueredLocations.length - context.world.conqueredLocations.length;
+      const highestZombieLevel = Math.max(
+        context.player.stats.highestZombieLevel,
+        ...farm.activeZombies.map((zombie) => zombie.level)
+      );
+
+      enqueue.assign({
+        farm,
+        world,
+        inventory,
+        player: {
+          ...context.player,
+          stats: {
+            ...context.player.stats,
+            battlesWon: context.player.stats.battlesWon + (result.victory ? 1 : 0),
+            battlesLost: context.player.stats.battlesLost + (result.victory ? 0 : 1),
+            zombiesLost: context.player.stats.zombiesLost + result.casualties.length,
+            locationsConquered: context.player.stats.locationsConquered + newlyConquered,
+            highestZombieLevel,
+          },
+        },
+      });
+
+      for (const resolutionEvent of events) {
+        enqueue(() => emitEvent(resolutionEvent));
+        if (resolutionEvent.type === 'location.conquered') {
+          enqueue.raise(resolutionEvent);
+        }
+      }
+    }),
+
+    /**
+     * Unlock regions and locations opened up by a conquest
+     * (see world/services/worldProgression.ts)
+     */
+    applyWorldProgress: enqueueActions(({ context, event, enqueue }) => {
+      if (event.type !== 'location.conquered') return;
+
+      const { world, events } = unlockWorldProgress(
+        context.world,
+        getWorldProgress(context),
+        event.payload.timestamp
+      );
+      if (events.length === 0) return;
+
+      enqueue.assign({ world });
+      for (const worldEvent of events) {
+        enqueue(() => emitEvent(worldEvent));
+      }
+    }),
+
+    /**
+     * Mirror the battle actor's state into context
      */
-    initializeBattle: assign({
+    syncBattle: assign({
       combat: ({ context, event }) => {
-        if (event.type !== 'battle.initiated') return context.combat;
-
-        const combatState: CombatState = {
-          battleId: event.payload.battleId,
-          locationId: event.payload.locationId,
-          isActive: true,
-          phase: 'preparation',
-          zombieSquad: [],
-          enemies: [],
-          obstacles: [],
-          currentWave: 0,
-          totalWaves: 1,
-          battleStartTime: event.payload.timestamp,
-        };
+        if (event.type !== 'battle.updated') return context.combat;
+        if (event.payload.battleId !== context.combat?.battleId) return context.combat;
 
-        return combatState;
+        return event.payload.state;
       },
-      mode: () => GameMode.COMBAT,
     }),
 
     /**
-     * Apply battle results
+     * Pay the retreat cost (DOMAIN-COMBAT.md Retreat)
+     *
+     * Charged once the battle actor reports the retreat under way, so a
+     * retreat it turns down costs nothing. Runs before syncBattle.
      */
-    applyBattleResults: assign({
-      combat: () => null, // Clear combat state
-      mode: () => GameMode.FARM,
+    chargeRetreatCost: assign({
       inventory: ({ context, event }) => {
-        if (event.type !== 'battle.ended') return context.inventory;
-
-        const { result } = event.payload;
-        const rewards = result.rewards;
+        if (event.type !== 'battle.updated') return context.inventory;
+        const combat = context.combat;
+        if (event.payload.battleId !== combat?.battleId) return context.inventory;
+        if (combat.isRetreating || !event.payload.state.isRetreating) return context.inventory;
 
-        return {
-          ...context.inventory,
-          currencies: {
-            ...context.inventory.currencies,
-            darkCoins: context.inventory.currencies.darkCoins + (rewards.darkCoins || 0),
-            soulEssence: context.inventory.currencies.soulEssence + (rewards.soulEssence || 0),
-          },
-          resources: {
-            ...context.inventory.resources,
-            ...Object.entries(rewards.resources || {}).reduce(
-              (acc, [resource, amount]) => ({
-                ...acc,
-                [resource]: (context.inventory.resources[resource] || 0) + amount,
-              }),
-              {}
-            ),
-          },
-        };
+        const result = deductCost(context.inventory, gameConfig.COMBAT.RETREAT_COST);
+        return result.success ? result.inventory : context.inventory;
       },
-      player: ({ context, event }) => {
-        if (event.type !== 'battle.ended') return context.player;
-
-        const { result } = event.payload;
-        const xpGained = result.rewards.xp || 0;
-        const newXp = context.player.xp + xpGained;
-        const xpForNextLevel = context.player.xpToNextLevel;
-
-        // Update battle stats
-        const stats = {
-          ...context.player.stats,
-          battlesWon: result.victory
-            ? context.player.stats.battlesWon + 1
-            : context.player.stats.battlesWon,
-          battlesLost: !result.victory
-            ? context.player.stats.battlesLost + 1
-            : context.player.stats.battlesLost,
-          zombiesLost: context.player.stats.zombiesLost + result.casualties.length,
+    }),
+
+    /**
+     * Forward player and frame events to the battle actor
+     */
+    forwardToBattle: sendTo('battle', ({ event }) => event),
+
+    /**
+     * Apply a player farm action through the farm services
+     * (see farm/events/farmEvents.ts)
+     */
+    applyFarmEvent: enqueueActions(({ context, event, enqueue }) => {
+      if (!isFarmActionEvent(event)) return;
+
+      const result = handleFarmEvent(context, event);
+      if (!result.success) {
+        const error = {
+          errorType: event.type,
+          message: result.error,
+          timestamp: event.payload.timestamp,
         };
+        enqueue.assign({ ui: addErrorNotification(context.ui, error) });
+        enqueue(() => emitEvent({ type: 'error.occurred', payload: error }));
+        return;
+      }
 
-        // Check for level up
-        if (newXp >= xpForNextLevel) {
-          const newLevel = context.player.level + 1;
-          const remainingXp = newXp - xpForNextLevel;
+      const { farm, inventory, player, meta } = result.data;
+      enqueue.assign({ farm, inventory, player, meta });
+    }),
 
-          return {
-            ...context.player,
-            level: newLevel,
-            xp: remainingXp,
-            xpToNextLevel: gameConfig.PROGRESSION.PLAYER_XP_CURVE(newLevel),
-            stats,
-          };
+    /**
+     * Run one fixed step of the farm simulation (see lib/gameLoop.ts)
+     *
+     * A new game day is raised as time.dayChanged so the day-boundary systems
+     * run through the same transition as an externally sent day change.
+     */
+    runGameTick: enqueueActions(({ context, event, enqueue }) => {
+      if (event.type !== 'game.tick') return;
+
+      const { deltaMs, timestamp } = event.payload;
+      const result = runGameTick(context, deltaMs, timestamp);
+      if (!result.success) {
+        const error = { errorType: 'game.tick', message: result.error, timestamp };
+        enqueue.assign({ ui: addErrorNotification(context.ui, error) });
+        enqueue(() => emitEvent({ type: 'error.occurred', payload: error }));
+        return;
+      }
+
+      const { state, events } = result.data;
+      enqueue.assign({
+        farm: state.farm,
+        inventory: state.inventory,
+        time: state.time,
+        meta: state.meta,
+      });
+
+      for (const loopEvent of events) {
+        enqueue(() => emitEvent(loopEvent));
+        if (loopEvent.type === 'time.dayChanged') {
+          enqueue.raise(loopEvent);
         }
+      }
+    }),
 
-        return {
-          ...context.player,
-          xp: newXp,
-          stats,
-        };
+    /**
+     * Run the day-boundary farm systems: feeding counter, decay, happiness
+     */
+    runDayBoundary: assign({
+      farm: ({ context, event }) => {
+        if (event.type !== 'time.dayChanged') return context.farm;
+
+        return runDayBoundary(context.farm, event.payload.newDay);
       },
     }),
 
+    /**
+     * Restore a loaded save and simulate the time spent offline
+     */
+    restoreSavedGame: enqueueActions(({ event, enqueue }) => {
+      if (event.type !== 'game.loaded' || !event.payload.state) return;
+
+      const saved = event.payload.state;
+      const result = calculateOfflineProgress(saved, event.payload.timestamp);
+      if (!result.success) {
+        const error = {
+          errorType: 'offline.progress',
+          message: result.error,
+          timestamp: event.payload.timestamp,
+        };
+        enqueue.assign({ ...saved, ui: addErrorNotification(saved.ui, error) });
+        enqueue(() => emitEvent({ type: 'error.occurred', payload: error }));
+        return;
+      }
+
+      const { state, event: offlineEvent } = result.data;
+      enqueue.assign({ ...state });
+      enqueue(() => emitEvent(offlineEvent));
+    }),
+
     /**
      * Save game progress
      */
@@ -408,15 +620,83 @@ export const gameMachine = setup({
     /**
      * Check if tutorial is completed
      */
-    isTutorialComplete: ({ context }) => {
-      return context.player.tutorialFlags.completedFull;
+    isTutorialComplete: ({ context, event }) => {
+      // A loaded save replaces the player before the transition completes
+      const player =
+        event.type === 'game.loaded' && event.payload.state
+          ? event.payload.state.player
+          : context.player;
+      return player.tutorialFlags.completedFull === true;
     },
 
     /**
      * Check if player has zombies available for combat
      */
     hasZombiesAvailable: ({ context }) => {
-      return context.farm.activeZombieIds.length > 0;
+      return context.farm.activeZombies.length > 0;
+    },
+
+    /**
+     * Check if the raided location is off cooldown and not a cleared story location
+     *
+     * Battles against locations outside the world map are not scheduled.
+     */
+    canRaidLocation: ({ context, event }) => {
+      if (event.type !== 'battle.initiated') return false;
+      const location = findLocation(context, event.payload.locationId);
+      return (
+        location === undefined || getRaidBlockReason(location, event.payload.timestamp) === null
+      );
+    },
+
+    /**
+     * Check if the active battle can retreat
+     *
+     * Requires at least one living zombie and enough currency for RETREAT_COST.
+     */
+    canRetreat: ({ context, event }) => {
+      if (event.type !== 'battle.retreatStarted') return false;
+      const combat = context.combat;
+      return (
+        combat !== null &&
+        combat.battleId === event.payload.battleId &&
+        combat.phase === BattlePhase.ACTIVE &&
+        !combat.isRetreating &&
+        combat.playerSquad.some((zombie) => !zombie.isDead) &&
+        canAffordCost(context.inventory, gameConfig.COMBAT.RETREAT_COST)
+      );
+    },
+
+    /**
+     * Check if a farm event targets an existing plot
+     *
+     * Events for unknown plots (stale UI dispatches) are ignored rather than reported.
+     */
+    hasPlot: ({ context, event }) => {
+      if (!isFarmActionEvent(event)) return false;
+      const plotId = getEventPlotId(event);
+      return context.farm.plots.some((plot) => plot.id === plotId);
+    },
+
+    /**
+     * Check if a farm event targets a zombie on the farm or in the Crypt
+     */
+    hasZombie: ({ context, event }) => {
+      if (!isFarmActionEvent(event)) return false;
+      const zombieId = getEventZombieId(event);
+      return (
+        context.farm.activeZombies.some((zombie) => zombie.id === zombieId) ||
+        context.farm.cryptZombies.some((zombie) => zombie.id === zombieId)
+      );
+    },
+
+    /**
+     * Check if a farm event targets an existing building
+     */
+    hasBuilding: ({ context, event }) => {
+      if (!isFarmActionEvent(event)) return false;
+      const buildingId = getEventBuildingId(event);
+      return context.farm.buildings.some((building) => building.id === buildingId);
     },
 
     /**
@@ -448,9 +728,11 @@ export const gameMachine = setup({
           {
             target: 'farm',
             guard: 'isTutorialComplete',
+            actions: 'restoreSavedGame',
           },
           {
             target: 'tutorial',
+            actions: 'restoreSavedGame',
           },
         ],
       },
@@ -505,19 +787,113 @@ export const gameMachine = setup({
         'battle.initiated': {
           target: 'combat',
           actions: 'initializeBattle',
+          guard: 'canRaidLocation',
           // Guard removed for testing - should be re-added for production
           // guard: 'hasZombiesAvailable',
         },
         'game.paused': 'paused',
         'game.over': 'gameOver',
+        'seed.planted': {
+          guard: 'hasPlot',
+          actions: 'applyFarmEvent',
+        },
+        'plot.watered': {
+          guard: 'hasPlot',
+          actions: 'applyFarmEvent',
+        },
+        'plot.fertilized': {
+          guard: 'hasPlot',
+          actions: 'applyFarmEvent',
+        },
+        'plot.catalyzed': {
+          guard: 'hasPlot',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.matured': {
+          guard: 'hasPlot',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.harvested': {
+          guard: 'hasPlot',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.fed': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.pet': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.toCrypt': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.fromCrypt': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.command': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.fused': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.equipped': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'zombie.unequipped': {
+          guard: 'hasZombie',
+          actions: 'applyFarmEvent',
+        },
+        'building.placed': {
+          actions: 'applyFarmEvent',
+        },
+        'location.conquered': {
+          actions: 'applyWorldProgress',
+        },
+        'building.constructed': {
+          guard: 'hasBuilding',
+          actions: 'applyFarmEvent',
+        },
+        'building.upgraded': {
+          guard: 'hasBuilding',
+          actions: 'applyFarmEvent',
+        },
+        'building.demolished': {
+          guard: 'hasBuilding',
+          actions: 'applyFarmEvent',
+        },
+        'mutationLab.started': {
+          guard: 'hasBuilding',
+          actions: 'applyFarmEvent',
+        },
+        'mutationLab.cancelled': {
+          guard: 'hasBuilding',
+          actions: 'applyFarmEvent',
+        },
+        'crafting.started': {
+          guard: 'hasBuilding',
+          actions: 'applyFarmEvent',
+        },
+        'crafting.cancelled': {
+          guard: 'hasBuilding',
+          actions: 'applyFarmEvent',
+        },
         'player.xpGained': {
           actions: 'updatePlayerXp',
         },
         'player.levelUp': {
           actions: 'levelUpPlayer',
         },
+        'game.tick': {
+          actions: 'runGameTick',
+        },
         'time.dayChanged': {
-          actions: 'updateDay',
+          actions: ['updateDay', 'runDayBoundary'],
         },
         'time.hourChanged': {
           actions: 'updateHour',
@@ -533,7 +909,33 @@ export const gameMachine = setup({
       entry: assign({
         mode: () => GameMode.COMBAT,
       }),
+      invoke: {
+        id: 'battle',
+        src: 'battleMachine',
+        input: ({ context }) => ({
+          // combat is always set on entry (battle.initiated or resume)
+          combat: context.combat as CombatState,
+          location: context.combat ? findLocation(context, context.combat.locationId) : undefined,
+          roster: context.farm.activeZombies,
+        }),
+      },
       on: {
+        'battle.squadSelected': {
+          actions: 'forwardToBattle',
+        },
+        'battle.started': {
+          actions: 'forwardToBattle',
+        },
+        'battle.tick': {
+          actions: 'forwardToBattle',
+        },
+        'battle.retreatStarted': {
+          guard: 'canRetreat',
+          actions: 'forwardToBattle',
+        },
+        'battle.updated': {
+          actions: ['chargeRetreatCost', 'syncBattle'],
+        },
         'battle.ended': {
           target: 'farm',
           actions: 'applyBattleResults',
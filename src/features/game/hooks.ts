@@ -6,10 +6,15 @@
  */
 
 import React from 'react';
-import { useGameDispatch, useGameSelector, useGameState } from './GameProvider';
+import { useGameDispatch, useGameSelector, useGameState, useIsState } from './GameProvider';
 import type { GameEvent } from '../../types/events';
-import type { ZombieId, PlotId, LocationId, BuildingId } from '../../types/global';
+import type { ZombieId, PlotId, LocationId, BuildingId, Position } from '../../types/global';
 import type { BattleResult } from '../../types/combat';
+import type { BuildingType, EquipmentSlot, FarmState, Zombie } from '../../types/farm';
+import type { Resource, SeedType } from '../../types/resources';
+import { createFixedTimestep } from './lib/gameLoop';
+import { loadGame as loadSave } from '../../lib/storage/saveLoad';
+import { generateId } from '../../lib/utils/idGenerator';
 
 // ============================================================================
 // PLAYER HOOKS
@@ -151,6 +156,24 @@ export function useGameControls() {
         });
       },
 
+      /**
+       * Load the saved game; offline time is caught up on load
+       */
+      loadGame: () => {
+        const result = loadSave();
+        if (result.success && result.data) {
+          dispatch({
+            type: 'game.loaded',
+            payload: {
+              saveVersion: result.data.meta.version,
+              state: result.data,
+              timestamp: Date.now(),
+            },
+          });
+        }
+        return result;
+      },
+
       /**
        * Save the game
        */
@@ -291,6 +314,26 @@ export function useCombatActions() {
         });
       },
 
+      /**
+       * Advance the running battle (call once per frame)
+       */
+      tickBattle: (battleId: string, deltaMs: number) => {
+        dispatch({
+          type: 'battle.tick',
+          payload: { battleId, deltaMs },
+        });
+      },
+
+      /**
+       * Start the retreat countdown (costs RETREAT_COST)
+       */
+      beginRetreat: (battleId: string) => {
+        dispatch({
+          type: 'battle.retreatStarted',
+          payload: { battleId, timestamp: Date.now() },
+        });
+      },
+
       /**
        * End battle with result
        */
@@ -398,6 +441,47 @@ export function useTimeActions() {
   );
 }
 
+/**
+ * useGameLoop Hook
+ *
+ * Drives the farm simulation from requestAnimationFrame, dispatching one
+ * game.tick per fixed step (see lib/gameLoop.ts). The loop only runs in the
+ * farm state, so pausing or entering combat stops it cleanly. Phaser scenes
+ * can drive the same loop with createFixedTimestep in update().
+ *
+ * @example
+ * ```tsx
+ * function FarmScreen() {
+ *   useGameLoop();
+ *   return <FarmView />;
+ * }
+ * ```
+ */
+export function useGameLoop(): void {
+  const dispatch = useGameDispatch();
+  const isRunning = useIsState('farm');
+
+  React.useEffect(() => {
+    if (!isRunning) return;
+
+    const timestep = createFixedTimestep((deltaMs) => {
+      dispatch({
+        type: 'game.tick',
+        payload: { deltaMs, timestamp: Date.now() },
+      });
+    });
+
+    let lastFrame = performance.now();
+    let frameId = requestAnimationFrame(function frame(now) {
+      timestep.advance(now - lastFrame);
+      lastFrame = now;
+      frameId = requestAnimationFrame(frame);
+    });
+
+    return () => cancelAnimationFrame(frameId);
+  }, [dispatch, isRunning]);
+}
+
 /**
  * useIsDaytime Hook
  *
@@ -485,6 +569,218 @@ export function useResource(resourceType: string): number {
 // FARM HOOKS
 // ============================================================================
 
+/**
+ * useFarmActions Hook
+ *
+ * Returns type-safe action dispatchers for farm events.
+ * Failed actions surface as error notifications in UI state.
+ *
+ * @example
+ * ```tsx
+ * function PlotTile({ plotId }: { plotId: PlotId }) {
+ *   const { plantSeed, waterPlot } = useFarmActions();
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={() => plantSeed(plotId, SeedType.SHAMBLER_SEED)}>Plant</button>
+ *       <button onClick={() => waterPlot(plotId)}>Water</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useFarmActions() {
+  const dispatch = useGameDispatch();
+
+  return React.useMemo(
+    () => ({
+      /**
+       * Plant a seed in an empty plot
+       */
+      plantSeed: (plotId: PlotId, seedType: SeedType) => {
+        dispatch({
+          type: 'seed.planted',
+          payload: { plotId, seedType, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Water a plot (consumes Blood Water)
+       */
+      waterPlot: (plotId: PlotId) => {
+        dispatch({ type: 'plot.watered', payload: { plotId, timestamp: Date.now() } });
+      },
+
+      /**
+       * Fertilize a plot (consumes Corpse Dust)
+       */
+      fertilizePlot: (plotId: PlotId) => {
+        dispatch({ type: 'plot.fertilized', payload: { plotId, timestamp: Date.now() } });
+      },
+
+      /**
+       * Apply a mutation catalyst to a plot (consumes the catalyst)
+       */
+      applyCatalyst: (plotId: PlotId, catalyst: Resource) => {
+        dispatch({ type: 'plot.catalyzed', payload: { plotId, catalyst, timestamp: Date.now() } });
+      },
+
+      /**
+       * Harvest the zombie from a ready plot
+       */
+      harvestZombie: (plotId: PlotId) => {
+        dispatch({
+          type: 'zombie.harvested',
+          payload: { plotId, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Feed a zombie
+       */
+      feedZombie: (zombieId: ZombieId, foodItem: Resource) => {
+        dispatch({
+          type: 'zombie.fed',
+          payload: { zombieId, foodItem, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Pet a zombie (subject to cooldown)
+       */
+      petZombie: (zombieId: ZombieId) => {
+        dispatch({ type: 'zombie.pet', payload: { zombieId, timestamp: Date.now() } });
+      },
+
+      /**
+       * Move a zombie from the active roster to the Crypt
+       */
+      sendToCrypt: (zombieId: ZombieId) => {
+        dispatch({ type: 'zombie.toCrypt', payload: { zombieId, timestamp: Date.now() } });
+      },
+
+      /**
+       * Deploy a zombie from the Crypt to the active roster
+       */
+      deployFromCrypt: (zombieId: ZombieId) => {
+        dispatch({ type: 'zombie.fromCrypt', payload: { zombieId, timestamp: Date.now() } });
+      },
+
+      /**
+       * Command a zombie ('follow', 'guard' with a position, anything else clears)
+       */
+      commandZombie: (zombieId: ZombieId, command: string, targetPosition?: Position) => {
+        dispatch({
+          type: 'zombie.command',
+          payload: { zombieId, command, targetPosition, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Equip an inventory item in a zombie's slot (a replaced item returns to the inventory)
+       */
+      equipItem: (zombieId: ZombieId, slot: EquipmentSlot, itemId: string) => {
+        dispatch({
+          type: 'zombie.equipped',
+          payload: { zombieId, slot, itemId, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Move the item in a zombie's slot back to the inventory
+       */
+      unequipItem: (zombieId: ZombieId, slot: EquipmentSlot) => {
+        dispatch({ type: 'zombie.unequipped', payload: { zombieId, slot, timestamp: Date.now() } });
+      },
+
+      /**
+       * Fuse two max-level zombies into a hybrid (pays Soul Essence, consumes both)
+       */
+      fuseZombies: (zombieId: ZombieId, partnerId: ZombieId) => {
+        dispatch({
+          type: 'zombie.fused',
+          payload: { zombieId, partnerId, fusedZombieId: generateId(), timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Put an active zombie into a Mutation Lab (pays the catalyst)
+       *
+       * targetMutation picks the mutation an Evolution Serum aims for.
+       */
+      startMutation: (
+        buildingId: BuildingId,
+        zombieId: ZombieId,
+        catalyst: Resource,
+        targetMutation?: string
+      ) => {
+        dispatch({
+          type: 'mutationLab.started',
+          payload: { buildingId, zombieId, catalyst, targetMutation, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Take a zombie out of a Mutation Lab unchanged (the catalyst is lost)
+       */
+      cancelMutation: (buildingId: BuildingId, zombieId: ZombieId) => {
+        dispatch({
+          type: 'mutationLab.cancelled',
+          payload: { buildingId, zombieId, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Queue a batch of crafts at a crafting station (pays the whole batch)
+       */
+      startCrafting: (buildingId: BuildingId, recipeId: string, quantity = 1) => {
+        dispatch({
+          type: 'crafting.started',
+          payload: { buildingId, jobId: generateId(), recipeId, quantity, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Cancel a crafting batch, refunding the crafts not yet finished
+       */
+      cancelCrafting: (buildingId: BuildingId, jobId: string) => {
+        dispatch({
+          type: 'crafting.cancelled',
+          payload: { buildingId, jobId, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Place a building with its top-left tile at a position (pays the build cost)
+       */
+      placeBuilding: (type: BuildingType, position: Position) => {
+        dispatch({
+          type: 'building.placed',
+          payload: { buildingId: generateId(), type, position, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Upgrade an active building to the given next level
+       */
+      upgradeBuilding: (buildingId: BuildingId, newLevel: number) => {
+        dispatch({
+          type: 'building.upgraded',
+          payload: { buildingId, newLevel, timestamp: Date.now() },
+        });
+      },
+
+      /**
+       * Demolish a building (refunds part of its cost)
+       */
+      demolishBuilding: (buildingId: BuildingId) => {
+        dispatch({ type: 'building.demolished', payload: { buildingId, timestamp: Date.now() } });
+      },
+    }),
+    [dispatch]
+  );
+}
+
 /**
  * useZombieCount Hook
  *
@@ -493,7 +789,7 @@ export function useResource(resourceType: string): number {
  * @example
  * ```tsx
  * function ZombieCounter() {
- *   const { active, total, maxCapacity, inCrypt } = useZombieCount();
+ *   const { active, total, maxCapacity, inCrypt, inLab } = useZombieCount();
  *
  *   return (
  *     <div>
@@ -508,12 +804,14 @@ export function useResource(resourceType: string): number {
 export function useZombieCount() {
   return useGameSelector((state) => {
     const farm = state.context.farm;
+    const inLab = farm.mutationJobs?.length ?? 0;
     return {
-      active: farm.activeZombieIds.length,
-      inCrypt: farm.cryptZombieIds.length,
-      total: farm.activeZombieIds.length + farm.cryptZombieIds.length,
-      maxCapacity: farm.capacity.max,
-      availableSlots: farm.capacity.max - farm.activeZombieIds.length,
+      active: farm.activeZombies.length,
+      inCrypt: farm.cryptZombies.length,
+      inLab,
+      total: farm.activeZombies.length + farm.cryptZombies.length + inLab,
+      maxCapacity: farm.activeZombieCapacity,
+      availableSlots: farm.activeZombieCapacity - farm.activeZombies.length,
     };
   });
 }
@@ -543,7 +841,7 @@ export function useZombieCount() {
  * ```
  */
 export function useZombie(zombieId: ZombieId) {
-  return useGameSelector((state) => state.context.farm.zombies[zombieId]);
+  return useGameSelector((state) => findZombie(state.context.farm, zombieId));
 }
 
 /**
@@ -567,10 +865,67 @@ export function useZombie(zombieId: ZombieId) {
  * ```
  */
 export function useActiveZombies() {
-  return useGameSelector((state) => {
-    const { zombies, activeZombieIds } = state.context.farm;
-    return activeZombieIds.map((id) => zombies[id]).filter(Boolean);
-  });
+  return useGameSelector((state) => state.context.farm.activeZombies);
+}
+
+/**
+ * useMutationJobs Hook
+ *
+ * Returns the zombies queued or mutating in a Mutation Lab, in queue order.
+ *
+ * @param buildingId - Mutation Lab
+ *
+ * @example
+ * ```tsx
+ * function LabQueue({ labId }: { labId: string }) {
+ *   const jobs = useMutationJobs(labId);
+ *
+ *   return (
+ *     <ul>
+ *       {jobs.map(job => (
+ *         <li key={job.zombie.id}>{job.zombie.name}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useMutationJobs(buildingId: BuildingId) {
+  const jobs = useGameSelector((state) => state.context.farm.mutationJobs);
+  return React.useMemo(
+    () => (jobs ?? []).filter((job) => job.buildingId === buildingId),
+    [jobs, buildingId]
+  );
+}
+
+/**
+ * useCraftingJobs Hook
+ *
+ * Returns the batches queued or crafting at a station, in queue order.
+ *
+ * @param buildingId - Crafting station
+ *
+ * @example
+ * ```tsx
+ * function CraftingQueue({ stationId }: { stationId: string }) {
+ *   const jobs = useCraftingJobs(stationId);
+ *
+ *   return (
+ *     <ul>
+ *       {jobs.map(job => (
+ *         <li key={job.id}>{job.recipeId} x{job.quantity}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useCraftingJobs(buildingId: BuildingId) {
+  const jobs = useGameSelector((state) => state.context.farm.craftingJobs);
+  return React.useMemo(
+    () => (jobs ?? []).filter((job) => job.buildingId === buildingId),
+    [jobs, buildingId]
+  );
 }
 
 // ============================================================================
@@ -598,7 +953,7 @@ export function useActiveZombies() {
 export function useSelectedZombie() {
   const selectedId = useGameSelector((state) => state.context.ui.selectedZombieId);
   const zombie = useGameSelector((state) =>
-    selectedId ? state.context.farm.zombies[selectedId] : null
+    selectedId ? (findZombie(state.context.farm, selectedId) ?? null) : null
   );
 
   // Note: We'd need to add UI update events to the machine for setSelected
@@ -656,3 +1011,17 @@ export function useCanAfford(cost: {
     return true;
   });
 }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Find a zombie on the farm or in the crypt
+ */
+function findZombie(farm: FarmState, zombieId: ZombieId): Zombie | undefined {
+  return (
+    farm.activeZombies.find((zombie) => zombie.id === zombieId) ??
+    farm.cryptZombies.find((zombie) => zombie.id === zombieId)
+  );
+}
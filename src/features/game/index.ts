@@ -38,12 +38,14 @@ export {
   useIsInCombat,
   // Time
   useTimeActions,
+  useGameLoop,
   useIsDaytime,
   useCurrentDay,
   // Resources
   useCurrency,
   useResource,
   // Farm
+  useFarmActions,
   useZombieCount,
   useZombie,
   useActiveZombies,
@@ -0,0 +1,257 @@
+/**
+ * Game Loop Tests
+ *
+ * Tests for the master farm simulation loop:
+ * - One fixed step advances time, growth, resource nodes and zombie AI
+ * - Farm raids fought when due
+ * - Mutation Lab jobs finishing
+ * - Crafting stations finishing crafts
+ * - Day-boundary systems (feeding counter, decay, happiness)
+ * - Fixed timestep accumulation and backlog cap
+ *
+ * Per DOMAIN-FARM.md Time System and Decay and Maintenance.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { BuildingState, BuildingType, PlotState, ZombieAIState } from '../../../../types/farm';
+import { Resource, ResourceNodeState, ResourceNodeType } from '../../../../types/resources';
+import { createTestGameState } from '../../../../lib/test-utils/factories/gameStateFactory';
+import { createPlantedPlot } from '../../../../lib/test-utils/factories/plotFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createEmptyInventory } from '../resources';
+import { runGameTick, runDayBoundary, createFixedTimestep } from '../gameLoop';
+
+describe('gameLoop', () => {
+  describe('runGameTick', () => {
+    it('should advance time, growth and resource nodes by the step', () => {
+      const state = createTestGameState({
+        time: { ...createTestGameState().time, hour: 10, minute: 0 },
+        farm: createTestFarmState({
+          plots: [createPlantedPlot({ id: 'plot-1', growthTimeRemaining: 5000 })],
+          resourceNodes: [
+            {
+              id: 'node-1',
+              type: ResourceNodeType.DEAD_TREE,
+              position: { x: 0, y: 0 },
+              state: ResourceNodeState.DEPLETED,
+              cooldownRemaining: 5000,
+              capacity: 3,
+              remaining: 0,
+            },
+          ],
+        }),
+      });
+
+      const result = runGameTick(state, 1250, Date.now());
+
+      if (!result.success) throw new Error(result.error);
+      const { time, farm } = result.data.state;
+      expect(time.minute).toBe(1);
+      expect(farm.plots[0]?.growthTimeRemaining).toBe(3750);
+      expect(farm.resourceNodes[0]?.cooldownRemaining).toBe(3750);
+    });
+
+    it('should mark plots READY when growth completes', () => {
+      const state = createTestGameState({
+        farm: createTestFarmState({
+          plots: [createPlantedPlot({ id: 'plot-1', growthTimeRemaining: 1000 })],
+        }),
+      });
+
+      const result = runGameTick(state, 1250, Date.now());
+
+      if (!result.success) throw new Error(result.error);
+      expect(result.data.state.farm.plots[0]?.state).toBe(PlotState.READY);
+    });
+
+    it('should raise time events when the hour and day roll over', () => {
+      const state = createTestGameState({
+        time: { ...createTestGameState().time, day: 3, hour: 23, minute: 59 },
+      });
+
+      const result = runGameTick(state, 1250, 1000);
+
+      if (!result.success) throw new Error(result.error);
+      expect(result.data.events).toEqual([
+        { type: 'time.hourChanged', payload: { newHour: 0, isDaytime: false, timestamp: 1000 } },
+        { type: 'time.dayChanged', payload: { newDay: 4, timestamp: 1000 } },
+      ]);
+    });
+
+    it('should fight a scheduled raid when it is due', () => {
+      const guard = createTestZombie({ id: 'guard-1', aiState: ZombieAIState.GUARDING });
+      const state = createTestGameState({
+        time: { ...createTestGameState().time, day: 5, hour: 22, minute: 0 },
+        farm: createTestFarmState({
+          activeZombies: [{ ...guard, stats: { ...guard.stats, hp: 1 } }],
+          scheduledRaid: { day: 5, hour: 22, raiders: 2, isBloodMoon: false },
+        }),
+      });
+
+      const result = runGameTick(state, 1000, 1000);
+
+      if (!result.success) throw new Error(result.error);
+      const { farm } = result.data.state;
+      expect(farm.scheduledRaid).toBeNull();
+      expect(farm.activeZombies).toEqual([]);
+      expect(result.data.events).toEqual([
+        { type: 'farm.raided', payload: { report: farm.lastRaidReport, timestamp: 1000 } },
+        { type: 'zombie.died', payload: { zombieId: 'guard-1', reason: 'raid', timestamp: 1000 } },
+      ]);
+    });
+
+    it('should return zombies from the Mutation Lab when their job finishes', () => {
+      const zombie = createTestZombie({ id: 'z1', mutations: [], position: null });
+      const state = createTestGameState({
+        farm: createTestFarmState({
+          buildings: [
+            {
+              id: 'lab-1',
+              type: BuildingType.MUTATION_LAB,
+              position: { x: 2, y: 2 },
+              level: 1,
+              state: BuildingState.ACTIVE,
+              constructionStartedAt: null,
+              constructionTimeRemaining: null,
+              data: {},
+            },
+          ],
+          mutationJobs: [
+            {
+              buildingId: 'lab-1',
+              zombie,
+              catalyst: Resource.RADIOACTIVE_WASTE,
+              targetMutation: null,
+              remainingMs: 1000,
+              queuedAt: 0,
+            },
+          ],
+        }),
+      });
+
+      const result = runGameTick(state, 1250, 1000);
+
+      if (!result.success) throw new Error(result.error);
+      const { farm } = result.data.state;
+      const returned = farm.activeZombies.find((z) => z.id === 'z1');
+      expect(farm.mutationJobs).toEqual([]);
+      expect(returned?.position).toEqual({ x: 2, y: 2 });
+      expect(result.data.events).toContainEqual({
+        type: 'mutationLab.completed',
+        payload: {
+          buildingId: 'lab-1',
+          zombieId: 'z1',
+          mutation: returned?.mutations[0] ?? null,
+          timestamp: 1000,
+        },
+      });
+    });
+
+    it('should add the output of finished crafts', () => {
+      const state = createTestGameState({
+        inventory: createEmptyInventory(),
+        farm: createTestFarmState({
+          buildings: [
+            {
+              id: 'mill-1',
+              type: BuildingType.BONE_MILL,
+              position: { x: 2, y: 2 },
+              level: 1,
+              state: BuildingState.ACTIVE,
+              constructionStartedAt: null,
+              constructionTimeRemaining: null,
+              data: {},
+            },
+          ],
+          craftingJobs: [
+            {
+              id: 'job-1',
+              buildingId: 'mill-1',
+              recipeId: 'boneMeal',
+              quantity: 1,
+              remainingMs: 1000,
+              queuedAt: 0,
+            },
+          ],
+        }),
+      });
+
+      const result = runGameTick(state, 1250, 1000);
+
+      if (!result.success) throw new Error(result.error);
+      expect(result.data.state.farm.craftingJobs).toEqual([]);
+      expect(result.data.state.inventory.resources[Resource.BONE_MEAL]).toBe(3);
+      expect(result.data.events).toContainEqual({
+        type: 'crafting.completed',
+        payload: {
+          buildingId: 'mill-1',
+          recipeId: 'boneMeal',
+          output: { [Resource.BONE_MEAL]: 3 },
+          timestamp: 1000,
+        },
+      });
+    });
+
+    it('should leave state unchanged for a non-positive step', () => {
+      const state = createTestGameState();
+
+      const result = runGameTick(state, 0, Date.now());
+
+      expect(result).toEqual({ success: true, data: { state, events: [] } });
+    });
+  });
+
+  describe('runDayBoundary', () => {
+    it('should count another day unfed and apply decay', () => {
+      const zombie = createTestZombie({ id: 'z1', daysSinceLastFed: 1 });
+      const farm = createTestFarmState({ activeZombies: [zombie] });
+
+      const result = runDayBoundary(farm, 2);
+
+      const updated = result.activeZombies[0];
+      expect(updated?.daysSinceLastFed).toBe(2);
+      expect(updated?.stats.maxHp).toBeLessThan(zombie.stats.maxHp);
+    });
+
+    it('should not decay zombies in the Crypt', () => {
+      const zombie = createTestZombie({ id: 'z1', daysSinceLastFed: 3 });
+      const farm = createTestFarmState({ cryptZombies: [zombie] });
+
+      const result = runDayBoundary(farm, 2);
+
+      expect(result.cryptZombies[0]?.stats).toEqual(zombie.stats);
+    });
+  });
+
+  describe('createFixedTimestep', () => {
+    it('should run whole steps and carry the remainder', () => {
+      const steps: number[] = [];
+      const timestep = createFixedTimestep((stepMs) => steps.push(stepMs), 100, 10);
+
+      expect(timestep.advance(250)).toBe(2);
+      expect(timestep.advance(50)).toBe(1);
+      expect(steps).toEqual([100, 100, 100]);
+    });
+
+    it('should cap steps per frame and drop the backlog', () => {
+      let count = 0;
+      const timestep = createFixedTimestep(() => count++, 100, 3);
+
+      expect(timestep.advance(1050)).toBe(3);
+      expect(timestep.advance(50)).toBe(1);
+      expect(count).toBe(4);
+    });
+
+    it('should discard accumulated time on reset', () => {
+      let count = 0;
+      const timestep = createFixedTimestep(() => count++, 100, 10);
+
+      timestep.advance(90);
+      timestep.reset();
+      timestep.advance(20);
+
+      expect(count).toBe(0);
+    });
+  });
+});
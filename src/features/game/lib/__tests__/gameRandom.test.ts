@@ -0,0 +1,147 @@
+/**
+ * Game Random Tests
+ *
+ * Tests for the game's seeded random source:
+ * - Resuming and saving the sequence through save metadata
+ * - Same seed and inputs, same harvest, game tick, offline catch-up and battle
+ *
+ * Per DOMAIN-FARM.md Time System and DOMAIN-COMBAT.md Battle Flow.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { GameState, SaveMetadata } from '../../../../types/global';
+import { createTestGameState } from '../../../../lib/test-utils/factories/gameStateFactory';
+import { createReadyPlot } from '../../../../lib/test-utils/factories/plotFactory';
+import { createZombieSquad } from '../../../../lib/test-utils/factories/zombieFactory';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createMockLocation } from '../../../combat/test-utils/combatTestHelpers';
+import { initializeBattle } from '../../../combat/services/battleInitialization';
+import { startBattle, stepBattle } from '../../../combat/services/battleSimulation';
+import { handleFarmEvent } from '../../../farm/events/farmEvents';
+import { runGameTick } from '../gameLoop';
+import { calculateOfflineProgress } from '../offlineProgress';
+import { createGameRandom, createSeededRandom, forkSeed } from '../gameRandom';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const NOW = 1_700_000_000_000;
+
+const META: SaveMetadata = {
+  version: '1.0.0',
+  createdAt: NOW,
+  lastSavedAt: NOW,
+  totalPlayTime: 0,
+  rngSeed: 42,
+  rngState: 42,
+};
+
+function createSeededState(): GameState {
+  const base = createTestGameState();
+  return createTestGameState({
+    meta: META,
+    time: { ...base.time, lastUpdate: NOW - 60 * 60 * 1000 },
+    farm: createTestFarmState({
+      plots: [createReadyPlot({ id: 'plot-1' })],
+      activeZombies: createZombieSquad(4),
+    }),
+  });
+}
+
+function draw(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random());
+}
+
+// ============================================================================
+// SEQUENCE
+// ============================================================================
+
+describe('createGameRandom', () => {
+  it('continues the sequence from the saved position', () => {
+    const first = createGameRandom(META);
+    const head = draw(first.random, 3);
+    const resumed = createGameRandom(first.save(META));
+
+    const whole = draw(createGameRandom(META).random, 6);
+
+    expect([...head, ...draw(resumed.random, 3)]).toEqual(whole);
+  });
+
+  it('seeds saves without a seed from their creation time', () => {
+    const legacy: SaveMetadata = { ...META, rngSeed: undefined, rngState: undefined };
+
+    const saved = createGameRandom(legacy).save(legacy);
+
+    expect(saved.rngSeed).toBe(NOW % 2 ** 32);
+    expect(draw(createGameRandom(legacy).random, 3)).toEqual(
+      draw(createGameRandom({ ...META, rngSeed: saved.rngSeed, rngState: saved.rngSeed }).random, 3)
+    );
+  });
+});
+
+describe('forkSeed', () => {
+  it('draws a 32-bit seed from the sequence', () => {
+    const seed = forkSeed(createGameRandom(META).random);
+
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+    expect(forkSeed(createGameRandom(META).random)).toBe(seed);
+  });
+});
+
+// ============================================================================
+// DETERMINISM
+// ============================================================================
+
+describe('same seed and inputs', () => {
+  it('harvests the same zombie', () => {
+    const state = createSeededState();
+    const event = {
+      type: 'zombie.harvested' as const,
+      payload: { plotId: 'plot-1', zombieId: 'zombie-ready', timestamp: NOW },
+    };
+
+    const first = handleFarmEvent(state, event);
+    const second = handleFarmEvent(state, event);
+
+    if (!first.success) throw new Error(first.error);
+    expect(second).toEqual(first);
+    expect(first.data.meta.rngState).not.toBe(META.rngState);
+  });
+
+  it('runs the same game tick', () => {
+    const state = createSeededState();
+
+    const first = runGameTick(state, 5000, NOW);
+
+    expect(runGameTick(state, 5000, NOW)).toEqual(first);
+  });
+
+  it('catches up the same offline progress', () => {
+    const state = createSeededState();
+
+    const first = calculateOfflineProgress(state, NOW);
+
+    expect(calculateOfflineProgress(state, NOW)).toEqual(first);
+  });
+
+  it('fights the same battle', () => {
+    const squad = createZombieSquad(3);
+    const location = createMockLocation({ id: 'village-1' });
+    const fight = (seed: number) => {
+      const random = createSeededRandom(seed);
+      let battle = startBattle(initializeBattle(squad, location, 'line', random, NOW));
+      for (let i = 0; i < 50; i++) {
+        battle = stepBattle(battle, 100, { location, random });
+      }
+      return battle;
+    };
+
+    const first = fight(7);
+
+    expect(fight(7)).toEqual(first);
+    expect(fight(8).battleId).not.toBe(first.battleId);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Offline Progress Tests
+ *
+ * Tests for the offline catch-up run on load:
+ * - Gap capped at OFFLINE_PROGRESS_MAX_DAYS
+ * - Growth, node refills, Mutation Lab jobs and day-boundary systems advance
+ *   consistently
+ * - "While you were away" summary in offline.calculated
+ *
+ * Per DOMAIN-FARM.md Time System and Decay and Maintenance.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { GameState } from '../../../../types/global';
+import type { FarmState } from '../../../../types/farm';
+import { BuildingState, BuildingType, PlotState } from '../../../../types/farm';
+import { Resource, ResourceNodeState, ResourceNodeType } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createTestGameState } from '../../../../lib/test-utils/factories/gameStateFactory';
+import { createTestFarmState } from '../../../../lib/test-utils/factories/farmStateFactory';
+import { createPlantedPlot } from '../../../../lib/test-utils/factories/plotFactory';
+import { createTestZombie } from '../../../../lib/test-utils/factories/zombieFactory';
+import { createTimeState } from '../timeSystem';
+import { calculateOfflineProgress } from '../offlineProgress';
+
+const NOW = 1_700_000_000_000;
+const GAME_DAY_MS = gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION;
+
+/** A save last updated at 06:00 on day 1, msAway before NOW */
+function createSave(msAway: number, farm: Partial<FarmState> = {}): GameState {
+  return createTestGameState({
+    time: { ...createTimeState(), lastUpdate: NOW - msAway },
+    farm: createTestFarmState(farm),
+  });
+}
+
+function catchUp(save: GameState) {
+  const result = calculateOfflineProgress(save, NOW);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data;
+}
+
+describe('offlineProgress', () => {
+  describe('calculateOfflineProgress', () => {
+    it('should cap the simulated gap at OFFLINE_PROGRESS_MAX_DAYS', () => {
+      const { state, event } = catchUp(createSave(30 * GAME_DAY_MS));
+
+      const { OFFLINE_PROGRESS_MAX_DAYS } = gameConfig.TIME;
+      expect(event.payload.summary.daysPassed).toBe(OFFLINE_PROGRESS_MAX_DAYS);
+      expect(state.time.day).toBe(1 + OFFLINE_PROGRESS_MAX_DAYS);
+      expect(event.payload.timeAway).toBe(30 * GAME_DAY_MS);
+    });
+
+    it('should mature plots that finished growing while away', () => {
+      const { state, event } = catchUp(
+        createSave(60_000, {
+          plots: [createPlantedPlot({ id: 'plot-1', growthTimeRemaining: 10_000 })],
+        })
+      );
+
+      expect(state.farm.plots[0]?.state).toBe(PlotState.READY);
+      expect(event.payload.summary.zombiesMatured).toBe(1);
+    });
+
+    it('should replay each day boundary for hunger and decay', () => {
+      const zombie = createTestZombie({ id: 'z1', daysSinceLastFed: 0 });
+
+      const { state, event } = catchUp(createSave(3 * GAME_DAY_MS, { activeZombies: [zombie] }));
+
+      expect(state.farm.activeZombies[0]?.daysSinceLastFed).toBe(3);
+      expect(event.payload.summary.statsLost.maxHp).toBe(
+        zombie.stats.maxHp - (state.farm.activeZombies[0]?.stats.maxHp ?? 0)
+      );
+      expect(event.payload.summary.statsLost.maxHp).toBeGreaterThan(0);
+    });
+
+    it('should refill blood wells while away', () => {
+      const { state, event } = catchUp(
+        createSave(GAME_DAY_MS, {
+          resourceNodes: [
+            {
+              id: 'well-1',
+              type: ResourceNodeType.BLOOD_WELL,
+              position: { x: 0, y: 0 },
+              state: ResourceNodeState.DEPLETED,
+              cooldownRemaining: 0,
+              capacity: 10,
+              remaining: 0,
+            },
+          ],
+        })
+      );
+
+      expect(state.farm.resourceNodes[0]?.remaining).toBe(10);
+      expect(event.payload.summary.nodesReplenished).toBe(1);
+    });
+
+    it('should finish queued Mutation Lab jobs while away', () => {
+      const job = (id: string) => ({
+        buildingId: 'lab-1',
+        zombie: createTestZombie({ id, mutations: [], position: null }),
+        catalyst: Resource.RADIOACTIVE_WASTE,
+        targetMutation: null,
+        remainingMs: GAME_DAY_MS / 12, // 2 game hours
+        queuedAt: 0,
+      });
+
+      const { state } = catchUp(
+        createSave(GAME_DAY_MS / 2, {
+          buildings: [
+            {
+              id: 'lab-1',
+              type: BuildingType.MUTATION_LAB,
+              position: { x: 2, y: 2 },
+              level: 1,
+              state: BuildingState.ACTIVE,
+              constructionStartedAt: null,
+              constructionTimeRemaining: null,
+              data: {},
+            },
+          ],
+          mutationJobs: [job('z1'), job('z2')],
+        })
+      );
+
+      expect(state.farm.mutationJobs).toEqual([]);
+      expect(state.farm.activeZombies.map((z) => z.id)).toEqual(['z1', 'z2']);
+    });
+
+    it('should report nothing when no time has passed', () => {
+      const save = createSave(0);
+
+      const { state, event } = catchUp(save);
+
+      expect(state.farm).toBe(save.farm);
+      expect(event.payload).toMatchObject({
+        timeAway: 0,
+        eventsProcessed: 0,
+        summary: { daysPassed: 0, zombiesMatured: 0, nodesReplenished: 0 },
+      });
+      expect(state.time.lastUpdate).toBe(NOW);
+    });
+  });
+});
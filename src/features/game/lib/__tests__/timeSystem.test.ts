@@ -19,6 +19,7 @@ import {
   calculateOfflineTime,
   isDaytime,
   isNighttime,
+  isBloodMoon,
   getDayNightPhase,
   getTimeOfDayString,
   getRealTimeToGameTimeRatio,
@@ -300,6 +301,15 @@ describe('timeSystem', () => {
       });
     });
 
+    describe('isBloodMoon', () => {
+      it('should be a blood moon every seventh night', () => {
+        expect(isBloodMoon(7)).toBe(true);
+        expect(isBloodMoon(14)).toBe(true);
+        expect(isBloodMoon(6)).toBe(false);
+        expect(isBloodMoon(0)).toBe(false);
+      });
+    });
+
     describe('getDayNightPhase', () => {
       it('should return DAWN for hours 6-7', () => {
         expect(getDayNightPhase(6, 0)).toBe(DayNightPhase.DAWN);
@@ -0,0 +1,309 @@
+/**
+ * Game Loop
+ *
+ * Master scheduler for the farm simulation. Frames from Phaser or
+ * requestAnimationFrame are turned into fixed steps (GAME_LOOP config), and
+ * each step runs the farm systems in a defined order:
+ * 1. Time (advanceTime)
+ * 2. Plot growth (updateGrowth, completed plots become READY)
+ * 3. Resource node cooldowns (updateResourceNodes)
+ * 4. Building construction (updateConstruction, finished buildings become ACTIVE)
+ * 5. Building production and healing (updateProduction)
+ * 6. Zombie AI (updateZombieAI)
+ * 7. Farm raids (updateFarmRaids, rolled each new day and fought when due)
+ * 8. Mutation Lab jobs (updateMutationLab, finished zombies rejoin the roster)
+ * 9. Crafting stations (updateCrafting, finished crafts add their output)
+ *
+ * Random rolls draw from the game's seeded sequence (meta.rngState, see
+ * gameRandom.ts), so the same state, steps and timestamps give the same farm.
+ *
+ * Decay and happiness are daily mechanics, so they run once per new game
+ * day (time.dayChanged) instead of every step:
+ * 1. Days since last fed (incrementDaysSinceLastFed)
+ * 2. Stat decay (processAllZombiesDecay)
+ * 3. Happiness (processAllZombiesHappiness)
+ *
+ * Per DOMAIN-FARM.md Time System and Decay and Maintenance.
+ */
+
+import type { GameState } from '../../../types/global';
+import type { GameEvent } from '../../../types/events';
+import type { FarmRaidReport, FarmState, ZombieStats } from '../../../types/farm';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { advanceTime, isDaytime, type TimeEvent } from './timeSystem';
+import { handleFarmGrowth } from '../../farm/events/farmEvents';
+import { updateResourceNodes } from '../../farm/services/resourceNodes';
+import { updateConstruction } from '../../farm/services/construction';
+import { updateProduction } from '../../farm/services/production';
+import { updateZombieAI } from '../../farm/services/zombieAI';
+import { updateFarmRaids } from '../../farm/services/farmRaids';
+import { updateMutationLab, type MutationLabOutcome } from '../../farm/services/mutationLab';
+import { updateCrafting } from '../../farm/services/crafting';
+import { incrementDaysSinceLastFed, processAllZombiesDecay } from '../../farm/services/decay';
+import { processAllZombiesHappiness } from '../../farm/services/happiness';
+import { generateZombieStats } from '../../farm/services/harvesting';
+import { createGameRandom } from './gameRandom';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result type for game loop operations
+ */
+export type Result<T, E = string> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * Time, construction, raid, Mutation Lab and crafting events raised while
+ * stepping the loop
+ */
+export type GameLoopEvent = Extract<
+  GameEvent,
+  {
+    type:
+      | 'time.hourChanged'
+      | 'time.dayChanged'
+      | 'building.constructed'
+      | 'farm.raided'
+      | 'zombie.died'
+      | 'mutationLab.completed'
+      | 'zombie.mutated'
+      | 'crafting.completed';
+  }
+>;
+
+/**
+ * Game state after one fixed step
+ */
+export interface GameTickResult {
+  state: GameState;
+  events: GameLoopEvent[];
+}
+
+/**
+ * Accumulates frame time and runs whole fixed steps
+ */
+export interface FixedTimestep {
+  /** Add a frame's elapsed time; returns the number of steps run */
+  advance(frameDeltaMs: number): number;
+
+  /** Drop any accumulated time (e.g. after a pause) */
+  reset(): void;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Runs one fixed step of the farm simulation
+ *
+ * @param state - Current game state
+ * @param deltaMs - Step duration in milliseconds
+ * @param timestamp - Current timestamp
+ * @returns Updated state and loop events, or error
+ */
+export function runGameTick(
+  state: GameState,
+  deltaMs: number,
+  timestamp: number
+): Result<GameTickResult> {
+  if (deltaMs <= 0) {
+    return { success: true, data: { state, events: [] } };
+  }
+
+  const { newState: time, events: timeEvents } = advanceTime(state.time, deltaMs, timestamp);
+
+  const growth = handleFarmGrowth({ ...state, time }, deltaMs, timestamp);
+  if (!growth.success) {
+    return growth;
+  }
+
+  const { farmState: built, completed } = updateConstruction(
+    updateResourceNodes(growth.data.farm, deltaMs),
+    deltaMs
+  );
+  const { farmState: produced, inventory } = updateProduction(
+    built,
+    growth.data.inventory,
+    deltaMs
+  );
+  const rng = createGameRandom(growth.data.meta);
+  const raid = updateFarmRaids(
+    {
+      ...produced,
+      activeZombies: produced.activeZombies.map((zombie) =>
+        updateZombieAI(zombie, deltaMs, rng.random)
+      ),
+    },
+    inventory,
+    time,
+    timeEvents.some((event) => event.type === 'day_changed'),
+    timestamp,
+    rng.random
+  );
+  const lab = updateMutationLab(raid.farmState, deltaMs, rng.random);
+  const crafting = updateCrafting(lab.farmState, raid.inventory, deltaMs);
+  const farm: FarmState = crafting.farmState;
+
+  return {
+    success: true,
+    data: {
+      state: {
+        ...growth.data,
+        time,
+        farm,
+        inventory: crafting.inventory,
+        meta: rng.save(growth.data.meta),
+      },
+      events: [
+        ...timeEvents.flatMap((event) => toGameLoopEvent(event, timestamp)),
+        ...completed.map(
+          (buildingId): GameLoopEvent => ({
+            type: 'building.constructed',
+            payload: { buildingId, timestamp },
+          })
+        ),
+        ...(raid.report ? toRaidEvents(raid.report, timestamp) : []),
+        ...lab.completed.flatMap((outcome) => toMutationLabEvents(outcome, timestamp)),
+        ...crafting.completed.map(
+          ({ buildingId, recipeId, output }): GameLoopEvent => ({
+            type: 'crafting.completed',
+            payload: { buildingId, recipeId, output, timestamp },
+          })
+        ),
+      ],
+    },
+  };
+}
+
+/**
+ * Runs the day-boundary farm systems
+ *
+ * @param farmState - Current farm state
+ * @param currentGameDay - The game day that just started
+ * @returns Updated farm state
+ */
+export function runDayBoundary(farmState: FarmState, currentGameDay: number): FarmState {
+  const unfed = incrementDaysSinceLastFed(farmState);
+  const { farmState: decayed } = processAllZombiesDecay(
+    unfed,
+    getZombieBaseStats(unfed),
+    currentGameDay
+  );
+
+  return processAllZombiesHappiness(decayed);
+}
+
+/**
+ * Creates a fixed-timestep accumulator for a frame loop
+ *
+ * Frame time accumulates until a whole step is available. At most maxSteps
+ * run per frame; any backlog beyond that is dropped so a long frame (tab
+ * switch, debugger) does not stall the game catching up.
+ *
+ * @param onStep - Called once per fixed step with the step duration
+ * @param stepMs - Step duration (default GAME_LOOP.FIXED_TIMESTEP_MS)
+ * @param maxSteps - Step cap per frame (default GAME_LOOP.MAX_STEPS_PER_FRAME)
+ * @returns Fixed timestep accumulator
+ */
+export function createFixedTimestep(
+  onStep: (stepMs: number) => void,
+  stepMs: number = gameConfig.GAME_LOOP.FIXED_TIMESTEP_MS,
+  maxSteps: number = gameConfig.GAME_LOOP.MAX_STEPS_PER_FRAME
+): FixedTimestep {
+  let accumulator = 0;
+
+  return {
+    advance(frameDeltaMs: number): number {
+      if (frameDeltaMs <= 0) {
+        return 0;
+      }
+
+      accumulator += frameDeltaMs;
+      let steps = 0;
+      while (accumulator >= stepMs && steps < maxSteps) {
+        accumulator -= stepMs;
+        steps++;
+        onStep(stepMs);
+      }
+
+      if (accumulator >= stepMs) {
+        accumulator %= stepMs;
+      }
+
+      return steps;
+    },
+
+    reset(): void {
+      accumulator = 0;
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Convert a time system event into the matching game event
+ */
+function toGameLoopEvent(event: TimeEvent, timestamp: number): GameLoopEvent[] {
+  if (event.type === 'hour_changed' && event.data?.hour !== undefined) {
+    const newHour = event.data.hour;
+    return [
+      {
+        type: 'time.hourChanged',
+        payload: { newHour, isDaytime: isDaytime(newHour, 0), timestamp },
+      },
+    ];
+  }
+
+  if (event.type === 'day_changed' && event.data?.day !== undefined) {
+    return [{ type: 'time.dayChanged', payload: { newDay: event.data.day, timestamp } }];
+  }
+
+  return [];
+}
+
+/**
+ * Raid report and the true deaths of the zombies it killed
+ */
+function toRaidEvents(report: FarmRaidReport, timestamp: number): GameLoopEvent[] {
+  return [
+    { type: 'farm.raided', payload: { report, timestamp } },
+    ...report.killedZombieIds.map(
+      (zombieId): GameLoopEvent => ({
+        type: 'zombie.died',
+        payload: { zombieId, reason: 'raid', timestamp },
+      })
+    ),
+  ];
+}
+
+/**
+ * Finished lab job, and the mutation it gave
+ */
+function toMutationLabEvents(outcome: MutationLabOutcome, timestamp: number): GameLoopEvent[] {
+  const { buildingId, zombieId, mutation } = outcome;
+  const completed: GameLoopEvent = {
+    type: 'mutationLab.completed',
+    payload: { buildingId, zombieId, mutation, timestamp },
+  };
+
+  return mutation
+    ? [completed, { type: 'zombie.mutated', payload: { zombieId, mutation, timestamp } }]
+    : [completed];
+}
+
+/**
+ * Base stats (decay floor reference) for each active zombie
+ */
+function getZombieBaseStats(farmState: FarmState): Map<string, ZombieStats> {
+  return new Map(
+    farmState.activeZombies.map((zombie) => [
+      zombie.id,
+      generateZombieStats(zombie.type, zombie.quality),
+    ])
+  );
+}
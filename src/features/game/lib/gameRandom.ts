@@ -0,0 +1,127 @@
+/**
+ * Game Random
+ *
+ * The game's seeded random source. The seed and the current position in the
+ * sequence live in GameState.meta, so given the same seed and inputs a
+ * harvest, battle or offline catch-up produces identical results.
+ *
+ * - meta.rngSeed is picked when a game is created and never changes
+ * - meta.rngState is where the sequence stands; each operation resumes from
+ *   it and stores the position it stopped at
+ * - Each battle runs on its own seed, forked from the game sequence, and
+ *   stores its own position so a paused fight resumes mid-sequence
+ * - Saves from before seeded runs start their sequence from createdAt
+ *
+ * Services take a `random: () => number` source (default Math.random) and a
+ * timestamp instead of reading Date.now(), so callers decide both.
+ */
+
+import type { SaveMetadata } from '../../../types/global';
+import { SeededRandom } from '../../../lib/utils/math';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Random source resumed from save metadata
+ */
+export interface GameRandom {
+  /** Next number in [0, 1) */
+  readonly random: () => number;
+
+  /** Stores the position after the last number drawn */
+  readonly save: (meta: SaveMetadata) => SaveMetadata;
+}
+
+/**
+ * Seeded random source that reports where its sequence stands
+ */
+export interface SeededRandomSource {
+  /** Next number in [0, 1) */
+  readonly random: () => number;
+
+  /** Position after the last number drawn */
+  readonly getState: () => number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Seeds and sequence positions are 32-bit (SeededRandom modulus) */
+const SEED_RANGE = 2 ** 32;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Picks the seed for a new game
+ *
+ * The only unseeded roll: everything after it follows from the seed.
+ *
+ * @returns Seed in [0, 2^32)
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * SEED_RANGE);
+}
+
+/**
+ * Resumes the game's random sequence
+ *
+ * @param meta - Save metadata holding the sequence position
+ * @returns Random source and a way to store where it stopped
+ */
+export function createGameRandom(meta: SaveMetadata): GameRandom {
+  const seed = meta.rngSeed ?? toSeed(meta.createdAt);
+  const rng = new SeededRandom(meta.rngState ?? seed);
+
+  return {
+    random: () => rng.next(),
+    save: (target) => ({ ...target, rngSeed: seed, rngState: rng.getState() }),
+  };
+}
+
+/**
+ * Creates a random source from a seed
+ *
+ * @param seed - Seed (e.g. a battle's rngSeed)
+ * @returns Random source in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  return resumeSeededRandom(seed).random;
+}
+
+/**
+ * Resumes a seeded sequence where it stopped
+ *
+ * @param seed - Seed (e.g. a battle's rngSeed)
+ * @param state - Position stored from getState (default: the start of the sequence)
+ * @returns Random source and its position
+ */
+export function resumeSeededRandom(seed: number, state?: number): SeededRandomSource {
+  const rng = new SeededRandom(toSeed(state ?? seed));
+  return { random: () => rng.next(), getState: () => rng.getState() };
+}
+
+/**
+ * Draws a seed for an independent sequence (e.g. a battle)
+ *
+ * @param random - Random source to draw from
+ * @returns Seed in [0, 2^32)
+ */
+export function forkSeed(random: () => number): number {
+  return Math.floor(random() * SEED_RANGE);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Wraps any number into the seed range
+ */
+function toSeed(value: number): number {
+  return ((Math.floor(value) % SEED_RANGE) + SEED_RANGE) % SEED_RANGE;
+}
@@ -0,0 +1,174 @@
+/**
+ * Offline Progress
+ *
+ * Catches a loaded save up on the time the player spent away.
+ *
+ * Requirements from DOMAIN-FARM.md:
+ * - Growth, node cooldowns and blood well refills continue offline
+ * - Decay, hunger and happiness apply once per game day passed
+ * - Offline progress is capped at OFFLINE_PROGRESS_MAX_DAYS game days
+ *
+ * The gap is replayed through the game loop (lib/gameLoop.ts) one game day
+ * at a time, running the day-boundary systems at each midnight so every
+ * system advances exactly as it would have while playing.
+ */
+
+import type { GameState, TimeState } from '../../../types/global';
+import type { GameEvent, OfflineSummary } from '../../../types/events';
+import type { FarmState } from '../../../types/farm';
+import { PlotState } from '../../../types/farm';
+import type { Inventory, Resource } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+import { runGameTick, runDayBoundary, type Result } from './gameLoop';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Event reporting the catch-up to the player
+ */
+export type OfflineCalculatedEvent = Extract<GameEvent, { type: 'offline.calculated' }>;
+
+/**
+ * Caught-up game state and its summary event
+ */
+export interface OfflineProgressResult {
+  state: GameState;
+  event: OfflineCalculatedEvent;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Real milliseconds per game minute */
+const MS_PER_GAME_MINUTE = gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION / MINUTES_PER_DAY;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Simulates the time elapsed since the save was last updated
+ *
+ * @param state - Loaded game state
+ * @param now - Current timestamp (milliseconds since epoch)
+ * @returns Caught-up state and offline.calculated event, or error
+ */
+export function calculateOfflineProgress(
+  state: GameState,
+  now: number
+): Result<OfflineProgressResult> {
+  const timeAway = Math.max(0, now - state.time.lastUpdate);
+  const maxOfflineMs =
+    gameConfig.TIME.OFFLINE_PROGRESS_MAX_DAYS * gameConfig.TIME.DAY_NIGHT_CYCLE_DURATION;
+
+  let current = state;
+  let remainingMs = Math.min(timeAway, maxOfflineMs);
+  let eventsProcessed = 0;
+
+  while (remainingMs > 0) {
+    const stepMs = Math.min(remainingMs, getMsUntilNextDay(current.time));
+    const tick = runGameTick(current, stepMs, now);
+    if (!tick.success) {
+      return tick;
+    }
+
+    current = tick.data.state;
+    for (const event of tick.data.events) {
+      if (event.type === 'time.dayChanged') {
+        current = { ...current, farm: runDayBoundary(current.farm, event.payload.newDay) };
+      }
+    }
+
+    eventsProcessed += tick.data.events.length;
+    remainingMs -= stepMs;
+  }
+
+  current = { ...current, time: { ...current.time, lastUpdate: now } };
+
+  return {
+    success: true,
+    data: {
+      state: current,
+      event: {
+        type: 'offline.calculated',
+        payload: {
+          timeAway,
+          eventsProcessed,
+          summary: summarizeOfflineProgress(state, current),
+          timestamp: now,
+        },
+      },
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Real time left until the next game midnight
+ */
+function getMsUntilNextDay(time: TimeState): number {
+  return (MINUTES_PER_DAY - (time.hour * 60 + time.minute)) * MS_PER_GAME_MINUTE;
+}
+
+/**
+ * Compare the state before and after the catch-up
+ */
+function summarizeOfflineProgress(before: GameState, after: GameState): OfflineSummary {
+  return {
+    daysPassed: after.time.day - before.time.day,
+    zombiesMatured: countMaturedPlots(before.farm, after.farm),
+    statsLost: sumStatsLost(before.farm, after.farm),
+    resourcesAccumulated: diffResources(before.inventory, after.inventory),
+    nodesReplenished: after.farm.resourceNodes.filter((node) => {
+      const previous = before.farm.resourceNodes.find((n) => n.id === node.id);
+      return previous !== undefined && node.remaining > previous.remaining;
+    }).length,
+  };
+}
+
+function countMaturedPlots(before: FarmState, after: FarmState): number {
+  const wasReady = new Set(
+    before.plots.filter((plot) => plot.state === PlotState.READY).map((plot) => plot.id)
+  );
+  return after.plots.filter((plot) => plot.state === PlotState.READY && !wasReady.has(plot.id))
+    .length;
+}
+
+function sumStatsLost(before: FarmState, after: FarmState): OfflineSummary['statsLost'] {
+  const lost = { maxHp: 0, attack: 0, defense: 0 };
+
+  for (const zombie of before.activeZombies) {
+    const decayed = after.activeZombies.find((z) => z.id === zombie.id);
+    if (!decayed) continue;
+
+    lost.maxHp += Math.max(0, zombie.stats.maxHp - decayed.stats.maxHp);
+    lost.attack += Math.max(0, zombie.stats.attack - decayed.stats.attack);
+    lost.defense += Math.max(0, zombie.stats.defense - decayed.stats.defense);
+  }
+
+  return lost;
+}
+
+function diffResources(
+  before: Inventory,
+  after: Inventory
+): OfflineSummary['resourcesAccumulated'] {
+  const gained: Partial<Record<Resource, number>> = {};
+
+  for (const [resource, amount] of Object.entries(after.resources) as [Resource, number][]) {
+    const delta = amount - (before.resources[resource] ?? 0);
+    if (delta > 0) {
+      gained[resource] = delta;
+    }
+  }
+
+  return gained;
+}
@@ -22,6 +22,7 @@
  */
 
 import { TimeState, Weather, Season } from '../../../types/global';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
 
 /**
  * Day/Night Phase
@@ -103,10 +104,12 @@ const TIME_CONSTANTS = {
  * Creates a new time state with default or custom values.
  *
  * @param overrides - Optional partial time state to override defaults
+ * @param now - Current timestamp (default Date.now())
  * @returns New time state
  */
 export function createTimeState(
-  overrides?: Partial<Omit<TimeState, 'isDaytime' | 'lastUpdate'>>
+  overrides?: Partial<Omit<TimeState, 'isDaytime' | 'lastUpdate'>>,
+  now: number = Date.now()
 ): TimeState {
   const hour = overrides?.hour ?? TIME_CONSTANTS.DAY_START_HOUR;
   const minute = overrides?.minute ?? 0;
@@ -118,7 +121,7 @@ export function createTimeState(
     season: overrides?.season ?? Season.SPRING,
     isDaytime: isDaytime(hour, minute),
     weather: overrides?.weather ?? Weather.CLEAR,
-    lastUpdate: Date.now(),
+    lastUpdate: now,
   };
 }
 
@@ -148,6 +151,19 @@ export function isNighttime(hour: number, minute: number): boolean {
   return !isDaytime(hour, minute);
 }
 
+/**
+ * Is Blood Moon
+ *
+ * Every BLOOD_MOON_INTERVAL_DAYS-th night is a blood moon, which draws
+ * larger raids on the farm.
+ *
+ * @param day - Game day (starts at 1)
+ * @returns True if the day's night is a blood moon
+ */
+export function isBloodMoon(day: number): boolean {
+  return day > 0 && day % gameConfig.TIME.BLOOD_MOON_INTERVAL_DAYS === 0;
+}
+
 /**
  * Get Day/Night Phase
  *
@@ -256,9 +272,14 @@ export function calculateNightProgress(hour: number, minute: number): number {
  *
  * @param currentState - Current time state
  * @param deltaMs - Real-time elapsed in milliseconds
+ * @param now - Current timestamp for the events (default Date.now())
  * @returns Time update result with new state and events
  */
-export function advanceTime(currentState: TimeState, deltaMs: number): TimeUpdateResult {
+export function advanceTime(
+  currentState: TimeState,
+  deltaMs: number,
+  now: number = Date.now()
+): TimeUpdateResult {
   // Handle negative or zero delta
   if (deltaMs <= 0) {
     return {
@@ -277,7 +298,6 @@ export function advanceTime(currentState: TimeState, deltaMs: number): TimeUpdat
 
   // Track events
   const events: TimeEvent[] = [];
-  const now = Date.now();
 
   // Roll over minutes to hours
   while (newMinute >= 60) {
@@ -368,13 +388,14 @@ export function advanceTime(currentState: TimeState, deltaMs: number): TimeUpdat
  *
  * @param currentState - Current time state
  * @param lastPlayed - Timestamp when player last played (milliseconds since epoch)
+ * @param now - Current timestamp (default Date.now())
  * @returns Offline time result with updated state, events, and metrics
  */
 export function calculateOfflineTime(
   currentState: TimeState,
-  lastPlayed: number
+  lastPlayed: number,
+  now: number = Date.now()
 ): OfflineTimeResult {
-  const now = Date.now();
   let elapsedRealTimeMs = now - lastPlayed;
 
   // Handle clock skew (future timestamp)
@@ -399,7 +420,7 @@ export function calculateOfflineTime(
   const elapsedGameTimeMinutes = (elapsedRealTimeMs / 60000) * TIME_CONSTANTS.REAL_TO_GAME_RATIO;
 
   // Advance time
-  const result = advanceTime(currentState, elapsedRealTimeMs);
+  const result = advanceTime(currentState, elapsedRealTimeMs, now);
 
   // Calculate how many full days passed
   const daysPassed = result.newState.day - currentState.day;
@@ -0,0 +1,138 @@
+/**
+ * Raid Scheduling Tests
+ *
+ * Tests for repeat raids on a location:
+ * - Raid cooldowns and cleared story locations
+ * - Diminishing repeat rewards
+ * - Recording victories, defeats and retreats
+ *
+ * Per DOMAIN-COMBAT.md Retreat and Post-Battle State.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Currency, Resource } from '../../../../types/resources';
+import { gameConfig } from '../../../../lib/config/zombieFarmConfig';
+import { createMockLocation } from '../../../combat/test-utils/combatTestHelpers';
+import {
+  getRaidBlockReason,
+  getRaidRewards,
+  getRepeatRewardMultiplier,
+  isLocationCleared,
+  recordRaid,
+} from '../raidScheduling';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1_000 * HOUR;
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+describe('getRaidBlockReason', () => {
+  it('allows raids once the cooldown has passed', () => {
+    expect(getRaidBlockReason(createMockLocation({ nextRaidAvailable: NOW }), NOW)).toBeNull();
+  });
+
+  it('reports the hours left on cooldown', () => {
+    const location = createMockLocation({ nextRaidAvailable: NOW + 2.5 * HOUR });
+
+    expect(getRaidBlockReason(location, NOW)).toBe('Location is on cooldown (3h remaining)');
+  });
+
+  it('blocks cleared story locations for good', () => {
+    const location = createMockLocation({ isStory: true, isConquered: true });
+
+    expect(isLocationCleared(location)).toBe(true);
+    expect(getRaidBlockReason(location, NOW)).toBe('Location has been cleared');
+  });
+});
+
+// ============================================================================
+// REWARDS
+// ============================================================================
+
+describe('getRepeatRewardMultiplier', () => {
+  const { REPEAT_RAID_WINDOW_HOURS, MIN_REPEAT_REWARD_MULTIPLIER } = gameConfig.COMBAT;
+
+  it('only counts victories inside the window', () => {
+    const location = createMockLocation({
+      recentRaids: [NOW - (REPEAT_RAID_WINDOW_HOURS + 1) * HOUR, NOW - HOUR],
+    });
+
+    expect(getRepeatRewardMultiplier(location, NOW)).toBe(0.75);
+  });
+
+  it('never drops below the minimum', () => {
+    const location = createMockLocation({
+      recentRaids: Array.from({ length: 10 }, (_, i) => NOW - i * HOUR),
+    });
+
+    expect(getRepeatRewardMultiplier(location, NOW)).toBe(MIN_REPEAT_REWARD_MULTIPLIER);
+  });
+});
+
+describe('getRaidRewards', () => {
+  it('scales every repeat reward amount down', () => {
+    const location = createMockLocation({
+      isConquered: true,
+      repeatRewards: {
+        currencies: { [Currency.DARK_COINS]: 30 },
+        resources: { [Resource.BONES]: 5 },
+      },
+      recentRaids: [NOW - HOUR, NOW - 2 * HOUR],
+    });
+
+    expect(getRaidRewards(location, NOW)).toEqual({
+      currencies: { [Currency.DARK_COINS]: 15 },
+      resources: { [Resource.BONES]: 2 },
+    });
+  });
+
+  it('grants first-time rewards in full', () => {
+    const location = createMockLocation({ recentRaids: [NOW - HOUR] });
+
+    expect(getRaidRewards(location, NOW)).toEqual(location.firstTimeRewards);
+  });
+});
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+describe('recordRaid', () => {
+  it('conquers the location, starts its cooldown and remembers the raid', () => {
+    const location = createMockLocation({ raidCooldown: 6, recentRaids: [1] });
+
+    const raided = recordRaid(location, 'victory', NOW);
+
+    expect(raided.isConquered).toBe(true);
+    expect(raided.nextRaidAvailable).toBe(NOW + 6 * HOUR);
+    expect(raided.recentRaids).toEqual([NOW]);
+  });
+
+  it('clears story locations instead of starting a cooldown', () => {
+    const raided = recordRaid(createMockLocation({ isStory: true }), 'victory', NOW);
+
+    expect(raided.nextRaidAvailable).toBeNull();
+    expect(isLocationCleared(raided)).toBe(true);
+  });
+
+  it('applies the retreat penalty without shortening a longer cooldown', () => {
+    const penalty = gameConfig.COMBAT.RETREAT_COOLDOWN_HOURS * HOUR;
+    const fresh = createMockLocation();
+    const cooling = createMockLocation({ nextRaidAvailable: NOW + penalty + HOUR });
+
+    expect(recordRaid(fresh, 'retreat', NOW).nextRaidAvailable).toBe(NOW + penalty);
+    expect(recordRaid(cooling, 'retreat', NOW)).toEqual(cooling);
+  });
+
+  it('leaves the location untouched on defeat', () => {
+    const location = createMockLocation();
+
+    expect(recordRaid(location, 'defeat', NOW)).toBe(location);
+  });
+});
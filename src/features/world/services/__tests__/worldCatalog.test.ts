@@ -0,0 +1,107 @@
+/**
+ * World Catalog Tests
+ *
+ * Tests for the static world content:
+ * - Regions and locations reference each other consistently
+ * - Prerequisites point at catalog entries
+ * - Enemy waves and fortifications are well formed
+ * - New games start in the starting region
+ *
+ * Per DOMAIN-COMBAT.md Battle Preparation and Deployment.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ObstacleType } from '../../../../types/combat';
+import { LocationType, RegionBiome } from '../../../../types/world';
+import {
+  LOCATION_CATALOG,
+  REGION_CATALOG,
+  STARTING_REGION_ID,
+  createInitialWorldState,
+  getLocationDefinition,
+  getRegionDefinition,
+} from '../worldCatalog';
+
+// ============================================================================
+// CONSISTENCY
+// ============================================================================
+
+describe('world catalog', () => {
+  const locationIds = LOCATION_CATALOG.map((l) => l.id);
+  const regionIds = REGION_CATALOG.map((r) => r.id);
+
+  it('uses unique IDs', () => {
+    expect(new Set(locationIds).size).toBe(locationIds.length);
+    expect(new Set(regionIds).size).toBe(regionIds.length);
+  });
+
+  it('lists every location in exactly its own region', () => {
+    for (const region of REGION_CATALOG) {
+      expect(region.locationIds).toEqual(
+        LOCATION_CATALOG.filter((l) => l.regionId === region.id).map((l) => l.id)
+      );
+    }
+  });
+
+  it('only requires locations and regions that exist', () => {
+    for (const location of LOCATION_CATALOG) {
+      for (const id of location.prerequisites.conqueredLocations ?? []) {
+        expect(locationIds).toContain(id);
+      }
+    }
+    for (const region of REGION_CATALOG) {
+      for (const id of region.prerequisites.conqueredLocations ?? []) {
+        expect(locationIds).toContain(id);
+      }
+      for (const id of region.prerequisites.conqueredRegions ?? []) {
+        expect(regionIds).toContain(id);
+      }
+    }
+  });
+
+  it('has enemies in every wave and known fortifications', () => {
+    const obstacleTypes: string[] = Object.values(ObstacleType);
+
+    for (const location of LOCATION_CATALOG) {
+      for (let wave = 1; wave <= location.waves; wave++) {
+        expect(location.enemies.some((e) => e.wave === wave)).toBe(true);
+      }
+      expect(location.enemies.every((e) => e.wave <= location.waves)).toBe(true);
+      expect(location.fortifications.every((f) => obstacleTypes.includes(f))).toBe(true);
+    }
+  });
+
+  it('spans every biome from a village to the capital', () => {
+    expect(new Set(REGION_CATALOG.map((r) => r.biome))).toEqual(
+      new Set(Object.values(RegionBiome))
+    );
+    expect(LOCATION_CATALOG.map((l) => l.type)).toEqual(
+      expect.arrayContaining([LocationType.VILLAGE, LocationType.CAPITAL])
+    );
+  });
+
+  it('looks up entries by ID', () => {
+    expect(getRegionDefinition(STARTING_REGION_ID)?.biome).toBe(RegionBiome.GRASSLAND);
+    expect(getLocationDefinition('ashford_village')?.type).toBe(LocationType.VILLAGE);
+    expect(getLocationDefinition('atlantis')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// INITIAL WORLD
+// ============================================================================
+
+describe('createInitialWorldState', () => {
+  it('starts with only the first location of the starting region unlocked', () => {
+    const world = createInitialWorldState();
+
+    expect(world.locations).toHaveLength(LOCATION_CATALOG.length);
+    expect(world.unlockedRegions).toEqual([STARTING_REGION_ID]);
+    expect(world.currentRegion).toBe(STARTING_REGION_ID);
+    expect(world.unlockedLocations).toEqual(['millbrook_farm']);
+    expect(world.locations.filter((l) => l.isUnlocked).map((l) => l.id)).toEqual([
+      'millbrook_farm',
+    ]);
+    expect(world.conqueredLocations).toEqual([]);
+  });
+});
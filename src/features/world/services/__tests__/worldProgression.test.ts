@@ -0,0 +1,216 @@
+/**
+ * World Progression Tests
+ *
+ * Tests for prerequisite evaluation and world unlocks:
+ * - Location, squad and region prerequisites
+ * - World map node visual states and connections
+ * - Unlock events after a conquest
+ *
+ * Per DOMAIN-COMBAT.md Battle Preparation and Deployment.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Location, WorldState } from '../../../../types/world';
+import { NodeVisualState } from '../../../../types/world';
+import { createInitialWorldState } from '../worldCatalog';
+import {
+  buildWorldMap,
+  getNodeVisualState,
+  isRegionConquered,
+  meetsLocationPrerequisites,
+  meetsRegionPrerequisites,
+  unlockWorldProgress,
+  type WorldProgress,
+} from '../worldProgression';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const NOW = 1_000_000;
+
+function createProgress(overrides: Partial<WorldProgress> = {}): WorldProgress {
+  return {
+    playerLevel: 1,
+    unlockedTech: [],
+    completedQuests: [],
+    zombieCount: 3,
+    zombieLevel: 1,
+    ...overrides,
+  };
+}
+
+/** Initial world with the given locations conquered */
+function conquer(...locationIds: string[]): WorldState {
+  const world = createInitialWorldState();
+  return {
+    ...world,
+    locations: world.locations.map((l) =>
+      locationIds.includes(l.id) ? { ...l, isConquered: true } : l
+    ),
+    conqueredLocations: locationIds,
+  };
+}
+
+function findLocation(world: WorldState, id: string): Location {
+  const location = world.locations.find((l) => l.id === id);
+  if (!location) throw new Error(`Unknown location ${id}`);
+  return location;
+}
+
+// ============================================================================
+// PREREQUISITES
+// ============================================================================
+
+describe('meetsLocationPrerequisites', () => {
+  const world = conquer('millbrook_farm');
+
+  it('checks player level, conquests, tech and quests', () => {
+    const prerequisites = {
+      playerLevel: 5,
+      conqueredLocations: ['millbrook_farm'],
+      unlockedTech: ['volatile_alchemy'],
+      completedQuests: ['siege_of_aurelia'],
+    };
+    const ready = createProgress({
+      playerLevel: 5,
+      unlockedTech: ['volatile_alchemy'],
+      completedQuests: ['siege_of_aurelia'],
+    });
+
+    expect(meetsLocationPrerequisites(prerequisites, world, ready)).toBe(true);
+    expect(meetsLocationPrerequisites(prerequisites, world, { ...ready, playerLevel: 4 })).toBe(
+      false
+    );
+    expect(meetsLocationPrerequisites(prerequisites, world, { ...ready, unlockedTech: [] })).toBe(
+      false
+    );
+    expect(
+      meetsLocationPrerequisites(prerequisites, world, { ...ready, completedQuests: [] })
+    ).toBe(false);
+    expect(meetsLocationPrerequisites(prerequisites, createInitialWorldState(), ready)).toBe(false);
+  });
+});
+
+describe('meetsRegionPrerequisites', () => {
+  it('requires every location of a required region to be conquered', () => {
+    const prerequisites = { conqueredRegions: ['darkwood'] };
+    const progress = createProgress({ playerLevel: 10 });
+
+    expect(meetsRegionPrerequisites(prerequisites, conquer('woodcutter_camp'), progress)).toBe(
+      false
+    );
+    expect(
+      meetsRegionPrerequisites(
+        prerequisites,
+        conquer('woodcutter_camp', 'thornwatch_outpost'),
+        progress
+      )
+    ).toBe(true);
+    expect(isRegionConquered(conquer(), 'atlantis')).toBe(false);
+  });
+});
+
+// ============================================================================
+// WORLD MAP
+// ============================================================================
+
+describe('getNodeVisualState', () => {
+  it('locks locations whose prerequisites are unmet', () => {
+    const world = createInitialWorldState();
+
+    expect(
+      getNodeVisualState(findLocation(world, 'ashford_village'), world, createProgress(), NOW)
+    ).toBe(NodeVisualState.LOCKED);
+    expect(
+      getNodeVisualState(findLocation(world, 'millbrook_farm'), world, createProgress(), NOW)
+    ).toBe(NodeVisualState.AVAILABLE);
+  });
+
+  it('shows conquered locations and raid cooldowns', () => {
+    const world = conquer('millbrook_farm');
+    const farm = findLocation(world, 'millbrook_farm');
+
+    expect(getNodeVisualState(farm, world, createProgress(), NOW)).toBe(NodeVisualState.CONQUERED);
+    expect(
+      getNodeVisualState({ ...farm, nextRaidAvailable: NOW + 1 }, world, createProgress(), NOW)
+    ).toBe(NodeVisualState.COOLDOWN);
+  });
+
+  it('keeps a location unlocked but not raidable until the squad is ready', () => {
+    const world = conquer('millbrook_farm', 'ashford_village', 'woodcutter_camp', 'bogtown');
+    const crypt = findLocation(world, 'sunken_crypt');
+    const progress = createProgress({ playerLevel: 5 });
+
+    expect(getNodeVisualState(crypt, world, progress, NOW)).toBe(NodeVisualState.UNLOCKED);
+    expect(getNodeVisualState(crypt, world, { ...progress, zombieCount: 5 }, NOW)).toBe(
+      NodeVisualState.AVAILABLE
+    );
+  });
+});
+
+describe('buildWorldMap', () => {
+  it('connects locations along their prerequisite paths', () => {
+    const nodes = buildWorldMap(createInitialWorldState(), createProgress(), NOW);
+    const ashford = nodes.find((n) => n.locationId === 'ashford_village');
+
+    expect(nodes).toHaveLength(createInitialWorldState().locations.length);
+    expect(ashford?.connections).toEqual(['millbrook_farm', 'hollow_chapel', 'woodcutter_camp']);
+    expect(ashford?.visualState).toBe(NodeVisualState.LOCKED);
+  });
+});
+
+// ============================================================================
+// UNLOCKING
+// ============================================================================
+
+describe('unlockWorldProgress', () => {
+  it('unlocks the next location after a conquest', () => {
+    const { world, events } = unlockWorldProgress(conquer('millbrook_farm'), createProgress(), NOW);
+
+    expect(events).toEqual([
+      { type: 'location.unlocked', payload: { locationId: 'ashford_village', timestamp: NOW } },
+    ]);
+    expect(world.unlockedLocations).toContain('ashford_village');
+    expect(findLocation(world, 'ashford_village').isUnlocked).toBe(true);
+  });
+
+  it('unlocks a new region together with its first locations', () => {
+    const { world, events } = unlockWorldProgress(
+      conquer('millbrook_farm', 'ashford_village'),
+      createProgress({ playerLevel: 3 }),
+      NOW
+    );
+
+    expect(events.map((e) => e.type)).toEqual([
+      'world.regionUnlocked',
+      'location.unlocked',
+      'location.unlocked',
+      'location.unlocked',
+    ]);
+    expect(world.unlockedRegions).toContain('darkwood');
+    expect(world.unlockedLocations).toEqual(
+      expect.arrayContaining(['ashford_village', 'hollow_chapel', 'woodcutter_camp'])
+    );
+  });
+
+  it('waits for the player level a region requires', () => {
+    const { world } = unlockWorldProgress(
+      conquer('millbrook_farm', 'ashford_village'),
+      createProgress({ playerLevel: 2 }),
+      NOW
+    );
+
+    expect(world.unlockedRegions).not.toContain('darkwood');
+    expect(world.unlockedLocations).not.toContain('woodcutter_camp');
+  });
+
+  it('returns the same world when nothing new unlocks', () => {
+    const world = createInitialWorldState();
+
+    const update = unlockWorldProgress(world, createProgress(), NOW);
+
+    expect(update.world).toBe(world);
+    expect(update.events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Raid Scheduling Service
+ *
+ * Decides when a location can be raided again and what a repeat raid is
+ * worth: raid cooldowns, retreat penalties, diminishing repeat rewards and
+ * once-only story locations.
+ *
+ * Per DOMAIN-COMBAT.md Retreat and Post-Battle State.
+ *
+ * Rules:
+ * - A victory starts the location's raidCooldown; a retreat starts
+ *   RETREAT_COOLDOWN_HOURS on that location only; a defeat starts nothing
+ * - Story locations are cleared by their first conquest and can never be
+ *   raided again
+ * - Repeat rewards lose REPEAT_REWARD_DECAY per victory within the last
+ *   REPEAT_RAID_WINDOW_HOURS, down to MIN_REPEAT_REWARD_MULTIPLIER
+ *
+ * All functions are pure.
+ */
+
+import type { Location } from '../../../types/world';
+import type { ResourceReward } from '../../../types/resources';
+import { gameConfig } from '../../../lib/config/zombieFarmConfig';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a raid on a location ended
+ */
+export type RaidOutcome = 'victory' | 'defeat' | 'retreat';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Milliseconds per hour (raid cooldowns are in hours) */
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+/**
+ * Checks whether a story location has been permanently cleared
+ *
+ * @param location - Location
+ * @returns True if the location can never be raided again
+ */
+export function isLocationCleared(location: Location): boolean {
+  return location.isStory === true && location.isConquered;
+}
+
+/**
+ * Checks whether a location is waiting out a raid cooldown
+ *
+ * @param location - Location
+ * @param now - Current time (ms)
+ * @returns True if the location cannot be raided until nextRaidAvailable
+ */
+export function isOnRaidCooldown(location: Location, now: number): boolean {
+  return location.nextRaidAvailable !== null && location.nextRaidAvailable > now;
+}
+
+/**
+ * Explains why a location cannot be raided right now
+ *
+ * @param location - Location
+ * @param now - Current time (ms)
+ * @returns Reason the raid is blocked, or null if the location can be raided
+ */
+export function getRaidBlockReason(location: Location, now: number): string | null {
+  if (isLocationCleared(location)) {
+    return 'Location has been cleared';
+  }
+
+  if (location.nextRaidAvailable !== null && isOnRaidCooldown(location, now)) {
+    const hoursRemaining = Math.ceil((location.nextRaidAvailable - now) / MS_PER_HOUR);
+    return `Location is on cooldown (${hoursRemaining}h remaining)`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// REWARDS
+// ============================================================================
+
+/**
+ * Gets the share of repeat rewards a raid is worth
+ *
+ * @param location - Location
+ * @param now - Raid time (ms)
+ * @returns Multiplier between MIN_REPEAT_REWARD_MULTIPLIER and 1
+ */
+export function getRepeatRewardMultiplier(location: Location, now: number): number {
+  const { REPEAT_REWARD_DECAY, MIN_REPEAT_REWARD_MULTIPLIER } = gameConfig.COMBAT;
+  const raids = getRecentRaids(location, now).length;
+  return Math.max(MIN_REPEAT_REWARD_MULTIPLIER, 1 - raids * REPEAT_REWARD_DECAY);
+}
+
+/**
+ * Gets the rewards for winning a raid
+ *
+ * @param location - Raided location
+ * @param now - Raid time (ms)
+ * @returns First-time rewards, diminished repeat rewards, or nothing for
+ *   cleared story locations
+ */
+export function getRaidRewards(location: Location, now: number): ResourceReward {
+  if (!location.isConquered) {
+    return location.firstTimeRewards;
+  }
+
+  if (isLocationCleared(location)) {
+    return {};
+  }
+
+  return scaleReward(location.repeatRewards, getRepeatRewardMultiplier(location, now));
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Records a finished raid on its location
+ *
+ * @param location - Raided location
+ * @param outcome - How the raid ended
+ * @param timestamp - Raid end time (ms)
+ * @returns Location with updated conquest, cooldown and raid history
+ */
+export function recordRaid(location: Location, outcome: RaidOutcome, timestamp: number): Location {
+  if (outcome === 'retreat') {
+    const penaltyEnds = timestamp + gameConfig.COMBAT.RETREAT_COOLDOWN_HOURS * MS_PER_HOUR;
+    return {
+      ...location,
+      nextRaidAvailable: Math.max(location.nextRaidAvailable ?? 0, penaltyEnds),
+    };
+  }
+
+  if (outcome === 'defeat') {
+    return location;
+  }
+
+  return {
+    ...location,
+    isConquered: true,
+    nextRaidAvailable: location.isStory ? null : timestamp + location.raidCooldown * MS_PER_HOUR,
+    recentRaids: [...getRecentRaids(location, timestamp), timestamp],
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Victories inside the repeat raid window
+ */
+function getRecentRaids(location: Location, now: number): number[] {
+  const windowStart = now - gameConfig.COMBAT.REPEAT_RAID_WINDOW_HOURS * MS_PER_HOUR;
+  return (location.recentRaids ?? []).filter((time) => time > windowStart);
+}
+
+/**
+ * Scales reward amounts down, rounding each amount down (items are kept)
+ */
+function scaleReward(reward: ResourceReward, multiplier: number): ResourceReward {
+  return {
+    ...reward,
+    ...(reward.resources ? { resources: scaleAmounts(reward.resources, multiplier) } : {}),
+    ...(reward.currencies ? { currencies: scaleAmounts(reward.currencies, multiplier) } : {}),
+    ...(reward.seeds ? { seeds: scaleAmounts(reward.seeds, multiplier) } : {}),
+  };
+}
+
+/**
+ * Multiplies every amount in a resource, currency or seed map
+ */
+function scaleAmounts<K extends string>(
+  amounts: Readonly<Partial<Record<K, number>>>,
+  multiplier: number
+): Partial<Record<K, number>> {
+  const scaled: Partial<Record<K, number>> = {};
+  for (const key of Object.keys(amounts) as K[]) {
+    scaled[key] = Math.floor((amounts[key] ?? 0) * multiplier);
+  }
+  return scaled;
+}
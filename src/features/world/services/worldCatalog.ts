@@ -0,0 +1,722 @@
+/**
+ * World Catalog
+ *
+ * Static content for the world map: regions from the starting grassland to
+ * the corrupted crownlands, and the raidable locations in each (villages
+ * through the capital) with their enemy waves, fortifications, rewards and
+ * prerequisites.
+ *
+ * Per DOMAIN-COMBAT.md Battle Preparation and Deployment (location selection).
+ *
+ * Map paths are not stored: two locations are connected when one lists the
+ * other in its conqueredLocations prerequisite.
+ */
+
+import type { LocationId } from '../../../types/global';
+import type { Location, Region, WorldState } from '../../../types/world';
+import { LocationType, RegionBiome } from '../../../types/world';
+import { EnemyType, ObstacleType } from '../../../types/combat';
+import { Currency, Resource, SeedType } from '../../../types/resources';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Catalog entry for a region (unlock state lives in WorldState)
+ */
+export type RegionDefinition = Omit<Region, 'isUnlocked'>;
+
+/**
+ * Catalog entry for a location (unlock, conquest, cooldown and raid history
+ * live in WorldState)
+ */
+export type LocationDefinition = Omit<
+  Location,
+  'isUnlocked' | 'isConquered' | 'nextRaidAvailable' | 'recentRaids'
+>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Region the player starts in */
+export const STARTING_REGION_ID = 'starting_area';
+
+// ============================================================================
+// REGIONS
+// ============================================================================
+
+/**
+ * All regions, in progression order
+ */
+export const REGION_CATALOG: ReadonlyArray<RegionDefinition> = [
+  {
+    id: STARTING_REGION_ID,
+    name: 'Blighted Meadows',
+    description: 'Sleepy farmland at the edge of the kingdom, ripe for the first harvest.',
+    biome: RegionBiome.GRASSLAND,
+    locationIds: ['millbrook_farm', 'ashford_village', 'hollow_chapel'],
+    prerequisites: {},
+    lore: 'The plague began here, in a field nobody remembers planting.',
+  },
+  {
+    id: 'darkwood',
+    name: 'The Darkwood',
+    description: 'Dense forest held by woodcutters and a border outpost.',
+    biome: RegionBiome.FOREST,
+    locationIds: ['woodcutter_camp', 'thornwatch_outpost'],
+    prerequisites: { playerLevel: 3, conqueredLocations: ['ashford_village'] },
+    mechanics: ['Dense trees slow ranged attacks'],
+  },
+  {
+    id: 'greymire',
+    name: 'Greymire',
+    description: 'A fog-bound swamp of stilt towns and forgotten graves.',
+    biome: RegionBiome.SWAMP,
+    locationIds: ['bogtown', 'sunken_crypt'],
+    prerequisites: { playerLevel: 5, conqueredLocations: ['woodcutter_camp'] },
+    mechanics: ['Rival necromancers raise the swamp dead'],
+  },
+  {
+    id: 'ironpeak',
+    name: 'Ironpeak Mountains',
+    description: 'Mines and fortresses guarding the mountain passes.',
+    biome: RegionBiome.MOUNTAINS,
+    locationIds: ['deepdelve_mine', 'stonehelm_fortress'],
+    prerequisites: { playerLevel: 8, conqueredRegions: ['darkwood'] },
+  },
+  {
+    id: 'sunscar',
+    name: 'Sunscar Wastes',
+    description: 'A merciless desert of caravan markets and buried ruins.',
+    biome: RegionBiome.DESERT,
+    locationIds: ['sandglass_market', 'dune_ruins'],
+    prerequisites: { playerLevel: 10, conqueredLocations: ['deepdelve_mine'] },
+    mechanics: ['The sun dries out zombies faster'],
+  },
+  {
+    id: 'frostmarch',
+    name: 'Frostmarch',
+    description: 'Frozen tundra where the kingdom trains its winter legions.',
+    biome: RegionBiome.TUNDRA,
+    locationIds: ['rimeguard_camp', 'alchemist_laboratory'],
+    prerequisites: { playerLevel: 12, conqueredRegions: ['ironpeak'] },
+    mechanics: ['Cold preserves the dead'],
+  },
+  {
+    id: 'crownlands',
+    name: 'The Crownlands',
+    description: 'The heart of the kingdom, already rotting beneath your march.',
+    biome: RegionBiome.CORRUPTION,
+    locationIds: ['highcrest_city', 'saint_aldric_cathedral', 'kings_keep', 'aurelia'],
+    prerequisites: { playerLevel: 15, conqueredRegions: ['sunscar', 'frostmarch'] },
+    lore: 'Every conquest here spreads the blight closer to the throne.',
+  },
+];
+
+// ============================================================================
+// LOCATIONS
+// ============================================================================
+
+/**
+ * All raidable locations, in progression order
+ */
+export const LOCATION_CATALOG: ReadonlyArray<LocationDefinition> = [
+  // Blighted Meadows
+  {
+    id: 'millbrook_farm',
+    name: 'Millbrook Farm',
+    description: 'A lone farmstead guarded by pitchfork-wielding peasants.',
+    type: LocationType.FARM,
+    regionId: STARTING_REGION_ID,
+    difficulty: 1,
+    recommendedLevel: 1,
+    mapPosition: { x: 120, y: 520 },
+    enemies: [{ type: EnemyType.PEASANT, count: 4, wave: 1 }],
+    fortifications: [],
+    waves: 1,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 50 },
+      resources: { [Resource.ROTTEN_MEAT]: 5, [Resource.ROTTEN_WOOD]: 10 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 15 },
+      resources: { [Resource.ROTTEN_MEAT]: 2 },
+    },
+    unlocks: [],
+    raidCooldown: 4,
+    prerequisites: {},
+    lore: 'The first to fall. Their scarecrow still watches the empty fields.',
+  },
+  {
+    id: 'ashford_village',
+    name: 'Ashford Village',
+    description: 'A small village with a militia and a hastily built barricade.',
+    type: LocationType.VILLAGE,
+    regionId: STARTING_REGION_ID,
+    difficulty: 1,
+    recommendedLevel: 2,
+    mapPosition: { x: 220, y: 460 },
+    enemies: [
+      { type: EnemyType.PEASANT, count: 4, wave: 1 },
+      { type: EnemyType.MILITIA, count: 1, wave: 1 },
+      { type: EnemyType.MILITIA, count: 2, wave: 2 },
+      { type: EnemyType.ARCHER, count: 1, wave: 2 },
+    ],
+    fortifications: [ObstacleType.BARRICADE],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 80 },
+      resources: { [Resource.BONES]: 10, [Resource.CLOTH]: 5 },
+      seeds: { [SeedType.SHAMBLER_SEED]: 2 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 20 },
+      resources: { [Resource.BONES]: 3 },
+    },
+    unlocks: [],
+    raidCooldown: 6,
+    prerequisites: { conqueredLocations: ['millbrook_farm'] },
+  },
+  {
+    id: 'hollow_chapel',
+    name: 'Hollow Chapel',
+    description: 'A roadside chapel whose priest still remembers the old rites.',
+    type: LocationType.CHAPEL,
+    regionId: STARTING_REGION_ID,
+    difficulty: 2,
+    recommendedLevel: 3,
+    mapPosition: { x: 200, y: 600 },
+    enemies: [
+      { type: EnemyType.PEASANT, count: 2, wave: 1 },
+      { type: EnemyType.PRIEST, count: 1, wave: 1 },
+      { type: EnemyType.MILITIA, count: 2, wave: 2 },
+      { type: EnemyType.PRIEST, count: 1, wave: 2 },
+    ],
+    fortifications: [],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 100 },
+      resources: { [Resource.HOLY_WATER]: 2, [Resource.SOUL_FRAGMENTS]: 3 },
+      seeds: { [SeedType.GHOUL_SEED]: 1 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 25 },
+      resources: { [Resource.SOUL_FRAGMENTS]: 1 },
+    },
+    unlocks: ['seed:ghoulSeed'],
+    raidCooldown: 8,
+    prerequisites: { conqueredLocations: ['ashford_village'] },
+  },
+
+  // The Darkwood
+  {
+    id: 'woodcutter_camp',
+    name: 'Woodcutter Camp',
+    description: 'Lumberjacks and hired archers working the forest edge.',
+    type: LocationType.LUMBER_MILL,
+    regionId: 'darkwood',
+    difficulty: 3,
+    recommendedLevel: 4,
+    mapPosition: { x: 340, y: 400 },
+    enemies: [
+      { type: EnemyType.MILITIA, count: 3, wave: 1 },
+      { type: EnemyType.ARCHER, count: 2, wave: 1 },
+      { type: EnemyType.SOLDIER, count: 2, wave: 2 },
+      { type: EnemyType.ARCHER, count: 2, wave: 2 },
+    ],
+    fortifications: [ObstacleType.BARRICADE],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 150 },
+      resources: { [Resource.ROTTEN_WOOD]: 40, [Resource.IRON_SCRAPS]: 5 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 35 },
+      resources: { [Resource.ROTTEN_WOOD]: 15 },
+    },
+    unlocks: [],
+    raidCooldown: 8,
+    prerequisites: { conqueredLocations: ['ashford_village'] },
+  },
+  {
+    id: 'thornwatch_outpost',
+    name: 'Thornwatch Outpost',
+    description: 'A walled border outpost with a watchtower and a stout gate.',
+    type: LocationType.OUTPOST,
+    regionId: 'darkwood',
+    difficulty: 4,
+    recommendedLevel: 5,
+    mapPosition: { x: 420, y: 330 },
+    enemies: [
+      { type: EnemyType.SOLDIER, count: 3, wave: 1 },
+      { type: EnemyType.ARCHER, count: 2, wave: 1 },
+      { type: EnemyType.SOLDIER, count: 2, wave: 2 },
+      { type: EnemyType.CROSSBOWMAN, count: 2, wave: 2 },
+    ],
+    fortifications: [ObstacleType.GATE, ObstacleType.TOWER],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 200 },
+      resources: { [Resource.IRON_SCRAPS]: 15, [Resource.CLOTH]: 10 },
+      seeds: { [SeedType.SPITTER_SEED]: 1 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 45 },
+      resources: { [Resource.IRON_SCRAPS]: 5 },
+    },
+    unlocks: ['seed:spitterSeed'],
+    raidCooldown: 12,
+    prerequisites: { conqueredLocations: ['woodcutter_camp'] },
+  },
+
+  // Greymire
+  {
+    id: 'bogtown',
+    name: 'Bogtown',
+    description: 'A town on stilts, defended by barricades and a palisade.',
+    type: LocationType.TOWN,
+    regionId: 'greymire',
+    difficulty: 4,
+    recommendedLevel: 6,
+    mapPosition: { x: 360, y: 560 },
+    enemies: [
+      { type: EnemyType.MILITIA, count: 4, wave: 1 },
+      { type: EnemyType.ARCHER, count: 2, wave: 1 },
+      { type: EnemyType.SOLDIER, count: 3, wave: 2 },
+      { type: EnemyType.PRIEST, count: 1, wave: 2 },
+    ],
+    fortifications: [ObstacleType.BARRICADE, ObstacleType.WALL],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 220 },
+      resources: { [Resource.TAR]: 10, [Resource.BLOOD_WATER]: 10 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 50 },
+      resources: { [Resource.TAR]: 3 },
+    },
+    unlocks: [],
+    raidCooldown: 12,
+    prerequisites: { conqueredLocations: ['woodcutter_camp'] },
+  },
+  {
+    id: 'sunken_crypt',
+    name: 'Sunken Crypt',
+    description: 'The lair of a rival necromancer and his apprentices.',
+    type: LocationType.CRYPT,
+    regionId: 'greymire',
+    difficulty: 5,
+    recommendedLevel: 7,
+    mapPosition: { x: 440, y: 620 },
+    enemies: [
+      { type: EnemyType.MAGE, count: 2, wave: 1 },
+      { type: EnemyType.SOLDIER, count: 2, wave: 1 },
+      { type: EnemyType.NECROMANCER, count: 1, wave: 2, isBoss: true, levelModifier: 1.5 },
+      { type: EnemyType.MAGE, count: 2, wave: 2 },
+    ],
+    fortifications: [ObstacleType.GATE],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 250, [Currency.SOUL_ESSENCE]: 5 },
+      resources: { [Resource.GRAVE_DIRT]: 10, [Resource.SOUL_FRAGMENTS]: 10 },
+      seeds: { [SeedType.LICH_SEED]: 1 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 60 },
+      resources: { [Resource.GRAVE_DIRT]: 3 },
+    },
+    unlocks: ['seed:lichSeed'],
+    raidCooldown: 24,
+    prerequisites: { conqueredLocations: ['bogtown'], zombieCount: 5 },
+    isStory: true,
+    lore: 'Two necromancers cannot share one swamp.',
+  },
+
+  // Ironpeak Mountains
+  {
+    id: 'deepdelve_mine',
+    name: 'Deepdelve Mine',
+    description: 'Iron and coal mines worked under armed guard.',
+    type: LocationType.MINE,
+    regionId: 'ironpeak',
+    difficulty: 5,
+    recommendedLevel: 9,
+    mapPosition: { x: 560, y: 280 },
+    enemies: [
+      { type: EnemyType.SOLDIER, count: 4, wave: 1 },
+      { type: EnemyType.CROSSBOWMAN, count: 2, wave: 1 },
+      { type: EnemyType.BRUTE, count: 2, wave: 2 },
+      { type: EnemyType.SOLDIER, count: 2, wave: 2 },
+    ],
+    fortifications: [ObstacleType.BARRICADE],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 300 },
+      resources: { [Resource.IRON_SCRAPS]: 30, [Resource.COAL]: 20 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 70 },
+      resources: { [Resource.IRON_SCRAPS]: 8, [Resource.COAL]: 5 },
+    },
+    unlocks: [],
+    raidCooldown: 12,
+    prerequisites: { conqueredLocations: ['thornwatch_outpost'] },
+  },
+  {
+    id: 'stonehelm_fortress',
+    name: 'Stonehelm Fortress',
+    description: 'A mountain fortress of knights, walls and towers.',
+    type: LocationType.FORTRESS,
+    regionId: 'ironpeak',
+    difficulty: 6,
+    recommendedLevel: 11,
+    mapPosition: { x: 640, y: 220 },
+    enemies: [
+      { type: EnemyType.SOLDIER, count: 4, wave: 1 },
+      { type: EnemyType.CROSSBOWMAN, count: 3, wave: 1 },
+      { type: EnemyType.KNIGHT, count: 3, wave: 2 },
+      { type: EnemyType.ARCHER, count: 3, wave: 2 },
+      { type: EnemyType.KNIGHT, count: 2, wave: 3 },
+      { type: EnemyType.GENERAL, count: 1, wave: 3, isBoss: true },
+    ],
+    fortifications: [ObstacleType.GATE, ObstacleType.WALL, ObstacleType.TOWER],
+    waves: 3,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 450, [Currency.SOUL_ESSENCE]: 10 },
+      resources: { [Resource.IRON_SCRAPS]: 40, [Resource.BONES]: 30 },
+      seeds: { [SeedType.BONE_KNIGHT_SEED]: 1 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 100 },
+      resources: { [Resource.IRON_SCRAPS]: 10 },
+    },
+    unlocks: ['seed:boneKnightSeed'],
+    raidCooldown: 24,
+    prerequisites: { conqueredLocations: ['deepdelve_mine'], zombieLevel: 8 },
+  },
+
+  // Sunscar Wastes
+  {
+    id: 'sandglass_market',
+    name: 'Sandglass Market',
+    description: 'A caravan market with rich stalls and paid mercenaries.',
+    type: LocationType.MARKET,
+    regionId: 'sunscar',
+    difficulty: 6,
+    recommendedLevel: 12,
+    mapPosition: { x: 760, y: 480 },
+    enemies: [
+      { type: EnemyType.SOLDIER, count: 4, wave: 1 },
+      { type: EnemyType.CROSSBOWMAN, count: 3, wave: 1 },
+      { type: EnemyType.BRUTE, count: 2, wave: 2 },
+      { type: EnemyType.MAGE, count: 2, wave: 2 },
+    ],
+    fortifications: [ObstacleType.BARRICADE, ObstacleType.FIRE_TRAP],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 600 },
+      resources: { [Resource.CLOTH]: 30, [Resource.BRAINS]: 5 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 150 },
+      resources: { [Resource.CLOTH]: 8 },
+    },
+    unlocks: [],
+    raidCooldown: 12,
+    prerequisites: { conqueredLocations: ['deepdelve_mine'] },
+  },
+  {
+    id: 'dune_ruins',
+    name: 'Dune Ruins',
+    description: 'Half-buried ruins where battle mages study forbidden flesh-craft.',
+    type: LocationType.RUINS,
+    regionId: 'sunscar',
+    difficulty: 7,
+    recommendedLevel: 13,
+    mapPosition: { x: 840, y: 540 },
+    enemies: [
+      { type: EnemyType.MAGE, count: 3, wave: 1 },
+      { type: EnemyType.SOLDIER, count: 3, wave: 1 },
+      { type: EnemyType.MAGE, count: 3, wave: 2 },
+      { type: EnemyType.BRUTE, count: 3, wave: 2 },
+    ],
+    fortifications: [ObstacleType.SPIKE_PIT, ObstacleType.WALL],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 500, [Currency.SOUL_ESSENCE]: 15 },
+      resources: { [Resource.DARK_ESSENCE]: 5, [Resource.SOUL_FRAGMENTS]: 20 },
+      seeds: { [SeedType.ABOMINATION_SEED]: 1 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 120 },
+      resources: { [Resource.SOUL_FRAGMENTS]: 5 },
+    },
+    unlocks: ['seed:abominationSeed'],
+    raidCooldown: 24,
+    prerequisites: { conqueredLocations: ['sandglass_market'] },
+  },
+
+  // Frostmarch
+  {
+    id: 'rimeguard_camp',
+    name: 'Rimeguard Camp',
+    description: 'A winter war camp drilling knights and crossbowmen.',
+    type: LocationType.CAMP,
+    regionId: 'frostmarch',
+    difficulty: 7,
+    recommendedLevel: 14,
+    mapPosition: { x: 760, y: 140 },
+    enemies: [
+      { type: EnemyType.KNIGHT, count: 3, wave: 1 },
+      { type: EnemyType.CROSSBOWMAN, count: 3, wave: 1 },
+      { type: EnemyType.KNIGHT, count: 3, wave: 2 },
+      { type: EnemyType.PRIEST, count: 2, wave: 2 },
+    ],
+    fortifications: [ObstacleType.BARRICADE, ObstacleType.TOWER],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 650 },
+      resources: { [Resource.IRON_SCRAPS]: 40, [Resource.EMBALMING_FLUID]: 5 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 160 },
+      resources: { [Resource.IRON_SCRAPS]: 10 },
+    },
+    unlocks: [],
+    raidCooldown: 12,
+    prerequisites: { conqueredLocations: ['stonehelm_fortress'] },
+  },
+  {
+    id: 'alchemist_laboratory',
+    name: 'Alchemist Laboratory',
+    description: 'A frozen laboratory full of volatile concoctions.',
+    type: LocationType.LABORATORY,
+    regionId: 'frostmarch',
+    difficulty: 8,
+    recommendedLevel: 15,
+    mapPosition: { x: 860, y: 100 },
+    enemies: [
+      { type: EnemyType.MAGE, count: 4, wave: 1 },
+      { type: EnemyType.KNIGHT, count: 2, wave: 1 },
+      { type: EnemyType.MAGE, count: 3, wave: 2 },
+      { type: EnemyType.PALADIN, count: 1, wave: 2 },
+    ],
+    fortifications: [ObstacleType.WALL, ObstacleType.FIRE_TRAP],
+    waves: 2,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 700, [Currency.SOUL_ESSENCE]: 20 },
+      resources: { [Resource.EMBALMING_FLUID]: 15, [Resource.DARK_ESSENCE]: 10 },
+      seeds: { [SeedType.EXPLOSIVE_ZOMBIE_SEED]: 2 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 170 },
+      resources: { [Resource.EMBALMING_FLUID]: 4 },
+    },
+    unlocks: ['seed:explosiveZombieSeed'],
+    raidCooldown: 24,
+    prerequisites: { conqueredLocations: ['rimeguard_camp'], unlockedTech: ['volatile_alchemy'] },
+  },
+
+  // The Crownlands
+  {
+    id: 'highcrest_city',
+    name: 'Highcrest City',
+    description: 'A great walled city, the gateway to the capital.',
+    type: LocationType.CITY,
+    regionId: 'crownlands',
+    difficulty: 8,
+    recommendedLevel: 16,
+    mapPosition: { x: 1000, y: 320 },
+    enemies: [
+      { type: EnemyType.SOLDIER, count: 6, wave: 1 },
+      { type: EnemyType.CROSSBOWMAN, count: 4, wave: 1 },
+      { type: EnemyType.KNIGHT, count: 4, wave: 2 },
+      { type: EnemyType.MAGE, count: 2, wave: 2 },
+      { type: EnemyType.KNIGHT, count: 3, wave: 3 },
+      { type: EnemyType.GENERAL, count: 1, wave: 3, isBoss: true },
+    ],
+    fortifications: [ObstacleType.GATE, ObstacleType.WALL, ObstacleType.TOWER],
+    waves: 3,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 900, [Currency.SOUL_ESSENCE]: 25 },
+      resources: { [Resource.IRON_SCRAPS]: 50, [Resource.BRAINS]: 15 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 220 },
+      resources: { [Resource.BRAINS]: 4 },
+    },
+    unlocks: [],
+    raidCooldown: 24,
+    prerequisites: { conqueredLocations: ['dune_ruins', 'rimeguard_camp'] },
+  },
+  {
+    id: 'saint_aldric_cathedral',
+    name: 'Cathedral of Saint Aldric',
+    description: 'The holiest site in the kingdom, guarded by paladins.',
+    type: LocationType.CATHEDRAL,
+    regionId: 'crownlands',
+    difficulty: 9,
+    recommendedLevel: 18,
+    mapPosition: { x: 1080, y: 420 },
+    enemies: [
+      { type: EnemyType.PRIEST, count: 4, wave: 1 },
+      { type: EnemyType.KNIGHT, count: 3, wave: 1 },
+      { type: EnemyType.PALADIN, count: 3, wave: 2 },
+      { type: EnemyType.PRIEST, count: 3, wave: 2 },
+      { type: EnemyType.PALADIN, count: 2, wave: 3, levelModifier: 1.5 },
+    ],
+    fortifications: [ObstacleType.GATE, ObstacleType.WALL],
+    waves: 3,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 1000, [Currency.SOUL_ESSENCE]: 30 },
+      resources: { [Resource.HOLY_WATER]: 30, [Resource.SOUL_FRAGMENTS]: 40 },
+      seeds: { [SeedType.PRIEST_ZOMBIE_SEED]: 1 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 250 },
+      resources: { [Resource.HOLY_WATER]: 8 },
+    },
+    unlocks: ['seed:priestZombieSeed'],
+    raidCooldown: 48,
+    prerequisites: { conqueredLocations: ['highcrest_city'] },
+  },
+  {
+    id: 'kings_keep',
+    name: "King's Keep",
+    description: 'The royal castle, defended by the elite of the kingdom.',
+    type: LocationType.CASTLE,
+    regionId: 'crownlands',
+    difficulty: 9,
+    recommendedLevel: 19,
+    mapPosition: { x: 1080, y: 220 },
+    enemies: [
+      { type: EnemyType.KNIGHT, count: 5, wave: 1 },
+      { type: EnemyType.CROSSBOWMAN, count: 4, wave: 1 },
+      { type: EnemyType.PALADIN, count: 3, wave: 2 },
+      { type: EnemyType.MAGE, count: 3, wave: 2 },
+      { type: EnemyType.KNIGHT, count: 4, wave: 3 },
+      { type: EnemyType.GENERAL, count: 1, wave: 3, isBoss: true, levelModifier: 1.5 },
+    ],
+    fortifications: [ObstacleType.GATE, ObstacleType.WALL, ObstacleType.TOWER],
+    waves: 3,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 1200, [Currency.SOUL_ESSENCE]: 35 },
+      resources: { [Resource.IRON_SCRAPS]: 60, [Resource.DARK_ESSENCE]: 15 },
+      seeds: { [SeedType.NECROMANCER_ZOMBIE_SEED]: 1 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 280 },
+      resources: { [Resource.IRON_SCRAPS]: 15 },
+    },
+    unlocks: ['seed:necromancerZombieSeed'],
+    raidCooldown: 48,
+    prerequisites: { conqueredLocations: ['highcrest_city'], zombieLevel: 15 },
+    isStory: true,
+  },
+  {
+    id: 'aurelia',
+    name: 'Aurelia, the Capital',
+    description: 'The seat of the crown. Its fall ends the kingdom.',
+    type: LocationType.CAPITAL,
+    regionId: 'crownlands',
+    difficulty: 10,
+    recommendedLevel: 20,
+    mapPosition: { x: 1180, y: 320 },
+    enemies: [
+      { type: EnemyType.KNIGHT, count: 6, wave: 1 },
+      { type: EnemyType.CROSSBOWMAN, count: 5, wave: 1 },
+      { type: EnemyType.PALADIN, count: 4, wave: 2 },
+      { type: EnemyType.MAGE, count: 4, wave: 2 },
+      { type: EnemyType.PRIEST, count: 3, wave: 3 },
+      { type: EnemyType.GENERAL, count: 2, wave: 3 },
+      { type: EnemyType.BOSS, count: 1, wave: 4, isBoss: true },
+      { type: EnemyType.PALADIN, count: 4, wave: 4 },
+    ],
+    fortifications: [
+      ObstacleType.GATE,
+      ObstacleType.WALL,
+      ObstacleType.TOWER,
+      ObstacleType.FIRE_TRAP,
+    ],
+    waves: 4,
+    firstTimeRewards: {
+      currencies: { [Currency.DARK_COINS]: 3000, [Currency.SOUL_ESSENCE]: 100 },
+      resources: { [Resource.DARK_ESSENCE]: 50, [Resource.SOUL_FRAGMENTS]: 100 },
+    },
+    repeatRewards: {
+      currencies: { [Currency.DARK_COINS]: 500, [Currency.SOUL_ESSENCE]: 10 },
+    },
+    unlocks: [],
+    raidCooldown: 72,
+    prerequisites: {
+      conqueredLocations: ['saint_aldric_cathedral', 'kings_keep'],
+      completedQuests: ['siege_of_aurelia'],
+    },
+    isStory: true,
+    lore: 'When the capital falls, the whole kingdom becomes your farm.',
+  },
+];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Gets a region from the catalog
+ *
+ * @param regionId - Region ID
+ * @returns Region definition, or undefined if unknown
+ */
+export function getRegionDefinition(regionId: string): RegionDefinition | undefined {
+  return REGION_CATALOG.find((region) => region.id === regionId);
+}
+
+/**
+ * Gets a location from the catalog
+ *
+ * @param locationId - Location ID
+ * @returns Location definition, or undefined if unknown
+ */
+export function getLocationDefinition(locationId: LocationId): LocationDefinition | undefined {
+  return LOCATION_CATALOG.find((location) => location.id === locationId);
+}
+
+/**
+ * Creates the world for a new game
+ *
+ * Every catalog location is present; only the starting region and the
+ * locations in it without prerequisites are unlocked.
+ *
+ * @returns Initial world state
+ */
+export function createInitialWorldState(): WorldState {
+  const locations: Location[] = LOCATION_CATALOG.map((definition) => ({
+    ...definition,
+    isUnlocked: definition.regionId === STARTING_REGION_ID && isUnconditional(definition),
+    isConquered: false,
+    nextRaidAvailable: null,
+  }));
+
+  return {
+    locations,
+    unlockedLocations: locations.filter((l) => l.isUnlocked).map((l) => l.id),
+    conqueredLocations: [],
+    currentRegion: STARTING_REGION_ID,
+    unlockedRegions: [STARTING_REGION_ID],
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Checks whether a location has no prerequisites at all
+ */
+function isUnconditional(definition: LocationDefinition): boolean {
+  return Object.values(definition.prerequisites).every(
+    (value) => value === undefined || (Array.isArray(value) && value.length === 0)
+  );
+}
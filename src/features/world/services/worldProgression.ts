@@ -0,0 +1,330 @@
+/**
+ * World Progression Service
+ *
+ * Evaluates location and region prerequisites against the player's progress,
+ * computes the visual state of each world map node, and unlocks new regions
+ * and locations after a conquest.
+ *
+ * Per DOMAIN-COMBAT.md Battle Preparation and Deployment (location selection).
+ *
+ * Rules:
+ * - A region unlocks once its player level, conquered region and conquered
+ *   location prerequisites are met; a region counts as conquered when every
+ *   one of its locations is
+ * - A location unlocks once its region is unlocked and its player level,
+ *   conquered location, tech and quest prerequisites are met
+ * - Squad prerequisites (zombieCount, zombieLevel) do not lock a location;
+ *   they only decide whether an unlocked location can be raided
+ *
+ * All functions are pure and return events for the caller to dispatch.
+ */
+
+import type { GameEvent } from '../../../types/events';
+import type { GameState } from '../../../types/global';
+import type {
+  Location,
+  LocationPrerequisites,
+  RegionPrerequisites,
+  WorldMapNode,
+  WorldState,
+} from '../../../types/world';
+import { NodeVisualState } from '../../../types/world';
+import { REGION_CATALOG, getRegionDefinition } from './worldCatalog';
+import { isOnRaidCooldown } from './raidScheduling';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Player progress that prerequisites are checked against
+ */
+export interface WorldProgress {
+  playerLevel: number;
+  unlockedTech: ReadonlyArray<string>;
+  completedQuests: ReadonlyArray<string>;
+
+  /** Active zombies available for a raid */
+  zombieCount: number;
+
+  /** Highest active zombie level */
+  zombieLevel: number;
+}
+
+/**
+ * Events raised when the world opens up
+ */
+export type WorldEvent = Extract<GameEvent, { type: 'location.unlocked' | 'world.regionUnlocked' }>;
+
+/**
+ * Updated world and the unlock events raised
+ */
+export interface WorldUpdate {
+  world: WorldState;
+  events: WorldEvent[];
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Reads the progress prerequisites are checked against from the game state
+ *
+ * @param state - Player and farm state
+ * @returns Player progress
+ */
+export function getWorldProgress(state: Pick<GameState, 'player' | 'farm'>): WorldProgress {
+  const { player, farm } = state;
+  return {
+    playerLevel: player.level,
+    unlockedTech: player.unlockedTech,
+    completedQuests: player.completedQuests,
+    zombieCount: farm.activeZombies.length,
+    zombieLevel: Math.max(0, ...farm.activeZombies.map((zombie) => zombie.level)),
+  };
+}
+
+// ============================================================================
+// PREREQUISITES
+// ============================================================================
+
+/**
+ * Checks the prerequisites that unlock a location
+ *
+ * @param prerequisites - Location prerequisites
+ * @param world - Current world (conquered locations)
+ * @param progress - Player progress
+ * @returns True if the location may be unlocked
+ */
+export function meetsLocationPrerequisites(
+  prerequisites: LocationPrerequisites,
+  world: WorldState,
+  progress: WorldProgress
+): boolean {
+  return (
+    progress.playerLevel >= (prerequisites.playerLevel ?? 0) &&
+    includesAll(world.conqueredLocations, prerequisites.conqueredLocations) &&
+    includesAll(progress.unlockedTech, prerequisites.unlockedTech) &&
+    includesAll(progress.completedQuests, prerequisites.completedQuests)
+  );
+}
+
+/**
+ * Checks the squad prerequisites for raiding a location
+ *
+ * @param prerequisites - Location prerequisites
+ * @param progress - Player progress
+ * @returns True if the squad is strong enough to raid
+ */
+export function meetsSquadRequirements(
+  prerequisites: LocationPrerequisites,
+  progress: WorldProgress
+): boolean {
+  return (
+    progress.zombieCount >= (prerequisites.zombieCount ?? 0) &&
+    progress.zombieLevel >= (prerequisites.zombieLevel ?? 0)
+  );
+}
+
+/**
+ * Checks the prerequisites that unlock a region
+ *
+ * @param prerequisites - Region prerequisites
+ * @param world - Current world (conquered locations)
+ * @param progress - Player progress
+ * @returns True if the region may be unlocked
+ */
+export function meetsRegionPrerequisites(
+  prerequisites: RegionPrerequisites,
+  world: WorldState,
+  progress: WorldProgress
+): boolean {
+  return (
+    progress.playerLevel >= (prerequisites.playerLevel ?? 0) &&
+    includesAll(world.conqueredLocations, prerequisites.conqueredLocations) &&
+    (prerequisites.conqueredRegions ?? []).every((regionId) => isRegionConquered(world, regionId))
+  );
+}
+
+/**
+ * Checks whether every location of a region has been conquered
+ *
+ * @param world - Current world
+ * @param regionId - Region ID
+ * @returns True if the region is conquered (false for unknown regions)
+ */
+export function isRegionConquered(world: WorldState, regionId: string): boolean {
+  const region = getRegionDefinition(regionId);
+  return region !== undefined && includesAll(world.conqueredLocations, region.locationIds);
+}
+
+// ============================================================================
+// WORLD MAP
+// ============================================================================
+
+/**
+ * Computes how a location appears on the world map
+ *
+ * - LOCKED: region or location prerequisites unmet
+ * - COOLDOWN: raided or retreated from recently, not yet available again
+ * - CONQUERED: conquered and ready to raid for repeat rewards, or a cleared
+ *   story location
+ * - AVAILABLE: unlocked, not conquered, and the squad meets its requirements
+ * - UNLOCKED: unlocked, not conquered, but the squad is not strong enough
+ *
+ * @param location - Location
+ * @param world - Current world
+ * @param progress - Player progress
+ * @param now - Current time (ms)
+ * @returns Visual state
+ */
+export function getNodeVisualState(
+  location: Location,
+  world: WorldState,
+  progress: WorldProgress,
+  now: number
+): NodeVisualState {
+  if (!isLocationAccessible(location, world, progress)) {
+    return NodeVisualState.LOCKED;
+  }
+
+  if (isOnRaidCooldown(location, now)) {
+    return NodeVisualState.COOLDOWN;
+  }
+
+  if (location.isConquered || world.conqueredLocations.includes(location.id)) {
+    return NodeVisualState.CONQUERED;
+  }
+
+  return meetsSquadRequirements(location.prerequisites, progress)
+    ? NodeVisualState.AVAILABLE
+    : NodeVisualState.UNLOCKED;
+}
+
+/**
+ * Builds the world map nodes for every location
+ *
+ * Locations are connected to their conqueredLocations prerequisites and to
+ * the locations that require them.
+ *
+ * @param world - Current world
+ * @param progress - Player progress
+ * @param now - Current time (ms)
+ * @returns One node per location
+ */
+export function buildWorldMap(
+  world: WorldState,
+  progress: WorldProgress,
+  now: number
+): WorldMapNode[] {
+  return world.locations.map((location) => ({
+    locationId: location.id,
+    position: location.mapPosition,
+    connections: world.locations
+      .filter(
+        (other) =>
+          (location.prerequisites.conqueredLocations ?? []).includes(other.id) ||
+          (other.prerequisites.conqueredLocations ?? []).includes(location.id)
+      )
+      .map((other) => other.id),
+    visualState: getNodeVisualState(location, world, progress, now),
+  }));
+}
+
+// ============================================================================
+// UNLOCKING
+// ============================================================================
+
+/**
+ * Unlocks every region and location whose prerequisites are now met
+ *
+ * Run after a location is conquered. Regions are unlocked first so their
+ * locations can unlock in the same pass.
+ *
+ * @param world - World after the conquest
+ * @param progress - Player progress
+ * @param timestamp - Unlock time (ms)
+ * @returns Updated world and world.regionUnlocked / location.unlocked events
+ */
+export function unlockWorldProgress(
+  world: WorldState,
+  progress: WorldProgress,
+  timestamp: number
+): WorldUpdate {
+  const events: WorldEvent[] = [];
+
+  const newRegions = REGION_CATALOG.filter(
+    (region) =>
+      !world.unlockedRegions.includes(region.id) &&
+      meetsRegionPrerequisites(region.prerequisites, world, progress)
+  ).map((region) => region.id);
+  for (const regionId of newRegions) {
+    events.push({ type: 'world.regionUnlocked', payload: { regionId, timestamp } });
+  }
+
+  const withRegions: WorldState = {
+    ...world,
+    unlockedRegions: [...world.unlockedRegions, ...newRegions],
+  };
+
+  const newLocations = withRegions.locations
+    .filter(
+      (location) =>
+        !withRegions.unlockedLocations.includes(location.id) &&
+        isLocationAccessible(location, withRegions, progress)
+    )
+    .map((location) => location.id);
+  for (const locationId of newLocations) {
+    events.push({ type: 'location.unlocked', payload: { locationId, timestamp } });
+  }
+
+  if (events.length === 0) {
+    return { world, events };
+  }
+
+  return {
+    world: {
+      ...withRegions,
+      locations: withRegions.locations.map((location) =>
+        newLocations.includes(location.id) ? { ...location, isUnlocked: true } : location
+      ),
+      unlockedLocations: [...withRegions.unlockedLocations, ...newLocations],
+    },
+    events,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Checks whether a location's region and location prerequisites are met
+ */
+function isLocationAccessible(
+  location: Location,
+  world: WorldState,
+  progress: WorldProgress
+): boolean {
+  if (location.isUnlocked || world.unlockedLocations.includes(location.id)) {
+    return true;
+  }
+
+  const region = getRegionDefinition(location.regionId);
+  const regionUnlocked =
+    world.unlockedRegions.includes(location.regionId) ||
+    (region !== undefined && meetsRegionPrerequisites(region.prerequisites, world, progress));
+
+  return regionUnlocked && meetsLocationPrerequisites(location.prerequisites, world, progress);
+}
+
+/**
+ * Checks that every required ID is present (nothing required passes)
+ */
+function includesAll(
+  available: ReadonlyArray<string>,
+  required: ReadonlyArray<string> | undefined
+): boolean {
+  return (required ?? []).every((id) => available.includes(id));
+}
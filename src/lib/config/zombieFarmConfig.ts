@@ -7,9 +7,15 @@
  * All values derived from DOMAIN-FARM.md and DOMAIN-COMBAT.md specifications.
  */
 
-import { ZombieType, ZombieQuality, BuildingType } from '../../types/farm';
-import { Resource, Currency, SeedType, ResourceNodeType } from '../../types/resources';
-import { DamageType, StatusEffect } from '../../types/combat';
+import {
+  ZombieType,
+  ZombieQuality,
+  BuildingType,
+  MutationCategory,
+  MutationRarity,
+} from '../../types/farm';
+import { Resource, Currency, SeedType, ItemQuality, ResourceNodeType } from '../../types/resources';
+import { AbilityEffectType, AbilityTargetType, DamageType, StatusEffect } from '../../types/combat';
 
 // ============================================================================
 // GAME CONSTANTS
@@ -29,6 +35,19 @@ export const gameConfig = {
     DAY_DURATION: 20 * 60 * 1000, // 20 minutes
     NIGHT_DURATION: 10 * 60 * 1000, // 10 minutes
     OFFLINE_PROGRESS_MAX_DAYS: 7, // Cap offline progress at 7 days
+    BLOOD_MOON_INTERVAL_DAYS: 7, // Every 7th night is a blood moon
+  },
+
+  /**
+   * Game Loop
+   *
+   * The farm simulation runs in fixed steps. One step is one game minute
+   * (30 min real-time = 24 h game-time), the smallest time advance the
+   * time system keeps.
+   */
+  GAME_LOOP: {
+    FIXED_TIMESTEP_MS: 1250, // 1 game minute
+    MAX_STEPS_PER_FRAME: 8, // Drop backlog after long frames (tab switches)
   },
 
   /**
@@ -477,6 +496,76 @@ export const gameConfig = {
     },
   },
 
+  /**
+   * Zombie Combat Abilities
+   *
+   * Signature abilities per zombie type per DOMAIN-COMBAT.md:
+   * - lifeSteal: fraction of damage dealt healed back on each hit
+   * - splash: fraction of damage dealt to other enemies within radius tiles
+   *   of the target
+   * - structureMultiplier: damage multiplier against fortifications
+   * - deathExplosion: damage to every unit within the explosive aoeRadius on
+   *   death (friendlyFire includes other zombies)
+   * - casts: abilities used whenever their cooldown (seconds) is ready;
+   *   charges limits uses per battle
+   *
+   * Spitters rely on their ranged toxic attack (see DAMAGE_MULTIPLIERS).
+   * Types not listed fight with basic attacks only.
+   */
+  ZOMBIE_ABILITIES: {
+    [ZombieType.BRUTE]: {
+      splash: { ratio: 0.5, radius: 1 },
+      structureMultiplier: 2,
+    },
+    [ZombieType.GHOUL]: {
+      lifeSteal: 0.3,
+    },
+    [ZombieType.LICH]: {
+      casts: [
+        {
+          name: 'Debuff Enemies',
+          cooldown: 8,
+          effect: {
+            type: AbilityEffectType.DEBUFF,
+            statusEffect: StatusEffect.WEAKENED,
+            aoeRadius: 2,
+            targetType: AbilityTargetType.AOE,
+          },
+        },
+      ],
+    },
+    [ZombieType.PRIEST_ZOMBIE]: {
+      casts: [
+        {
+          name: 'Heal Undead',
+          cooldown: 6,
+          effect: {
+            type: AbilityEffectType.HEAL,
+            heal: 25,
+            targetType: AbilityTargetType.ALLY,
+          },
+        },
+      ],
+    },
+    [ZombieType.EXPLOSIVE_ZOMBIE]: {
+      deathExplosion: { damage: 60, friendlyFire: true },
+    },
+    [ZombieType.NECROMANCER_ZOMBIE]: {
+      casts: [
+        {
+          name: 'Resurrect Ally',
+          cooldown: 0,
+          charges: 1, // Once per battle
+          effect: {
+            type: AbilityEffectType.RESURRECT,
+            heal: 40,
+            targetType: AbilityTargetType.ALLY,
+          },
+        },
+      ],
+    },
+  },
+
   /**
    * Quality Multipliers
    *
@@ -500,6 +589,8 @@ export const gameConfig = {
     wateringSpeedBoost: 0.5, // 50% faster growth when watered
     fertilizerSpeedBoost: 0.3, // 30% faster growth with fertilizer
     fertilizerQualityBoost: 0.15, // +15% chance for higher quality
+    wateringCost: { [Resource.BLOOD_WATER]: 1 }, // Blood Water per watering
+    fertilizerCost: { [Resource.CORPSE_DUST]: 1 }, // Corpse Dust per fertilizing
     qualityChances: {
       [ZombieQuality.BRONZE]: 0.6, // 60% bronze
       [ZombieQuality.SILVER]: 0.25, // 25% silver
@@ -508,6 +599,311 @@ export const gameConfig = {
     },
   },
 
+  /**
+   * Mutation Catalog
+   *
+   * Per PRD Natural Mutations. Stat modifiers are fractional bonuses on the
+   * zombie's stats (0.3 = +30%); on-hit effects roll per landed hit; auras
+   * buff allied zombies within radius (tiles); decay modifiers scale the daily
+   * decay rate and shift happiness each day; farm modifiers change how the
+   * zombie roams the farm.
+   */
+  MUTATIONS: {
+    razorClaws: {
+      name: 'Razor Claws',
+      rarity: MutationRarity.COMMON,
+      category: MutationCategory.PHYSICAL,
+      description: 'Sharpened claws: +30% attack.',
+      stats: { attack: 0.3 },
+    },
+    thickSkin: {
+      name: 'Thick Skin',
+      rarity: MutationRarity.COMMON,
+      category: MutationCategory.PHYSICAL,
+      description: 'Leathery hide: +25% defense.',
+      stats: { defense: 0.25 },
+    },
+    swift: {
+      name: 'Swift',
+      rarity: MutationRarity.COMMON,
+      category: MutationCategory.PHYSICAL,
+      description: 'Long, twitching legs: +25% speed. Roams widely on the farm.',
+      stats: { speed: 0.25 },
+      farm: { wanderRangeMultiplier: 1.5, activityBonus: 0.2 },
+    },
+    venomous: {
+      name: 'Venomous',
+      rarity: MutationRarity.COMMON,
+      category: MutationCategory.ABILITY,
+      description: 'Toxic saliva: hits have a 25% chance to poison.',
+      onHit: { statusEffect: StatusEffect.POISONED, chance: 0.25 },
+    },
+    resilient: {
+      name: 'Resilient',
+      rarity: MutationRarity.COMMON,
+      category: MutationCategory.PHYSICAL,
+      description: 'Stubborn flesh: decays 50% slower.',
+      decay: { rateMultiplier: 0.5 },
+    },
+    armoredSkin: {
+      name: 'Armored Skin',
+      rarity: MutationRarity.RARE,
+      category: MutationCategory.PHYSICAL,
+      description: 'Thick bone plates: +50% defense, -10% speed.',
+      stats: { defense: 0.5, speed: -0.1 },
+      farm: { wanderRangeMultiplier: 0.5 },
+    },
+    regeneration: {
+      name: 'Regeneration',
+      rarity: MutationRarity.RARE,
+      category: MutationCategory.PHYSICAL,
+      description: 'Regrowing flesh: +20% max HP, decays 25% slower.',
+      stats: { maxHp: 0.2 },
+      decay: { rateMultiplier: 0.75 },
+    },
+    bloodlust: {
+      name: 'Bloodlust',
+      rarity: MutationRarity.RARE,
+      category: MutationCategory.ABILITY,
+      description:
+        'Craves the fight: +15% attack and heals 20% of damage dealt, but grows restless.',
+      stats: { attack: 0.15 },
+      onHit: { lifeSteal: 0.2 },
+      decay: { happinessPerDay: -2 },
+      farm: { activityBonus: 0.3 },
+    },
+    packLeader: {
+      name: 'Pack Leader',
+      rarity: MutationRarity.RARE,
+      category: MutationCategory.ABILITY,
+      description: 'Rallies the horde: nearby zombies gain +10% attack.',
+      aura: { radius: 3, attack: 0.1 },
+      decay: { happinessPerDay: 2 },
+    },
+    extraArms: {
+      name: 'Extra Arms',
+      rarity: MutationRarity.EPIC,
+      category: MutationCategory.PHYSICAL,
+      description: 'A second pair of arms: +60% attack, hits may cause bleeding.',
+      stats: { attack: 0.6 },
+      onHit: { statusEffect: StatusEffect.BLEEDING, chance: 0.3 },
+    },
+    dreadAura: {
+      name: 'Dread Aura',
+      rarity: MutationRarity.EPIC,
+      category: MutationCategory.ABILITY,
+      description: 'Radiates terror: nearby zombies gain +20% defense, hits may cause fear.',
+      aura: { radius: 3, defense: 0.2 },
+      onHit: { statusEffect: StatusEffect.FEAR, chance: 0.15 },
+    },
+  },
+
+  /**
+   * Mutation Slots
+   *
+   * Per PRD Forced Mutations: each zombie holds a limited number of
+   * mutations of each category. Neither harvest rolls nor the Mutation Lab
+   * add a mutation to a full category.
+   */
+  MUTATION_SLOTS: {
+    [MutationCategory.PHYSICAL]: 2,
+    [MutationCategory.ABILITY]: 1,
+  },
+
+  /**
+   * Mutation Odds
+   *
+   * Per PRD Natural Mutations and TODO-FARM Phase 9:
+   * - Base chance per quality when a zombie is harvested
+   * - Catalysts applied to the plot add to the chance
+   * - Fog, night and a blood moon multiply it
+   * - Once mutating, the rarity is rolled by weight (70/25/5)
+   */
+  MUTATION_ODDS: {
+    BASE_CHANCE: {
+      [ZombieQuality.BRONZE]: 0.05,
+      [ZombieQuality.SILVER]: 0.1,
+      [ZombieQuality.GOLD]: 0.2,
+      [ZombieQuality.DIAMOND]: 0.35,
+    },
+    CATALYSTS: {
+      [Resource.SOUL_FRAGMENTS]: { chanceBonus: 0.1, cost: 1 },
+      [Resource.DARK_ESSENCE]: { chanceBonus: 0.25, cost: 1 },
+    },
+    FOG_MULTIPLIER: 1.5,
+    NIGHT_MULTIPLIER: 1.25,
+    BLOOD_MOON_MULTIPLIER: 2,
+    MAX_CHANCE: 0.9,
+    DOUBLE_MUTATION_CHANCE: 0.1, // Chance a mutation brings a second one
+    RARITY_WEIGHTS: {
+      [MutationRarity.COMMON]: 70,
+      [MutationRarity.RARE]: 25,
+      [MutationRarity.EPIC]: 5,
+    },
+  },
+
+  /**
+   * Mutation Lab
+   *
+   * Per PRD Forced Mutations:
+   * - A zombie goes into a lab chamber with a catalyst and waits out the
+   *   catalyst's timer (game hours), then mutates if the success roll hits
+   * - Radioactive Waste drives a physical mutation, Corrupted DNA an ability
+   *   mutation, an Evolution Serum the mutation the player picked, and
+   *   Primal Essence an epic mutation
+   * - Every mutation the zombie already has lowers the success chance
+   */
+  MUTATION_LAB: {
+    CATALYSTS: {
+      [Resource.RADIOACTIVE_WASTE]: {
+        cost: 3,
+        hours: 2,
+        successChance: 0.6,
+        category: MutationCategory.PHYSICAL,
+      },
+      [Resource.CORRUPTED_DNA]: {
+        cost: 2,
+        hours: 4,
+        successChance: 0.5,
+        category: MutationCategory.ABILITY,
+      },
+      [Resource.EVOLUTION_SERUM]: {
+        cost: 1,
+        hours: 8,
+        successChance: 0.7,
+        targeted: true, // Player picks the mutation
+      },
+      [Resource.PRIMAL_ESSENCE]: {
+        cost: 1,
+        hours: 24,
+        successChance: 0.5,
+        rarity: MutationRarity.EPIC,
+      },
+    },
+    SUCCESS_PENALTY_PER_MUTATION: 0.1, // Per mutation the zombie already has
+    MIN_SUCCESS_CHANCE: 0.1,
+  },
+
+  /**
+   * Zombie Fusion
+   *
+   * Per PRD Zombie Fusion:
+   * - Two max-level zombies of the same or neighboring tiers are consumed
+   *   for one hybrid (special zombies count as elite)
+   * - The hybrid gets a share of the parents' combined stats, one mutation
+   *   from each parent, and a chance at a new mutation and a better quality
+   * - Parent pairs in HYBRIDS yield a new type; other pairs keep the type
+   *   of the higher-tier parent
+   * - Fused zombies cannot be fused again
+   */
+  FUSION: {
+    COST: {
+      currencies: {
+        [Currency.SOUL_ESSENCE]: 10,
+      },
+    },
+    STAT_SHARE: 0.7, // Of the parents' combined HP, attack and defense
+    QUALITY_UPGRADE_CHANCE: 0.25, // Chance to rise one quality above the better parent
+    NEW_MUTATION_CHANCE: 0.15,
+    TIER_RANKS: {
+      basic: 1,
+      advanced: 2,
+      elite: 3,
+      special: 3,
+    },
+    MAX_TIER_GAP: 1,
+    HYBRIDS: [
+      { parents: [ZombieType.SHAMBLER, ZombieType.SHAMBLER], result: ZombieType.BRUTE },
+      { parents: [ZombieType.RUNNER, ZombieType.RUNNER], result: ZombieType.GHOUL },
+      { parents: [ZombieType.SHAMBLER, ZombieType.RUNNER], result: ZombieType.GHOUL },
+      { parents: [ZombieType.RUNNER, ZombieType.BRUTE], result: ZombieType.GHOUL },
+      { parents: [ZombieType.RUNNER, ZombieType.SPITTER], result: ZombieType.SPITTER },
+      { parents: [ZombieType.BRUTE, ZombieType.BRUTE], result: ZombieType.ABOMINATION },
+      { parents: [ZombieType.BRUTE, ZombieType.GHOUL], result: ZombieType.BONE_KNIGHT },
+      { parents: [ZombieType.SPITTER, ZombieType.SPITTER], result: ZombieType.LICH },
+      { parents: [ZombieType.SPITTER, ZombieType.GHOUL], result: ZombieType.LICH },
+      { parents: [ZombieType.GHOUL, ZombieType.GHOUL], result: ZombieType.BONE_KNIGHT },
+      { parents: [ZombieType.LICH, ZombieType.BONE_KNIGHT], result: ZombieType.NECROMANCER_ZOMBIE },
+    ],
+  },
+
+  // ============================================================================
+  // EQUIPMENT
+  // ============================================================================
+
+  /**
+   * Item Catalog
+   *
+   * Equippable items keyed by Item.type. Stat bonuses are flat additions to
+   * the zombie's stats, scaled by the item's quality (ITEM_QUALITY_MULTIPLIERS).
+   * decayMultiplier scales the wearer's daily decay (per DOMAIN-FARM.md Other
+   * Decay Reducers, a Preservation Talisman halves it).
+   */
+  ITEMS: {
+    rustyCleaver: {
+      name: 'Rusty Cleaver',
+      description: 'A chipped butcher blade. Still cuts.',
+      slot: 'weapon' as const,
+      stats: { attack: 5 },
+    },
+    boneClub: {
+      name: 'Bone Club',
+      description: 'A femur bound with sinew. Heavy and brutal.',
+      slot: 'weapon' as const,
+      stats: { attack: 10 },
+    },
+    rottenLeather: {
+      name: 'Rotten Leather',
+      description: 'Stiff, stinking hide armor.',
+      slot: 'armor' as const,
+      stats: { defense: 4 },
+    },
+    boneMail: {
+      name: 'Bone Mail',
+      description: 'Ribs and vertebrae lashed into a crude hauberk.',
+      slot: 'armor' as const,
+      stats: { defense: 6, maxHp: 20 },
+    },
+    ironPlate: {
+      name: 'Iron Plate',
+      description: 'Salvaged plate armor, dented but sturdy.',
+      slot: 'armor' as const,
+      stats: { defense: 12 },
+    },
+    bloodCharm: {
+      name: 'Blood Charm',
+      description: 'A vial of congealed blood on a cord.',
+      slot: 'accessory' as const,
+      stats: { maxHp: 25 },
+    },
+    graveBoots: {
+      name: 'Grave Boots',
+      description: 'Boots pulled from a fresh grave. Surprisingly comfortable.',
+      slot: 'accessory' as const,
+      stats: { speed: 0.1 },
+    },
+    preservationTalisman: {
+      name: 'Preservation Talisman',
+      description: 'A sealed charm that slows the rot.',
+      slot: 'accessory' as const,
+      stats: {},
+      decayMultiplier: 0.5,
+    },
+  },
+
+  /**
+   * Item Quality Multipliers
+   *
+   * Scale an item's stat bonuses.
+   */
+  ITEM_QUALITY_MULTIPLIERS: {
+    [ItemQuality.COMMON]: 1.0,
+    [ItemQuality.UNCOMMON]: 1.25,
+    [ItemQuality.RARE]: 1.5,
+    [ItemQuality.EPIC]: 2.0,
+    [ItemQuality.LEGENDARY]: 3.0,
+  },
+
   // ============================================================================
   // RESOURCE DEFINITIONS
   // ============================================================================
@@ -612,6 +1008,30 @@ export const gameConfig = {
       stackSize: 50,
       icon: 'dark_essence.png',
     },
+    [Resource.RADIOACTIVE_WASTE]: {
+      name: 'Radioactive Waste',
+      description: 'Glowing sludge. Mutation Lab catalyst for physical mutations.',
+      stackSize: 100,
+      icon: 'radioactive_waste.png',
+    },
+    [Resource.CORRUPTED_DNA]: {
+      name: 'Corrupted DNA Sample',
+      description: 'Tainted tissue sample. Mutation Lab catalyst for new abilities.',
+      stackSize: 50,
+      icon: 'corrupted_dna.png',
+    },
+    [Resource.EVOLUTION_SERUM]: {
+      name: 'Evolution Serum',
+      description: 'Rare serum. Lets the Mutation Lab target a chosen mutation.',
+      stackSize: 20,
+      icon: 'evolution_serum.png',
+    },
+    [Resource.PRIMAL_ESSENCE]: {
+      name: 'Primal Essence',
+      description: 'End-game catalyst. Mutation Lab attempts yield epic mutations.',
+      stackSize: 10,
+      icon: 'primal_essence.png',
+    },
   },
 
   /**
@@ -673,6 +1093,108 @@ export const gameConfig = {
     },
   },
 
+  // ============================================================================
+  // CRAFTING
+  // ============================================================================
+
+  /**
+   * Crafting Recipes
+   *
+   * Crafted materials and Mutation Lab catalysts, per the PRD's Crafted
+   * Resources & Items. Each recipe is crafted at a station building; cost is
+   * paid when a batch is queued and output is added as each craft finishes.
+   * playerLevel and tech (Player.unlockedTech) unlock the recipe.
+   */
+  RECIPES: {
+    boneMeal: {
+      name: 'Bone Meal',
+      station: BuildingType.BONE_MILL,
+      cost: { resources: { [Resource.BONES]: 5 } },
+      output: { [Resource.BONE_MEAL]: 3 },
+      timeMinutes: 10,
+      playerLevel: 1,
+    },
+    graveDirt: {
+      name: 'Grave Dirt',
+      station: BuildingType.CORPSE_COMPOSTER,
+      cost: { resources: { [Resource.CORPSE_DUST]: 3, [Resource.BONE_MEAL]: 2 } },
+      output: { [Resource.GRAVE_DIRT]: 2 },
+      timeMinutes: 30,
+      playerLevel: 5,
+    },
+    embalmingFluid: {
+      name: 'Embalming Fluid',
+      station: BuildingType.CORPSE_COMPOSTER,
+      cost: { resources: { [Resource.BLOOD_WATER]: 5, [Resource.CORPSE_DUST]: 2 } },
+      output: { [Resource.EMBALMING_FLUID]: 1 },
+      timeMinutes: 45,
+      playerLevel: 8,
+    },
+    darkEssence: {
+      name: 'Dark Essence',
+      station: BuildingType.MUTATION_LAB,
+      cost: { resources: { [Resource.SOUL_FRAGMENTS]: 3, [Resource.EMBALMING_FLUID]: 1 } },
+      output: { [Resource.DARK_ESSENCE]: 1 },
+      timeMinutes: 60,
+      playerLevel: 15,
+      tech: 'dark_alchemy',
+    },
+    radioactiveWaste: {
+      name: 'Radioactive Waste',
+      station: BuildingType.MUTATION_LAB,
+      cost: { resources: { [Resource.COAL]: 5, [Resource.TAR]: 3 } },
+      output: { [Resource.RADIOACTIVE_WASTE]: 2 },
+      timeMinutes: 60,
+      playerLevel: 15,
+    },
+    corruptedDna: {
+      name: 'Corrupted DNA Sample',
+      station: BuildingType.MUTATION_LAB,
+      cost: { resources: { [Resource.ROTTEN_MEAT]: 5, [Resource.DARK_ESSENCE]: 1 } },
+      output: { [Resource.CORRUPTED_DNA]: 1 },
+      timeMinutes: 120,
+      playerLevel: 18,
+      tech: 'dark_alchemy',
+    },
+    evolutionSerum: {
+      name: 'Evolution Serum',
+      station: BuildingType.MUTATION_LAB,
+      cost: {
+        resources: {
+          [Resource.CORRUPTED_DNA]: 2,
+          [Resource.DARK_ESSENCE]: 2,
+          [Resource.BRAINS]: 1,
+        },
+      },
+      output: { [Resource.EVOLUTION_SERUM]: 1 },
+      timeMinutes: 240,
+      playerLevel: 25,
+      tech: 'forbidden_genetics',
+    },
+    primalEssence: {
+      name: 'Primal Essence',
+      station: BuildingType.MUTATION_LAB,
+      cost: {
+        resources: {
+          [Resource.EVOLUTION_SERUM]: 2,
+          [Resource.SOUL_FRAGMENTS]: 10,
+          [Resource.HOLY_WATER]: 2,
+        },
+      },
+      output: { [Resource.PRIMAL_ESSENCE]: 1 },
+      timeMinutes: 480,
+      playerLevel: 35,
+      tech: 'forbidden_genetics',
+    },
+  },
+
+  /**
+   * Crafting Limits
+   */
+  CRAFTING: {
+    MAX_BATCH_SIZE: 10, // Crafts per queued batch
+  },
+
   // ============================================================================
   // BUILDING DEFINITIONS
   // ============================================================================
@@ -764,8 +1286,9 @@ export const gameConfig = {
       maxLevel: 3,
       effect: {
         producesResource: Resource.BLOOD_WATER,
-        productionRate: 1, // 1 unit per 5 minutes
-        capacity: 10,
+        productionRate: 1, // 1 unit per productionIntervalMinutes
+        productionIntervalMinutes: 5,
+        capacity: 10, // Stops producing while Blood Water stock is at capacity
       },
       gridSize: { width: 2, height: 2 },
     },
@@ -791,6 +1314,7 @@ export const gameConfig = {
           output: { [Resource.CORPSE_DUST]: 2 },
           timeMinutes: 30,
         },
+        craftingQueue: 2, // Crafting batches queued at once
       },
       gridSize: { width: 2, height: 2 },
     },
@@ -816,6 +1340,7 @@ export const gameConfig = {
           output: { [Resource.BONE_MEAL]: 3 },
           timeMinutes: 20,
         },
+        craftingQueue: 2, // Crafting batches queued at once
       },
       gridSize: { width: 2, height: 2 },
     },
@@ -904,12 +1429,37 @@ export const gameConfig = {
         healsZombies: true,
         healRatePerHour: 10, // 10% HP per hour
         resourceCost: {
+          // Per hour of healing
           [Resource.CLOTH]: 1,
         },
       },
       gridSize: { width: 2, height: 2 },
     },
 
+    mutationLab: {
+      type: BuildingType.MUTATION_LAB,
+      name: 'Mutation Lab',
+      description: 'Mutates zombies with catalysts. Each level adds a chamber.',
+      cost: {
+        resources: {
+          [Resource.BONES]: 60,
+          [Resource.IRON_SCRAPS]: 40,
+          [Resource.SOUL_FRAGMENTS]: 10,
+        },
+        currencies: {
+          [Currency.DARK_COINS]: 300,
+        },
+      },
+      buildTimeMinutes: 20,
+      maxLevel: 3,
+      effect: {
+        mutationChambers: 1, // Zombies mutating at once
+        queueSize: 2, // Zombies waiting for a chamber
+        craftingQueue: 2, // Crafting batches queued at once
+      },
+      gridSize: { width: 3, height: 3 },
+    },
+
     guardTower: {
       type: BuildingType.GUARD_TOWER,
       name: 'Guard Tower',
@@ -928,6 +1478,7 @@ export const gameConfig = {
       maxLevel: 5,
       effect: {
         defenseBonus: 10,
+        raidDamage: 8, // Damage to one raider per farm raid round
       },
       gridSize: { width: 2, height: 3 },
     },
@@ -1050,6 +1601,46 @@ export const gameConfig = {
     },
   },
 
+  /**
+   * Construction Rules
+   *
+   * Per DOMAIN-FARM.md structures:
+   * - Upgrading to level N costs the base cost * UPGRADE_SCALING(N)
+   *   and takes buildTimeMinutes * UPGRADE_SCALING(N)
+   * - Demolishing refunds part of everything invested in the building
+   */
+  CONSTRUCTION: {
+    UPGRADE_SCALING: (level: number) => Math.pow(1.5, level - 1),
+    DEMOLISH_REFUND_RATE: 0.5, // 50% of base cost + upgrades
+  },
+
+  /**
+   * Farm Raids
+   *
+   * Per PRD Base Defense & Raids and DOMAIN-FARM.md:
+   * - Each new day may schedule a night raid by human raiders
+   * - Fog lowers the chance, a blood moon raises it and brings more raiders
+   * - Defensive buildings and guarding zombies fight the raiders; raiders
+   *   that get through damage a building and carry off a small share of
+   *   the stockpile
+   */
+  FARM_RAIDS: {
+    GRACE_DAYS: 3, // No raids before day 3
+    DAILY_CHANCE: 0.15, // Chance a new day schedules a raid
+    FOG_CHANCE_MULTIPLIER: 0.5,
+    BLOOD_MOON_CHANCE_MULTIPLIER: 3,
+    RAID_HOUR: 22, // Raiders attack at night
+    BASE_RAIDERS: 2,
+    DAYS_PER_EXTRA_RAIDER: 10, // +1 raider every 10 days
+    BLOOD_MOON_RAIDER_MULTIPLIER: 1.5,
+    RAIDER_HP: 40,
+    RAIDER_ATTACK: 8,
+    RAIDER_SIEGE_MULTIPLIER: 5, // Raiders hit walls for 5x attack
+    RAIDER_CARRY_CAPACITY: 5, // Resource units each escaping raider takes
+    MAX_STOLEN_FRACTION: 0.1, // At most 10% of each resource per raid
+    MAX_ROUNDS: 10, // Raiders still fighting after this give up
+  },
+
   // ============================================================================
   // COMBAT BALANCE
   // ============================================================================
@@ -1161,6 +1752,19 @@ export const gameConfig = {
       },
     },
 
+    /**
+     * Raid Scheduling
+     */
+    RETREAT_COOLDOWN_HOURS: 2, // Location cooldown after retreating
+    REPEAT_RAID_WINDOW_HOURS: 72, // Victories this recent diminish repeat rewards
+    REPEAT_REWARD_DECAY: 0.25, // -25% repeat rewards per recent victory
+    MIN_REPEAT_REWARD_MULTIPLIER: 0.25,
+
+    /**
+     * Battle Replays
+     */
+    REPLAY_HISTORY_SIZE: 5, // Recent replays kept per location
+
     /**
      * XP Rewards
      */
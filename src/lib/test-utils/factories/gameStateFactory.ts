@@ -140,6 +140,12 @@ export function createTestGameState(overrides?: Partial<GameState>): GameState {
     },
 
     // Meta
+    meta: {
+      version: '1.0.0',
+      createdAt: Date.now() - 1000 * 60 * 60 * 24 * 7, // Created 7 days ago
+      lastSavedAt: Date.now(),
+      totalPlayTime: 1000 * 60 * 60, // 1 hour total play time
+    },
     save: createDefaultSaveMetadata(),
     season: Season.AUTUMN,
     weather: Weather.CLEAR,
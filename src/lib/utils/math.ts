@@ -270,6 +270,16 @@ export class SeededRandom {
     return this.next() < 0.5;
   }
 
+  /**
+   * Gets the generator's current position in its sequence.
+   * A generator constructed with this value continues the same sequence.
+   *
+   * @returns The current internal state
+   */
+  getState(): number {
+    return this.seed;
+  }
+
   /**
    * Resets the generator to its initial seed.
    * Allows reproducing the same sequence from the beginning.
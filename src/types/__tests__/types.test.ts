@@ -120,6 +120,10 @@ describe('Type Definitions', () => {
           [Resource.BONE_MEAL]: 0,
           [Resource.EMBALMING_FLUID]: 0,
           [Resource.DARK_ESSENCE]: 0,
+          [Resource.RADIOACTIVE_WASTE]: 0,
+          [Resource.CORRUPTED_DNA]: 0,
+          [Resource.EVOLUTION_SERUM]: 0,
+          [Resource.PRIMAL_ESSENCE]: 0,
         },
         currencies: {
           [Currency.DARK_COINS]: 500,
@@ -8,6 +8,7 @@
 import type { ZombieId, EnemyId, BattleId, LocationId, Position } from './global';
 import type { Zombie } from './farm';
 import type { ResourceReward } from './resources';
+import type { Location } from './world';
 
 /**
  * Combat State
@@ -56,6 +57,15 @@ export interface CombatState {
 
   /** Retreat countdown (seconds) */
   readonly retreatCountdown: number;
+
+  /** Seed of the battle's random source (same seed and inputs, same fight) */
+  readonly rngSeed?: number;
+
+  /** Position of the battle's random sequence after the last tick (resumes a paused fight) */
+  readonly rngState?: number;
+
+  /** Recording of the fight so far (seeded battles; kept across a pause) */
+  readonly replay?: BattleReplay;
 }
 
 /**
@@ -106,6 +116,12 @@ export interface CombatUnit {
   /** Time of last attack */
   readonly lastAttackAt: number;
 
+  /** Castable signature abilities (see ZOMBIE_ABILITIES config) */
+  readonly abilities?: ReadonlyArray<EnemyAbility>;
+
+  /** Mutation IDs carried into battle (on-hit effects and auras) */
+  readonly mutations?: ReadonlyArray<string>;
+
   /** Is this unit dead? */
   readonly isDead: boolean;
 }
@@ -279,6 +295,9 @@ export interface EnemyAbility {
   /** Time of last use */
   readonly lastUsedAt: number | null;
 
+  /** Uses left this battle (unlimited if omitted) */
+  readonly charges?: number;
+
   /** Ability effect */
   readonly effect: AbilityEffect;
 }
@@ -305,10 +324,26 @@ export interface AbilityEffect {
   /** Area of effect radius (if applicable) */
   readonly aoeRadius?: number;
 
+  /** Units to summon (if applicable) */
+  readonly summon?: AbilitySummon;
+
   /** Target type */
   readonly targetType: AbilityTargetType;
 }
 
+/**
+ * Ability Summon
+ *
+ * Units brought onto the battlefield by a summon ability.
+ */
+export interface AbilitySummon {
+  /** Enemy type to summon */
+  readonly enemyType: EnemyType;
+
+  /** Number of units per cast */
+  readonly count: number;
+}
+
 /**
  * Ability Effect Type
  */
@@ -547,6 +582,111 @@ export enum BattleLogEventType {
   BATTLE_END = 'battleEnd',
 }
 
+// ============================================================================
+// BATTLE REPLAYS
+// ============================================================================
+
+/**
+ * Battle Replay
+ *
+ * A recorded fight: the state it started from, its random seed and the inputs
+ * it received. Replaying the inputs from the initial state with the same seed
+ * rebuilds the battle at any point.
+ */
+export interface BattleReplay {
+  /** Replay format version */
+  readonly version: number;
+
+  /** Recorded battle ID */
+  readonly battleId: BattleId;
+
+  /** Raided location ID */
+  readonly locationId: LocationId;
+
+  /** Location as it was when raided (spawns the later waves) */
+  readonly location?: Location;
+
+  /** Seed of the battle's random source at the start of the fight */
+  readonly rngSeed: number;
+
+  /** Battle state when the fight started (ACTIVE phase) */
+  readonly initialState: CombatState;
+
+  /** Inputs in the order they were received */
+  readonly events: ReadonlyArray<ReplayEvent>;
+
+  /** Recorded fight length in milliseconds */
+  readonly duration: number;
+
+  /** Phase the battle ended in (absent while recording) */
+  readonly outcome?: BattlePhase;
+
+  /** When the battle started */
+  readonly recordedAt: number;
+}
+
+/**
+ * Replay Event
+ *
+ * One input to the simulation. Consecutive ticks of the same length are
+ * stored once with a repeat count.
+ */
+export type ReplayEvent =
+  | { readonly type: 'tick'; readonly deltaMs: number; readonly count: number }
+  | { readonly type: 'retreat' };
+
+// ============================================================================
+// FORMATIONS
+// ============================================================================
+
+/**
+ * Formation Preset
+ *
+ * Built-in formations; their slots are laid out for the deployed squad size.
+ */
+export type FormationPresetId =
+  | 'line'
+  | 'staggered'
+  | 'wedge'
+  | 'column'
+  | 'box'
+  | 'pincer'
+  | 'rangedBehindTanks';
+
+/**
+ * Formation Slot
+ *
+ * Place on the deployment grid. Lanes run across the battlefield (0 is the
+ * center line, half lanes allowed); rows count back from the front (row 0
+ * leads the charge).
+ */
+export interface FormationSlot {
+  readonly lane: number;
+  readonly row: number;
+}
+
+/**
+ * Formation
+ *
+ * Deployment slot N (1-based) stands at slots[N - 1].
+ */
+export interface Formation {
+  /** Formation ID (preset ID or user-defined) */
+  readonly id: string;
+
+  /** Display name */
+  readonly name: string;
+
+  /** Grid place of each deployment slot, slot 1 first */
+  readonly slots: ReadonlyArray<FormationSlot>;
+
+  /**
+   * How units fill the slots: in deployment order ('slot', default) or by
+   * role, tanks first and ranged last ('role')
+   */
+  readonly ordering?: 'slot' | 'role';
+}
+
 // ============================================================================
 // DAMAGE CALCULATION
 // ============================================================================
@@ -566,6 +706,9 @@ export interface DamageCalculation {
   /** Damage type */
   readonly damageType: DamageType;
 
+  /** Did the attack connect? (false = missed or evaded) */
+  readonly isHit: boolean;
+
   /** Was this a critical hit? */
   readonly isCritical: boolean;
 
@@ -586,6 +729,9 @@ export interface DamageModifiers {
   /** Critical hit multiplier */
   readonly criticalMultiplier: number;
 
+  /** Defender resistance multiplier (1 = no resistance, 0 = immune) */
+  readonly resistanceMultiplier: number;
+
   /** Other modifiers */
   readonly other: number;
 }
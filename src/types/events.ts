@@ -5,10 +5,25 @@
  * Events are the primary mechanism for state transitions in the game.
  */
 
-import type { ZombieId, PlotId, BuildingId, LocationId, BattleId, Position } from './global';
+import type {
+  ZombieId,
+  PlotId,
+  BuildingId,
+  LocationId,
+  BattleId,
+  Position,
+  GameState,
+} from './global';
 import type { SeedType, Resource, Currency, Item } from './resources';
 import type { ZombieType, Building } from './farm';
-import type { BattleResult } from './combat';
+import type { FarmRaidReport } from './farm';
+import type {
+  BattleReplay,
+  BattleResult,
+  CombatState,
+  Formation,
+  FormationPresetId,
+} from './combat';
 
 /**
  * Game Event
@@ -31,8 +46,20 @@ export type FarmEvent =
   | { type: 'seed.planted'; payload: { plotId: PlotId; seedType: SeedType; timestamp: number } }
   | { type: 'plot.watered'; payload: { plotId: PlotId; timestamp: number } }
   | { type: 'plot.fertilized'; payload: { plotId: PlotId; timestamp: number } }
+  | {
+      type: 'plot.catalyzed';
+      payload: { plotId: PlotId; catalyst: Resource; timestamp: number };
+    }
   | { type: 'zombie.matured'; payload: { plotId: PlotId; zombieId: ZombieId; timestamp: number } }
-  | { type: 'zombie.harvested'; payload: { plotId: PlotId; zombieId: ZombieId; timestamp: number } }
+  | {
+      type: 'zombie.harvested';
+      payload: {
+        plotId: PlotId;
+        /** Harvested zombie (absent on the player's request; the harvest assigns it) */
+        zombieId?: ZombieId;
+        timestamp: number;
+      };
+    }
 
   // Zombie Management
   | { type: 'zombie.fed'; payload: { zombieId: ZombieId; foodItem: Resource; timestamp: number } }
@@ -41,15 +68,32 @@ export type FarmEvent =
   | { type: 'zombie.fromCrypt'; payload: { zombieId: ZombieId; timestamp: number } }
   | {
       type: 'zombie.command';
-      payload: { zombieId: ZombieId; command: string; targetPosition?: Position };
+      payload: {
+        zombieId: ZombieId;
+        command: string;
+        targetPosition?: Position;
+        timestamp: number;
+      };
     }
   | { type: 'zombie.died'; payload: { zombieId: ZombieId; reason: string; timestamp: number } }
+  | {
+      type: 'zombie.fused';
+      payload: {
+        zombieId: ZombieId;
+        partnerId: ZombieId;
+        fusedZombieId: ZombieId;
+        timestamp: number;
+      };
+    }
 
   // Zombie Progression
   | { type: 'zombie.levelUp'; payload: { zombieId: ZombieId; newLevel: number; timestamp: number } }
   | { type: 'zombie.mutated'; payload: { zombieId: ZombieId; mutation: string; timestamp: number } }
-  | { type: 'zombie.equipped'; payload: { zombieId: ZombieId; slot: string; itemId: string } }
-  | { type: 'zombie.unequipped'; payload: { zombieId: ZombieId; slot: string } }
+  | {
+      type: 'zombie.equipped';
+      payload: { zombieId: ZombieId; slot: string; itemId: string; timestamp: number };
+    }
+  | { type: 'zombie.unequipped'; payload: { zombieId: ZombieId; slot: string; timestamp: number } }
 
   // Building & Construction
   | {
@@ -84,6 +128,59 @@ export type FarmEvent =
       payload: { newLevel: number; newSize: { width: number; height: number }; timestamp: number };
     }
 
+  // Farm Raids
+  | { type: 'farm.raided'; payload: { report: FarmRaidReport; timestamp: number } }
+
+  // Mutation Lab
+  | {
+      type: 'mutationLab.started';
+      payload: {
+        buildingId: BuildingId;
+        zombieId: ZombieId;
+        catalyst: Resource;
+        targetMutation?: string;
+        timestamp: number;
+      };
+    }
+  | {
+      type: 'mutationLab.cancelled';
+      payload: { buildingId: BuildingId; zombieId: ZombieId; timestamp: number };
+    }
+  | {
+      type: 'mutationLab.completed';
+      payload: {
+        buildingId: BuildingId;
+        zombieId: ZombieId;
+        mutation: string | null;
+        timestamp: number;
+      };
+    }
+
+  // Crafting
+  | {
+      type: 'crafting.started';
+      payload: {
+        buildingId: BuildingId;
+        jobId: string;
+        recipeId: string;
+        quantity: number;
+        timestamp: number;
+      };
+    }
+  | {
+      type: 'crafting.cancelled';
+      payload: { buildingId: BuildingId; jobId: string; timestamp: number };
+    }
+  | {
+      type: 'crafting.completed';
+      payload: {
+        buildingId: BuildingId;
+        recipeId: string;
+        output: Partial<Record<Resource, number>>;
+        timestamp: number;
+      };
+    }
+
   // Time & Weather
   | { type: 'time.dayChanged'; payload: { newDay: number; timestamp: number } }
   | {
@@ -119,12 +216,26 @@ export type CombatEvent =
     }
   | {
       type: 'battle.squadSelected';
-      payload: { battleId: BattleId; zombieIds: ReadonlyArray<ZombieId> };
+      payload: {
+        battleId: BattleId;
+        /** Selected zombies in deployment order (slot 1 first) */
+        zombieIds: ReadonlyArray<ZombieId>;
+        /** Formation to deploy in (default: line) */
+        formation?: FormationPresetId | Formation;
+      };
     }
   | { type: 'battle.started'; payload: { battleId: BattleId; timestamp: number } }
+  | { type: 'battle.tick'; payload: { battleId: BattleId; deltaMs: number } }
+  | { type: 'battle.updated'; payload: { battleId: BattleId; state: CombatState } }
+  | { type: 'battle.retreatStarted'; payload: { battleId: BattleId; timestamp: number } }
   | {
       type: 'battle.ended';
-      payload: { battleId: BattleId; result: BattleResult; timestamp: number };
+      payload: {
+        battleId: BattleId;
+        result: BattleResult;
+        timestamp: number;
+        replay?: BattleReplay;
+      };
     }
   | {
       type: 'battle.retreated';
@@ -226,10 +337,15 @@ export type WorldEvent =
 export type SystemEvent =
   // Game Lifecycle
   | { type: 'game.started'; payload: { timestamp: number } }
-  | { type: 'game.loaded'; payload: { saveVersion: string; timestamp: number } }
+  | {
+      type: 'game.loaded';
+      /** state: the loaded save, caught up for time spent offline on load */
+      payload: { saveVersion: string; state?: GameState; timestamp: number };
+    }
   | { type: 'game.saved'; payload: { timestamp: number } }
   | { type: 'game.paused'; payload: { timestamp: number } }
   | { type: 'game.resumed'; payload: { timestamp: number } }
+  | { type: 'game.tick'; payload: { deltaMs: number; timestamp: number } }
   | { type: 'game.over'; payload: { reason: string; timestamp: number } }
 
   // Tutorial
@@ -248,12 +364,39 @@ export type SystemEvent =
   // Offline Progress
   | {
       type: 'offline.calculated';
-      payload: { timeAway: number; eventsProcessed: number; timestamp: number };
+      payload: {
+        timeAway: number;
+        eventsProcessed: number;
+        summary: OfflineSummary;
+        timestamp: number;
+      };
     }
 
   // Errors
   | { type: 'error.occurred'; payload: { errorType: string; message: string; timestamp: number } };
 
+/**
+ * Offline Summary
+ *
+ * "While you were away" report produced by the offline catch-up on load.
+ */
+export interface OfflineSummary {
+  /** Game days simulated (after the OFFLINE_PROGRESS_MAX_DAYS cap) */
+  readonly daysPassed: number;
+
+  /** Plots that finished growing */
+  readonly zombiesMatured: number;
+
+  /** Total stats lost to decay across active zombies */
+  readonly statsLost: { readonly maxHp: number; readonly attack: number; readonly defense: number };
+
+  /** Resources added to the inventory */
+  readonly resourcesAccumulated: Readonly<Partial<Record<Resource, number>>>;
+
+  /** Resource nodes that respawned or refilled */
+  readonly nodesReplenished: number;
+}
+
 // ============================================================================
 // UI EVENTS
 // ============================================================================
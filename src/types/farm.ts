@@ -6,7 +6,7 @@
  */
 
 import type { Position, ZombieId, PlotId, BuildingId } from './global';
-import type { SeedType, ResourceNode } from './resources';
+import type { Item, Resource, SeedType, ResourceNode } from './resources';
 
 /**
  * Farm State
@@ -37,6 +37,18 @@ export interface FarmState {
 
   /** Farm grid dimensions */
   readonly gridSize: { readonly width: number; readonly height: number };
+
+  /** Raid on its way to the farm (null or absent when none) */
+  readonly scheduledRaid?: ScheduledFarmRaid | null;
+
+  /** Report of the most recent raid on the farm */
+  readonly lastRaidReport?: FarmRaidReport;
+
+  /** Zombies queued or mutating in Mutation Labs, in queue order */
+  readonly mutationJobs?: ReadonlyArray<MutationJob>;
+
+  /** Crafts queued or running at crafting stations, in queue order */
+  readonly craftingJobs?: ReadonlyArray<CraftingJob>;
 }
 
 // ============================================================================
@@ -76,6 +88,9 @@ export interface Plot {
   /** Has been fertilized (boosts quality) */
   readonly isFertilized: boolean;
 
+  /** Mutation catalyst applied this planting (raises mutation chance) */
+  readonly catalyst?: Resource | null;
+
   /** Zombie ID (when ready to harvest) */
   readonly zombieId: ZombieId | null;
 }
@@ -135,7 +150,7 @@ export interface Zombie {
   /** Last time this zombie was pet */
   readonly lastPetAt: number | null;
 
-  /** Mutations (special traits) */
+  /** Mutation IDs (see gameConfig.MUTATIONS; older saves hold display names) */
   readonly mutations: ReadonlyArray<string>;
 
   /** Equipment/items (if any) */
@@ -149,6 +164,9 @@ export interface Zombie {
 
   /** Time when zombie was created */
   readonly createdAt: number;
+
+  /** Parents this zombie was fused from (fused zombies cannot be fused again) */
+  readonly lineage?: ZombieLineage | null;
 }
 
 /**
@@ -189,6 +207,28 @@ export enum ZombieQuality {
   DIAMOND = 'diamond', // 2.0x stats
 }
 
+/**
+ * Mutation Rarity
+ *
+ * How often a mutation is rolled once a zombie mutates.
+ */
+export enum MutationRarity {
+  COMMON = 'common', // Moderate stat boosts, simple effects
+  RARE = 'rare', // Significant changes
+  EPIC = 'epic', // Game-changing traits
+}
+
+/**
+ * Mutation Category
+ *
+ * Physical mutations alter the body and stats; ability mutations grant
+ * effects in battle or on the farm.
+ */
+export enum MutationCategory {
+  PHYSICAL = 'physical',
+  ABILITY = 'ability',
+}
+
 /**
  * Zombie Stats
  *
@@ -226,14 +266,45 @@ export interface ZombieStats {
  * Items equipped to the zombie.
  */
 export interface ZombieEquipment {
-  /** Weapon (boosts attack) */
+  /** Weapon item ID (boosts attack) */
   readonly weapon: string | null;
 
-  /** Armor (boosts defense) */
+  /** Armor item ID (boosts defense) */
   readonly armor: string | null;
 
-  /** Accessory (special effects) */
+  /** Accessory item ID (special effects) */
   readonly accessory: string | null;
+
+  /** Equipped items, moved out of Inventory.items while worn */
+  readonly items?: ReadonlyArray<Item>;
+}
+
+/**
+ * Equipment Slot
+ */
+export type EquipmentSlot = 'weapon' | 'armor' | 'accessory';
+
+/**
+ * Zombie Lineage
+ *
+ * Record of the two zombies consumed by a fusion.
+ */
+export interface ZombieLineage {
+  /** The fused parents */
+  readonly parents: readonly [ZombieParent, ZombieParent];
+
+  /** Time of the fusion */
+  readonly fusedAt: number;
+}
+
+/**
+ * A zombie consumed by a fusion
+ */
+export interface ZombieParent {
+  readonly id: ZombieId;
+  readonly type: ZombieType;
+  readonly name: string;
+  readonly quality: ZombieQuality;
 }
 
 /**
@@ -308,6 +379,7 @@ export enum BuildingType {
   TRAINING_DUMMY = 'trainingDummy', // Zombies train here for XP
   STITCHING_STATION = 'stitchingStation', // Heals injured zombies
   GUARD_TOWER = 'guardTower', // Defense against raids
+  MUTATION_LAB = 'mutationLab', // Forced mutations with catalysts
 
   // Decorations (boost happiness)
   BONFIRE = 'bonfire',
@@ -395,3 +467,122 @@ export interface HappinessFactor {
   readonly entertainment: number; // +5 if decorations nearby
   readonly injured: number; // -10 if below 50% HP
 }
+
+// ============================================================================
+// FARM RAIDS
+// ============================================================================
+
+/**
+ * Scheduled Farm Raid
+ *
+ * Human raiders due to attack the farm.
+ */
+export interface ScheduledFarmRaid {
+  /** Game day of the attack */
+  readonly day: number;
+
+  /** Hour of the attack (0-23) */
+  readonly hour: number;
+
+  /** Number of raiders */
+  readonly raiders: number;
+
+  /** Raid under a blood moon */
+  readonly isBloodMoon: boolean;
+}
+
+/**
+ * Farm Raid Report
+ *
+ * What happened when raiders attacked the farm.
+ */
+export interface FarmRaidReport {
+  /** Game day of the attack */
+  readonly day: number;
+
+  readonly isBloodMoon: boolean;
+
+  /** Raiders that attacked */
+  readonly raiders: number;
+
+  /** Raiders killed by the defenses */
+  readonly raidersKilled: number;
+
+  /** Raiders that got away with loot */
+  readonly raidersEscaped: number;
+
+  /** Resources carried off */
+  readonly stolen: Readonly<Partial<Record<Resource, number>>>;
+
+  /** Buildings left DAMAGED */
+  readonly damagedBuildingIds: ReadonlyArray<BuildingId>;
+
+  /** Guarding zombies destroyed (true death) */
+  readonly killedZombieIds: ReadonlyArray<ZombieId>;
+
+  /** Repelled: nothing stolen; plundered: raiders escaped with loot */
+  readonly outcome: 'repelled' | 'plundered';
+
+  /** When the raid was resolved */
+  readonly timestamp: number;
+}
+
+// ============================================================================
+// MUTATION LAB
+// ============================================================================
+
+/**
+ * Mutation Job
+ *
+ * A zombie in a Mutation Lab. The zombie is held by the job, out of the
+ * active roster, until the job completes or is cancelled.
+ */
+export interface MutationJob {
+  /** Lab running the job */
+  readonly buildingId: BuildingId;
+
+  /** Zombie in the chamber */
+  readonly zombie: Zombie;
+
+  /** Catalyst paid for the attempt */
+  readonly catalyst: Resource;
+
+  /** Mutation chosen with an Evolution Serum (null for random outcomes) */
+  readonly targetMutation: string | null;
+
+  /** Milliseconds until the job completes (counts down only while running) */
+  readonly remainingMs: number;
+
+  /** When the job was queued */
+  readonly queuedAt: number;
+}
+
+// ============================================================================
+// CRAFTING
+// ============================================================================
+
+/**
+ * Crafting Job
+ *
+ * A batch of one recipe queued at a crafting station. The batch's inputs
+ * are paid when it is queued; its crafts complete one after another.
+ */
+export interface CraftingJob {
+  /** Unique job ID */
+  readonly id: string;
+
+  /** Station running the job */
+  readonly buildingId: BuildingId;
+
+  /** Recipe ID (key in gameConfig.RECIPES) */
+  readonly recipeId: string;
+
+  /** Crafts left in the batch, including the one in progress */
+  readonly quantity: number;
+
+  /** Milliseconds of work left on the current craft, at level 1 speed */
+  readonly remainingMs: number;
+
+  /** When the job was queued */
+  readonly queuedAt: number;
+}
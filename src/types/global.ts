@@ -204,6 +204,12 @@ export interface SaveMetadata {
 
   /** Total play time in seconds */
   readonly totalPlayTime: number;
+
+  /** Seed of the game's random sequence (absent in saves from before seeded runs) */
+  readonly rngSeed?: number;
+
+  /** Current position in the random sequence */
+  readonly rngState?: number;
 }
 
 /**
@@ -90,6 +90,7 @@ export type {
   EnemyAIProfile,
   EnemyAbility,
   AbilityEffect,
+  AbilitySummon,
   Obstacle,
   TrapData,
   ActiveStatusEffect,
@@ -130,6 +131,7 @@ export type {
   EventListener,
   EventBus,
   EventMetadata,
+  OfflineSummary,
 } from './events';
 
 // ============================================================================
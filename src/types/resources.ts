@@ -33,6 +33,12 @@ export enum Resource {
   BONE_MEAL = 'boneMeal', // Processed bones, fertilizer
   EMBALMING_FLUID = 'embalmingFluid', // Reduces decay rate
   DARK_ESSENCE = 'darkEssence', // Crafted magical material
+
+  // Mutation Catalysts
+  RADIOACTIVE_WASTE = 'radioactiveWaste', // Drives physical mutations
+  CORRUPTED_DNA = 'corruptedDna', // Drives ability mutations
+  EVOLUTION_SERUM = 'evolutionSerum', // Targets a chosen mutation
+  PRIMAL_ESSENCE = 'primalEssence', // Drives epic mutations
 }
 
 /**
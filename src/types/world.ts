@@ -5,7 +5,7 @@
  */
 
 import type { LocationId, Position } from './global';
-import type { EnemyType } from './combat';
+import type { BattleReplay, EnemyType, Formation } from './combat';
 import type { ResourceReward } from './resources';
 
 /**
@@ -28,6 +28,12 @@ export interface WorldState {
 
   /** Unlocked region IDs */
   readonly unlockedRegions: ReadonlyArray<string>;
+
+  /** Recent battle replays per location, oldest first (capped by REPLAY_HISTORY_SIZE) */
+  readonly replays?: Readonly<Record<LocationId, ReadonlyArray<BattleReplay>>>;
+
+  /** User-defined formations per saved squad ID */
+  readonly squadFormations?: Readonly<Record<string, Formation>>;
 }
 
 /**
@@ -90,6 +96,12 @@ export interface Location {
   /** Time when location can be raided next */
   readonly nextRaidAvailable: number | null;
 
+  /** Times of recent victories here (diminish repeat rewards) */
+  readonly recentRaids?: ReadonlyArray<number>;
+
+  /** Major story location: conquered once, then permanently cleared */
+  readonly isStory?: boolean;
+
   /** Prerequisites to unlock this location */
   readonly prerequisites: LocationPrerequisites;
 